@@ -0,0 +1,6 @@
+import { LogFields } from '../../utils/logger';
+
+/** Parses the JSON records a mocked `context.log`, `warn` or `error` was called with. */
+export function logRecords(logMethod: unknown): LogFields[] {
+  return (logMethod as jest.Mock).mock.calls.map(([line]) => JSON.parse(line) as LogFields);
+}
@@ -35,6 +35,7 @@ describe('Order Processing Integration Tests', () => {
     };
 
     const mockRequest: HttpRequest = {
+      headers: new Headers(),
       json: jest.fn().mockResolvedValue(validOrder)
     } as any;
 
@@ -48,12 +49,14 @@ describe('Order Processing Integration Tests', () => {
     expect(result.jsonBody.message).toBe('Order processed successfully');
 
     // Assert: Check logging occurred
-    expect(mockContext.log).toHaveBeenCalledWith('Order processing started');
     expect(mockContext.log).toHaveBeenCalledWith(
-      expect.stringMatching(/Created order .+ for employee integration-test-emp/)
+      expect.stringContaining('"message":"Order processing started"')
     );
     expect(mockContext.log).toHaveBeenCalledWith(
-      expect.stringMatching(/Order .+ processed successfully in \d+ms/)
+      expect.stringMatching(/"message":"Created order [^"]+"/)
+    );
+    expect(mockContext.log).toHaveBeenCalledWith(
+      expect.stringMatching(/"message":"Order [^"]+ processed successfully in \d+ms"/)
     );
   }, 15000); // Longer timeout for integration test
 
@@ -70,6 +73,7 @@ describe('Order Processing Integration Tests', () => {
     };
 
     const mockRequest: HttpRequest = {
+      headers: new Headers(),
       json: jest.fn().mockResolvedValue(validOrder)
     } as any;
 
@@ -82,7 +86,7 @@ describe('Order Processing Integration Tests', () => {
 
     // Assert: Check error handling
     expect(result.status).toBe(500);
-    expect(result.jsonBody.success).toBe(false);
+    expect(result.jsonBody.status).toBe(500);
     expect(mockContext.error).toHaveBeenCalled();
 
     // Cleanup: Restore original connection
@@ -0,0 +1,92 @@
+import { processOrder } from '../../functions/processOrder';
+import { getOrder } from '../../functions/getOrder';
+import { listOrders } from '../../functions/listOrders';
+import { approveOrder } from '../../functions/orderDecision';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository } from '../../services/orderRepository';
+import { InMemoryOrderRepository } from '../../services/inMemoryOrderRepository';
+import { inProcessEventBus } from '../../services/inProcessEventBus';
+
+/**
+ * End-to-end tests against the in-memory order repository and the in-process
+ * event bus. These need no Azure services or emulators.
+ */
+describe('Offline Order Processing Integration Tests', () => {
+  let mockContext: InvocationContext;
+
+  beforeAll(() => {
+    process.env.ORDER_REPOSITORY = 'memory';
+    process.env.MESSAGING_TRANSPORT = 'inprocess';
+  });
+
+  afterAll(() => {
+    delete process.env.ORDER_REPOSITORY;
+    delete process.env.MESSAGING_TRANSPORT;
+  });
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    (createOrderRepository() as InMemoryOrderRepository).clear();
+    inProcessEventBus.clear();
+  });
+
+  it('should create, read, list and approve an order', async () => {
+    // Arrange: Valid order data
+    const validOrder = {
+      employeeId: 'offline-emp',
+      bikeModel: 'Offline Bike',
+      startDate: '2024-01-01T10:00:00Z',
+      endDate: '2024-01-07T10:00:00Z',
+      price: 149.99,
+      currency: 'EUR',
+      companyId: 'offline-company'
+    };
+
+    // Act: Create the order
+    const created = await processOrder({
+      headers: new Headers(),
+      json: jest.fn().mockResolvedValue(validOrder)
+    } as any as HttpRequest, mockContext);
+
+    // Assert: Order is created
+    expect(created.status).toBe(201);
+    const orderId = created.jsonBody.orderId;
+    const params = { companyId: 'offline-company', orderId };
+
+    // Act & Assert: Order can be read back
+    const fetched = await getOrder({ params } as any as HttpRequest, mockContext);
+    expect(fetched.status).toBe(200);
+    expect(fetched.jsonBody).toMatchObject({ id: orderId, status: 'PENDING' });
+
+    // Act & Assert: Order is listed as pending
+    const pending = await listOrders({
+      params,
+      query: new URLSearchParams({ status: 'PENDING' })
+    } as any as HttpRequest, mockContext);
+    expect(pending.jsonBody.orders.map((order) => order.id)).toEqual([orderId]);
+
+    // Act & Assert: Approving needs the version that was read
+    const approve = (ifMatch: string) => approveOrder({
+      params,
+      headers: new Headers({ 'If-Match': ifMatch }),
+      json: jest.fn().mockResolvedValue({ reason: 'Approved offline' })
+    } as any as HttpRequest, mockContext);
+    expect((await approve('"stale"')).status).toBe(412);
+    const approved = await approve(fetched.headers['ETag']);
+    expect(approved.status).toBe(200);
+
+    const refetched = await getOrder({ params } as any as HttpRequest, mockContext);
+    expect(refetched.jsonBody).toMatchObject({ status: 'APPROVED', decidedBy: 'anonymous', decisionReason: 'Approved offline' });
+
+    // Assert: Both events were published
+    expect(inProcessEventBus.messages('order-processing').map((message) => message.body))
+      .toEqual([expect.objectContaining({ orderId, status: 'PENDING' })]);
+    expect(inProcessEventBus.messages('order-status-changed').map((message) => message.body))
+      .toEqual([expect.objectContaining({ orderId, previousStatus: 'PENDING', status: 'APPROVED' })]);
+  });
+});
@@ -13,6 +13,8 @@ global.mockContext = {
 // Mock environment variables
 process.env.AzureWebJobsStorage = 'DefaultEndpointsProtocol=http;AccountName=devstoreaccount1;AccountKey=test;BlobEndpoint=http://127.0.0.1:10000/devstoreaccount1;';
 process.env.ServiceBusConnectionString = 'Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=test;SharedAccessKey=test';
+// Order endpoints skip token checks unless a test opts into AUTH_MODE=jwt
+process.env.AUTH_MODE = 'none';
 
 // Clear all mocks after each test
 afterEach(() => {
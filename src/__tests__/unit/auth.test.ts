@@ -0,0 +1,125 @@
+import { HttpRequest } from '@azure/functions';
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+import { authenticate, authorizeAdmin, authorizeEmployee, Caller } from '../../utils/auth';
+import { AuthenticationError, ForbiddenError } from '../../utils/errors';
+
+const SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+function createRequest(authorization?: string): HttpRequest {
+  return {
+    headers: new Headers(authorization ? { Authorization: authorization } : {})
+  } as any;
+}
+
+async function signToken(claims: Record<string, unknown>, expiresIn = '5m'): Promise<string> {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(new TextEncoder().encode(SECRET));
+}
+
+describe('auth', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.AUTH_MODE = 'jwt';
+    process.env.AUTH_JWT_SECRET = SECRET;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('authenticate', () => {
+    it('should map token claims to a caller', async () => {
+      // Arrange: Employee token
+      const token = await signToken({ sub: 'emp-123', company_id: 'company-123' });
+
+      // Act: Authenticate the request
+      const caller = await authenticate(createRequest(`Bearer ${token}`));
+
+      // Assert: Check the mapped caller
+      expect(caller).toEqual({
+        subject: 'emp-123',
+        role: 'employee',
+        companyId: 'company-123',
+        employeeId: 'emp-123'
+      });
+    });
+
+    it('should use the most privileged role and configured claim names', async () => {
+      // Arrange: Custom claim names and several roles
+      process.env.AUTH_ROLE_CLAIM = 'roles';
+      process.env.AUTH_COMPANY_CLAIM = 'tenant';
+      const token = await signToken({ sub: 'user-1', tenant: 'company-123', roles: ['employee', 'company_admin'] });
+
+      // Act: Authenticate the request
+      const caller = await authenticate(createRequest(`Bearer ${token}`));
+
+      // Assert: Check role and company
+      expect(caller.role).toBe('company_admin');
+      expect(caller.companyId).toBe('company-123');
+    });
+
+    it('should verify tokens against a local JWKS', async () => {
+      // Arrange: Key pair with the public key in AUTH_JWKS
+      delete process.env.AUTH_JWT_SECRET;
+      const { publicKey, privateKey } = await generateKeyPair('RS256');
+      process.env.AUTH_JWKS = JSON.stringify({ keys: [{ ...(await exportJWK(publicKey)), kid: 'key-1' }] });
+      process.env.AUTH_ISSUER = 'https://issuer.example';
+      const token = await new SignJWT({ role: 'platform_admin' })
+        .setProtectedHeader({ alg: 'RS256', kid: 'key-1' })
+        .setSubject('ops-1')
+        .setIssuer('https://issuer.example')
+        .setExpirationTime('5m')
+        .sign(privateKey);
+
+      // Act: Authenticate the request
+      const caller = await authenticate(createRequest(`Bearer ${token}`));
+
+      // Assert: Platform admins need no company
+      expect(caller).toMatchObject({ subject: 'ops-1', role: 'platform_admin', companyId: undefined });
+    });
+
+    it('should reject missing, tampered and expired tokens', async () => {
+      // Arrange: Valid and expired tokens
+      const token = await signToken({ sub: 'emp-123', company_id: 'company-123' });
+      const expired = await signToken({ sub: 'emp-123', company_id: 'company-123' }, '-1m');
+
+      // Act & Assert: Check each failure
+      await expect(authenticate(createRequest())).rejects.toThrow(new AuthenticationError('Bearer token is required'));
+      await expect(authenticate(createRequest(`Bearer ${token}x`))).rejects.toThrow('Bearer token is invalid');
+      await expect(authenticate(createRequest(`Bearer ${expired}`))).rejects.toThrow('Bearer token has expired');
+    });
+
+    it('should reject tokens not bound to a company', async () => {
+      // Arrange: Employee token without company claim
+      const token = await signToken({ sub: 'emp-123' });
+
+      // Act & Assert: Authenticated but not authorized
+      await expect(authenticate(createRequest(`Bearer ${token}`))).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('authorization', () => {
+    const employee: Caller = { subject: 'emp-123', role: 'employee', companyId: 'company-123', employeeId: 'emp-123' };
+    const companyAdmin: Caller = { subject: 'admin-1', role: 'company_admin', companyId: 'company-123' };
+    const platformAdmin: Caller = { subject: 'ops-1', role: 'platform_admin' };
+
+    it('should limit employees to their own orders', () => {
+      // Act & Assert: Own orders only
+      expect(() => authorizeEmployee(employee, 'company-123', 'emp-123')).not.toThrow();
+      expect(() => authorizeEmployee(employee, 'company-123', 'emp-456')).toThrow(ForbiddenError);
+      expect(() => authorizeAdmin(employee, 'company-123')).toThrow(ForbiddenError);
+    });
+
+    it('should limit company admins to their company', () => {
+      // Act & Assert: Any employee in the company, no other company
+      expect(() => authorizeEmployee(companyAdmin, 'company-123', 'emp-456')).not.toThrow();
+      expect(() => authorizeAdmin(companyAdmin, 'company-123')).not.toThrow();
+      expect(() => authorizeAdmin(companyAdmin, 'company-456')).toThrow(ForbiddenError);
+      expect(() => authorizeAdmin(platformAdmin, 'company-456')).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { getAvailability, getCatalog, putCatalog } from '../../functions/catalog';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { authenticate } from '../../utils/auth';
+import { AuthenticationError } from '../../utils/errors';
+
+// Mock the repository
+jest.mock('../../services/orderRepository');
+
+// Keep the authorization rules, stub out token verification
+jest.mock('../../utils/auth', () => ({
+  ...jest.requireActual('../../utils/auth'),
+  authenticate: jest.fn()
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('Catalog Functions', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  const storedCatalog = {
+    companyId: 'company-123',
+    models: [{ model: 'E-Bike', stock: 3 }],
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      initializeContainer: jest.fn().mockResolvedValue(undefined),
+      getCatalog: jest.fn().mockResolvedValue(storedCatalog),
+      storeCatalog: jest.fn().mockResolvedValue(undefined),
+      listOrderSummaries: jest.fn().mockResolvedValue({ summaries: [] }),
+      getReservations: jest.fn().mockResolvedValue([])
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (authenticate as jest.Mock).mockResolvedValue({ subject: 'admin-1', role: 'company_admin', companyId: 'company-123' });
+  });
+
+  describe('getCatalog', () => {
+    it('should return the company catalog', async () => {
+      // Act: Fetch the catalog
+      const result = await getCatalog({ params: { companyId: 'company-123' } } as any, mockContext);
+
+      // Assert: Check response
+      expect(result.status).toBe(200);
+      expect(result.jsonBody).toEqual(storedCatalog);
+    });
+
+    it('should return 404 when the company has no catalog', async () => {
+      // Arrange: No catalog stored
+      mockOrderRepository.getCatalog.mockResolvedValue(null);
+
+      // Act: Fetch the catalog
+      const result = await getCatalog({ params: { companyId: 'company-123' } } as any, mockContext);
+
+      // Assert: Check not found response
+      expect(result.status).toBe(404);
+      expect(result.jsonBody.code).toBe('CATALOG_NOT_FOUND');
+    });
+  });
+
+  describe('putCatalog', () => {
+    function createRequest(body: any): HttpRequest {
+      return {
+        params: { companyId: 'company-123' },
+        json: jest.fn().mockResolvedValue(body)
+      } as any;
+    }
+
+    it('should store a valid catalog', async () => {
+      // Act: Replace the catalog
+      const result = await putCatalog(createRequest({ models: [{ model: 'E-Bike', stock: 4 }] }), mockContext);
+
+      // Assert: Check it was stored for the route company
+      expect(result.status).toBe(200);
+      expect(mockOrderRepository.storeCatalog).toHaveBeenCalledWith(
+        expect.objectContaining({ companyId: 'company-123', models: [{ model: 'E-Bike', stock: 4 }] }),
+        mockContext
+      );
+    });
+
+    it('should reject negative stock and duplicate models', async () => {
+      // Act: Submit an invalid catalog
+      const result = await putCatalog(createRequest({
+        models: [{ model: 'E-Bike', stock: -1 }, { model: 'E-Bike', stock: 2 }]
+      }), mockContext);
+
+      // Assert: Check validation errors
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors).toEqual([
+        { path: 'models.0.stock', message: 'Stock cannot be negative', code: 'too_small' },
+        { path: 'models', message: 'Bike models must be unique', code: 'custom' }
+      ]);
+      expect(mockOrderRepository.storeCatalog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authorization', () => {
+    it('should reject requests without a bearer token', async () => {
+      // Arrange: Token verification fails
+      (authenticate as jest.Mock).mockRejectedValue(new AuthenticationError('Bearer token is required'));
+
+      // Act: Read and replace the catalog
+      const read = await getCatalog({ params: { companyId: 'company-123' } } as any, mockContext);
+      const replaced = await putCatalog({
+        params: { companyId: 'company-123' },
+        json: jest.fn().mockResolvedValue({ models: [{ model: 'E-Bike', stock: 4 }] })
+      } as any, mockContext);
+
+      // Assert: Check unauthorized responses
+      expect(read.status).toBe(401);
+      expect(replaced.status).toBe(401);
+      expect(replaced.jsonBody.code).toBe('UNAUTHENTICATED');
+      expect(mockOrderRepository.storeCatalog).not.toHaveBeenCalled();
+    });
+
+    it('should let employees read their company catalog but not replace it', async () => {
+      // Arrange: Employee caller
+      (authenticate as jest.Mock).mockResolvedValue({
+        subject: 'emp-1',
+        role: 'employee',
+        companyId: 'company-123',
+        employeeId: 'emp-1'
+      });
+
+      // Act: Read, replace, and read another company's catalog
+      const read = await getCatalog({ params: { companyId: 'company-123' } } as any, mockContext);
+      const replaced = await putCatalog({
+        params: { companyId: 'company-123' },
+        json: jest.fn().mockResolvedValue({ models: [{ model: 'E-Bike', stock: 99 }] })
+      } as any, mockContext);
+      const foreign = await getCatalog({ params: { companyId: 'company-999' } } as any, mockContext);
+
+      // Assert: Only the own company read goes through
+      expect(read.status).toBe(200);
+      expect(replaced.status).toBe(403);
+      expect(replaced.jsonBody.code).toBe('FORBIDDEN');
+      expect(foreign.status).toBe(403);
+      expect(mockOrderRepository.storeCatalog).not.toHaveBeenCalled();
+    });
+
+    it('should not let company admins replace another company\'s catalog', async () => {
+      // Act: Replace a foreign catalog
+      const result = await putCatalog({
+        params: { companyId: 'company-999' },
+        json: jest.fn().mockResolvedValue({ models: [{ model: 'E-Bike', stock: 4 }] })
+      } as any, mockContext);
+
+      // Assert: Check forbidden response
+      expect(result.status).toBe(403);
+      expect(mockOrderRepository.storeCatalog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAvailability', () => {
+    function createRequest(query: Record<string, string>): HttpRequest {
+      return {
+        params: { companyId: 'company-123' },
+        query: new URLSearchParams(query)
+      } as any;
+    }
+
+    it('should report availability for a model and period', async () => {
+      // Arrange: One overlapping booking
+      mockOrderRepository.listOrderSummaries.mockImplementation(async (companyId, options) => ({
+        summaries: options.status === 'PENDING' ? [{
+          id: 'order-1',
+          bikeModel: 'E-Bike',
+          status: 'PENDING',
+          startDate: '2024-03-01T00:00:00.000Z',
+          endDate: '2024-03-05T00:00:00.000Z'
+        } as any] : []
+      }));
+
+      // Act: Query availability
+      const result = await getAvailability(createRequest({
+        bikeModel: 'E-Bike',
+        startDate: '2024-03-02T00:00:00Z',
+        endDate: '2024-03-04T00:00:00Z'
+      }), mockContext);
+
+      // Assert: Check counts
+      expect(result.status).toBe(200);
+      expect(result.jsonBody).toMatchObject({ bikeModel: 'E-Bike', stock: 3, booked: 1, available: 2 });
+    });
+
+    it('should reject an invalid period', async () => {
+      // Act: Query with end before start
+      const result = await getAvailability(createRequest({
+        bikeModel: 'E-Bike',
+        startDate: '2024-03-04T00:00:00Z',
+        endDate: '2024-03-02T00:00:00Z'
+      }), mockContext);
+
+      // Assert: Check validation error
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors).toEqual([
+        { path: 'endDate', message: 'End date must be after start date', code: 'custom' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { CircuitBreaker } from '../../utils/circuitBreaker';
+import { ServiceUnavailableError } from '../../utils/errors';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker('order-storage', { failureThreshold: 3, resetTimeout: 10000 }, () => now);
+  });
+
+  function fail(times: number): void {
+    for (let i = 0; i < times; i++) {
+      breaker.assertCallAllowed();
+      breaker.recordFailure();
+    }
+  }
+
+  it('should open after consecutive failures and fail fast', () => {
+    // Act: Reach the failure threshold
+    fail(3);
+
+    // Assert: Calls are refused with the remaining wait
+    expect(breaker.getState()).toBe('OPEN');
+    now = 2500;
+    let refusal: unknown;
+    try {
+      breaker.assertCallAllowed();
+    } catch (error) {
+      refusal = error;
+    }
+    expect(refusal).toBeInstanceOf(ServiceUnavailableError);
+    expect(refusal).toMatchObject({ code: 'SERVICE_UNAVAILABLE', retryAfterSeconds: 8 });
+  });
+
+  it('should only count consecutive failures', () => {
+    // Act: Failures interrupted by a success
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    // Assert: Circuit stays closed
+    expect(breaker.getState()).toBe('CLOSED');
+  });
+
+  it('should let a single trial call through after the reset timeout', () => {
+    // Arrange: Open circuit whose timeout has passed
+    fail(3);
+    now = 10000;
+
+    // Act: First caller gets the trial, a concurrent one is refused
+    breaker.assertCallAllowed();
+
+    // Assert: Check half-open state
+    expect(breaker.getState()).toBe('HALF_OPEN');
+    expect(() => breaker.assertCallAllowed()).toThrow(ServiceUnavailableError);
+  });
+
+  it('should close after a successful trial and reopen after a failed one', () => {
+    // Arrange: Open circuit whose timeout has passed
+    fail(3);
+    now = 10000;
+
+    // Act & Assert: Failed trial reopens for another full timeout
+    breaker.assertCallAllowed();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('OPEN');
+    now = 15000;
+    expect(() => breaker.assertCallAllowed()).toThrow(ServiceUnavailableError);
+
+    // Act & Assert: Successful trial closes it
+    now = 20000;
+    breaker.assertCallAllowed();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('CLOSED');
+    expect(() => breaker.assertCallAllowed()).not.toThrow();
+  });
+});
@@ -0,0 +1,94 @@
+import { HttpResponseInit, InvocationContext } from '@azure/functions';
+import { correlateInvocation, getCorrelationId } from '../../utils/correlation';
+import { createOrderMessage, createStatusChangedMessage } from '../../services/orderMessages';
+import { createOutboxEntry } from '../../utils/orderFactory';
+
+describe('correlateInvocation', () => {
+  const httpContext = {
+    invocationId: 'invocation-1',
+    options: { trigger: { type: 'httpTrigger' } }
+  } as unknown as InvocationContext;
+
+  const order = {
+    schemaVersion: 2,
+    id: 'order-123',
+    employeeId: 'emp-123',
+    bikeModel: 'City Bike',
+    startDate: new Date('2024-01-01T10:00:00Z'),
+    endDate: new Date('2024-01-07T10:00:00Z'),
+    status: 'APPROVED' as const,
+    price: 99.5,
+    currency: 'EUR',
+    companyId: 'company-123',
+    accessories: [],
+    insurance: 'NONE' as const,
+    lineItems: [],
+    totals: { oneOff: 99.5, recurring: 0 },
+    deductionSchedule: { currency: 'EUR', total: 99.5, installments: [] },
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  function request(headers: Record<string, string>) {
+    return { headers: new Headers(headers) };
+  }
+
+  it('should accept the caller\'s correlation id and echo it', async () => {
+    // Act: Handle a request carrying x-correlation-id
+    let seen: string | undefined;
+    const response = await correlateInvocation(httpContext, request({ 'x-correlation-id': 'req-42' }), async (): Promise<HttpResponseInit> => {
+      seen = getCorrelationId();
+      return { status: 201, headers: { 'Idempotent-Replayed': 'true' }, jsonBody: { success: true } };
+    });
+
+    // Assert: Handler saw the id, response echoes it next to its own headers
+    expect(seen).toBe('req-42');
+    const headers = response.headers as Headers;
+    expect(headers.get('x-correlation-id')).toBe('req-42');
+    expect(headers.get('Idempotent-Replayed')).toBe('true');
+    expect(response.jsonBody).toEqual({ success: true });
+  });
+
+  it('should generate an id when none or an unusable one is sent', async () => {
+    // Act: Header with characters that do not belong in logs
+    const response = await correlateInvocation(
+      httpContext,
+      request({ 'x-correlation-id': 'bad id", "level": "error' }),
+      async (): Promise<HttpResponseInit> => ({ status: 200 })
+    );
+
+    // Assert: A fresh UUID is used instead
+    expect((response.headers as Headers).get('x-correlation-id')).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should continue the correlation id of a consumed message', async () => {
+    // Arrange: Service Bus trigger metadata
+    const consumerContext = {
+      invocationId: 'invocation-2',
+      options: { trigger: { type: 'serviceBusTrigger' } },
+      triggerMetadata: { correlationId: 'req-42' }
+    } as unknown as InvocationContext;
+
+    // Act: Publish a status change while consuming
+    const message = await correlateInvocation(consumerContext, {}, async () =>
+      createStatusChangedMessage(order, 'PENDING')
+    );
+
+    // Assert: The new message carries the same id
+    expect(message.correlationId).toBe('req-42');
+  });
+
+  it('should carry the correlation id into messages and outbox entries', async () => {
+    // Act: Create both inside a correlated request
+    const { message, entry } = await correlateInvocation(
+      httpContext,
+      request({ 'x-correlation-id': 'req-42' }),
+      async () => ({ message: createOrderMessage(order), entry: createOutboxEntry(order) })
+    );
+
+    // Assert: Both reference the request, outside one the old id is kept
+    expect(message.correlationId).toBe('req-42');
+    expect(entry.correlationId).toBe('req-42');
+    expect(createOrderMessage(order).correlationId).toBe('company-123-order-123');
+  });
+});
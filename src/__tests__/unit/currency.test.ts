@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { hasValidPrecision, isCurrencyCode, minorUnits, roundToMinorUnits } from '../../utils/currency';
+import { convertAmount, loadExchangeRates } from '../../utils/exchangeRates';
+import { ExchangeRateTable } from '../../types/Order';
+
+describe('currency', () => {
+  it('should only accept upper-case ISO 4217 codes', () => {
+    // Assert: Check known and unknown codes
+    expect(isCurrencyCode('EUR')).toBe(true);
+    expect(isCurrencyCode('usd')).toBe(false);
+    expect(isCurrencyCode('ABC')).toBe(false);
+  });
+
+  it('should know the minor units of each currency', () => {
+    // Assert: Check zero, two and three decimal currencies
+    expect(minorUnits('JPY')).toBe(0);
+    expect(minorUnits('EUR')).toBe(2);
+    expect(minorUnits('KWD')).toBe(3);
+    expect(roundToMinorUnits(1.005, 'EUR')).toBe(1.01);
+    expect(roundToMinorUnits(1234.5, 'JPY')).toBe(1235);
+  });
+
+  it('should reject amounts more precise than the currency', () => {
+    // Assert: Check precision per currency
+    expect(hasValidPrecision(19.99, 'EUR')).toBe(true);
+    expect(hasValidPrecision(19.999, 'EUR')).toBe(false);
+    expect(hasValidPrecision(19.999, 'KWD')).toBe(true);
+    expect(hasValidPrecision(1500.5, 'JPY')).toBe(false);
+  });
+});
+
+describe('exchangeRates', () => {
+  const table: ExchangeRateTable = {
+    base: 'EUR',
+    asOf: '2024-03-01T00:00:00Z',
+    rates: { USD: 1.08, JPY: 162.5 }
+  };
+
+  afterEach(() => {
+    delete process.env.EXCHANGE_RATES_PATH;
+  });
+
+  it('should convert through the base currency', () => {
+    // Act: Convert USD to JPY
+    const converted = convertAmount(108, 'USD', 'JPY', table);
+
+    // Assert: 108 USD = 100 EUR = 16250 JPY
+    expect(converted).toEqual({
+      amount: 16250,
+      currency: 'JPY',
+      exchangeRate: 150.462963,
+      ratesAsOf: '2024-03-01T00:00:00Z'
+    });
+  });
+
+  it('should not need a table for the same currency', () => {
+    // Act & Assert: Identity conversion
+    expect(convertAmount(42.5, 'EUR', 'EUR', null)).toEqual({ amount: 42.5, currency: 'EUR', exchangeRate: 1 });
+  });
+
+  it('should fail for currencies without a rate', () => {
+    // Act & Assert: Check error code
+    expect(() => convertAmount(10, 'GBP', 'EUR', table)).toThrow(
+      expect.objectContaining({ code: 'EXCHANGE_RATE_UNAVAILABLE', statusCode: 422 })
+    );
+  });
+
+  it('should load and validate the rate file', async () => {
+    // Arrange: Valid and invalid rate files
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rates-'));
+    try {
+      const validPath = path.join(dir, 'rates.json');
+      const invalidPath = path.join(dir, 'invalid.json');
+      await fs.writeFile(validPath, JSON.stringify(table));
+      await fs.writeFile(invalidPath, JSON.stringify({ base: 'EUR', rates: { usd: -1 } }));
+
+      // Act & Assert: No file configured
+      expect(loadExchangeRates()).toBeNull();
+
+      // Act & Assert: Valid file
+      process.env.EXCHANGE_RATES_PATH = validPath;
+      expect(loadExchangeRates()).toEqual(table);
+
+      // Act & Assert: Invalid file
+      process.env.EXCHANGE_RATES_PATH = invalidPath;
+      expect(() => loadExchangeRates()).toThrow(
+        expect.objectContaining({ code: 'EXCHANGE_RATE_CONFIG_ERROR' })
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
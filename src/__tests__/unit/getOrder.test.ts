@@ -0,0 +1,120 @@
+import { getOrder } from '../../functions/getOrder';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { ServiceUnavailableError } from '../../utils/errors';
+
+// Mock the order repository
+jest.mock('../../services/orderRepository');
+
+describe('getOrder Function', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  const storedOrder = {
+    id: 'order-123',
+    employeeId: 'emp-123',
+    bikeModel: 'City Bike',
+    startDate: '2024-01-01T10:00:00.000Z',
+    endDate: '2024-01-07T10:00:00.000Z',
+    status: 'PENDING',
+    price: 99.5,
+    currency: 'EUR',
+    companyId: 'company-123',
+    createdAt: '2023-12-20T08:00:00.000Z',
+    updatedAt: '2023-12-20T08:00:00.000Z',
+    etag: '"0x8DC1"'
+  };
+
+  beforeEach(() => {
+    mockContext = {
+      invocationId: 'invocation-123',
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      getOrder: jest.fn().mockResolvedValue(storedOrder)
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+  });
+
+  it('should return the stored order', async () => {
+    // Arrange: Request for an existing order
+    const mockRequest = {
+      params: { companyId: 'company-123', orderId: 'order-123' }
+    } as any as HttpRequest;
+
+    // Act: Fetch the order
+    const result = await getOrder(mockRequest, mockContext);
+
+    // Assert: Check response and lookup
+    expect(result.status).toBe(200);
+    expect(result.jsonBody).toEqual(storedOrder);
+    expect(result.headers).toEqual({ ETag: '"0x8DC1"' });
+    expect(mockOrderRepository.getOrder).toHaveBeenCalledWith('order-123', 'company-123');
+  });
+
+  it('should return 404 when the order does not exist', async () => {
+    // Arrange: Storage has no such order
+    mockOrderRepository.getOrder.mockResolvedValue(null);
+    const mockRequest = {
+      params: { companyId: 'company-123', orderId: 'missing' }
+    } as any as HttpRequest;
+
+    // Act: Fetch the order
+    const result = await getOrder(mockRequest, mockContext);
+
+    // Assert: Check not found response
+    expect(result.status).toBe(404);
+    expect(result.headers).toEqual({ 'Content-Type': 'application/problem+json' });
+    expect(result.jsonBody).toEqual({
+      type: 'urn:bike-orders:problem:order-not-found',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Order missing not found',
+      instance: 'urn:uuid:invocation-123',
+      code: 'ORDER_NOT_FOUND'
+    });
+  });
+
+  it('should keep the legacy error body for clients that prefer plain JSON', async () => {
+    // Arrange: Missing order, client asking for application/json
+    mockOrderRepository.getOrder.mockResolvedValue(null);
+    const mockRequest = {
+      params: { companyId: 'company-123', orderId: 'missing' },
+      headers: new Headers({ Accept: 'application/json, text/plain, */*' })
+    } as any as HttpRequest;
+
+    // Act: Fetch the order
+    const result = await getOrder(mockRequest, mockContext);
+
+    // Assert: Check legacy not found response
+    expect(result.status).toBe(404);
+    expect(result.headers).toBeUndefined();
+    expect(result.jsonBody).toEqual({
+      success: false,
+      message: 'Order missing not found',
+      code: 'ORDER_NOT_FOUND'
+    });
+  });
+
+  it('should answer 503 with Retry-After while storage is failing fast', async () => {
+    // Arrange: Storage circuit is open
+    mockOrderRepository.getOrder.mockRejectedValue(
+      new ServiceUnavailableError('order-storage is unavailable, failing fast', 12)
+    );
+    const mockRequest = {
+      params: { companyId: 'company-123', orderId: 'order-123' }
+    } as any as HttpRequest;
+
+    // Act: Fetch the order
+    const result = await getOrder(mockRequest, mockContext);
+
+    // Assert: Check service unavailable response
+    expect(result.status).toBe(503);
+    expect(result.headers).toEqual({ 'Retry-After': '12', 'Content-Type': 'application/problem+json' });
+    expect(result.jsonBody.code).toBe('SERVICE_UNAVAILABLE');
+  });
+});
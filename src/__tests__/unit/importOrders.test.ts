@@ -0,0 +1,268 @@
+import { importOrders } from '../../functions/importOrders';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../../services/orderEventPublisher';
+import { BikeReservation } from '../../types/Order';
+
+// Mock the repository and publisher
+jest.mock('../../services/orderRepository');
+jest.mock('../../services/orderEventPublisher');
+
+let orderCounter = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `order-${++orderCounter}`)
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('importOrders Function', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+  let mockEventPublisher: jest.Mocked<OrderEventPublisher>;
+
+  const validRow = {
+    employeeId: 'emp-1',
+    bikeModel: 'City Bike',
+    startDate: '2024-01-01T10:00:00Z',
+    endDate: '2024-01-07T10:00:00Z',
+    price: 120,
+    currency: 'EUR',
+    companyId: 'company-123'
+  };
+
+  function jsonRequest(body: any): HttpRequest {
+    return {
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: jest.fn().mockResolvedValue(body)
+    } as any;
+  }
+
+  function csvRequest(text: string): HttpRequest {
+    return {
+      headers: new Headers({ 'content-type': 'text/csv; charset=utf-8' }),
+      text: jest.fn().mockResolvedValue(text)
+    } as any;
+  }
+
+  beforeEach(() => {
+    orderCounter = 0;
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      initializeContainer: jest.fn().mockResolvedValue(undefined),
+      storeOrder: jest.fn().mockResolvedValue(undefined),
+      storeOutboxEntry: jest.fn().mockResolvedValue(undefined),
+      markOutboxEntryDispatched: jest.fn().mockResolvedValue(undefined),
+      getCatalog: jest.fn().mockResolvedValue(null),
+      getPolicy: jest.fn().mockResolvedValue(null),
+      listOrderSummaries: jest.fn().mockResolvedValue({ summaries: [] }),
+      updateReservations: jest.fn(async (companyId, bikeModel, update) => {
+        await update([]);
+      })
+    } as any;
+
+    mockEventPublisher = {
+      sendOrderMessages: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (createOrderEventPublisher as jest.Mock).mockReturnValue(mockEventPublisher);
+  });
+
+  afterEach(() => {
+    delete process.env.RATE_LIMITS;
+  });
+
+  it('should import every row of a valid JSON array', async () => {
+    // Act: Import two valid rows
+    const result = await importOrders(
+      jsonRequest([validRow, { ...validRow, employeeId: 'emp-2' }]),
+      mockContext
+    );
+
+    // Assert: Check created response and per-row results
+    expect(result.status).toBe(201);
+    expect(result.jsonBody).toEqual({
+      success: true,
+      total: 2,
+      succeeded: 2,
+      failed: 0,
+      results: [
+        { row: 1, success: true, orderId: 'order-1' },
+        { row: 2, success: true, orderId: 'order-2' }
+      ]
+    });
+
+    // Assert: Messages sent as one batch call, then outbox entries settled
+    expect(mockEventPublisher.sendOrderMessages).toHaveBeenCalledTimes(1);
+    expect(mockEventPublisher.sendOrderMessages.mock.calls[0][0].map((order) => order.id))
+      .toEqual(['order-1', 'order-2']);
+    expect(mockOrderRepository.markOutboxEntryDispatched).toHaveBeenCalledTimes(2);
+    expect(mockEventPublisher.close).toHaveBeenCalled();
+  });
+
+  it('should report invalid and failed rows with 207', async () => {
+    // Arrange: Second row invalid, third row fails to store
+    mockOrderRepository.storeOrder
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Failed to store order in storage'));
+
+    // Act: Import three rows
+    const result = await importOrders(
+      jsonRequest([validRow, { ...validRow, price: -5 }, { ...validRow, employeeId: 'emp-3' }]),
+      mockContext
+    );
+
+    // Assert: Check partial success report
+    expect(result.status).toBe(207);
+    expect(result.jsonBody).toMatchObject({ success: false, total: 3, succeeded: 1, failed: 2 });
+    expect(result.jsonBody.results).toEqual([
+      { row: 1, success: true, orderId: 'order-1' },
+      { row: 2, success: false, errors: ['price: Price must be positive'] },
+      { row: 3, success: false, errors: ['Failed to store order in storage'] }
+    ]);
+
+    // Assert: Only the stored order is published
+    expect(mockEventPublisher.sendOrderMessages.mock.calls[0][0]).toHaveLength(1);
+  });
+
+  it('should import CSV rows', async () => {
+    // Arrange: CSV with a quoted field and a trailing newline
+    const csv = [
+      'employeeId,bikeModel,startDate,endDate,price,currency,companyId',
+      'emp-1,"Cargo Bike, Long",2024-01-01T10:00:00Z,2024-01-07T10:00:00Z,250.5,EUR,company-123',
+      'emp-2,City Bike,2024-01-01T10:00:00Z,2024-01-07T10:00:00Z,abc,EUR,company-123',
+      ''
+    ].join('\r\n');
+
+    // Act: Import CSV
+    const result = await importOrders(csvRequest(csv), mockContext);
+
+    // Assert: First row stored with parsed values, second rejected
+    expect(result.status).toBe(207);
+    expect(mockOrderRepository.storeOrder.mock.calls[0][0]).toMatchObject({
+      bikeModel: 'Cargo Bike, Long',
+      price: 250.5
+    });
+    expect(result.jsonBody.results[1]).toEqual({
+      row: 2,
+      success: false,
+      errors: [expect.stringMatching(/^price: /)]
+    });
+  });
+
+  it('should price rows from the price list and reject mismatching prices', async () => {
+    // Arrange: 6-day rental at 20 EUR per day
+    mockOrderRepository.getCatalog.mockResolvedValue({
+      companyId: 'company-123',
+      models: [{ model: 'City Bike', stock: 10, dailyRate: 20 }],
+      pricing: { currency: 'EUR', taxRate: 0, discountTiers: [] },
+      updatedAt: new Date()
+    });
+    const { price, ...unpricedRow } = validRow;
+
+    // Act: Import one unpriced and one mispriced row
+    const result = await importOrders(jsonRequest([unpricedRow, { ...validRow, price: 99 }]), mockContext);
+
+    // Assert: First row priced, second rejected
+    expect(result.status).toBe(207);
+    expect(mockOrderRepository.storeOrder.mock.calls[0][0]).toMatchObject({ price: 120 });
+    expect(result.jsonBody.results[1]).toEqual({
+      row: 2,
+      success: false,
+      code: 'PRICE_MISMATCH',
+      errors: ['Submitted price 99 does not match the quoted price 120 EUR']
+    });
+  });
+
+  it('should fail rows that would overbook a model, counting rows of the same import', async () => {
+    // Arrange: One City Bike and one E-Bike; reservations are kept per model
+    const storedOrders: any[] = [];
+    mockOrderRepository.storeOrder.mockImplementation(async (order) => {
+      storedOrders.push(order);
+    });
+    const reservations = new Map<string, BikeReservation[]>();
+    mockOrderRepository.updateReservations.mockImplementation(async (companyId, bikeModel, update) => {
+      reservations.set(bikeModel, await update(reservations.get(bikeModel) || []));
+    });
+    mockOrderRepository.getCatalog.mockResolvedValue({
+      companyId: 'company-123',
+      models: [{ model: 'City Bike', stock: 1, dailyRate: 20 }, { model: 'E-Bike', stock: 1, dailyRate: 20 }],
+      pricing: { currency: 'EUR', taxRate: 0, discountTiers: [] },
+      updatedAt: new Date()
+    });
+
+    // Act: Two overlapping City Bike rows, a later City Bike row and an E-Bike row
+    const result = await importOrders(jsonRequest([
+      validRow,
+      { ...validRow, employeeId: 'emp-2' },
+      { ...validRow, employeeId: 'emp-3', startDate: '2024-02-01T10:00:00Z', endDate: '2024-02-07T10:00:00Z' },
+      { ...validRow, employeeId: 'emp-4', bikeModel: 'E-Bike' }
+    ]), mockContext);
+
+    // Assert: Only the second row overbooks
+    expect(result.status).toBe(207);
+    expect(result.jsonBody.results.map((row: any) => row.success)).toEqual([true, false, true, true]);
+    expect(result.jsonBody.results[1]).toEqual({
+      row: 2,
+      success: false,
+      code: 'BIKE_UNAVAILABLE',
+      errors: ['City Bike is not available between 2024-01-01T10:00:00Z and 2024-01-07T10:00:00Z']
+    });
+    expect(storedOrders.map((order) => order.employeeId).sort()).toEqual(['emp-1', 'emp-3', 'emp-4']);
+  });
+
+  it('should charge the rate limit per row and fail the rows over it', async () => {
+    // Arrange: Two orders per minute for the company
+    process.env.RATE_LIMITS = JSON.stringify({
+      companies: { 'company-import-limited': { requestsPerMinute: 2 } }
+    });
+    const row = { ...validRow, companyId: 'company-import-limited' };
+
+    // Act: Import three rows
+    const result = await importOrders(jsonRequest([row, row, row]), mockContext);
+
+    // Assert: The third row is limited, the first two stored
+    expect(result.status).toBe(207);
+    expect(result.jsonBody.succeeded).toBe(2);
+    expect(result.jsonBody.results[2]).toEqual({
+      row: 3,
+      success: false,
+      code: 'RATE_LIMITED',
+      errors: ['Too many orders for this company company-import-limited, retry in 30s']
+    });
+    expect(mockOrderRepository.storeOrder).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep stored orders when the batch send fails', async () => {
+    // Arrange: Service Bus down
+    mockEventPublisher.sendOrderMessages.mockRejectedValue(new Error('Service Bus unavailable'));
+
+    // Act: Import one row
+    const result = await importOrders(jsonRequest([validRow]), mockContext);
+
+    // Assert: Row succeeds, entry left for the relay
+    expect(result.status).toBe(201);
+    expect(mockOrderRepository.markOutboxEntryDispatched).not.toHaveBeenCalled();
+    expect(mockContext.warn).toHaveBeenCalled();
+  });
+
+  it('should reject payloads that are not a non-empty array', async () => {
+    // Act: Import an object and an empty array
+    const objectResult = await importOrders(jsonRequest(validRow), mockContext);
+    const emptyResult = await importOrders(jsonRequest([]), mockContext);
+
+    // Assert: Check validation errors
+    expect(objectResult.status).toBe(400);
+    expect(emptyResult.status).toBe(400);
+    expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { InventoryService } from '../../services/inventoryService';
+import { InMemoryOrderRepository } from '../../services/inMemoryOrderRepository';
+import { Order } from '../../types/Order';
+import { NotFoundError, OrderProcessingError, ValidationError } from '../../utils/errors';
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+function createBooking(id: string, startDate: string, endDate: string, overrides: Partial<Order> = {}): Order {
+  return {
+    schemaVersion: 2,
+    id,
+    employeeId: `emp-${id}`,
+    bikeModel: 'E-Bike',
+    startDate: new Date(startDate),
+    endDate: new Date(endDate),
+    status: 'APPROVED',
+    price: 120,
+    currency: 'EUR',
+    companyId: 'company-1',
+    accessories: [],
+    insurance: 'NONE',
+    lineItems: [],
+    totals: { oneOff: 120, recurring: 0 },
+    deductionSchedule: { currency: 'EUR', total: 120, installments: [] },
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('InventoryService', () => {
+  let repository: InMemoryOrderRepository;
+  let inventoryService: InventoryService;
+  let mockContext: any;
+
+  beforeEach(async () => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn()
+    };
+    repository = new InMemoryOrderRepository();
+    inventoryService = new InventoryService(repository);
+    await repository.storeCatalog({
+      companyId: 'company-1',
+      models: [{ model: 'E-Bike', stock: 2 }, { model: 'City Bike', stock: 5 }],
+      updatedAt: new Date()
+    }, mockContext);
+  });
+
+  it('should count the peak of overlapping bookings, not every booking', async () => {
+    // Arrange: Two bookings that overlap the range but not each other
+    await repository.storeOrder(createBooking('a', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z'), mockContext);
+    await repository.storeOrder(createBooking('b', '2024-03-05T00:00:00Z', '2024-03-09T00:00:00Z'), mockContext);
+
+    // Act: Check availability across both
+    const availability = await inventoryService.getAvailability(
+      'company-1', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-10T00:00:00Z', mockContext
+    );
+
+    // Assert: One bike covers both back-to-back rentals
+    expect(availability).toMatchObject({ stock: 2, booked: 1, available: 1 });
+  });
+
+  it('should ignore rejected orders, other models and other periods', async () => {
+    // Arrange: Bookings that do not compete
+    await repository.storeOrder(createBooking('a', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', { status: 'REJECTED' }), mockContext);
+    await repository.storeOrder(createBooking('b', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', { bikeModel: 'City Bike' }), mockContext);
+    await repository.storeOrder(createBooking('c', '2024-04-01T00:00:00Z', '2024-04-05T00:00:00Z'), mockContext);
+
+    // Act: Check availability
+    const availability = await inventoryService.getAvailability(
+      'company-1', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-10T00:00:00Z', mockContext
+    );
+
+    // Assert: Nothing booked
+    expect(availability.booked).toBe(0);
+  });
+
+  it('should refuse bookings beyond stock', async () => {
+    // Arrange: Both e-bikes booked for overlapping periods
+    await repository.storeOrder(createBooking('a', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z'), mockContext);
+    await repository.storeOrder(createBooking('b', '2024-03-03T00:00:00Z', '2024-03-08T00:00:00Z', { status: 'PENDING' }), mockContext);
+
+    // Act & Assert: Check conflict, then a later booking that fits
+    await expect(inventoryService.reserve(
+      'company-1', 'new-1', 'E-Bike', '2024-03-04T00:00:00Z', '2024-03-06T00:00:00Z', mockContext
+    )).rejects.toMatchObject({ code: 'BIKE_UNAVAILABLE', statusCode: 409 });
+    await expect(inventoryService.reserve(
+      'company-1', 'new-2', 'E-Bike', '2024-03-08T00:00:00Z', '2024-03-09T00:00:00Z', mockContext
+    )).resolves.toBeUndefined();
+  });
+
+  it('should not let concurrent bookings take the same last bike', async () => {
+    // Arrange: One of the two e-bikes is booked
+    await repository.storeOrder(createBooking('a', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z'), mockContext);
+
+    // Act: Two requests for the remaining bike at once, neither order stored yet
+    const results = await Promise.allSettled([
+      inventoryService.reserve('company-1', 'new-1', 'E-Bike', '2024-03-02T00:00:00Z', '2024-03-04T00:00:00Z', mockContext),
+      inventoryService.reserve('company-1', 'new-2', 'E-Bike', '2024-03-02T00:00:00Z', '2024-03-04T00:00:00Z', mockContext)
+    ]);
+
+    // Assert: The first holds the bike, the second is refused
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: { code: 'BIKE_UNAVAILABLE' } });
+    expect(await inventoryService.getAvailability(
+      'company-1', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', mockContext
+    )).toMatchObject({ booked: 2, available: 0 });
+  });
+
+  it('should count a reserved order once it is stored and let it move its own booking', async () => {
+    // Arrange: Both e-bikes reserved, one order already stored under its reservation
+    const stored = createBooking('a', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', { status: 'PENDING' });
+    await inventoryService.reserve('company-1', 'a', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', mockContext);
+    await repository.storeOrder(stored, mockContext);
+    await inventoryService.reserve('company-1', 'b', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', mockContext);
+
+    // Act: Order a moves by a day
+    const moved = inventoryService.reserve(
+      'company-1', 'a', 'E-Bike', '2024-03-02T00:00:00Z', '2024-03-06T00:00:00Z', mockContext
+    );
+
+    // Assert: Its old booking makes way; a third order still finds no bike
+    await expect(moved).resolves.toBeUndefined();
+    await expect(inventoryService.reserve(
+      'company-1', 'c', 'E-Bike', '2024-03-03T00:00:00Z', '2024-03-04T00:00:00Z', mockContext
+    )).rejects.toMatchObject({ code: 'BIKE_UNAVAILABLE' });
+  });
+
+  it('should let reservations lapse after a few minutes', async () => {
+    // Arrange: Both e-bikes were reserved ten minutes ago by orders never stored
+    const now = Date.now();
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now - 10 * 60 * 1000);
+    await inventoryService.reserve('company-1', 'lost-1', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', mockContext);
+    await inventoryService.reserve('company-1', 'lost-2', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', mockContext);
+    dateNow.mockReturnValue(now);
+
+    // Act: Book the same period
+    const reserved = inventoryService.reserve(
+      'company-1', 'new-1', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z', mockContext
+    );
+
+    // Assert: The lapsed reservations are dropped
+    await expect(reserved).resolves.toBeUndefined();
+    expect((await repository.getReservations('company-1', 'E-Bike')).map((reservation) => reservation.orderId))
+      .toEqual(['new-1']);
+    dateNow.mockRestore();
+  });
+
+  it('should only list summaries of orders that hold a bike', async () => {
+    // Arrange: A booked order; watch the listing
+    await repository.storeOrder(createBooking('a', '2024-03-01T00:00:00Z', '2024-03-05T00:00:00Z'), mockContext);
+    const listOrderSummaries = jest.spyOn(repository, 'listOrderSummaries');
+
+    // Act: Reserve a bike
+    await inventoryService.reserve('company-1', 'new-1', 'E-Bike', '2024-03-02T00:00:00Z', '2024-03-04T00:00:00Z', mockContext);
+
+    // Assert: Listed by status, so other orders are never read
+    expect(listOrderSummaries.mock.calls.map(([, options]) => options.status)).toEqual(['PENDING', 'APPROVED']);
+  });
+
+  it('should reject bike models missing from the catalog', async () => {
+    // Act & Assert: Check validation error
+    await expect(inventoryService.reserve(
+      'company-1', 'new-1', 'Tandem', '2024-03-01T00:00:00Z', '2024-03-02T00:00:00Z', mockContext
+    )).rejects.toThrow(ValidationError);
+  });
+
+  it('should only skip the check for companies without a catalog', async () => {
+    // Act & Assert: Booking is allowed, availability is unknown
+    await expect(inventoryService.reserve(
+      'company-2', 'new-1', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-02T00:00:00Z', mockContext
+    )).resolves.toBeUndefined();
+    await expect(inventoryService.getAvailability(
+      'company-2', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-02T00:00:00Z', mockContext
+    )).rejects.toThrow(NotFoundError);
+  });
+
+  it('should surface storage failures', async () => {
+    // Arrange: Listing fails
+    jest.spyOn(repository, 'listOrderSummaries').mockRejectedValue(
+      new OrderProcessingError('Failed to list orders from storage', 'STORAGE_ERROR')
+    );
+
+    // Act & Assert: Check error propagation, nothing reserved
+    await expect(inventoryService.reserve(
+      'company-1', 'new-1', 'E-Bike', '2024-03-01T00:00:00Z', '2024-03-02T00:00:00Z', mockContext
+    )).rejects.toMatchObject({ code: 'STORAGE_ERROR' });
+    expect(await repository.getReservations('company-1', 'E-Bike')).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { listOrders } from '../../functions/listOrders';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { authenticate } from '../../utils/auth';
+
+// Mock the order repository
+jest.mock('../../services/orderRepository');
+
+// Keep the authorization rules, stub out token verification
+jest.mock('../../utils/auth', () => ({
+  ...jest.requireActual('../../utils/auth'),
+  authenticate: jest.fn()
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('listOrders Function', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  function createRequest(query: Record<string, string> = {}): HttpRequest {
+    return {
+      params: { companyId: 'company-123' },
+      query: new URLSearchParams(query)
+    } as any;
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      listOrders: jest.fn().mockResolvedValue({
+        orders: [{ id: 'order-1' }],
+        continuationToken: 'next-page'
+      })
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (authenticate as jest.Mock).mockResolvedValue({ subject: 'admin-1', role: 'company_admin', companyId: 'company-123' });
+  });
+
+  it('should return a page of orders with its continuation token', async () => {
+    // Act: List orders without filters
+    const result = await listOrders(createRequest(), mockContext);
+
+    // Assert: Check response
+    expect(result.status).toBe(200);
+    expect(result.jsonBody).toEqual({
+      orders: [{ id: 'order-1' }],
+      continuationToken: 'next-page'
+    });
+    expect(mockOrderRepository.listOrders).toHaveBeenCalledWith('company-123', {
+      from: undefined,
+      to: undefined
+    });
+  });
+
+  it('should pass filters and pagination to storage', async () => {
+    // Arrange: Query with every supported filter
+    const request = createRequest({
+      status: 'APPROVED',
+      employeeId: 'emp-1',
+      from: '2024-01-01T00:00:00Z',
+      to: '2024-03-31T23:59:59Z',
+      continuationToken: 'token-1',
+      pageSize: '10'
+    });
+
+    // Act: List orders
+    await listOrders(request, mockContext);
+
+    // Assert: Check parsed options
+    expect(mockOrderRepository.listOrders).toHaveBeenCalledWith('company-123', {
+      status: 'APPROVED',
+      employeeId: 'emp-1',
+      from: new Date('2024-01-01T00:00:00Z'),
+      to: new Date('2024-03-31T23:59:59Z'),
+      continuationToken: 'token-1',
+      pageSize: 10
+    });
+  });
+
+  it('should reject invalid filters', async () => {
+    // Arrange: Unknown status and inverted date range
+    const request = createRequest({
+      status: 'SHIPPED',
+      from: '2024-03-01T00:00:00Z',
+      to: '2024-01-01T00:00:00Z'
+    });
+
+    // Act: List orders
+    const result = await listOrders(request, mockContext);
+
+    // Assert: Check validation error
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.detail).toBe('Invalid query parameters');
+    expect(result.jsonBody.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: 'status', code: 'invalid_enum_value' })
+    ]));
+    expect(mockOrderRepository.listOrders).not.toHaveBeenCalled();
+  });
+  it('should only list the calling employee\'s own orders', async () => {
+    // Arrange: Employee caller
+    (authenticate as jest.Mock).mockResolvedValue({
+      subject: 'emp-123',
+      role: 'employee',
+      companyId: 'company-123',
+      employeeId: 'emp-123'
+    });
+
+    // Act: List without a filter and for a colleague
+    const own = await listOrders(createRequest(), mockContext);
+    const colleague = await listOrders(createRequest({ employeeId: 'emp-456' }), mockContext);
+
+    // Assert: Filtered to the caller, colleague's orders forbidden
+    expect(own.status).toBe(200);
+    expect(mockOrderRepository.listOrders).toHaveBeenCalledWith('company-123', expect.objectContaining({
+      employeeId: 'emp-123'
+    }));
+    expect(colleague.status).toBe(403);
+  });
+
+  it('should not list orders of another company', async () => {
+    // Act: Admin of company-123 lists company-456
+    const request = { ...createRequest(), params: { companyId: 'company-456' } } as any;
+    const result = await listOrders(request, mockContext);
+
+    // Assert: Check forbidden response
+    expect(result.status).toBe(403);
+    expect(mockOrderRepository.listOrders).not.toHaveBeenCalled();
+  });
+});
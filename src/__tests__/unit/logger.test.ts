@@ -0,0 +1,112 @@
+import { InvocationContext } from '@azure/functions';
+import { createLogger, redactEmployeeId } from '../../utils/logger';
+import { runWithCorrelationId } from '../../utils/correlation';
+import { logRecords } from '../helpers/logRecords';
+
+describe('Logger', () => {
+  let mockContext: InvocationContext;
+
+  beforeEach(() => {
+    mockContext = {
+      invocationId: 'invocation-1',
+      functionName: 'processOrder',
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+  });
+
+  afterEach(() => {
+    delete process.env.LOG_EMPLOYEE_ID_REDACTION;
+  });
+
+  it('should write JSON records with invocation, correlation and bound fields', () => {
+    // Arrange: Logger bound to an order
+    const logger = createLogger(mockContext, { companyId: 'company-123' }).child({ orderId: 'order-123' });
+
+    // Act: Log inside a correlated request
+    runWithCorrelationId('request-42', () => logger.info('Order stored', { durationMs: 12 }));
+
+    // Assert: Check the record
+    const [record] = logRecords(mockContext.log);
+    expect(record).toEqual({
+      timestamp: expect.any(String),
+      level: 'info',
+      message: 'Order stored',
+      invocationId: 'invocation-1',
+      functionName: 'processOrder',
+      correlationId: 'request-42',
+      companyId: 'company-123',
+      orderId: 'order-123',
+      durationMs: 12
+    });
+  });
+
+  it('should route levels and serialize errors', () => {
+    // Act: Warn and fail
+    const logger = createLogger(mockContext);
+    logger.warn('Retrying');
+    logger.error('Upload failed', Object.assign(new Error('Timeout'), { code: 'ETIMEDOUT' }));
+
+    // Assert: Check each method received its record
+    expect(logRecords(mockContext.warn)[0]).toMatchObject({ level: 'warn', message: 'Retrying' });
+    expect(logRecords(mockContext.error)[0]).toMatchObject({
+      level: 'error',
+      message: 'Upload failed',
+      error: { name: 'Error', message: 'Timeout', code: 'ETIMEDOUT' }
+    });
+  });
+
+  it('should replace employee ids with a stable hash by default', () => {
+    // Act: Log the same employee twice
+    const logger = createLogger(mockContext);
+    logger.info('Created order', { employeeId: 'emp-123' });
+    logger.info('Created order', { employeeId: 'emp-123' });
+
+    // Assert: The raw id never appears, the pseudonym is stable
+    const [first, second] = logRecords(mockContext.log);
+    expect(first.employeeId).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(second.employeeId).toBe(first.employeeId);
+    expect((mockContext.log as jest.Mock).mock.calls[0][0]).not.toContain('emp-123');
+  });
+
+  it('should redact employee ids in nested fields and lists', () => {
+    // Act: Log an order and import results
+    process.env.LOG_EMPLOYEE_ID_REDACTION = 'mask';
+    createLogger(mockContext).info('Imported orders', {
+      order: { id: 'order-1', employeeId: 'emp-123', startDate: new Date('2024-01-01T00:00:00Z') },
+      results: [{ row: 1, employeeId: 'emp-456' }]
+    });
+
+    // Assert: Every level redacted, other values untouched
+    const [record] = logRecords(mockContext.log);
+    expect(record.order).toEqual({ id: 'order-1', employeeId: '[REDACTED]', startDate: '2024-01-01T00:00:00.000Z' });
+    expect(record.results).toEqual([{ row: 1, employeeId: '[REDACTED]' }]);
+  });
+
+  it('should redact who acted on an order like an employee id', () => {
+    // Act: Log a decision and a modification
+    process.env.LOG_EMPLOYEE_ID_REDACTION = 'mask';
+    const logger = createLogger(mockContext, { orderId: 'order-1' });
+    logger.info('Order order-1 moved from PENDING to CANCELLED', { decidedBy: 'emp-123' });
+    logger.info('Order order-1 modified', { modifiedBy: 'emp-123' });
+
+    // Assert: Actor fields redacted, bound fields kept
+    const [decided, modified] = logRecords(mockContext.log);
+    expect(decided).toMatchObject({ orderId: 'order-1', decidedBy: '[REDACTED]' });
+    expect(modified).toMatchObject({ orderId: 'order-1', modifiedBy: '[REDACTED]' });
+  });
+
+  it('should mask or keep employee ids as configured', () => {
+    // Act & Assert: Masked
+    process.env.LOG_EMPLOYEE_ID_REDACTION = 'mask';
+    createLogger(mockContext, { employeeId: 'emp-123' }).info('Created order');
+    expect(logRecords(mockContext.log)[0].employeeId).toBe('[REDACTED]');
+
+    // Act & Assert: Kept
+    process.env.LOG_EMPLOYEE_ID_REDACTION = 'none';
+    createLogger(mockContext, { employeeId: 'emp-123' }).info('Created order');
+    expect(logRecords(mockContext.log)[1].employeeId).toBe('emp-123');
+    expect(redactEmployeeId('emp-123', 'mask')).toBe('[REDACTED]');
+  });
+});
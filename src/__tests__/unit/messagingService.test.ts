@@ -2,6 +2,7 @@ import { MessagingService } from '../../services/messagingService';
 import { ServiceBusClient } from '@azure/service-bus';
 import { Order } from '../../types/Order';
 import { OrderProcessingError } from '../../utils/errors';
+import { logRecords } from '../helpers/logRecords';
 
 // Mock Azure Service Bus SDK
 jest.mock('@azure/service-bus');
@@ -16,6 +17,7 @@ describe('MessagingService', () => {
     // Setup mocks
     mockSender = {
       sendMessages: jest.fn().mockResolvedValue({}),
+      createMessageBatch: jest.fn(),
       close: jest.fn().mockResolvedValue({})
     };
 
@@ -54,6 +56,7 @@ describe('MessagingService', () => {
     it('should send order message successfully', async () => {
       // Arrange: Test order
       const testOrder: Order = {
+        schemaVersion: 2,
         id: 'test-order-123',
         employeeId: 'emp-456',
         bikeModel: 'Test Bike',
@@ -63,6 +66,11 @@ describe('MessagingService', () => {
         price: 199.99,
         currency: 'EUR',
         companyId: 'test-company-456',
+        accessories: [],
+        insurance: 'NONE',
+        lineItems: [],
+        totals: { oneOff: 199.99, recurring: 0 },
+        deductionSchedule: { currency: 'EUR', total: 199.99, installments: [] },
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -82,7 +90,9 @@ describe('MessagingService', () => {
           employeeId: 'emp-456',
           status: 'PENDING',
           price: 199.99,
-          currency: 'EUR'
+          currency: 'EUR',
+          lineItems: [],
+          totals: { oneOff: 199.99, recurring: 0 }
         },
         messageId: 'test-order-123',
         correlationId: 'test-company-456-test-order-123',
@@ -90,12 +100,17 @@ describe('MessagingService', () => {
       });
 
       // Assert: Check logging
-      expect(mockContext.log).toHaveBeenCalledWith('Order message sent to Service Bus for order test-order-123');
+      expect(logRecords(mockContext.log)[0]).toMatchObject({
+        message: 'Order message sent to Service Bus for order test-order-123',
+        orderId: 'test-order-123',
+        companyId: 'test-company-456'
+      });
     });
 
     it('should handle message sending failure', async () => {
       // Arrange: Test order and mock failure
       const testOrder: Order = {
+        schemaVersion: 2,
         id: 'test-order-123',
         employeeId: 'emp-456',
         bikeModel: 'Test Bike',
@@ -105,6 +120,11 @@ describe('MessagingService', () => {
         price: 199.99,
         currency: 'EUR',
         companyId: 'test-company-456',
+        accessories: [],
+        insurance: 'NONE',
+        lineItems: [],
+        totals: { oneOff: 199.99, recurring: 0 },
+        deductionSchedule: { currency: 'EUR', total: 199.99, installments: [] },
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -113,7 +133,158 @@ describe('MessagingService', () => {
 
       // Act & Assert: Check error handling
       await expect(messagingService.sendOrderMessage(testOrder, mockContext)).rejects.toThrow(OrderProcessingError);
-      expect(mockContext.error).toHaveBeenCalledWith('Failed to send message to Service Bus:', expect.any(Error));
+      expect(logRecords(mockContext.error)[0]).toMatchObject({
+        message: 'Failed to send message to Service Bus',
+        error: { message: 'Service Bus unavailable' }
+      });
+    });
+  });
+
+  describe('sendOrderMessages', () => {
+    function createOrder(id: string): Order {
+      return {
+        schemaVersion: 2,
+        id,
+        employeeId: 'emp-456',
+        bikeModel: 'Test Bike',
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2024-01-07'),
+        status: 'PENDING',
+        price: 199.99,
+        currency: 'EUR',
+        companyId: 'test-company-456',
+        accessories: [],
+        insurance: 'NONE',
+        lineItems: [],
+        totals: { oneOff: 199.99, recurring: 0 },
+        deductionSchedule: { currency: 'EUR', total: 199.99, installments: [] },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    }
+
+    function createBatch(capacity: number) {
+      const messages: any[] = [];
+      return {
+        messages,
+        get count() { return messages.length; },
+        tryAddMessage: jest.fn((message) => {
+          if (messages.length >= capacity) {
+            return false;
+          }
+          messages.push(message);
+          return true;
+        })
+      };
+    }
+
+    it('should split messages across batches when one fills up', async () => {
+      // Arrange: Batches hold two messages each
+      const batches = [createBatch(2), createBatch(2)];
+      mockSender.createMessageBatch
+        .mockResolvedValueOnce(batches[0])
+        .mockResolvedValueOnce(batches[1]);
+
+      // Act: Send three order messages
+      await messagingService.sendOrderMessages(
+        [createOrder('order-1'), createOrder('order-2'), createOrder('order-3')],
+        mockContext
+      );
+
+      // Assert: Two batches sent with the messages in order
+      expect(mockSender.sendMessages).toHaveBeenCalledTimes(2);
+      expect(batches[0].messages.map((message) => message.messageId)).toEqual(['order-1', 'order-2']);
+      expect(batches[1].messages.map((message) => message.messageId)).toEqual(['order-3']);
+      expect(logRecords(mockContext.log)[0].message).toBe('3 order messages sent to Service Bus in 2 batches');
+    });
+
+    it('should fail when a single message does not fit an empty batch', async () => {
+      // Arrange: Batches that accept nothing
+      mockSender.createMessageBatch.mockResolvedValue(createBatch(0));
+
+      // Act & Assert: Check error handling
+      await expect(messagingService.sendOrderMessages([createOrder('order-1')], mockContext))
+        .rejects.toThrow(OrderProcessingError);
+      expect(mockSender.sendMessages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendStatusChangedMessage', () => {
+    it('should send status change message successfully', async () => {
+      // Arrange: Approved order
+      const decidedAt = new Date('2024-01-02T12:00:00Z');
+      const testOrder: Order = {
+        schemaVersion: 2,
+        id: 'test-order-123',
+        employeeId: 'emp-456',
+        bikeModel: 'Test Bike',
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2024-01-07'),
+        status: 'APPROVED',
+        price: 199.99,
+        currency: 'EUR',
+        companyId: 'test-company-456',
+        accessories: [],
+        insurance: 'NONE',
+        lineItems: [],
+        totals: { oneOff: 199.99, recurring: 0 },
+        deductionSchedule: { currency: 'EUR', total: 199.99, installments: [] },
+        createdAt: new Date(),
+        updatedAt: decidedAt,
+        decidedBy: 'manager-1',
+        decidedAt
+      };
+
+      // Act: Send message
+      await messagingService.sendStatusChangedMessage(testOrder, 'PENDING', mockContext);
+
+      // Assert: Check message structure
+      expect(mockSender.sendMessages).toHaveBeenCalledWith({
+        body: {
+          orderId: 'test-order-123',
+          companyId: 'test-company-456',
+          employeeId: 'emp-456',
+          previousStatus: 'PENDING',
+          status: 'APPROVED',
+          decidedBy: 'manager-1',
+          reason: undefined,
+          decidedAt
+        },
+        messageId: 'test-order-123-APPROVED',
+        correlationId: 'test-company-456-test-order-123',
+        subject: 'OrderStatusChanged',
+        contentType: 'application/json'
+      });
+    });
+  });
+
+  describe('sendDeadLetterMessage', () => {
+    it('should send the original message with the dead-letter reason', async () => {
+      // Arrange: Context with warn logging
+      mockContext.warn = jest.fn();
+
+      // Act: Dead-letter a malformed message
+      await messagingService.sendDeadLetterMessage({
+        originalMessage: { foo: 'bar' },
+        originalMessageId: 'msg-1',
+        reason: 'VALIDATION_ERROR',
+        description: 'Order message is malformed'
+      }, mockContext);
+
+      // Assert: Check message structure
+      expect(mockSender.sendMessages).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.objectContaining({
+          originalMessage: { foo: 'bar' },
+          reason: 'VALIDATION_ERROR'
+        }),
+        messageId: 'msg-1-deadletter',
+        correlationId: 'msg-1',
+        subject: 'DeadLetteredOrderMessage',
+        applicationProperties: {
+          DeadLetterReason: 'VALIDATION_ERROR',
+          DeadLetterErrorDescription: 'Order message is malformed'
+        }
+      }));
     });
   });
 
@@ -0,0 +1,319 @@
+import { modifyOrder } from '../../functions/modifyOrder';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { authenticate } from '../../utils/auth';
+
+// Mock the order repository
+jest.mock('../../services/orderRepository');
+
+// Keep the authorization rules, stub out token verification
+jest.mock('../../utils/auth', () => ({
+  ...jest.requireActual('../../utils/auth'),
+  authenticate: jest.fn()
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('modifyOrder Function', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  function createRequest(body: any, headers: Record<string, string> = { 'If-Match': '"v1"' }): HttpRequest {
+    return {
+      params: { companyId: 'company-123', orderId: 'order-123' },
+      headers: new Headers(headers),
+      json: jest.fn().mockResolvedValue(body)
+    } as any;
+  }
+
+  function storedOrder(status = 'PENDING') {
+    return {
+      schemaVersion: 4,
+      id: 'order-123',
+      employeeId: 'emp-123',
+      bikeModel: 'City Bike',
+      startDate: '2024-01-01T10:00:00.000Z',
+      endDate: '2024-01-07T10:00:00.000Z',
+      status,
+      price: 99.5,
+      currency: 'EUR',
+      companyId: 'company-123',
+      accessories: [],
+      insurance: 'NONE',
+      lineItems: [],
+      totals: { oneOff: 99.5, recurring: 0 },
+      deductionSchedule: {
+        currency: 'EUR',
+        total: 99.5,
+        installments: [{ number: 1, period: '2024-01', principal: 99.5, recurring: 0, amount: 99.5 }]
+      },
+      createdAt: '2023-12-20T08:00:00.000Z',
+      updatedAt: '2023-12-20T08:00:00.000Z',
+      etag: '"v1"'
+    };
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      getOrder: jest.fn().mockResolvedValue(storedOrder()),
+      updateOrder: jest.fn().mockResolvedValue('"v2"'),
+      appendOrderHistory: jest.fn().mockResolvedValue(undefined),
+      getCatalog: jest.fn().mockResolvedValue(null),
+      getPolicy: jest.fn().mockResolvedValue(null),
+      listOrderSummaries: jest.fn().mockResolvedValue({ summaries: [] }),
+      updateReservations: jest.fn(async (companyId, bikeModel, update) => {
+        await update([]);
+      })
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (authenticate as jest.Mock).mockResolvedValue({
+      subject: 'emp-123',
+      role: 'employee',
+      companyId: 'company-123',
+      employeeId: 'emp-123'
+    });
+  });
+
+  it('should move the rental dates and keep the price without a price list', async () => {
+    // Act: Extend the rental by a day
+    const result = await modifyOrder(
+      createRequest({ endDate: '2024-01-08T10:00:00Z' }),
+      mockContext
+    );
+
+    // Assert: Check the stored order
+    expect(result.status).toBe(200);
+    const savedOrder = mockOrderRepository.updateOrder.mock.calls[0][0];
+    expect(savedOrder).toMatchObject({
+      id: 'order-123',
+      status: 'PENDING',
+      price: 99.5,
+      currency: 'EUR',
+      normalizedPrice: { amount: 99.5, currency: 'EUR', exchangeRate: 1 }
+    });
+    expect(savedOrder.endDate).toEqual(new Date('2024-01-08T10:00:00Z'));
+
+    // Assert: Check the history entry lists only the changed fields
+    const [, , entry] = mockOrderRepository.appendOrderHistory.mock.calls[0];
+    expect(entry.action).toBe('MODIFIED');
+    expect(entry.changedBy).toBe('emp-123');
+    expect(Object.keys(entry.changes).sort()).toEqual(['endDate', 'normalizedPrice']);
+    expect(entry.changes.endDate).toEqual({
+      before: '2024-01-07T10:00:00.000Z',
+      after: '2024-01-08T10:00:00.000Z'
+    });
+  });
+
+  it('should re-quote the order from the price list', async () => {
+    // Arrange: Company prices City Bikes at 10 EUR a day
+    mockOrderRepository.getCatalog.mockResolvedValue({
+      companyId: 'company-123',
+      models: [{ model: 'City Bike', stock: 5, dailyRate: 10 }],
+      pricing: { currency: 'EUR', taxRate: 0, discountTiers: [] },
+      updatedAt: new Date()
+    });
+
+    // Act: Extend the rental to ten days
+    const result = await modifyOrder(
+      createRequest({ endDate: '2024-01-11T10:00:00Z' }),
+      mockContext
+    );
+
+    // Assert: Check the new price
+    expect(result.status).toBe(200);
+    expect(mockOrderRepository.updateOrder.mock.calls[0][0].price).toBe(100);
+  });
+
+  it('should re-quote line items from the price list with the bike', async () => {
+    // Arrange: Helmet bought at an old price, now listed at 25 EUR
+    mockOrderRepository.getOrder.mockResolvedValue({
+      ...storedOrder(),
+      lineItems: [{ sku: 'HELMET', quantity: 2, unitPrice: 30, billing: 'ONE_OFF', total: 60 }],
+      totals: { oneOff: 159.5, recurring: 0 }
+    } as any);
+    mockOrderRepository.getCatalog.mockResolvedValue({
+      companyId: 'company-123',
+      models: [{ model: 'City Bike', stock: 5, dailyRate: 10 }],
+      pricing: {
+        currency: 'EUR',
+        taxRate: 0,
+        discountTiers: [],
+        addOns: [{ sku: 'HELMET', billing: 'ONE_OFF', unitPrice: 25 }]
+      },
+      updatedAt: new Date()
+    });
+
+    // Act: Extend the rental to ten days
+    const result = await modifyOrder(
+      createRequest({ endDate: '2024-01-11T10:00:00Z' }),
+      mockContext
+    );
+
+    // Assert: Current prices for the bike and the helmets
+    expect(result.status).toBe(200);
+    const savedOrder = mockOrderRepository.updateOrder.mock.calls[0][0];
+    expect(savedOrder.lineItems).toEqual([
+      { sku: 'HELMET', quantity: 2, unitPrice: 25, billing: 'ONE_OFF', total: 50 }
+    ]);
+    expect(savedOrder.totals).toEqual({ oneOff: 150, recurring: 0 });
+  });
+
+  it('should re-total line items with the new price and keep their currency', async () => {
+    // Arrange: Order with a one-off helmet
+    mockOrderRepository.getOrder.mockResolvedValue({
+      ...storedOrder(),
+      lineItems: [{ sku: 'HELMET', quantity: 1, unitPrice: 30, billing: 'ONE_OFF', total: 30 }],
+      totals: { oneOff: 129.5, recurring: 0 }
+    } as any);
+
+    // Act: Change the price, then try another currency
+    const repriced = await modifyOrder(createRequest({ price: 120 }), mockContext);
+    const converted = await modifyOrder(
+      createRequest({ price: 130, currency: 'USD' }),
+      mockContext
+    );
+
+    // Assert: Totals and deductions follow the price; the currency cannot change
+    expect(repriced.status).toBe(200);
+    expect(mockOrderRepository.updateOrder.mock.calls[0][0].totals).toEqual({ oneOff: 150, recurring: 0 });
+    expect(mockOrderRepository.updateOrder.mock.calls[0][0].deductionSchedule.installments).toEqual([
+      { number: 1, period: '2024-01', principal: 150, recurring: 0, amount: 150 }
+    ]);
+    expect(converted.status).toBe(400);
+    expect(converted.jsonBody.errors).toEqual([
+      { path: 'currency', message: 'Currency cannot change on an order with line items', code: 'custom' }
+    ]);
+    expect(mockOrderRepository.updateOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not count the order against its own availability', async () => {
+    // Arrange: Only one City Bike, booked by this very order
+    mockOrderRepository.getCatalog.mockResolvedValue({
+      companyId: 'company-123',
+      models: [{ model: 'City Bike', stock: 1, dailyRate: 10 }],
+      pricing: { currency: 'EUR', taxRate: 0, discountTiers: [] },
+      updatedAt: new Date()
+    });
+    mockOrderRepository.listOrderSummaries.mockImplementation(async (companyId, options) => ({
+      summaries: options.status === 'PENDING' ? [storedOrder() as any] : []
+    }));
+    const reservation = {
+      orderId: 'order-123',
+      startDate: '2024-01-01T10:00:00.000Z',
+      endDate: '2024-01-07T10:00:00.000Z',
+      reservedAt: new Date().toISOString()
+    };
+    let reservations = [];
+    mockOrderRepository.updateReservations.mockImplementation(async (companyId, bikeModel, update) => {
+      reservations = await update([reservation]);
+    });
+
+    // Act: Move the rental by a day
+    const result = await modifyOrder(
+      createRequest({ startDate: '2024-01-02T10:00:00Z' }),
+      mockContext
+    );
+
+    // Assert: Check the change went through and the booking moved
+    expect(result.status).toBe(200);
+    expect(reservations).toEqual([expect.objectContaining({
+      orderId: 'order-123',
+      startDate: '2024-01-02T10:00:00Z'
+    })]);
+  });
+
+  it('should reject an end date before the stored start date', async () => {
+    // Act: Move the end date before the start
+    const result = await modifyOrder(
+      createRequest({ endDate: '2023-12-31T10:00:00Z' }),
+      mockContext
+    );
+
+    // Assert: Check validation error
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.errors).toEqual([
+      { path: 'endDate', message: 'End date must be after start date', code: 'custom' }
+    ]);
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it('should require at least one field to change', async () => {
+    // Act: Send no changes
+    const result = await modifyOrder(createRequest({}), mockContext);
+
+    // Assert: Check validation error
+    expect(result.status).toBe(400);
+    expect(mockOrderRepository.getOrder).not.toHaveBeenCalled();
+  });
+
+  it('should reject fields that cannot be changed', async () => {
+    // Act: Try to change the status, then to name someone else as the modifier
+    const result = await modifyOrder(
+      createRequest({ status: 'APPROVED' }),
+      mockContext
+    );
+    const impersonated = await modifyOrder(
+      createRequest({ modifiedBy: 'emp-999', endDate: '2024-01-08T10:00:00Z' }),
+      mockContext
+    );
+
+    // Assert: Check validation errors
+    expect(result.status).toBe(400);
+    expect(impersonated.status).toBe(400);
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to modify an order that is no longer pending', async () => {
+    // Arrange: Order was already approved
+    mockOrderRepository.getOrder.mockResolvedValue(storedOrder('APPROVED') as any);
+
+    // Act: Change the bike model
+    const result = await modifyOrder(
+      createRequest({ bikeModel: 'Mountain Bike' }),
+      mockContext
+    );
+
+    // Assert: Check conflict
+    expect(result.status).toBe(409);
+    expect(result.jsonBody.code).toBe('ORDER_NOT_MODIFIABLE');
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to modify a stale version', async () => {
+    // Act: Change the bike model based on an older read
+    const result = await modifyOrder(
+      createRequest({ bikeModel: 'Mountain Bike' }, { 'If-Match': '"v0"' }),
+      mockContext
+    );
+
+    // Assert: Check conflict
+    expect(result.status).toBe(412);
+    expect(result.jsonBody.code).toBe('CONCURRENCY_CONFLICT');
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown order', async () => {
+    // Arrange: Storage has no such order
+    mockOrderRepository.getOrder.mockResolvedValue(null);
+
+    // Act: Change the bike model
+    const result = await modifyOrder(
+      createRequest({ bikeModel: 'Mountain Bike' }),
+      mockContext
+    );
+
+    // Assert: Check not found response
+    expect(result.status).toBe(404);
+    expect(result.jsonBody.code).toBe('ORDER_NOT_FOUND');
+  });
+});
@@ -0,0 +1,292 @@
+import { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { SignJWT } from 'jose';
+import { processOrder } from '../../functions/processOrder';
+import { getApiDocs, getOpenApiDocument } from '../../functions/openApi';
+import { buildOpenApiDocument, OPENAPI_SCHEMAS } from '../../schema/openapi';
+import { CreateOrderSchema } from '../../schema/order.schema';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../../services/orderEventPublisher';
+import { OrderProcessingError, ServiceUnavailableError } from '../../utils/errors';
+
+// Mock the repository and publisher
+jest.mock('../../services/orderRepository');
+jest.mock('../../services/orderEventPublisher');
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+// These tests hold the responses the code really produces against the
+// document, so a handler or schema change that is not reflected in the
+// OpenAPI document fails here.
+describe('OpenAPI document', () => {
+  const document: any = buildOpenApiDocument();
+  const responses = document.paths['/processOrder'].post.responses;
+
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+  let mockEventPublisher: jest.Mocked<OrderEventPublisher>;
+
+  const validOrderData = {
+    employeeId: 'emp-123',
+    bikeModel: 'Mountain Bike Pro',
+    startDate: '2024-01-01T10:00:00Z',
+    endDate: '2024-01-07T10:00:00Z',
+    price: 299.99,
+    currency: 'EUR',
+    companyId: 'company-123'
+  };
+
+  const legacyHeaders = { Accept: 'application/json' };
+
+  function createRequest(body: any, headers: Record<string, string> = {}): HttpRequest {
+    return {
+      headers: new Headers(headers),
+      json: jest.fn().mockResolvedValue(body)
+    } as any;
+  }
+
+  // Fails unless the status and content type are documented, the body
+  // matches one of the documented schemas and every header sent is documented
+  function expectDocumented(response: HttpResponseInit): void {
+    const documented = responses[String(response.status)];
+    expect(documented).toBeDefined();
+
+    const { 'Content-Type': contentType = 'application/json', ...headers } = (response.headers || {}) as Record<string, string>;
+    expect(Object.keys(documented.content)).toContain(contentType);
+    const schema = documented.content[contentType].schema;
+    const names: string[] = (schema.oneOf || [schema]).map((ref: { $ref: string }) => ref.$ref.split('/').pop());
+    const matches = names.filter((name) => OPENAPI_SCHEMAS[name].safeParse(response.jsonBody).success);
+    expect({ status: response.status, body: response.jsonBody, matches: matches.length > 0 })
+      .toEqual({ status: response.status, body: response.jsonBody, matches: true });
+
+    expect(Object.keys(documented.headers || {})).toEqual(expect.arrayContaining(Object.keys(headers)));
+  }
+
+  interface ErrorCase {
+    code: string;
+    body?: Record<string, unknown>;
+    headers?: Record<string, string>;
+    env?: Record<string, string>;
+    arrange?: () => unknown;
+  }
+
+  const secret = 'test-secret-that-is-long-enough-for-hs256';
+
+  function signToken(claims: Record<string, unknown>): Promise<string> {
+    return new SignJWT(claims)
+      .setProtectedHeader({ alg: 'HS256' })
+      .setExpirationTime('5m')
+      .sign(new TextEncoder().encode(secret));
+  }
+
+  // Returns the problem details response, then the legacy one
+  async function runErrorCase(errorCase: ErrorCase): Promise<HttpResponseInit[]> {
+    const saved = Object.keys(errorCase.env || {}).map((name) => [name, process.env[name]] as const);
+    Object.assign(process.env, errorCase.env);
+    try {
+      const responses: HttpResponseInit[] = [];
+      for (const formatHeaders of [{}, legacyHeaders]) {
+        mockOrderRepository = createMockRepository();
+        (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+        await errorCase.arrange?.();
+        responses.push(await processOrder(
+          createRequest(errorCase.body || validOrderData, { ...formatHeaders, ...errorCase.headers }),
+          mockContext
+        ));
+      }
+      return responses;
+    } finally {
+      for (const [name, value] of saved) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    }
+  }
+
+  // Configuration errors are documented together as *_CONFIG_ERROR
+  function isListed(description: string | undefined, code: string): boolean {
+    return (description || '').includes(code.endsWith('_CONFIG_ERROR') ? '*_CONFIG_ERROR' : code);
+  }
+
+  function createMockRepository(): jest.Mocked<OrderRepository> {
+    return {
+      initializeContainer: jest.fn().mockResolvedValue(undefined),
+      storeOrder: jest.fn().mockResolvedValue(undefined),
+      storeOutboxEntry: jest.fn().mockResolvedValue(undefined),
+      markOutboxEntryDispatched: jest.fn().mockResolvedValue(undefined),
+      getIdempotencyRecord: jest.fn().mockResolvedValue(null),
+      storeIdempotencyRecord: jest.fn().mockResolvedValue(undefined),
+      getCatalog: jest.fn().mockResolvedValue(null),
+      getPolicy: jest.fn().mockResolvedValue(null),
+      listOrders: jest.fn().mockResolvedValue({ orders: [] }),
+      listOrderSummaries: jest.fn().mockResolvedValue({ summaries: [] }),
+      updateReservations: jest.fn(async (companyId, bikeModel, update) => {
+        await update([]);
+      })
+    } as any;
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      functionName: 'processOrder',
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = createMockRepository();
+
+    mockEventPublisher = {
+      sendOrderMessage: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (createOrderEventPublisher as jest.Mock).mockReturnValue(mockEventPublisher);
+  });
+
+  it('should describe the request body with the schema processOrder validates with', () => {
+    // Assert: Fields and required fields follow CreateOrderSchema
+    const requestSchema = document.components.schemas.CreateOrderRequest;
+    const shape = CreateOrderSchema.innerType().innerType().shape;
+    expect(Object.keys(requestSchema.properties).sort()).toEqual(Object.keys(shape).sort());
+    expect([...requestSchema.required].sort()).toEqual(
+      Object.keys(shape).filter((field) => !shape[field].isOptional()).sort()
+    );
+  });
+
+  it('should describe the v2 request body and serve both contracts', () => {
+    // Assert: v2 adds its fields to the v1 ones; every route answers alike
+    const requestSchema = document.components.schemas.CreateOrderV2Request;
+    expect(Object.keys(requestSchema.properties)).toEqual(
+      expect.arrayContaining(['employeeId', 'accessories', 'insurance', 'deliveryAddress'])
+    );
+    expect(document.paths['/v1/orders'].post.requestBody.content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/CreateOrderRequest' });
+    expect(document.paths['/v2/orders'].post.requestBody.content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/CreateOrderV2Request' });
+    expect(document.paths['/v2/orders'].post.responses).toEqual(responses);
+  });
+
+  it('should document the success and replay responses', async () => {
+    // Act: Create an order, then replay it
+    const created = await processOrder(createRequest(validOrderData, { 'Idempotency-Key': 'key-1' }), mockContext);
+    mockOrderRepository.getIdempotencyRecord.mockResolvedValue(
+      mockOrderRepository.storeIdempotencyRecord.mock.calls[0][0]
+    );
+    const replayed = await processOrder(createRequest(validOrderData, { 'Idempotency-Key': 'key-1' }), mockContext);
+
+    // Assert: Both match the document
+    expectDocumented(created);
+    expectDocumented(replayed);
+  });
+
+  it('should document validation failures in both formats', async () => {
+    // Act: Invalid body and invalid header
+    const invalidBody = await processOrder(createRequest({ ...validOrderData, employeeId: '' }), mockContext);
+    const invalidHeader = await processOrder(createRequest(validOrderData, { 'Idempotency-Key': '../x' }), mockContext);
+    const legacy = await processOrder(createRequest({ ...validOrderData, employeeId: '' }, legacyHeaders), mockContext);
+
+    // Assert: All match the document
+    expectDocumented(invalidBody);
+    expectDocumented(invalidHeader);
+    expectDocumented(legacy);
+  });
+
+  it('should document every error the create path can raise', async () => {
+    // Arrange: One way processOrder reaches each error code
+    const pricedCatalog = (stock: number) => ({
+      companyId: 'company-123',
+      models: [{ model: 'Mountain Bike Pro', stock, dailyRate: 50 }],
+      pricing: { currency: 'EUR', taxRate: 0, discountTiers: [] },
+      updatedAt: new Date()
+    });
+    const cases: ErrorCase[] = [
+      { code: 'VALIDATION_ERROR', body: { ...validOrderData, employeeId: '' } },
+      { code: 'VALIDATION_ERROR', headers: { 'Idempotency-Key': '../x' } },
+      {
+        code: 'VALIDATION_ERROR',
+        arrange: () => mockOrderRepository.getPolicy.mockResolvedValue({
+          companyId: 'company-123',
+          allowedBikeModels: ['City Bike'],
+          updatedAt: new Date()
+        })
+      },
+      { code: 'UNAUTHENTICATED', env: { AUTH_MODE: 'jwt', AUTH_JWT_SECRET: secret } },
+      {
+        code: 'FORBIDDEN',
+        env: { AUTH_MODE: 'jwt', AUTH_JWT_SECRET: secret },
+        headers: { Authorization: `Bearer ${await signToken({ sub: 'emp-456', company_id: 'company-123' })}` }
+      },
+      {
+        code: 'BIKE_UNAVAILABLE',
+        body: { ...validOrderData, price: undefined },
+        arrange: () => mockOrderRepository.getCatalog.mockResolvedValue(pricedCatalog(0))
+      },
+      { code: 'PRICE_MISMATCH', arrange: () => mockOrderRepository.getCatalog.mockResolvedValue(pricedCatalog(5)) },
+      { code: 'EXCHANGE_RATE_UNAVAILABLE', body: { ...validOrderData, currency: 'USD' }, env: { DEFAULT_BASE_CURRENCY: 'EUR' } },
+      {
+        code: 'IDEMPOTENCY_KEY_REUSED',
+        headers: { 'Idempotency-Key': 'key-1' },
+        arrange: () => mockOrderRepository.getIdempotencyRecord.mockResolvedValue({
+          key: 'key-1',
+          companyId: 'company-123',
+          requestHash: 'another-body',
+          statusCode: 201,
+          result: { success: true, orderId: 'order-1', message: 'Order processed successfully' },
+          createdAt: new Date()
+        })
+      },
+      {
+        code: 'RATE_LIMITED',
+        env: { RATE_LIMITS: JSON.stringify({ companies: { 'company-123': { requestsPerMinute: 1 } } }) },
+        arrange: () => processOrder(createRequest(validOrderData), mockContext)
+      },
+      { code: 'RATE_LIMIT_CONFIG_ERROR', env: { RATE_LIMITS: '{"default":' } },
+      {
+        code: 'SERVICE_UNAVAILABLE',
+        arrange: () => mockOrderRepository.initializeContainer.mockRejectedValue(
+          new ServiceUnavailableError('order-storage is unavailable, failing fast', 30)
+        )
+      },
+      {
+        code: 'STORAGE_ERROR',
+        arrange: () => mockOrderRepository.storeOutboxEntry.mockRejectedValue(
+          new OrderProcessingError('Failed to store outbox entry', 'STORAGE_ERROR')
+        )
+      },
+      { code: 'EXCHANGE_RATE_CONFIG_ERROR', env: { EXCHANGE_RATES_PATH: 'missing/exchange-rates.json' } },
+      { code: 'INTERNAL_ERROR', arrange: () => mockOrderRepository.storeOrder.mockRejectedValue(new TypeError('x is undefined')) }
+    ];
+
+    for (const errorCase of cases) {
+      // Act: Run the case in both formats on fresh mocks
+      const [problem, legacy] = await runErrorCase(errorCase);
+
+      // Assert: The code is the expected one and listed under its documented status
+      expect({ code: problem.jsonBody.code, listed: isListed(responses[String(problem.status)]?.description, errorCase.code) })
+        .toEqual({ code: errorCase.code, listed: true });
+      expectDocumented(problem);
+      expectDocumented(legacy);
+    }
+  });
+
+  it('should serve the document and a docs page', async () => {
+    // Act: Fetch both
+    const spec = await getOpenApiDocument({} as HttpRequest, mockContext);
+    const docs = await getApiDocs({} as HttpRequest, mockContext);
+
+    // Assert: Check content
+    expect(spec.jsonBody).toEqual(document);
+    expect(spec.jsonBody.openapi).toBe('3.0.3');
+    expect(docs.headers).toEqual({ 'Content-Type': 'text/html; charset=utf-8' });
+    expect(docs.body).toContain('<code>POST /api/processOrder</code>');
+    expect(docs.body).toContain('<code>POST /api/v2/orders</code>');
+    expect(docs.body).toContain('<h3 id="CreateOrderRequest">CreateOrderRequest</h3>');
+  });
+});
@@ -0,0 +1,321 @@
+import { approveOrder, cancelOrder, rejectOrder } from '../../functions/orderDecision';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../../services/orderEventPublisher';
+import { ConcurrencyConflictError } from '../../utils/errors';
+import { authenticate } from '../../utils/auth';
+import { logRecords } from '../helpers/logRecords';
+
+// Mock the repository and publisher
+jest.mock('../../services/orderRepository');
+jest.mock('../../services/orderEventPublisher');
+
+// Keep the authorization rules, stub out token verification
+jest.mock('../../utils/auth', () => ({
+  ...jest.requireActual('../../utils/auth'),
+  authenticate: jest.fn()
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('Order decision Functions', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+  let mockEventPublisher: jest.Mocked<OrderEventPublisher>;
+
+  function createRequest(body: any, headers: Record<string, string> = { 'If-Match': '"v1"' }): HttpRequest {
+    return {
+      params: { companyId: 'company-123', orderId: 'order-123' },
+      headers: new Headers(headers),
+      json: jest.fn().mockResolvedValue(body)
+    } as any;
+  }
+
+  function storedOrder(status: string) {
+    return {
+      id: 'order-123',
+      employeeId: 'emp-123',
+      bikeModel: 'City Bike',
+      startDate: '2024-01-01T10:00:00.000Z',
+      endDate: '2024-01-07T10:00:00.000Z',
+      status,
+      price: 99.5,
+      currency: 'EUR',
+      companyId: 'company-123',
+      createdAt: '2023-12-20T08:00:00.000Z',
+      updatedAt: '2023-12-20T08:00:00.000Z',
+      etag: '"v1"'
+    };
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      getOrder: jest.fn().mockResolvedValue(storedOrder('PENDING')),
+      updateOrder: jest.fn().mockResolvedValue('"v2"'),
+      appendOrderHistory: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    mockEventPublisher = {
+      sendStatusChangedMessage: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (createOrderEventPublisher as jest.Mock).mockReturnValue(mockEventPublisher);
+    (authenticate as jest.Mock).mockResolvedValue({ subject: 'admin-1', role: 'company_admin', companyId: 'company-123' });
+  });
+
+  it('should approve a pending order', async () => {
+    // Act: Approve the order
+    const result = await approveOrder(createRequest({}), mockContext);
+
+    // Assert: Check response and persisted decision
+    expect(result.status).toBe(200);
+    const savedOrder = mockOrderRepository.updateOrder.mock.calls[0][0];
+    expect(savedOrder).toMatchObject({
+      id: 'order-123',
+      status: 'APPROVED',
+      decidedBy: 'admin-1'
+    });
+    expect(savedOrder.decidedAt).toBeInstanceOf(Date);
+    expect(savedOrder.updatedAt).toBe(savedOrder.decidedAt);
+
+    // Assert: Check status change was published on the status queue
+    expect(createOrderEventPublisher).toHaveBeenCalledWith('order-status-changed');
+    expect(mockEventPublisher.sendStatusChangedMessage).toHaveBeenCalledWith(
+      { ...savedOrder, etag: '"v2"' },
+      'PENDING',
+      mockContext
+    );
+    expect(mockEventPublisher.close).toHaveBeenCalled();
+
+    // Assert: Check the decider is logged as a redacted field
+    expect(logRecords(mockContext.log)).toContainEqual(expect.objectContaining({
+      message: 'Order order-123 moved from PENDING to APPROVED',
+      orderId: 'order-123',
+      decidedBy: expect.stringMatching(/^sha256:/)
+    }));
+  });
+
+  it('should reject a pending order with a reason', async () => {
+    // Act: Reject the order
+    const result = await rejectOrder(
+      createRequest({ reason: 'Budget exceeded' }),
+      mockContext
+    );
+
+    // Assert: Check persisted decision
+    expect(result.status).toBe(200);
+    expect(mockOrderRepository.updateOrder.mock.calls[0][0]).toMatchObject({
+      status: 'REJECTED',
+      decisionReason: 'Budget exceeded'
+    });
+  });
+
+  it('should require a reason when rejecting', async () => {
+    // Act: Reject without reason
+    const result = await rejectOrder(createRequest({}), mockContext);
+
+    // Assert: Check validation error
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.errors).toEqual([expect.objectContaining({ path: 'reason' })]);
+    expect(mockOrderRepository.getOrder).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to approve a rejected order', async () => {
+    // Arrange: Order was already rejected
+    mockOrderRepository.getOrder.mockResolvedValue(storedOrder('REJECTED') as any);
+
+    // Act: Approve the order
+    const result = await approveOrder(createRequest({}), mockContext);
+
+    // Assert: Check conflict and that nothing changed
+    expect(result.status).toBe(409);
+    expect(result.jsonBody.code).toBe('INVALID_STATUS_TRANSITION');
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+    expect(mockEventPublisher.sendStatusChangedMessage).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown order', async () => {
+    // Arrange: Storage has no such order
+    mockOrderRepository.getOrder.mockResolvedValue(null);
+
+    // Act: Approve the order
+    const result = await approveOrder(createRequest({}), mockContext);
+
+    // Assert: Check not found response
+    expect(result.status).toBe(404);
+    expect(result.jsonBody.code).toBe('ORDER_NOT_FOUND');
+  });
+
+  it('should update the version that was read and return the new ETag', async () => {
+    // Act: Approve the order
+    const result = await approveOrder(createRequest({}), mockContext);
+
+    // Assert: Update is conditional on the read version
+    expect(mockOrderRepository.updateOrder.mock.calls[0][0].etag).toBe('"v1"');
+    expect(result.headers).toEqual({ ETag: '"v2"' });
+    expect(result.jsonBody.etag).toBe('"v2"');
+  });
+
+  it('should require an If-Match header', async () => {
+    // Act: Approve without If-Match
+    const result = await approveOrder(createRequest({}, {}), mockContext);
+
+    // Assert: Check precondition required
+    expect(result.status).toBe(428);
+    expect(result.jsonBody.code).toBe('PRECONDITION_REQUIRED');
+    expect(mockOrderRepository.getOrder).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to decide on a stale version', async () => {
+    // Act: Approve based on an older read
+    const result = await approveOrder(
+      createRequest({}, { 'If-Match': '"v0"' }),
+      mockContext
+    );
+
+    // Assert: Check conflict and that nothing changed
+    expect(result.status).toBe(412);
+    expect(result.jsonBody.code).toBe('CONCURRENCY_CONFLICT');
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it('should report a concurrent write that lands after the read', async () => {
+    // Arrange: Another request updates the order between our read and write
+    mockOrderRepository.updateOrder.mockRejectedValue(
+      new ConcurrencyConflictError('Order order-123 was changed by another request')
+    );
+
+    // Act: Approve with If-Match "*"
+    const result = await approveOrder(createRequest({}, { 'If-Match': '*' }), mockContext);
+
+    // Assert: Check conflict and that no event was published
+    expect(result.status).toBe(412);
+    expect(mockEventPublisher.sendStatusChangedMessage).not.toHaveBeenCalled();
+  });
+
+  it('should record the decision in the order history', async () => {
+    // Act: Approve the order
+    await approveOrder(createRequest({}), mockContext);
+
+    // Assert: Check history entry
+    expect(mockOrderRepository.appendOrderHistory).toHaveBeenCalledWith(
+      'order-123',
+      'company-123',
+      expect.objectContaining({
+        action: 'STATUS_CHANGED',
+        changedBy: 'admin-1',
+        changes: expect.objectContaining({
+          status: { before: 'PENDING', after: 'APPROVED' }
+        })
+      }),
+      mockContext
+    );
+  });
+
+  it('should still succeed when the history entry cannot be written', async () => {
+    // Arrange: History blob keeps failing
+    mockOrderRepository.appendOrderHistory.mockRejectedValue(new Error('Storage unavailable'));
+
+    // Act: Approve the order
+    const result = await approveOrder(createRequest({}), mockContext);
+
+    // Assert: Check the decision went through and the failure was logged
+    expect(result.status).toBe(200);
+    expect(mockEventPublisher.sendStatusChangedMessage).toHaveBeenCalled();
+    expect(mockContext.error).toHaveBeenCalled();
+  });
+
+  describe('Cancellation', () => {
+    it('should cancel a pending order', async () => {
+      // Arrange: The order's employee as caller
+      (authenticate as jest.Mock).mockResolvedValue({
+        subject: 'emp-123',
+        role: 'employee',
+        companyId: 'company-123',
+        employeeId: 'emp-123'
+      });
+
+      // Act: Cancel the order
+      const result = await cancelOrder(
+        createRequest({ reason: 'Trip postponed' }),
+        mockContext
+      );
+
+      // Assert: Check cancellation fields and published status change
+      expect(result.status).toBe(200);
+      const savedOrder = mockOrderRepository.updateOrder.mock.calls[0][0];
+      expect(savedOrder).toMatchObject({
+        status: 'CANCELLED',
+        cancelledBy: 'emp-123',
+        cancellationReason: 'Trip postponed'
+      });
+      expect(savedOrder.cancelledAt).toBeInstanceOf(Date);
+      expect(savedOrder.decidedBy).toBeUndefined();
+      expect(mockEventPublisher.sendStatusChangedMessage).toHaveBeenCalledWith(
+        { ...savedOrder, etag: '"v2"' },
+        'PENDING',
+        mockContext
+      );
+    });
+
+    it('should record the caller rather than a name from the body', async () => {
+      // Act: Cancel and approve in someone else's name
+      const cancelled = await cancelOrder(createRequest({ cancelledBy: 'emp-999' }), mockContext);
+      mockOrderRepository.getOrder.mockResolvedValue(storedOrder('PENDING') as any);
+      const approved = await approveOrder(createRequest({ decidedBy: 'manager-9' }), mockContext);
+
+      // Assert: Both are recorded under the token subject
+      expect(cancelled.status).toBe(200);
+      expect(approved.status).toBe(200);
+      expect(mockOrderRepository.updateOrder.mock.calls[0][0].cancelledBy).toBe('admin-1');
+      expect(mockOrderRepository.updateOrder.mock.calls[1][0].decidedBy).toBe('admin-1');
+    });
+
+    it('should refuse to cancel an approved or rejected order', async () => {
+      // Arrange: Order was approved, then one that was rejected
+      mockOrderRepository.getOrder
+        .mockResolvedValueOnce(storedOrder('APPROVED') as any)
+        .mockResolvedValueOnce(storedOrder('REJECTED') as any);
+
+      // Act: Cancel both
+      const approved = await cancelOrder(createRequest({}), mockContext);
+      const rejected = await cancelOrder(createRequest({}), mockContext);
+
+      // Assert: Check conflicts
+      expect([approved.status, rejected.status]).toEqual([409, 409]);
+      expect(approved.jsonBody.code).toBe('INVALID_STATUS_TRANSITION');
+      expect(rejected.jsonBody.code).toBe('INVALID_STATUS_TRANSITION');
+      expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+    });
+  });
+  it('should let employees cancel their own orders but not decide on them', async () => {
+    // Arrange: The order's employee as caller
+    (authenticate as jest.Mock).mockResolvedValue({
+      subject: 'emp-123',
+      role: 'employee',
+      companyId: 'company-123',
+      employeeId: 'emp-123'
+    });
+
+    // Act: Approve, then cancel
+    const approved = await approveOrder(createRequest({}), mockContext);
+    const cancelled = await cancelOrder(createRequest({}), mockContext);
+
+    // Assert: Only the cancellation goes through
+    expect(approved.status).toBe(403);
+    expect(approved.jsonBody.code).toBe('FORBIDDEN');
+    expect(cancelled.status).toBe(200);
+    expect(mockOrderRepository.updateOrder).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,222 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createOrderEventPublisher } from '../../services/orderEventPublisher';
+import { MessagingService } from '../../services/messagingService';
+import { InProcessEventBus, InProcessEventPublisher } from '../../services/inProcessEventBus';
+import { FileEventPublisher } from '../../services/fileEventPublisher';
+import { Order } from '../../types/Order';
+import { OrderProcessingError } from '../../utils/errors';
+
+// Avoid touching the Azure SDK when Service Bus is selected
+jest.mock('../../services/messagingService');
+
+const testOrder: Order = {
+  schemaVersion: 2,
+  id: 'order-1',
+  employeeId: 'emp-1',
+  bikeModel: 'City Bike',
+  startDate: new Date('2024-01-01T10:00:00Z'),
+  endDate: new Date('2024-01-07T10:00:00Z'),
+  status: 'PENDING',
+  price: 120,
+  currency: 'EUR',
+  companyId: 'company-1',
+  accessories: [],
+  insurance: 'NONE',
+  lineItems: [],
+  totals: { oneOff: 120, recurring: 0 },
+  deductionSchedule: { currency: 'EUR', total: 120, installments: [] },
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z')
+};
+
+describe('InProcessEventPublisher', () => {
+  let bus: InProcessEventBus;
+  let mockContext: any;
+
+  beforeEach(() => {
+    bus = new InProcessEventBus({ retainAll: true });
+    mockContext = { log: jest.fn(), error: jest.fn() };
+  });
+
+  it('should deliver messages to subscribers and record them per queue', async () => {
+    // Arrange: Subscriber on the order queue
+    const received: any[] = [];
+    bus.subscribe('order-processing', (message) => received.push(message));
+    const publisher = new InProcessEventPublisher('order-processing', bus);
+
+    // Act: Publish an order message
+    await publisher.sendOrderMessage(testOrder, mockContext);
+
+    // Assert: Same envelope as Service Bus, observable both ways
+    const expected = {
+      body: {
+        orderId: 'order-1',
+        companyId: 'company-1',
+        employeeId: 'emp-1',
+        status: 'PENDING',
+        price: 120,
+        currency: 'EUR',
+        lineItems: [],
+        totals: { oneOff: 120, recurring: 0 }
+      },
+      messageId: 'order-1',
+      correlationId: 'company-1-order-1',
+      contentType: 'application/json'
+    };
+    expect(received).toEqual([expected]);
+    expect(bus.messages('order-processing')).toEqual([expected]);
+    expect(bus.messages('order-status-changed')).toEqual([]);
+  });
+
+  it('should stop delivering after unsubscribing', async () => {
+    // Arrange: Subscription that is removed again
+    const handler = jest.fn();
+    const unsubscribe = bus.subscribe('order-processing', handler);
+    unsubscribe();
+
+    // Act: Publish a batch
+    await new InProcessEventPublisher('order-processing', bus)
+      .sendOrderMessages([testOrder, { ...testOrder, id: 'order-2' }], mockContext);
+
+    // Assert: Recorded but not delivered
+    expect(handler).not.toHaveBeenCalled();
+    expect(bus.messages('order-processing')).toHaveLength(2);
+  });
+
+  it('should keep only the most recent messages by default', async () => {
+    // Arrange: Bus keeping two messages per queue
+    const cappedBus = new InProcessEventBus({ maxRetainedMessages: 2 });
+    const publisher = new InProcessEventPublisher('order-processing', cappedBus);
+
+    // Act: Publish three orders
+    await publisher.sendOrderMessages(
+      ['order-1', 'order-2', 'order-3'].map((id) => ({ ...testOrder, id })),
+      mockContext
+    );
+
+    // Assert: The oldest was dropped
+    expect(cappedBus.messages('order-processing').map((message) => message.messageId)).toEqual(['order-2', 'order-3']);
+  });
+});
+
+describe('FileEventPublisher', () => {
+  let directory: string;
+  let mockContext: any;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'events-'));
+    mockContext = { log: jest.fn(), error: jest.fn() };
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per message to the queue file', async () => {
+    // Arrange: Publisher for the status queue
+    const publisher = new FileEventPublisher(directory, 'order-status-changed');
+    const approved: Order = { ...testOrder, status: 'APPROVED', decidedBy: 'manager-1' };
+
+    // Act: Publish twice
+    await publisher.sendStatusChangedMessage(approved, 'PENDING', mockContext);
+    await publisher.sendStatusChangedMessage({ ...approved, id: 'order-2' }, 'PENDING', mockContext);
+
+    // Assert: Check JSONL contents
+    const lines = (await fs.readFile(path.join(directory, 'order-status-changed.jsonl'), 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      queueName: 'order-status-changed',
+      enqueuedAt: expect.any(String),
+      messageId: 'order-1-APPROVED',
+      subject: 'OrderStatusChanged',
+      body: { previousStatus: 'PENDING', status: 'APPROVED', decidedBy: 'manager-1' }
+    });
+  });
+
+  it('should report who cancelled an order as the decision maker', async () => {
+    // Arrange: Publisher for the status queue and an order approved, then cancelled
+    const publisher = new FileEventPublisher(directory, 'order-status-changed');
+    const cancelled: Order = {
+      ...testOrder,
+      status: 'CANCELLED',
+      decidedBy: 'manager-1',
+      cancelledBy: 'emp-1',
+      cancellationReason: 'Trip postponed'
+    };
+
+    // Act: Publish the cancellation
+    await publisher.sendStatusChangedMessage(cancelled, 'APPROVED', mockContext);
+
+    // Assert: Check the message names the cancellation
+    const [line] = (await fs.readFile(path.join(directory, 'order-status-changed.jsonl'), 'utf8'))
+      .trim()
+      .split('\n')
+      .map((text) => JSON.parse(text));
+    expect(line.body).toMatchObject({
+      previousStatus: 'APPROVED',
+      status: 'CANCELLED',
+      decidedBy: 'emp-1',
+      reason: 'Trip postponed'
+    });
+  });
+
+  it('should wrap write failures as messaging errors', async () => {
+    // Arrange: Queue file path is occupied by a directory
+    await fs.mkdir(path.join(directory, 'order-processing.jsonl'));
+    const publisher = new FileEventPublisher(directory, 'order-processing');
+
+    // Act & Assert: Check error handling
+    await expect(publisher.sendOrderMessage(testOrder, mockContext)).rejects.toThrow(OrderProcessingError);
+  });
+});
+
+describe('createOrderEventPublisher', () => {
+  const originalTransport = process.env.MESSAGING_TRANSPORT;
+  const originalSkip = process.env.SKIP_SERVICE_BUS;
+
+  afterEach(() => {
+    process.env.MESSAGING_TRANSPORT = originalTransport;
+    process.env.SKIP_SERVICE_BUS = originalSkip;
+  });
+
+  beforeEach(() => {
+    delete process.env.MESSAGING_TRANSPORT;
+    delete process.env.SKIP_SERVICE_BUS;
+  });
+
+  it('should default to Service Bus on the order queue', () => {
+    // Act & Assert: Check implementation and queue
+    expect(createOrderEventPublisher()).toBeInstanceOf(MessagingService);
+    expect(MessagingService).toHaveBeenCalledWith(process.env.ServiceBusConnectionString, 'order-processing');
+  });
+
+  it('should select local transports by configuration', () => {
+    // Act & Assert: Each transport maps to its publisher
+    process.env.MESSAGING_TRANSPORT = 'inprocess';
+    expect(createOrderEventPublisher()).toBeInstanceOf(InProcessEventPublisher);
+
+    process.env.MESSAGING_TRANSPORT = 'file';
+    expect(createOrderEventPublisher()).toBeInstanceOf(FileEventPublisher);
+  });
+
+  it('should treat SKIP_SERVICE_BUS as the in-process transport', () => {
+    // Act: Legacy flag only
+    process.env.SKIP_SERVICE_BUS = 'true';
+
+    // Assert: Events are still published, in-process
+    expect(createOrderEventPublisher()).toBeInstanceOf(InProcessEventPublisher);
+  });
+
+  it('should reject unknown transports', () => {
+    // Act: Select something unsupported
+    process.env.MESSAGING_TRANSPORT = 'kafka';
+
+    // Assert: Check configuration error
+    expect(() => createOrderEventPublisher()).toThrow('Unknown MESSAGING_TRANSPORT "kafka"');
+  });
+});
@@ -0,0 +1,100 @@
+import { getOrderHistory } from '../../functions/orderHistory';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { diffOrders } from '../../utils/orderHistory';
+
+// Mock the order repository
+jest.mock('../../services/orderRepository');
+
+describe('Order history', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  const storedOrder = {
+    id: 'order-123',
+    employeeId: 'emp-123',
+    bikeModel: 'City Bike',
+    startDate: '2024-01-01T10:00:00.000Z',
+    endDate: '2024-01-07T10:00:00.000Z',
+    status: 'PENDING',
+    price: 99.5,
+    currency: 'EUR',
+    companyId: 'company-123',
+    createdAt: '2023-12-20T08:00:00.000Z',
+    updatedAt: '2023-12-20T08:00:00.000Z'
+  } as any;
+
+  const historyEntry = {
+    action: 'STATUS_CHANGED',
+    changedBy: 'manager-1',
+    changedAt: '2023-12-21T08:00:00.000Z',
+    changes: { status: { before: 'PENDING', after: 'APPROVED' } }
+  };
+
+  const mockRequest = {
+    params: { companyId: 'company-123', orderId: 'order-123' }
+  } as any as HttpRequest;
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      getOrder: jest.fn().mockResolvedValue(storedOrder),
+      getOrderHistory: jest.fn().mockResolvedValue([historyEntry])
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+  });
+
+  describe('getOrderHistory Function', () => {
+    it('should return the history entries of an order', async () => {
+      // Act: Fetch the history
+      const result = await getOrderHistory(mockRequest, mockContext);
+
+      // Assert: Check response and lookup
+      expect(result.status).toBe(200);
+      expect(result.jsonBody).toEqual({ orderId: 'order-123', entries: [historyEntry] });
+      expect(mockOrderRepository.getOrderHistory).toHaveBeenCalledWith('order-123', 'company-123');
+    });
+
+    it('should return 404 for an unknown order', async () => {
+      // Arrange: Storage has no such order
+      mockOrderRepository.getOrder.mockResolvedValue(null);
+
+      // Act: Fetch the history
+      const result = await getOrderHistory(mockRequest, mockContext);
+
+      // Assert: Check not found response
+      expect(result.status).toBe(404);
+      expect(mockOrderRepository.getOrderHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diffOrders', () => {
+    it('should list changed fields in their stored form', () => {
+      // Arrange: Order with new dates as Date objects and a new field
+      const updated = {
+        ...storedOrder,
+        startDate: new Date('2024-01-01T10:00:00.000Z'),
+        endDate: new Date('2024-01-09T10:00:00.000Z'),
+        status: 'CANCELLED',
+        cancelledBy: 'emp-123',
+        updatedAt: new Date('2023-12-22T08:00:00.000Z')
+      };
+
+      // Act: Compare the versions
+      const changes = diffOrders(storedOrder, updated);
+
+      // Assert: Unchanged dates and the update timestamp are left out
+      expect(changes).toEqual({
+        endDate: { before: '2024-01-07T10:00:00.000Z', after: '2024-01-09T10:00:00.000Z' },
+        status: { before: 'PENDING', after: 'CANCELLED' },
+        cancelledBy: { before: null, after: 'emp-123' }
+      });
+    });
+  });
+});
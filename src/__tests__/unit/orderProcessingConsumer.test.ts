@@ -0,0 +1,216 @@
+import { orderProcessingConsumer } from '../../functions/orderProcessingConsumer';
+import { InvocationContext } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../../services/orderEventPublisher';
+import { ConcurrencyConflictError, OrderProcessingError } from '../../utils/errors';
+import { logRecords } from '../helpers/logRecords';
+
+// Mock the repository and publisher
+jest.mock('../../services/orderRepository');
+jest.mock('../../services/orderEventPublisher');
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('orderProcessingConsumer Function', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+  let mockEventPublisher: jest.Mocked<OrderEventPublisher>;
+
+  function storedOrder(overrides: any = {}) {
+    return {
+      id: 'order-123',
+      employeeId: 'emp-123',
+      bikeModel: 'City Bike',
+      startDate: '2024-01-01T10:00:00.000Z',
+      endDate: '2024-01-07T10:00:00.000Z',
+      status: 'PENDING',
+      price: 99.5,
+      currency: 'EUR',
+      companyId: 'company-123',
+      lineItems: [],
+      totals: { oneOff: 99.5, recurring: 0 },
+      deductionSchedule: { currency: 'EUR', total: 99.5, installments: [] },
+      createdAt: '2023-12-20T08:00:00.000Z',
+      updatedAt: '2023-12-20T08:00:00.000Z',
+      etag: '"v1"',
+      ...overrides
+    };
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      triggerMetadata: { messageId: 'msg-123' }
+    } as any;
+
+    mockOrderRepository = {
+      getOrder: jest.fn().mockResolvedValue(storedOrder()),
+      updateOrder: jest.fn().mockResolvedValue('"v2"'),
+      appendOrderHistory: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    mockEventPublisher = {
+      sendStatusChangedMessage: jest.fn().mockResolvedValue(undefined),
+      sendDeadLetterMessage: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (createOrderEventPublisher as jest.Mock).mockReturnValue(mockEventPublisher);
+
+    process.env.AUTO_APPROVAL_RULES = JSON.stringify({
+      companies: { 'company-123': { maxPrice: 100, currency: 'EUR' } }
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.AUTO_APPROVAL_RULES;
+  });
+
+  it('should auto-approve an order that satisfies the company rule', async () => {
+    // Act: Consume the message
+    await orderProcessingConsumer({ orderId: 'order-123', companyId: 'company-123' }, mockContext);
+
+    // Assert: Check the order was approved and the change announced
+    expect(mockOrderRepository.getOrder).toHaveBeenCalledWith('order-123', 'company-123');
+    expect(mockOrderRepository.updateOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'APPROVED', decidedBy: 'system:auto-approval' }),
+      mockContext
+    );
+    expect(createOrderEventPublisher).toHaveBeenCalledWith('order-status-changed');
+    expect(mockEventPublisher.sendStatusChangedMessage).toHaveBeenCalled();
+    expect(mockEventPublisher.close).toHaveBeenCalled();
+  });
+
+  it('should accept the message body as a JSON string', async () => {
+    // Act: Consume a string body
+    await orderProcessingConsumer(JSON.stringify({ orderId: 'order-123', companyId: 'company-123' }), mockContext);
+
+    // Assert: Check the order was processed
+    expect(mockOrderRepository.updateOrder).toHaveBeenCalled();
+  });
+
+  it('should leave orders outside the rule for manual review', async () => {
+    // Arrange: Order over the price limit
+    mockOrderRepository.getOrder.mockResolvedValue(storedOrder({
+      price: 250,
+      totals: { oneOff: 250, recurring: 0 },
+      deductionSchedule: { currency: 'EUR', total: 250, installments: [] }
+    }) as any);
+
+    // Act: Consume the message
+    await orderProcessingConsumer({ orderId: 'order-123', companyId: 'company-123' }, mockContext);
+
+    // Assert: Check nothing changed
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+    expect(mockEventPublisher.sendStatusChangedMessage).not.toHaveBeenCalled();
+  });
+
+  it('should count line items against the price limit', async () => {
+    // Arrange: Cheap bike with a servicing plan of 5 EUR for each of 12 months
+    mockOrderRepository.getOrder.mockResolvedValue(storedOrder({
+      price: 60,
+      lineItems: [{ sku: 'SERVICE-PLAN', quantity: 1, unitPrice: 5, billing: 'RECURRING', total: 5 }],
+      totals: { oneOff: 60, recurring: 5 },
+      deductionSchedule: { currency: 'EUR', total: 120, installments: [] }
+    }) as any);
+
+    // Act: Consume the message
+    await orderProcessingConsumer({ orderId: 'order-123', companyId: 'company-123' }, mockContext);
+
+    // Assert: Left for review on the order total
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+    expect(logRecords(mockContext.log)).toContainEqual(expect.objectContaining({
+      message: 'Order order-123 left for manual review',
+      orderId: 'order-123',
+      reasons: ['Order total 120 exceeds limit 100']
+    }));
+  });
+
+  it('should skip orders that are no longer pending', async () => {
+    // Arrange: Already rejected order
+    mockOrderRepository.getOrder.mockResolvedValue(storedOrder({ status: 'REJECTED' }) as any);
+
+    // Act: Consume the message
+    await orderProcessingConsumer({ orderId: 'order-123', companyId: 'company-123' }, mockContext);
+
+    // Assert: Check nothing changed
+    expect(mockOrderRepository.updateOrder).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter malformed messages', async () => {
+    // Act: Consume a message without a company
+    await orderProcessingConsumer({ orderId: 'order-123' }, mockContext);
+
+    // Assert: Check the dead letter
+    expect(createOrderEventPublisher).toHaveBeenCalledWith('order-processing-deadletter');
+    expect(mockEventPublisher.sendDeadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        originalMessage: { orderId: 'order-123' },
+        originalMessageId: 'msg-123',
+        reason: 'VALIDATION_ERROR',
+        description: expect.stringContaining('companyId')
+      }),
+      mockContext
+    );
+    expect(mockOrderRepository.getOrder).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter messages that are not JSON', async () => {
+    // Act: Consume garbage
+    await orderProcessingConsumer('not json', mockContext);
+
+    // Assert: Check the dead letter
+    expect(mockEventPublisher.sendDeadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'VALIDATION_ERROR' }),
+      mockContext
+    );
+  });
+
+  it('should dead-letter messages for unknown orders', async () => {
+    // Arrange: Missing order
+    mockOrderRepository.getOrder.mockResolvedValue(null);
+
+    // Act: Consume the message
+    await orderProcessingConsumer({ orderId: 'missing', companyId: 'company-123' }, mockContext);
+
+    // Assert: Check the dead letter
+    expect(mockEventPublisher.sendDeadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'ORDER_NOT_FOUND' }),
+      mockContext
+    );
+  });
+
+  it('should rethrow transient failures so the message is redelivered', async () => {
+    // Arrange: Storage failure
+    mockOrderRepository.getOrder.mockRejectedValue(
+      new OrderProcessingError('Failed to read order from storage', 'STORAGE_ERROR')
+    );
+
+    // Act & Assert: Check error propagation
+    await expect(
+      orderProcessingConsumer({ orderId: 'order-123', companyId: 'company-123' }, mockContext)
+    ).rejects.toThrow('Failed to read order from storage');
+    expect(mockEventPublisher.sendDeadLetterMessage).not.toHaveBeenCalled();
+  });
+
+  it('should leave orders changed concurrently for redelivery', async () => {
+    // Arrange: A manager updates the order between our read and our write
+    mockOrderRepository.updateOrder.mockRejectedValue(
+      new ConcurrencyConflictError('Order order-123 was changed by another request')
+    );
+
+    // Act & Assert: Message is redelivered, not dead-lettered, and nothing is published
+    await expect(
+      orderProcessingConsumer({ orderId: 'order-123', companyId: 'company-123' }, mockContext)
+    ).rejects.toThrow(ConcurrencyConflictError);
+    expect(mockOrderRepository.updateOrder.mock.calls[0][0].etag).toBe('"v1"');
+    expect(mockEventPublisher.sendStatusChangedMessage).not.toHaveBeenCalled();
+    expect(mockEventPublisher.sendDeadLetterMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,332 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { InMemoryOrderRepository } from '../../services/inMemoryOrderRepository';
+import { FileSystemOrderRepository } from '../../services/fileSystemOrderRepository';
+import { StorageService } from '../../services/storageService';
+import { Order } from '../../types/Order';
+import { ConcurrencyConflictError, NotFoundError, OrderProcessingError } from '../../utils/errors';
+import { ORDER_SCHEMA_VERSION } from '../../utils/orderUpcaster';
+
+// Avoid touching the Azure SDK when the blob implementation is selected
+jest.mock('../../services/storageService');
+
+function createTestOrder(id: string, overrides: Partial<Order> = {}): Order {
+  return {
+    schemaVersion: 2,
+    id,
+    employeeId: 'emp-1',
+    bikeModel: 'City Bike',
+    startDate: new Date('2024-01-01T10:00:00Z'),
+    endDate: new Date('2024-01-07T10:00:00Z'),
+    status: 'PENDING',
+    price: 120,
+    currency: 'EUR',
+    companyId: 'company-1',
+    accessories: [],
+    insurance: 'NONE',
+    lineItems: [],
+    totals: { oneOff: 120, recurring: 0 },
+    deductionSchedule: { currency: 'EUR', total: 120, installments: [] },
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+const temporaryRoots: string[] = [];
+
+async function createTemporaryRoot(): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'orders-'));
+  temporaryRoots.push(root);
+  return root;
+}
+
+afterAll(async () => {
+  await Promise.all(temporaryRoots.map((root) => fs.rm(root, { recursive: true, force: true })));
+});
+
+const implementations: [string, () => Promise<OrderRepository>][] = [
+  ['InMemoryOrderRepository', async () => new InMemoryOrderRepository()],
+  ['FileSystemOrderRepository', async () => new FileSystemOrderRepository(await createTemporaryRoot())]
+];
+
+describe.each(implementations)('%s', (_name, createRepository) => {
+  let repository: OrderRepository;
+  let mockContext: any;
+
+  beforeEach(async () => {
+    repository = await createRepository();
+    await repository.initializeContainer();
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn()
+    };
+  });
+
+  it('should store and read back an order as stored JSON', async () => {
+    // Act: Store and fetch an order
+    await repository.storeOrder(createTestOrder('order-1'), mockContext);
+    const order = await repository.getOrder('order-1', 'company-1');
+
+    // Assert: Dates come back serialized, as from blob storage
+    expect(order).toMatchObject({ id: 'order-1', companyId: 'company-1' });
+    expect(order!.startDate).toBe('2024-01-01T10:00:00.000Z');
+    expect(await repository.getOrder('missing', 'company-1')).toBeNull();
+  });
+
+  it('should list only order documents, filtered and paginated', async () => {
+    // Arrange: Orders for two companies plus an idempotency record
+    await repository.storeOrder(createTestOrder('order-a'), mockContext);
+    await repository.storeOrder(createTestOrder('order-b', { status: 'APPROVED' }), mockContext);
+    await repository.storeOrder(createTestOrder('order-c', { employeeId: 'emp-2' }), mockContext);
+    await repository.storeOrder(createTestOrder('order-x', { companyId: 'company-2' }), mockContext);
+    await repository.storeIdempotencyRecord({
+      key: 'key-1',
+      companyId: 'company-1',
+      requestHash: 'hash',
+      statusCode: 201,
+      result: { success: true, orderId: 'order-a', message: 'ok' },
+      createdAt: new Date()
+    }, mockContext);
+
+    // Act: Page through the company and filter by status
+    const firstPage = await repository.listOrders('company-1', { pageSize: 2 });
+    const secondPage = await repository.listOrders('company-1', {
+      pageSize: 2,
+      continuationToken: firstPage.continuationToken
+    });
+    const approved = await repository.listOrders('company-1', { status: 'APPROVED' });
+
+    // Assert: Check pages and filter
+    expect(firstPage.orders.map((order) => order.id)).toEqual(['order-a', 'order-b']);
+    expect(firstPage.continuationToken).toBeDefined();
+    expect(secondPage.orders.map((order) => order.id)).toEqual(['order-c']);
+    expect(secondPage.continuationToken).toBeUndefined();
+    expect(approved.orders.map((order) => order.id)).toEqual(['order-b']);
+  });
+
+  it('should update the version that was read', async () => {
+    // Arrange: Stored order, read back with its version
+    await repository.storeOrder(createTestOrder('order-1'), mockContext);
+    const stored = await repository.getOrder('order-1', 'company-1');
+
+    // Act: Update it
+    const etag = await repository.updateOrder({ ...stored!, status: 'APPROVED' }, mockContext);
+
+    // Assert: Check update, new version and that the etag is not stored
+    const updated = await repository.getOrder('order-1', 'company-1');
+    expect(updated!.status).toBe('APPROVED');
+    expect(updated!.etag).toBe(etag);
+    expect(etag).not.toBe(stored!.etag);
+    expect((await repository.listOrders('company-1')).orders[0].etag).toBe(etag);
+  });
+
+  it('should refuse stale, unversioned and missing updates', async () => {
+    // Arrange: Order read, then changed by someone else
+    await repository.storeOrder(createTestOrder('order-1'), mockContext);
+    const stale = await repository.getOrder('order-1', 'company-1');
+    await repository.updateOrder({ ...stale!, status: 'REJECTED' }, mockContext);
+
+    // Act & Assert: Check each failure
+    await expect(repository.updateOrder({ ...stale!, status: 'APPROVED' }, mockContext))
+      .rejects.toThrow(ConcurrencyConflictError);
+    await expect(repository.updateOrder(createTestOrder('order-1'), mockContext))
+      .rejects.toMatchObject({ code: 'PRECONDITION_REQUIRED' });
+    await expect(repository.updateOrder(createTestOrder('missing', { etag: stale!.etag }), mockContext))
+      .rejects.toThrow(NotFoundError);
+    expect((await repository.getOrder('order-1', 'company-1'))!.status).toBe('REJECTED');
+  });
+
+  it('should read orders stored before schema versioning as the current type', async () => {
+    // Arrange: v1 document, without a version or the v2 fields
+    const { schemaVersion, accessories, insurance, lineItems, totals, deductionSchedule, ...v1Document } = createTestOrder('order-1');
+    await repository.storeOrder(v1Document as Order, mockContext);
+
+    // Act: Read, then update it
+    const order = await repository.getOrder('order-1', 'company-1');
+    await repository.updateOrder({ ...order!, status: 'APPROVED' }, mockContext);
+
+    // Assert: Upcast on read and rewritten in the current layout
+    expect(order).toMatchObject({
+      schemaVersion: ORDER_SCHEMA_VERSION,
+      accessories: [],
+      insurance: 'NONE',
+      lineItems: [],
+      totals: { oneOff: 120, recurring: 0 },
+      deductionSchedule: {
+        currency: 'EUR',
+        total: 120,
+        installments: [{ number: 1, period: '2024-01', principal: 120, recurring: 0, amount: 120 }]
+      }
+    });
+    expect((await repository.listOrders('company-1')).orders[0])
+      .toMatchObject({ schemaVersion: ORDER_SCHEMA_VERSION, status: 'APPROVED' });
+  });
+
+  it('should refuse documents from a newer schema version', async () => {
+    // Arrange: Document written by a later deployment
+    await repository.storeOrder(createTestOrder('order-1', { schemaVersion: ORDER_SCHEMA_VERSION + 1 }), mockContext);
+
+    // Act & Assert: Not misread as the current type
+    await expect(repository.getOrder('order-1', 'company-1'))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_ORDER_SCHEMA' });
+  });
+
+  it('should delete orders', async () => {
+    // Arrange: Stored order
+    await repository.storeOrder(createTestOrder('order-1'), mockContext);
+
+    // Act & Assert: First delete removes it, second finds nothing
+    expect(await repository.deleteOrder('order-1', 'company-1', mockContext)).toBe(true);
+    expect(await repository.deleteOrder('order-1', 'company-1', mockContext)).toBe(false);
+    expect(await repository.getOrder('order-1', 'company-1')).toBeNull();
+  });
+
+  it('should keep idempotency records', async () => {
+    // Arrange: Record for a processed request
+    const record = {
+      key: 'key-1',
+      companyId: 'company-1',
+      requestHash: 'hash',
+      statusCode: 201,
+      result: { success: true, orderId: 'order-1', message: 'ok' },
+      createdAt: new Date()
+    };
+
+    // Act: Store and read back
+    await repository.storeIdempotencyRecord(record, mockContext);
+
+    // Assert: Check lookup by company and key
+    expect(await repository.getIdempotencyRecord('company-1', 'key-1'))
+      .toMatchObject({ requestHash: 'hash', result: record.result });
+    expect(await repository.getIdempotencyRecord('company-2', 'key-1')).toBeNull();
+  });
+
+  it('should move outbox entries from pending to dispatched', async () => {
+    // Arrange: Two pending entries
+    const order = createTestOrder('order-1');
+    const entry = {
+      id: 'order-1',
+      orderId: 'order-1',
+      companyId: 'company-1',
+      messageType: 'OrderCreated' as const,
+      status: 'PENDING' as const,
+      order,
+      attempts: 0,
+      createdAt: new Date()
+    };
+    await repository.storeOutboxEntry(entry, mockContext);
+    await repository.storeOutboxEntry({ ...entry, id: 'order-2', orderId: 'order-2' }, mockContext);
+
+    // Act: Dispatch one, discard the other
+    await repository.markOutboxEntryDispatched(entry, mockContext);
+    await repository.deleteOutboxEntry({ ...entry, id: 'order-2', orderId: 'order-2' });
+
+    // Assert: Nothing left pending
+    expect(await repository.listPendingOutboxEntries(10)).toEqual([]);
+  });
+
+  it('should keep bike catalogs apart from orders', async () => {
+    // Arrange: Catalog and one order
+    const catalog = {
+      companyId: 'company-1',
+      models: [{ model: 'City Bike', stock: 2 }],
+      updatedAt: new Date()
+    };
+    await repository.storeOrder(createTestOrder('order-1'), mockContext);
+
+    // Act: Store the catalog
+    await repository.storeCatalog(catalog, mockContext);
+
+    // Assert: Catalog is readable and not listed as an order
+    expect(await repository.getCatalog('company-1')).toMatchObject({ models: catalog.models });
+    expect(await repository.getCatalog('company-2')).toBeNull();
+    expect((await repository.listOrders('company-1')).orders).toHaveLength(1);
+  });
+
+  it('should keep company policies', async () => {
+    // Act: Store a policy
+    await repository.storePolicy({ companyId: 'company-1', maxPrice: 500, updatedAt: new Date() }, mockContext);
+
+    // Assert: Policy is readable per company
+    expect(await repository.getPolicy('company-1')).toMatchObject({ maxPrice: 500 });
+    expect(await repository.getPolicy('company-2')).toBeNull();
+  });
+
+  it('should append history entries without listing them as orders', async () => {
+    // Arrange: Stored order
+    await repository.storeOrder(createTestOrder('order-1'), mockContext);
+    const entry = {
+      action: 'STATUS_CHANGED' as const,
+      changedBy: 'manager-1',
+      changedAt: new Date('2024-01-02T00:00:00.000Z'),
+      changes: { status: { before: 'PENDING', after: 'APPROVED' } }
+    };
+
+    // Act: Append two entries
+    await repository.appendOrderHistory('order-1', 'company-1', entry, mockContext);
+    await repository.appendOrderHistory('order-1', 'company-1', { ...entry, changedBy: 'manager-2' }, mockContext);
+
+    // Assert: Entries come back in order and the history is not an order
+    const history = await repository.getOrderHistory('order-1', 'company-1');
+    expect(history.map((item) => item.changedBy)).toEqual(['manager-1', 'manager-2']);
+    expect(await repository.getOrderHistory('order-2', 'company-1')).toEqual([]);
+    expect((await repository.listOrders('company-1')).orders).toHaveLength(1);
+  });
+});
+
+describe('FileSystemOrderRepository paths', () => {
+  it('should refuse names that escape the root directory', async () => {
+    // Arrange: Repository in a temporary directory
+    const repository = new FileSystemOrderRepository(await createTemporaryRoot());
+    const mockContext: any = { log: jest.fn(), error: jest.fn() };
+
+    // Act & Assert: Company id with a parent directory reference
+    await expect(repository.storeOrder(createTestOrder('order-1', { companyId: '..' }), mockContext))
+      .rejects.toThrow(OrderProcessingError);
+  });
+});
+
+describe('createOrderRepository', () => {
+  const originalKind = process.env.ORDER_REPOSITORY;
+
+  afterEach(() => {
+    process.env.ORDER_REPOSITORY = originalKind;
+  });
+
+  it('should default to blob storage', () => {
+    // Act: Create without configuration
+    delete process.env.ORDER_REPOSITORY;
+
+    // Assert: Check implementation
+    expect(createOrderRepository()).toBeInstanceOf(StorageService);
+  });
+
+  it('should share one in-memory repository per process', () => {
+    // Act: Create two in-memory repositories
+    process.env.ORDER_REPOSITORY = 'memory';
+
+    // Assert: Same instance
+    const repository = createOrderRepository();
+    expect(repository).toBeInstanceOf(InMemoryOrderRepository);
+    expect(createOrderRepository()).toBe(repository);
+  });
+
+  it('should create a filesystem repository', () => {
+    // Act: Select filesystem
+    process.env.ORDER_REPOSITORY = 'filesystem';
+
+    // Assert: Check implementation
+    expect(createOrderRepository()).toBeInstanceOf(FileSystemOrderRepository);
+  });
+
+  it('should reject unknown repository kinds', () => {
+    // Act: Select something unsupported
+    process.env.ORDER_REPOSITORY = 'cosmos';
+
+    // Assert: Check configuration error
+    expect(() => createOrderRepository()).toThrow('Unknown ORDER_REPOSITORY "cosmos"');
+  });
+});
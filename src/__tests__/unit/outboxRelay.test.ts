@@ -0,0 +1,132 @@
+import { outboxRelay } from '../../functions/outboxRelay';
+import { InvocationContext, Timer } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../../services/orderEventPublisher';
+import { logRecords } from '../helpers/logRecords';
+
+// Mock the repository and publisher
+jest.mock('../../services/orderRepository');
+jest.mock('../../services/orderEventPublisher');
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('outboxRelay Function', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+  let mockEventPublisher: jest.Mocked<OrderEventPublisher>;
+  const timer = { isPastDue: false } as Timer;
+
+  function pendingEntry(orderId: string, createdAt = new Date()) {
+    return {
+      id: orderId,
+      orderId,
+      companyId: 'company-123',
+      messageType: 'OrderCreated' as const,
+      status: 'PENDING' as const,
+      order: { id: orderId, companyId: 'company-123' } as any,
+      attempts: 0,
+      createdAt
+    };
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      listPendingOutboxEntries: jest.fn().mockResolvedValue([]),
+      getOrder: jest.fn().mockResolvedValue({ id: 'order-1' }),
+      storeOutboxEntry: jest.fn().mockResolvedValue(undefined),
+      markOutboxEntryDispatched: jest.fn().mockResolvedValue(undefined),
+      deleteOutboxEntry: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    mockEventPublisher = {
+      sendOrderMessage: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (createOrderEventPublisher as jest.Mock).mockReturnValue(mockEventPublisher);
+  });
+
+  it('should send pending entries and mark them dispatched', async () => {
+    // Arrange: Two pending entries
+    const entries = [pendingEntry('order-1'), pendingEntry('order-2')];
+    mockOrderRepository.listPendingOutboxEntries.mockResolvedValue(entries);
+
+    // Act: Run the relay
+    await outboxRelay(timer, mockContext);
+
+    // Assert: Both messages sent from the stored snapshot
+    expect(mockEventPublisher.sendOrderMessage).toHaveBeenCalledWith(entries[0].order, mockContext);
+    expect(mockEventPublisher.sendOrderMessage).toHaveBeenCalledWith(entries[1].order, mockContext);
+    expect(mockOrderRepository.markOutboxEntryDispatched).toHaveBeenCalledTimes(2);
+    expect(logRecords(mockContext.log)).toContainEqual(expect.objectContaining({
+      message: 'Outbox relay dispatched 2 of 2 pending entries'
+    }));
+    expect(mockEventPublisher.close).toHaveBeenCalled();
+  });
+
+  it('should keep failed entries pending and record the attempt', async () => {
+    // Arrange: Messaging fails
+    mockOrderRepository.listPendingOutboxEntries.mockResolvedValue([pendingEntry('order-1')]);
+    mockEventPublisher.sendOrderMessage.mockRejectedValue(new Error('Service Bus unavailable'));
+
+    // Act: Run the relay
+    await outboxRelay(timer, mockContext);
+
+    // Assert: Entry rewritten with attempt count, not dispatched
+    expect(mockOrderRepository.storeOutboxEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: 'order-1', attempts: 1, lastError: 'Service Bus unavailable' }),
+      mockContext
+    );
+    expect(mockOrderRepository.markOutboxEntryDispatched).not.toHaveBeenCalled();
+  });
+
+  it('should wait for orders that are not stored yet and discard stale orphans', async () => {
+    // Arrange: Neither order exists; one entry is fresh, one is old
+    const fresh = pendingEntry('order-fresh');
+    const stale = pendingEntry('order-stale', new Date(Date.now() - 60 * 60 * 1000));
+    mockOrderRepository.listPendingOutboxEntries.mockResolvedValue([fresh, stale]);
+    mockOrderRepository.getOrder.mockResolvedValue(null);
+
+    // Act: Run the relay
+    await outboxRelay(timer, mockContext);
+
+    // Assert: Nothing sent, only the stale entry removed
+    expect(mockEventPublisher.sendOrderMessage).not.toHaveBeenCalled();
+    expect(mockOrderRepository.deleteOutboxEntry).toHaveBeenCalledTimes(1);
+    expect(mockOrderRepository.deleteOutboxEntry).toHaveBeenCalledWith(stale);
+  });
+
+  it('should continue with remaining entries when one fails unexpectedly', async () => {
+    // Arrange: Bookkeeping for the first entry fails
+    mockOrderRepository.listPendingOutboxEntries.mockResolvedValue([
+      pendingEntry('order-1'),
+      pendingEntry('order-2')
+    ]);
+    mockOrderRepository.markOutboxEntryDispatched
+      .mockRejectedValueOnce(new Error('Storage down'))
+      .mockResolvedValueOnce(undefined);
+
+    // Act: Run the relay
+    await outboxRelay(timer, mockContext);
+
+    // Assert: Second entry still dispatched
+    expect(logRecords(mockContext.error)).toEqual([expect.objectContaining({
+      message: 'Outbox relay failed for order order-1',
+      orderId: 'order-1',
+      error: expect.objectContaining({ message: 'Storage down' })
+    })]);
+    expect(logRecords(mockContext.log)).toContainEqual(expect.objectContaining({
+      message: 'Outbox relay dispatched 1 of 2 pending entries'
+    }));
+  });
+});
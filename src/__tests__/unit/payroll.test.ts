@@ -0,0 +1,233 @@
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { exportPayrollDeductions, getDeductionSchedule } from '../../functions/payroll';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { authenticate } from '../../utils/auth';
+import { createDeductionSchedule } from '../../utils/deductionSchedule';
+import { countLeaseMonths } from '../../utils/rentalPeriod';
+
+// Mock the order repository
+jest.mock('../../services/orderRepository');
+
+// Keep the authorization rules, stub out token verification
+jest.mock('../../utils/auth', () => ({
+  ...jest.requireActual('../../utils/auth'),
+  authenticate: jest.fn()
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('deduction schedule', () => {
+  it('should count every started lease month', () => {
+    // Assert: Check short, exact, overrunning and month-end leases
+    expect(countLeaseMonths('2024-01-15T00:00:00Z', '2024-01-20T00:00:00Z')).toBe(1);
+    expect(countLeaseMonths('2024-01-15T00:00:00Z', '2024-02-15T00:00:00Z')).toBe(1);
+    expect(countLeaseMonths('2024-01-15T00:00:00Z', '2024-02-16T00:00:00Z')).toBe(2);
+    expect(countLeaseMonths('2024-01-31T00:00:00Z', '2024-02-29T00:00:00Z')).toBe(1);
+    expect(countLeaseMonths('2024-01-01T00:00:00Z', '2027-01-01T00:00:00Z')).toBe(36);
+  });
+
+  it('should spread the rounding remainder over the first installments', () => {
+    // Act: 1000 EUR over a year, plus a monthly servicing plan
+    const schedule = createDeductionSchedule({
+      startDate: '2024-01-01T00:00:00Z',
+      endDate: '2025-01-01T00:00:00Z',
+      currency: 'EUR',
+      totals: { oneOff: 1000, recurring: 4.5 }
+    });
+
+    // Assert: Four cents left over go to the first four months
+    expect(schedule.installments).toHaveLength(12);
+    expect(schedule.installments.map((installment) => installment.principal)).toEqual([
+      83.34, 83.34, 83.34, 83.34, 83.33, 83.33, 83.33, 83.33, 83.33, 83.33, 83.33, 83.33
+    ]);
+    expect(schedule.installments[0]).toEqual({
+      number: 1,
+      period: '2024-01',
+      principal: 83.34,
+      recurring: 4.5,
+      amount: 87.84
+    });
+    expect(schedule.installments[11].period).toBe('2024-12');
+    expect(schedule.total).toBe(1054);
+  });
+
+  it('should split in the currency precision and be deterministic', () => {
+    // Arrange: Yen have no minor units
+    const order = {
+      startDate: '2024-01-31T00:00:00Z',
+      endDate: '2024-04-30T00:00:00Z',
+      currency: 'JPY',
+      totals: { oneOff: 100000, recurring: 0 }
+    };
+
+    // Act: Generate twice, from strings and from dates
+    const schedule = createDeductionSchedule(order);
+    const again = createDeductionSchedule({
+      ...order,
+      startDate: new Date(order.startDate),
+      endDate: new Date(order.endDate)
+    });
+
+    // Assert: Whole yen that add up, one per month
+    expect(schedule.installments.map((installment) => [installment.period, installment.amount])).toEqual([
+      ['2024-01', 33334],
+      ['2024-02', 33333],
+      ['2024-03', 33333]
+    ]);
+    expect(again).toEqual(schedule);
+  });
+});
+
+describe('payroll endpoints', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  function createOrder(id: string, employeeId: string, startDate: string, endDate: string, status = 'APPROVED') {
+    const totals = { oneOff: 360, recurring: 0 };
+    return {
+      id,
+      employeeId,
+      companyId: 'company-123',
+      status,
+      startDate,
+      endDate,
+      currency: 'EUR',
+      totals,
+      deductionSchedule: createDeductionSchedule({ startDate, endDate, currency: 'EUR', totals })
+    } as any;
+  }
+
+  function createRequest(params: Record<string, string>, query: Record<string, string> = {}): HttpRequest {
+    return {
+      params,
+      query: new URLSearchParams(query),
+      headers: new Headers()
+    } as any;
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      getOrder: jest.fn().mockResolvedValue(
+        createOrder('order-1', 'emp-1', '2024-01-01T00:00:00Z', '2024-04-01T00:00:00Z')
+      ),
+      listOrders: jest.fn()
+        .mockResolvedValueOnce({
+          orders: [
+            createOrder('order-2', 'emp-2', '2024-02-10T00:00:00Z', '2024-05-10T00:00:00Z'),
+            createOrder('order-3', 'emp-3', '2024-06-01T00:00:00Z', '2024-09-01T00:00:00Z')
+          ],
+          continuationToken: 'page-2'
+        })
+        .mockResolvedValueOnce({
+          orders: [createOrder('order-1', 'emp-1', '2024-01-01T00:00:00Z', '2024-04-01T00:00:00Z')]
+        })
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (authenticate as jest.Mock).mockResolvedValue({ subject: 'admin-1', role: 'company_admin', companyId: 'company-123' });
+  });
+
+  it('should return the stored schedule of an order', async () => {
+    // Act: Fetch the schedule
+    const result = await getDeductionSchedule(
+      createRequest({ companyId: 'company-123', orderId: 'order-1' }),
+      mockContext
+    );
+
+    // Assert: Three monthly installments of 120 EUR
+    expect(result.status).toBe(200);
+    expect(result.jsonBody).toMatchObject({ orderId: 'order-1', status: 'APPROVED', currency: 'EUR', total: 360 });
+    expect(result.jsonBody.installments.map((installment: any) => installment.amount)).toEqual([120, 120, 120]);
+  });
+
+  it('should export the month\'s deductions of approved orders as CSV', async () => {
+    // Act: Export March 2024
+    const result = await exportPayrollDeductions(
+      createRequest({ companyId: 'company-123' }, { period: '2024-03' }),
+      mockContext
+    );
+
+    // Assert: Every page read, only approved orders, sorted by employee
+    expect(result.status).toBe(200);
+    expect(mockOrderRepository.listOrders).toHaveBeenNthCalledWith(1, 'company-123', {
+      status: 'APPROVED',
+      pageSize: 100,
+      continuationToken: undefined
+    });
+    expect(mockOrderRepository.listOrders).toHaveBeenNthCalledWith(2, 'company-123', {
+      status: 'APPROVED',
+      pageSize: 100,
+      continuationToken: 'page-2'
+    });
+    expect(result.headers).toEqual({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="deductions-company-123-2024-03.csv"'
+    });
+    expect(result.body).toBe(
+      'employeeId,orderId,period,installment,installments,amount,currency\r\n' +
+      'emp-1,order-1,2024-03,3,3,120,EUR\r\n' +
+      'emp-2,order-2,2024-03,2,3,120,EUR\r\n'
+    );
+  });
+
+  it('should export JSON on request and validate the period', async () => {
+    // Act: JSON export, then a malformed period
+    const json = await exportPayrollDeductions(
+      createRequest({ companyId: 'company-123' }, { period: '2024-03', format: 'json' }),
+      mockContext
+    );
+    const invalid = await exportPayrollDeductions(
+      createRequest({ companyId: 'company-123' }, { period: '2024-13' }),
+      mockContext
+    );
+
+    // Assert: Same rows as JSON; bad period rejected
+    expect(json.jsonBody).toEqual({
+      companyId: 'company-123',
+      period: '2024-03',
+      deductions: [
+        { employeeId: 'emp-1', orderId: 'order-1', period: '2024-03', installment: 3, installments: 3, amount: 120, currency: 'EUR' },
+        { employeeId: 'emp-2', orderId: 'order-2', period: '2024-03', installment: 2, installments: 3, amount: 120, currency: 'EUR' }
+      ]
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.jsonBody.errors[0].path).toBe('period');
+  });
+
+  it('should let only company admins export', async () => {
+    // Arrange: Employee caller
+    (authenticate as jest.Mock).mockResolvedValue({
+      subject: 'emp-1',
+      role: 'employee',
+      companyId: 'company-123',
+      employeeId: 'emp-1'
+    });
+
+    // Act: Export, and read someone else's schedule
+    const exported = await exportPayrollDeductions(
+      createRequest({ companyId: 'company-123' }, { period: '2024-03' }),
+      mockContext
+    );
+    mockOrderRepository.getOrder.mockResolvedValue(
+      createOrder('order-2', 'emp-2', '2024-02-10T00:00:00Z', '2024-05-10T00:00:00Z')
+    );
+    const schedule = await getDeductionSchedule(
+      createRequest({ companyId: 'company-123', orderId: 'order-2' }),
+      mockContext
+    );
+
+    // Assert: Both forbidden
+    expect(exported.status).toBe(403);
+    expect(schedule.status).toBe(403);
+    expect(mockOrderRepository.listOrders).not.toHaveBeenCalled();
+  });
+});
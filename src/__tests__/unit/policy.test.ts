@@ -0,0 +1,118 @@
+import { getPolicy, putPolicy } from '../../functions/policy';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { authenticate } from '../../utils/auth';
+import { AuthenticationError } from '../../utils/errors';
+
+// Mock the repository
+jest.mock('../../services/orderRepository');
+
+// Keep the authorization rules, stub out token verification
+jest.mock('../../utils/auth', () => ({
+  ...jest.requireActual('../../utils/auth'),
+  authenticate: jest.fn()
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('Policy Functions', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  function createRequest(body?: any, companyId = 'company-123'): HttpRequest {
+    return {
+      params: { companyId },
+      json: jest.fn().mockResolvedValue(body)
+    } as any;
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      initializeContainer: jest.fn().mockResolvedValue(undefined),
+      getPolicy: jest.fn().mockResolvedValue(null),
+      storePolicy: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (authenticate as jest.Mock).mockResolvedValue({ subject: 'admin-1', role: 'company_admin', companyId: 'company-123' });
+  });
+
+  it('should return 404 when the company has no policy', async () => {
+    // Act: Fetch the policy
+    const result = await getPolicy(createRequest(), mockContext);
+
+    // Assert: Check not found response
+    expect(result.status).toBe(404);
+    expect(result.jsonBody.code).toBe('POLICY_NOT_FOUND');
+  });
+
+  it('should store a valid policy for the route company', async () => {
+    // Act: Replace the policy
+    const result = await putPolicy(createRequest({ maxPrice: 500, minLeadTimeHours: 24 }), mockContext);
+
+    // Assert: Check it was stored
+    expect(result.status).toBe(200);
+    expect(mockOrderRepository.storePolicy).toHaveBeenCalledWith(
+      expect.objectContaining({ companyId: 'company-123', maxPrice: 500, minLeadTimeHours: 24 }),
+      mockContext
+    );
+  });
+
+  it('should reject invalid rules', async () => {
+    // Act: Submit an invalid policy
+    const result = await putPolicy(createRequest({ maxRentalDays: 0, allowedBikeModels: [] }), mockContext);
+
+    // Assert: Check validation errors
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.errors).toEqual([
+      { path: 'allowedBikeModels', message: 'At least one bike model must be allowed', code: 'too_small' },
+      { path: 'maxRentalDays', message: 'Max rental days must be positive', code: 'too_small' }
+    ]);
+    expect(mockOrderRepository.storePolicy).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    // Arrange: Token verification fails
+    (authenticate as jest.Mock).mockRejectedValue(new AuthenticationError('Bearer token is required'));
+
+    // Act: Read and replace the policy
+    const read = await getPolicy(createRequest(), mockContext);
+    const replaced = await putPolicy(createRequest({ maxPrice: 5000 }), mockContext);
+
+    // Assert: Check unauthorized responses
+    expect(read.status).toBe(401);
+    expect(replaced.status).toBe(401);
+    expect(replaced.jsonBody.code).toBe('UNAUTHENTICATED');
+    expect(mockOrderRepository.storePolicy).not.toHaveBeenCalled();
+  });
+
+  it('should let only company admins of the company replace its policy', async () => {
+    // Arrange: Employee caller
+    (authenticate as jest.Mock).mockResolvedValue({
+      subject: 'emp-1',
+      role: 'employee',
+      companyId: 'company-123',
+      employeeId: 'emp-1'
+    });
+
+    // Act: Replace the own policy, then read another company's
+    const replaced = await putPolicy(createRequest({ maxPrice: 5000 }), mockContext);
+    const foreign = await getPolicy(createRequest(undefined, 'company-999'), mockContext);
+
+    // Assert: Both forbidden
+    expect(replaced.status).toBe(403);
+    expect(replaced.jsonBody.code).toBe('FORBIDDEN');
+    expect(foreign.status).toBe(403);
+    expect(mockOrderRepository.storePolicy).not.toHaveBeenCalled();
+    expect(mockOrderRepository.getPolicy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { evaluatePolicy, PolicyService } from '../../services/policyService';
+import { OrderRepository } from '../../services/orderRepository';
+import { CompanyPolicy, PricedOrderRequest } from '../../types/Order';
+import { handleError, ValidationError } from '../../utils/errors';
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+const order: PricedOrderRequest = {
+  employeeId: 'emp-1',
+  bikeModel: 'E-Bike',
+  startDate: '2024-03-04T12:00:00Z',
+  endDate: '2024-03-11T12:00:00Z',
+  price: 210,
+  currency: 'EUR',
+  companyId: 'company-1',
+  normalizedPrice: { amount: 210, currency: 'EUR', exchangeRate: 1 },
+  lineItems: [],
+  totals: { oneOff: 210, recurring: 0 },
+  normalizedTotal: { amount: 210, currency: 'EUR', exchangeRate: 1 }
+};
+
+describe('evaluatePolicy', () => {
+  const policy: CompanyPolicy = {
+    companyId: 'company-1',
+    maxPrice: 250,
+    allowedBikeModels: ['E-Bike', 'City Bike'],
+    maxRentalDays: 7,
+    minLeadTimeHours: 48,
+    maxConcurrentOrdersPerEmployee: 2,
+    updatedAt: now
+  };
+
+  it('should accept an order within every rule', () => {
+    // Act & Assert: No violations
+    expect(evaluatePolicy(policy, order, 1, now)).toEqual([]);
+  });
+
+  it('should report every broken rule against its field', () => {
+    // Arrange: Order breaking all rules
+    const violating: PricedOrderRequest = {
+      ...order,
+      bikeModel: 'Cargo Bike',
+      startDate: '2024-03-02T00:00:00Z',
+      endDate: '2024-03-12T00:00:00Z',
+      normalizedTotal: { amount: 300, currency: 'EUR', exchangeRate: 1 }
+    };
+
+    // Act: Evaluate
+    const violations = evaluatePolicy(policy, violating, 2, now);
+
+    // Assert: One message per rule
+    expect(violations).toEqual([
+      'price: Order total of 300 EUR exceeds the company limit of 250 EUR',
+      'bikeModel: Bike model "Cargo Bike" is not allowed by company policy',
+      'endDate: Rental of 10 days exceeds the company maximum of 7 days',
+      'startDate: Orders must be placed at least 48 hours before the start date',
+      'employeeId: The employee already has 2 active orders, the company maximum is 2'
+    ]);
+  });
+
+  it('should apply the price limit to the order total rather than the bike', () => {
+    // Arrange: Bike within the limit, line items pushing the lease over it
+    const withLineItems: PricedOrderRequest = {
+      ...order,
+      lineItems: [{ sku: 'SERVICE-PLAN', quantity: 1, unitPrice: 45, billing: 'RECURRING', total: 45 }],
+      totals: { oneOff: 210, recurring: 45 },
+      normalizedTotal: { amount: 255, currency: 'EUR', exchangeRate: 1 }
+    };
+
+    // Act & Assert: Only the price limit is broken
+    expect(evaluatePolicy(policy, withLineItems, 0, now)).toEqual([
+      'price: Order total of 255 EUR exceeds the company limit of 250 EUR'
+    ]);
+  });
+});
+
+describe('PolicyService', () => {
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+  let policyService: PolicyService;
+  let mockContext: any;
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn()
+    };
+    mockOrderRepository = {
+      getPolicy: jest.fn().mockResolvedValue({
+        companyId: 'company-1',
+        maxConcurrentOrdersPerEmployee: 1,
+        updatedAt: now
+      }),
+      listOrders: jest.fn().mockResolvedValue({ orders: [] })
+    } as any;
+    policyService = new PolicyService(mockOrderRepository);
+  });
+
+  it('should skip companies without a policy', async () => {
+    // Arrange: No policy stored
+    mockOrderRepository.getPolicy.mockResolvedValue(null);
+
+    // Act & Assert: Nothing is checked
+    await expect(policyService.assertCompliant(order, mockContext, { now })).resolves.toBeUndefined();
+    expect(mockOrderRepository.listOrders).not.toHaveBeenCalled();
+  });
+
+  it('should only count pending and approved rentals that have not ended', async () => {
+    // Arrange: Employee's order history across two pages
+    mockOrderRepository.listOrders
+      .mockResolvedValueOnce({
+        orders: [
+          { status: 'APPROVED', endDate: '2024-02-20T00:00:00Z' } as any,
+          { status: 'REJECTED', endDate: '2024-03-20T00:00:00Z' } as any
+        ],
+        continuationToken: 'next'
+      })
+      .mockResolvedValueOnce({
+        orders: [{ status: 'PENDING', endDate: '2024-03-20T00:00:00Z' } as any]
+      });
+
+    // Act & Assert: The one active order reaches the limit
+    await expect(policyService.assertCompliant(order, mockContext, { now })).rejects.toEqual(
+      new ValidationError('Order violates company policy', [
+        'employeeId: The employee already has 1 active orders, the company maximum is 1'
+      ])
+    );
+    expect(mockOrderRepository.listOrders).toHaveBeenCalledWith('company-1', {
+      employeeId: 'emp-1',
+      continuationToken: 'next',
+      pageSize: 100
+    });
+  });
+
+  it('should keep the employee id out of logged violations', async () => {
+    // Arrange: Employee at the limit, handled like a failed request
+    mockOrderRepository.listOrders.mockResolvedValue({
+      orders: [{ status: 'PENDING', endDate: '2024-03-20T00:00:00Z' } as any]
+    });
+    const violation = await policyService.assertCompliant(order, mockContext, { now }).catch((error) => error);
+
+    // Act: Turn it into a response
+    const response = handleError(violation, mockContext);
+
+    // Assert: Rejected, and the raw id appears in no log record
+    expect(response.status).toBe(400);
+    const logged = mockContext.error.mock.calls.map(([line]: [string]) => line).join('\n');
+    expect(logged).toContain('active orders');
+    expect(logged).not.toContain('emp-1');
+  });
+});
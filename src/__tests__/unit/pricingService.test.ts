@@ -0,0 +1,293 @@
+import { calculateQuote, PricingService } from '../../services/pricingService';
+import { OrderRepository } from '../../services/orderRepository';
+import { BikeCatalog } from '../../types/Order';
+import { OrderProcessingError, ValidationError } from '../../utils/errors';
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('calculateQuote', () => {
+  const catalog: BikeCatalog = {
+    companyId: 'company-1',
+    models: [
+      { model: 'E-Bike', stock: 2, dailyRate: 30 },
+      { model: 'City Bike', stock: 5 }
+    ],
+    pricing: {
+      currency: 'EUR',
+      taxRate: 0.19,
+      discountTiers: [{ minDays: 7, percent: 10 }, { minDays: 30, percent: 25 }]
+    },
+    updatedAt: new Date()
+  };
+
+  it('should itemise rate, discount and tax', () => {
+    // Act: Quote a 10-day rental
+    const quote = calculateQuote(catalog, {
+      companyId: 'company-1',
+      bikeModel: 'E-Bike',
+      startDate: '2024-03-01T00:00:00Z',
+      endDate: '2024-03-11T00:00:00Z'
+    });
+
+    // Assert: 300 - 10% = 270, + 19% = 321.30
+    expect(quote).toEqual({
+      companyId: 'company-1',
+      bikeModel: 'E-Bike',
+      startDate: '2024-03-01T00:00:00Z',
+      endDate: '2024-03-11T00:00:00Z',
+      currency: 'EUR',
+      rentalDays: 10,
+      dailyRate: 30,
+      subtotal: 300,
+      discountPercent: 10,
+      discount: 30,
+      taxRate: 0.19,
+      tax: 51.3,
+      total: 321.3
+    });
+  });
+
+  it('should charge every started day and apply the best tier reached', () => {
+    // Act: Quote 30 days and one hour
+    const quote = calculateQuote(catalog, {
+      companyId: 'company-1',
+      bikeModel: 'E-Bike',
+      startDate: '2024-03-01T00:00:00Z',
+      endDate: '2024-03-31T01:00:00Z'
+    });
+
+    // Assert: 31 days at the 25% tier
+    expect(quote).toMatchObject({ rentalDays: 31, discountPercent: 25, subtotal: 930, discount: 232.5 });
+  });
+
+  it('should return null for models without a daily rate', () => {
+    // Act & Assert: City Bike has no rate
+    expect(calculateQuote(catalog, {
+      companyId: 'company-1',
+      bikeModel: 'City Bike',
+      startDate: '2024-03-01T00:00:00Z',
+      endDate: '2024-03-02T00:00:00Z'
+    })).toBeNull();
+  });
+});
+
+describe('PricingService', () => {
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+  let pricingService: PricingService;
+  let mockContext: any;
+
+  const order = {
+    employeeId: 'emp-1',
+    bikeModel: 'E-Bike',
+    startDate: '2024-03-01T00:00:00Z',
+    endDate: '2024-03-03T00:00:00Z',
+    currency: 'EUR',
+    companyId: 'company-1'
+  };
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn()
+    };
+    mockOrderRepository = {
+      getCatalog: jest.fn().mockResolvedValue({
+        companyId: 'company-1',
+        models: [{ model: 'E-Bike', stock: 2, dailyRate: 30 }],
+        pricing: { currency: 'EUR', taxRate: 0, discountTiers: [] },
+        updatedAt: new Date()
+      })
+    } as any;
+    pricingService = new PricingService(mockOrderRepository);
+  });
+
+  it('should accept a submitted price that matches the quote', async () => {
+    // Act: Price an order submitted with the quoted amount
+    const priced = await pricingService.priceOrder({ ...order, price: 60 }, mockContext);
+
+    // Assert: Quote total is kept
+    expect(priced.price).toBe(60);
+  });
+
+  it('should reject a price in another currency than the price list', async () => {
+    // Act & Assert: Check validation error
+    await expect(pricingService.priceOrder({ ...order, currency: 'USD' }, mockContext))
+      .rejects.toThrow(ValidationError);
+  });
+
+  it('should keep the submitted price when no price list applies', async () => {
+    // Arrange: No catalog
+    mockOrderRepository.getCatalog.mockResolvedValue(null);
+
+    // Act: Price an order
+    const priced = await pricingService.priceOrder({ ...order, price: 42 }, mockContext);
+
+    // Assert: Submitted price kept, quotes unavailable
+    expect(priced.price).toBe(42);
+    await expect(pricingService.quote(order, mockContext)).rejects.toMatchObject({
+      code: 'PRICING_NOT_CONFIGURED',
+      statusCode: 404
+    });
+  });
+
+  it('should report mismatches with the quoted total', async () => {
+    // Act & Assert: Check mismatch error
+    await expect(pricingService.priceOrder({ ...order, price: 59.9 }, mockContext))
+      .rejects.toEqual(new OrderProcessingError(
+        'Submitted price 59.9 does not match the quoted price 60 EUR',
+        'PRICE_MISMATCH',
+        422
+      ));
+  });
+
+  it('should keep the submitted price for models the catalog does not price', async () => {
+    // Arrange: City Bike is stocked without a rate, a second catalog is stock-only
+    mockOrderRepository.getCatalog
+      .mockResolvedValueOnce({
+        companyId: 'company-1',
+        models: [{ model: 'E-Bike', stock: 2, dailyRate: 30 }, { model: 'City Bike', stock: 2 }],
+        pricing: { currency: 'EUR', taxRate: 0, discountTiers: [] },
+        updatedAt: new Date()
+      })
+      .mockResolvedValueOnce({
+        companyId: 'company-1',
+        models: [{ model: 'E-Bike', stock: 2 }],
+        updatedAt: new Date()
+      })
+      .mockResolvedValueOnce({
+        companyId: 'company-1',
+        models: [{ model: 'E-Bike', stock: 2 }],
+        updatedAt: new Date()
+      });
+
+    // Act: Price both orders
+    const cityBike = await pricingService.priceOrder({ ...order, bikeModel: 'City Bike', price: 45 }, mockContext);
+    const stockOnly = await pricingService.priceOrder({ ...order, price: 42 }, mockContext);
+
+    // Assert: Submitted prices kept, and still required
+    expect(cityBike.price).toBe(45);
+    expect(stockOnly.price).toBe(42);
+    await expect(pricingService.priceOrder(order, mockContext)).rejects.toMatchObject({
+      validationErrors: ['price: Price is required when the company has no price list for this bike model']
+    });
+  });
+
+  it('should reject models that are not in the catalog, even with a submitted price', async () => {
+    // Act & Assert: Check the bike model error
+    await expect(pricingService.priceOrder({ ...order, bikeModel: 'Cargo Bike', price: 1 }, mockContext))
+      .rejects.toMatchObject({
+        validationErrors: ['bikeModel: Unknown bike model "Cargo Bike"']
+      });
+  });
+
+  describe('line items', () => {
+    beforeEach(() => {
+      // Arrange: Price list with a lock and a servicing plan, 10% tax
+      mockOrderRepository.getCatalog.mockResolvedValue({
+        companyId: 'company-1',
+        models: [{ model: 'E-Bike', stock: 2, dailyRate: 30 }],
+        pricing: {
+          currency: 'EUR',
+          taxRate: 0.1,
+          discountTiers: [],
+          addOns: [
+            { sku: 'LOCK-U', billing: 'ONE_OFF', unitPrice: 20 },
+            { sku: 'SERVICE-PLAN', billing: 'RECURRING', unitPrice: 5 }
+          ]
+        },
+        updatedAt: new Date()
+      });
+    });
+
+    it('should price line items from the price list and normalize the order total', async () => {
+      // Act: Two locks and a servicing plan, submitted without prices
+      const priced = await pricingService.priceOrder({
+        ...order,
+        endDate: '2024-05-01T00:00:00Z',
+        lineItems: [
+          { sku: 'LOCK-U', quantity: 2, billing: 'ONE_OFF' },
+          { sku: 'SERVICE-PLAN', quantity: 1, billing: 'RECURRING' }
+        ]
+      }, mockContext);
+
+      // Assert: Taxed unit prices; 61 taxed days of bike + 44 in locks + 2 months of 5.50
+      expect(priced.lineItems).toEqual([
+        { sku: 'LOCK-U', quantity: 2, unitPrice: 22, billing: 'ONE_OFF', total: 44 },
+        { sku: 'SERVICE-PLAN', quantity: 1, unitPrice: 5.5, billing: 'RECURRING', total: 5.5 }
+      ]);
+      expect(priced.totals).toEqual({ oneOff: 2057, recurring: 5.5 });
+      expect(priced.normalizedTotal).toEqual({ amount: 2068, currency: 'EUR', exchangeRate: 1 });
+    });
+
+    it('should reject unlisted add-ons and unit prices that do not match', async () => {
+      // Act & Assert: A helmet the company does not sell
+      await expect(pricingService.priceOrder({
+        ...order,
+        lineItems: [{ sku: 'HELMET', quantity: 1, unitPrice: 30, billing: 'ONE_OFF' }]
+      }, mockContext)).rejects.toMatchObject({
+        validationErrors: ["lineItems.0.sku: HELMET (ONE_OFF) is not on the company's price list"]
+      });
+
+      // Act & Assert: A free lock
+      await expect(pricingService.priceOrder({
+        ...order,
+        lineItems: [{ sku: 'LOCK-U', quantity: 1, unitPrice: 0.01, billing: 'ONE_OFF' }]
+      }, mockContext)).rejects.toEqual(new OrderProcessingError(
+        'Submitted unit price 0.01 for LOCK-U does not match the quoted price 22 EUR',
+        'PRICE_MISMATCH',
+        422
+      ));
+    });
+
+    it('should price accessories and insurance as add-ons', async () => {
+      // Act: v2 order with an accessory, a paid plan and an accessory repeating a line item
+      const priced = await pricingService.priceOrder({
+        ...order,
+        accessories: [{ name: 'LOCK-U', quantity: 1 }],
+        insurance: 'BASIC'
+      }, mockContext).catch((error) => error);
+      const repeated = await pricingService.priceOrder({
+        ...order,
+        lineItems: [{ sku: 'LOCK-U', quantity: 1, billing: 'ONE_OFF' }],
+        accessories: [{ name: 'LOCK-U', quantity: 1 }]
+      }, mockContext).catch((error) => error);
+
+      // Assert: The plan is not on the price list; the lock may only be ordered once
+      expect(priced.validationErrors).toEqual(["insurance: INSURANCE-BASIC (RECURRING) is not on the company's price list"]);
+      expect(repeated.validationErrors).toEqual([
+        'accessories.0.name: LOCK-U is already on the order; raise its quantity instead'
+      ]);
+
+      // Act: Same accessory without insurance
+      const lock = await pricingService.priceOrder({
+        ...order,
+        accessories: [{ name: 'LOCK-U', quantity: 3 }],
+        insurance: 'NONE'
+      }, mockContext);
+
+      // Assert: Priced from the price list like a line item
+      expect(lock.lineItems).toEqual([{ sku: 'LOCK-U', quantity: 3, unitPrice: 22, billing: 'ONE_OFF', total: 66 }]);
+    });
+
+    it('should require unit prices when no price list applies', async () => {
+      // Arrange: No catalog
+      mockOrderRepository.getCatalog.mockResolvedValue(null);
+
+      // Act & Assert: One line priced, one not
+      await expect(pricingService.priceOrder({
+        ...order,
+        price: 60,
+        lineItems: [
+          { sku: 'LOCK-U', quantity: 1, unitPrice: 19.99, billing: 'ONE_OFF' },
+          { sku: 'HELMET', quantity: 1, billing: 'ONE_OFF' }
+        ]
+      }, mockContext)).rejects.toMatchObject({
+        validationErrors: ['lineItems.1.unitPrice: Unit price is required when the company has no price list']
+      });
+    });
+  });
+});
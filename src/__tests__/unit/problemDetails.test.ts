@@ -0,0 +1,108 @@
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { z } from 'zod';
+import { prefersLegacyErrors, problemTypeUri } from '../../utils/problemDetails';
+import { handleError, RateLimitExceededError, ValidationError } from '../../utils/errors';
+
+describe('problem details', () => {
+  let mockContext: InvocationContext;
+
+  function createRequest(accept?: string): HttpRequest {
+    return { headers: new Headers(accept ? { Accept: accept } : {}) } as any;
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      invocationId: '4c3b3a7e-0d7f-4a52-9a57-5b8f8f0c1e2d',
+      functionName: 'processOrder',
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+  });
+
+  afterEach(() => {
+    delete process.env.PROBLEM_TYPE_BASE_URI;
+  });
+
+  it('should describe a validation error with structured field errors', () => {
+    // Arrange: Error built from zod issues
+    const parsed = z.object({ companyId: z.string(), price: z.number().positive() })
+      .safeParse({ price: -1 });
+    const error = ValidationError.fromZodError('Validation failed', (parsed as z.SafeParseError<unknown>).error);
+
+    // Act: Handle the error
+    const result = handleError(error, mockContext, createRequest());
+
+    // Assert: Check problem response
+    expect(result.status).toBe(400);
+    expect(result.headers).toEqual({ 'Content-Type': 'application/problem+json' });
+    expect(result.jsonBody).toEqual({
+      type: 'urn:bike-orders:problem:validation-error',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Validation failed',
+      instance: 'urn:uuid:4c3b3a7e-0d7f-4a52-9a57-5b8f8f0c1e2d',
+      code: 'VALIDATION_ERROR',
+      errors: [
+        { path: 'companyId', message: 'Required', code: 'invalid_type' },
+        { path: 'price', message: 'Number must be greater than 0', code: 'too_small' }
+      ]
+    });
+  });
+
+  it('should derive field errors from plain validation messages', () => {
+    // Act: Errors raised without zod
+    const error = new ValidationError('Order violates company policy', [
+      'bikeModel: Bike model "Tandem" is not allowed by company policy',
+      'Request body cannot be empty'
+    ]);
+
+    // Assert: Path split off where there is one
+    expect(error.fieldErrors).toEqual([
+      { path: 'bikeModel', message: 'Bike model "Tandem" is not allowed by company policy', code: 'custom' },
+      { path: '', message: 'Request body cannot be empty', code: 'custom' }
+    ]);
+  });
+
+  it('should build type URIs from the error code under a configurable base', () => {
+    // Arrange: Published problem documentation
+    process.env.PROBLEM_TYPE_BASE_URI = 'https://docs.example.com/problems/';
+
+    // Act: Handle a rate limit error
+    const result = handleError(new RateLimitExceededError('Too many orders', 30), mockContext);
+
+    // Assert: Check type and kept headers
+    expect(problemTypeUri('RATE_LIMITED')).toBe('https://docs.example.com/problems/rate-limited');
+    expect(result.jsonBody.type).toBe('https://docs.example.com/problems/rate-limited');
+    expect(result.jsonBody.title).toBe('Too Many Requests');
+    expect(result.headers).toEqual({ 'Retry-After': '30', 'Content-Type': 'application/problem+json' });
+  });
+
+  it('should negotiate the legacy shape only for clients that prefer plain JSON', () => {
+    // Act & Assert: Problem details unless application/json wins
+    expect(prefersLegacyErrors(undefined)).toBe(false);
+    expect(prefersLegacyErrors(createRequest())).toBe(false);
+    expect(prefersLegacyErrors(createRequest('*/*'))).toBe(false);
+    expect(prefersLegacyErrors(createRequest('application/problem+json'))).toBe(false);
+    expect(prefersLegacyErrors(createRequest('application/problem+json, application/json'))).toBe(false);
+    expect(prefersLegacyErrors(createRequest('application/json'))).toBe(true);
+    expect(prefersLegacyErrors(createRequest('application/json, text/plain, */*'))).toBe(true);
+    expect(prefersLegacyErrors(createRequest('application/problem+json;q=0.5, application/json'))).toBe(true);
+    expect(prefersLegacyErrors(createRequest('application/json;q=0.5, */*'))).toBe(false);
+  });
+
+  it('should hide unexpected errors behind a generic problem', () => {
+    // Act: Handle a programming error, in both formats
+    const problem = handleError(new TypeError('x is undefined'), mockContext);
+    const legacy = handleError(new TypeError('x is undefined'), mockContext, createRequest('application/json'));
+
+    // Assert: No internal details leak
+    expect(problem.jsonBody).toMatchObject({
+      type: 'urn:bike-orders:problem:internal-error',
+      status: 500,
+      detail: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+    expect(legacy.jsonBody).toEqual({ success: false, message: 'Internal server error' });
+  });
+});
@@ -1,11 +1,17 @@
-import { processOrder } from '../../functions/processOrder';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { processOrder, processOrderV2 } from '../../functions/processOrder';
 import { InvocationContext, HttpRequest } from '@azure/functions';
-import { StorageService } from '../../services/storageService';
-import { MessagingService } from '../../services/messagingService';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../../services/orderEventPublisher';
+import { createOrderMessage } from '../../services/orderMessages';
+import { SignJWT } from 'jose';
+import { logRecords } from '../helpers/logRecords';
 
-// Mock the services
-jest.mock('../../services/storageService');
-jest.mock('../../services/messagingService');
+// Mock the repository and publisher
+jest.mock('../../services/orderRepository');
+jest.mock('../../services/orderEventPublisher');
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'test-order-id-123')
 }));
@@ -18,8 +24,8 @@ jest.mock('../../utils/retry', () => ({
 describe('processOrder Function', () => {
   let mockContext: InvocationContext;
   let mockRequest: HttpRequest;
-  let mockStorageService: jest.Mocked<StorageService>;
-  let mockMessagingService: jest.Mocked<MessagingService>;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+  let mockEventPublisher: jest.Mocked<OrderEventPublisher>;
 
   beforeEach(() => {
     // Setup mock context
@@ -30,20 +36,31 @@ describe('processOrder Function', () => {
     } as any;
 
     // Setup mock services
-    mockStorageService = {
+    mockOrderRepository = {
       initializeContainer: jest.fn().mockResolvedValue(undefined),
       storeOrder: jest.fn().mockResolvedValue(undefined),
-      getOrder: jest.fn().mockResolvedValue(null)
+      getOrder: jest.fn().mockResolvedValue(null),
+      storeOutboxEntry: jest.fn().mockResolvedValue(undefined),
+      markOutboxEntryDispatched: jest.fn().mockResolvedValue(undefined),
+      getIdempotencyRecord: jest.fn().mockResolvedValue(null),
+      storeIdempotencyRecord: jest.fn().mockResolvedValue(undefined),
+      getCatalog: jest.fn().mockResolvedValue(null),
+      getPolicy: jest.fn().mockResolvedValue(null),
+      listOrders: jest.fn().mockResolvedValue({ orders: [] }),
+      listOrderSummaries: jest.fn().mockResolvedValue({ summaries: [] }),
+      updateReservations: jest.fn(async (companyId, bikeModel, update) => {
+        await update([]);
+      })
     } as any;
 
-    mockMessagingService = {
+    mockEventPublisher = {
       sendOrderMessage: jest.fn().mockResolvedValue(undefined),
       close: jest.fn().mockResolvedValue(undefined)
     } as any;
 
     // Mock constructors
-    (StorageService as jest.Mock).mockImplementation(() => mockStorageService);
-    (MessagingService as jest.Mock).mockImplementation(() => mockMessagingService);
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (createOrderEventPublisher as jest.Mock).mockReturnValue(mockEventPublisher);
   });
 
   describe('Valid Order Processing', () => {
@@ -60,6 +77,7 @@ describe('processOrder Function', () => {
       };
 
       mockRequest = {
+        headers: new Headers(),
         json: jest.fn().mockResolvedValue(validOrderData)
       } as any;
 
@@ -75,14 +93,34 @@ describe('processOrder Function', () => {
       });
 
       // Assert: Check all services were called
-      expect(mockStorageService.initializeContainer).toHaveBeenCalledTimes(1);
-      expect(mockStorageService.storeOrder).toHaveBeenCalledTimes(1);
-      expect(mockMessagingService.sendOrderMessage).toHaveBeenCalledTimes(1);
-      expect(mockMessagingService.close).toHaveBeenCalledTimes(1);
+      expect(mockOrderRepository.initializeContainer).toHaveBeenCalledTimes(1);
+      expect(mockOrderRepository.storeOutboxEntry).toHaveBeenCalledTimes(1);
+      expect(mockOrderRepository.storeOrder).toHaveBeenCalledTimes(1);
+      expect(mockEventPublisher.sendOrderMessage).toHaveBeenCalledTimes(1);
+      expect(mockOrderRepository.markOutboxEntryDispatched).toHaveBeenCalledTimes(1);
+      expect(mockEventPublisher.close).toHaveBeenCalledTimes(1);
+
+      // Assert: Check the outbox entry carries the stored order
+      const outboxEntry = mockOrderRepository.storeOutboxEntry.mock.calls[0][0];
+      expect(outboxEntry).toMatchObject({
+        id: 'test-order-id-123',
+        orderId: 'test-order-id-123',
+        companyId: 'company-123',
+        messageType: 'OrderCreated',
+        status: 'PENDING',
+        attempts: 0
+      });
+      expect(outboxEntry.order).toBe(mockOrderRepository.storeOrder.mock.calls[0][0]);
 
       // Assert: Check logging
-      expect(mockContext.log).toHaveBeenCalledWith('Order processing started');
-      expect(mockContext.log).toHaveBeenCalledWith('Created order test-order-id-123 for employee emp-123');
+      const records = logRecords(mockContext.log);
+      expect(records[0]).toMatchObject({ level: 'info', message: 'Order processing started' });
+      expect(records).toContainEqual(expect.objectContaining({
+        message: 'Created order test-order-id-123',
+        orderId: 'test-order-id-123',
+        companyId: 'company-123'
+      }));
+      expect(JSON.stringify((mockContext.log as jest.Mock).mock.calls)).not.toContain('emp-123');
     });
 
     it('should create order with correct structure', async () => {
@@ -98,6 +136,7 @@ describe('processOrder Function', () => {
       };
 
       mockRequest = {
+        headers: new Headers(),
         json: jest.fn().mockResolvedValue(validOrderData)
       } as any;
 
@@ -105,7 +144,7 @@ describe('processOrder Function', () => {
       await processOrder(mockRequest, mockContext);
 
       // Assert: Check the order object passed to storage
-      const storedOrder = mockStorageService.storeOrder.mock.calls[0][0];
+      const storedOrder = mockOrderRepository.storeOrder.mock.calls[0][0];
       expect(storedOrder).toMatchObject({
         id: 'test-order-id-123',
         employeeId: 'emp-456',
@@ -132,6 +171,7 @@ describe('processOrder Function', () => {
       };
 
       mockRequest = {
+        headers: new Headers(),
         json: jest.fn().mockResolvedValue(invalidData)
       } as any;
 
@@ -140,14 +180,18 @@ describe('processOrder Function', () => {
 
       // Assert: Check validation error response
       expect(result.status).toBe(400);
-      expect(result.jsonBody.success).toBe(false);
-      expect(result.jsonBody.message).toBe('Validation failed');
-      expect(result.jsonBody.errors).toBeDefined();
-      expect(Array.isArray(result.jsonBody.errors)).toBe(true);
+      expect(result.headers).toEqual({ 'Content-Type': 'application/problem+json' });
+      expect(result.jsonBody.code).toBe('VALIDATION_ERROR');
+      expect(result.jsonBody.detail).toBe('Validation failed');
+      expect(result.jsonBody.errors).toContainEqual({
+        path: 'employeeId',
+        message: 'Employee ID is required',
+        code: 'too_small'
+      });
 
       // Assert: Services should not be called
-      expect(mockStorageService.storeOrder).not.toHaveBeenCalled();
-      expect(mockMessagingService.sendOrderMessage).not.toHaveBeenCalled();
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+      expect(mockEventPublisher.sendOrderMessage).not.toHaveBeenCalled();
     });
 
     it('should handle invalid date order (endDate before startDate)', async () => {
@@ -163,6 +207,7 @@ describe('processOrder Function', () => {
       };
 
       mockRequest = {
+        headers: new Headers(),
         json: jest.fn().mockResolvedValue(invalidDateOrder)
       } as any;
 
@@ -171,13 +216,71 @@ describe('processOrder Function', () => {
 
       // Assert: Check validation error
       expect(result.status).toBe(400);
-      expect(result.jsonBody.success).toBe(false);
-      expect(result.jsonBody.errors).toContain('endDate: End date must be after start date');
+      expect(result.jsonBody.code).toBe('VALIDATION_ERROR');
+      expect(result.jsonBody.errors).toContainEqual({
+        path: 'endDate',
+        message: 'End date must be after start date',
+        code: 'custom'
+      });
+    });
+
+    it('should reject currencies that are not ISO 4217 codes', async () => {
+      // Arrange: Lower-case and made-up codes
+      const order = {
+        employeeId: 'emp-123',
+        bikeModel: 'Mountain Bike',
+        startDate: '2024-01-01T10:00:00Z',
+        endDate: '2024-01-07T10:00:00Z',
+        price: 299.99,
+        companyId: 'company-123'
+      };
+
+      for (const currency of ['usd', 'ABC']) {
+        mockRequest = {
+          headers: new Headers(),
+          json: jest.fn().mockResolvedValue({ ...order, currency })
+        } as any;
+
+        // Act: Process invalid order
+        const result = await processOrder(mockRequest, mockContext);
+
+        // Assert: Check validation error
+        expect(result.status).toBe(400);
+        expect(result.jsonBody.errors).toEqual([
+          { path: 'currency', message: 'Currency must be an ISO 4217 code, e.g. EUR', code: 'custom' }
+        ]);
+      }
+    });
+
+    it('should reject prices more precise than the currency allows', async () => {
+      // Arrange: Yen have no minor unit
+      mockRequest = {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue({
+          employeeId: 'emp-123',
+          bikeModel: 'Mountain Bike',
+          startDate: '2024-01-01T10:00:00Z',
+          endDate: '2024-01-07T10:00:00Z',
+          price: 4500.5,
+          currency: 'JPY',
+          companyId: 'company-123'
+        })
+      } as any;
+
+      // Act: Process invalid order
+      const result = await processOrder(mockRequest, mockContext);
+
+      // Assert: Check validation error
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors).toEqual([
+        { path: 'price', message: 'Price has more decimal places than JPY allows', code: 'custom' }
+      ]);
     });
 
     it('should handle empty request body', async () => {
       // Arrange: Empty body
       mockRequest = {
+        headers: new Headers(),
         json: jest.fn().mockResolvedValue(null)
       } as any;
 
@@ -186,13 +289,14 @@ describe('processOrder Function', () => {
 
       // Assert: Check validation error
       expect(result.status).toBe(400);
-      expect(result.jsonBody.success).toBe(false);
-      expect(result.jsonBody.message).toBe('Request body is required');
+      expect(result.jsonBody.code).toBe('VALIDATION_ERROR');
+      expect(result.jsonBody.detail).toBe('Request body is required');
     });
 
     it('should handle invalid JSON', async () => {
       // Arrange: Invalid JSON
       mockRequest = {
+        headers: new Headers(),
         json: jest.fn().mockRejectedValue(new SyntaxError('Invalid JSON'))
       } as any;
 
@@ -201,8 +305,8 @@ describe('processOrder Function', () => {
 
       // Assert: Check JSON error
       expect(result.status).toBe(400);
-      expect(result.jsonBody.success).toBe(false);
-      expect(result.jsonBody.message).toBe('Invalid JSON in request body');
+      expect(result.jsonBody.code).toBe('VALIDATION_ERROR');
+      expect(result.jsonBody.detail).toBe('Invalid JSON in request body');
     });
   });
 
@@ -220,11 +324,12 @@ describe('processOrder Function', () => {
       };
 
       mockRequest = {
+        headers: new Headers(),
         json: jest.fn().mockResolvedValue(validData)
       } as any;
 
       // Mock storage failure
-      mockStorageService.initializeContainer.mockRejectedValue(
+      mockOrderRepository.initializeContainer.mockRejectedValue(
         new Error('Storage initialization failed')
       );
 
@@ -233,14 +338,14 @@ describe('processOrder Function', () => {
 
       // Assert: Check error handling
       expect(result.status).toBe(500);
-      expect(result.jsonBody.success).toBe(false);
+      expect(result.jsonBody.code).toBe('INTERNAL_ERROR');
       expect(mockContext.error).toHaveBeenCalled();
 
       // Assert: Cleanup should still happen
-      expect(mockMessagingService.close).toHaveBeenCalled();
+      expect(mockEventPublisher.close).toHaveBeenCalled();
     });
 
-    it('should handle messaging service failure', async () => {
+    it('should leave the message in the outbox when messaging fails', async () => {
       // Arrange: Valid data but messaging fails
       const validData = {
         employeeId: 'emp-123',
@@ -253,26 +358,710 @@ describe('processOrder Function', () => {
       };
 
       mockRequest = {
+        headers: new Headers(),
         json: jest.fn().mockResolvedValue(validData)
       } as any;
 
       // Mock messaging failure after storage succeeds
-      mockMessagingService.sendOrderMessage.mockRejectedValue(
+      mockEventPublisher.sendOrderMessage.mockRejectedValue(
         new Error('Service Bus unavailable')
       );
 
       // Act: Process order with messaging failure
       const result = await processOrder(mockRequest, mockContext);
 
-      // Assert: Check error handling
-      expect(result.status).toBe(500);
-      expect(result.jsonBody.success).toBe(false);
+      // Assert: Order and outbox entry are durable, so the request succeeds
+      expect(result.status).toBe(201);
+      expect(result.jsonBody.success).toBe(true);
+      expect(mockOrderRepository.storeOutboxEntry).toHaveBeenCalled();
+      expect(mockOrderRepository.storeOrder).toHaveBeenCalled();
 
-      // Assert: Storage should have been called (partial success)
-      expect(mockStorageService.storeOrder).toHaveBeenCalled();
+      // Assert: Entry stays pending for the relay
+      expect(mockOrderRepository.markOutboxEntryDispatched).not.toHaveBeenCalled();
+      expect(logRecords(mockContext.warn)).toContainEqual(expect.objectContaining({
+        level: 'warn',
+        message: 'Order test-order-id-123 message left in outbox for relay: Service Bus unavailable',
+        orderId: 'test-order-id-123'
+      }));
       
       // Assert: Cleanup should still happen
-      expect(mockMessagingService.close).toHaveBeenCalled();
+      expect(mockEventPublisher.close).toHaveBeenCalled();
+    });
+
+    it('should fail without storing the order when the outbox entry cannot be written', async () => {
+      // Arrange: Valid data but outbox write fails
+      mockRequest = {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue({
+          employeeId: 'emp-123',
+          bikeModel: 'Mountain Bike',
+          startDate: '2024-01-01T10:00:00Z',
+          endDate: '2024-01-07T10:00:00Z',
+          price: 299.99,
+          currency: 'USD',
+          companyId: 'company-123'
+        })
+      } as any;
+      mockOrderRepository.storeOutboxEntry.mockRejectedValue(new Error('Storage down'));
+
+      // Act: Process order
+      const result = await processOrder(mockRequest, mockContext);
+
+      // Assert: Nothing is stored or sent
+      expect(result.status).toBe(500);
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+      expect(mockEventPublisher.sendOrderMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Availability', () => {
+    const validOrderData = {
+      employeeId: 'emp-123',
+      bikeModel: 'E-Bike',
+      startDate: '2024-01-01T10:00:00Z',
+      endDate: '2024-01-07T10:00:00Z',
+      price: 299.99,
+      currency: 'EUR',
+      companyId: 'company-123'
+    };
+
+    beforeEach(() => {
+      mockRequest = {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue(validOrderData)
+      } as any;
+      // Stock-only catalog: the submitted price is kept
+      mockOrderRepository.getCatalog.mockResolvedValue({
+        companyId: 'company-123',
+        models: [{ model: 'E-Bike', stock: 1 }],
+        updatedAt: new Date()
+      });
+    });
+
+    // The listing filters by status like the repositories do
+    function listSummaries(...summaries: any[]) {
+      mockOrderRepository.listOrderSummaries.mockImplementation(async (companyId, options) => ({
+        summaries: summaries.filter((summary) => summary.status === options.status)
+      }));
+    }
+
+    it('should reject a booking when every bike is taken', async () => {
+      // Arrange: The only e-bike is booked for an overlapping period
+      listSummaries({
+        id: 'other-order',
+        bikeModel: 'E-Bike',
+        status: 'APPROVED',
+        startDate: '2024-01-05T10:00:00Z',
+        endDate: '2024-01-10T10:00:00Z'
+      });
+
+      // Act: Process order
+      const result = await processOrder(mockRequest, mockContext);
+
+      // Assert: Check conflict without storing anything
+      expect(result.status).toBe(409);
+      expect(result.jsonBody.code).toBe('BIKE_UNAVAILABLE');
+      expect(mockOrderRepository.storeOutboxEntry).not.toHaveBeenCalled();
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should reject bike models missing from the catalog', async () => {
+      // Arrange: Model the company does not offer
+      mockRequest = {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue({ ...validOrderData, bikeModel: 'Tandem' })
+      } as any;
+
+      // Act: Process order
+      const result = await processOrder(mockRequest, mockContext);
+
+      // Assert: Check field-level validation error
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors).toEqual([
+        { path: 'bikeModel', message: 'Unknown bike model "Tandem"', code: 'custom' }
+      ]);
+    });
+
+    it('should accept a booking once the overlapping one was rejected', async () => {
+      // Arrange: Overlapping order no longer holds the bike
+      listSummaries({
+        id: 'other-order',
+        bikeModel: 'E-Bike',
+        status: 'REJECTED',
+        startDate: '2024-01-05T10:00:00Z',
+        endDate: '2024-01-10T10:00:00Z'
+      });
+
+      // Act: Process order
+      const result = await processOrder(mockRequest, mockContext);
+
+      // Assert: Check order was created at the submitted price, holding the bike
+      expect(result.status).toBe(201);
+      expect(mockOrderRepository.storeOrder.mock.calls[0][0].price).toBe(299.99);
+      const update = mockOrderRepository.updateReservations.mock.calls[0][2];
+      expect(await update([])).toEqual([expect.objectContaining({
+        orderId: result.jsonBody.orderId,
+        startDate: '2024-01-01T10:00:00Z',
+        endDate: '2024-01-07T10:00:00Z'
+      })]);
+    });
+  });
+
+  describe('Company Policy', () => {
+    it('should reject orders that break the company policy', async () => {
+      // Arrange: Company only allows city bikes
+      mockOrderRepository.getPolicy.mockResolvedValue({
+        companyId: 'company-123',
+        allowedBikeModels: ['City Bike'],
+        updatedAt: new Date()
+      });
+      mockRequest = {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue({
+          employeeId: 'emp-123',
+          bikeModel: 'Mountain Bike',
+          startDate: '2099-01-01T10:00:00Z',
+          endDate: '2099-01-07T10:00:00Z',
+          price: 299.99,
+          currency: 'EUR',
+          companyId: 'company-123'
+        })
+      } as any;
+
+      // Act: Process order
+      const result = await processOrder(mockRequest, mockContext);
+
+      // Assert: Check field-level policy error without storing anything
+      expect(result.status).toBe(400);
+      expect(result.jsonBody).toEqual({
+        type: 'urn:bike-orders:problem:validation-error',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Order violates company policy',
+        code: 'VALIDATION_ERROR',
+        errors: [{
+          path: 'bikeModel',
+          message: 'Bike model "Mountain Bike" is not allowed by company policy',
+          code: 'custom'
+        }]
+      });
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pricing', () => {
+    const unpricedOrder = {
+      employeeId: 'emp-123',
+      bikeModel: 'E-Bike',
+      startDate: '2024-01-01T10:00:00Z',
+      endDate: '2024-01-08T10:00:00Z',
+      currency: 'EUR',
+      companyId: 'company-123'
+    };
+
+    function createRequest(body: any): HttpRequest {
+      return {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue(body)
+      } as any;
+    }
+
+    beforeEach(() => {
+      mockOrderRepository.getCatalog.mockResolvedValue({
+        companyId: 'company-123',
+        models: [{ model: 'E-Bike', stock: 5, dailyRate: 25 }],
+        pricing: { currency: 'EUR', taxRate: 0.2, discountTiers: [{ minDays: 7, percent: 10 }] },
+        updatedAt: new Date()
+      });
+    });
+
+    it('should fill in the quoted price when none is submitted', async () => {
+      // Act: Process an order without price
+      const result = await processOrder(createRequest(unpricedOrder), mockContext);
+
+      // Assert: 7 days * 25 = 175, -10% = 157.5, +20% tax = 189
+      expect(result.status).toBe(201);
+      expect(mockOrderRepository.storeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ price: 189, currency: 'EUR' }),
+        mockContext
+      );
+    });
+
+    it('should reject a submitted price that deviates from the quote', async () => {
+      // Act: Process an order with a lower price
+      const result = await processOrder(createRequest({ ...unpricedOrder, price: 150 }), mockContext);
+
+      // Assert: Check mismatch without storing anything
+      expect(result.status).toBe(422);
+      expect(result.jsonBody.code).toBe('PRICE_MISMATCH');
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should store the amount normalized into the base currency', async () => {
+      // Arrange: Order in USD, price list and base currency in EUR
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rates-'));
+      process.env.EXCHANGE_RATES_PATH = path.join(dir, 'rates.json');
+      await fs.writeFile(process.env.EXCHANGE_RATES_PATH, JSON.stringify({ base: 'EUR', rates: { USD: 1.1 } }));
+
+      try {
+        // Act: Process an unpriced USD order
+        const result = await processOrder(createRequest({ ...unpricedOrder, currency: 'USD' }), mockContext);
+
+        // Assert: 189 EUR quoted, converted to 207.90 USD, normalized back
+        expect(result.status).toBe(201);
+        expect(mockOrderRepository.storeOrder).toHaveBeenCalledWith(
+          expect.objectContaining({
+            price: 207.9,
+            currency: 'USD',
+            normalizedPrice: { amount: 189, currency: 'EUR', exchangeRate: 0.9090909091 }
+          }),
+          mockContext
+        );
+      } finally {
+        delete process.env.EXCHANGE_RATES_PATH;
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should require a price when the company has no price list', async () => {
+      // Arrange: No catalog
+      mockOrderRepository.getCatalog.mockResolvedValue(null);
+
+      // Act: Process an order without price
+      const result = await processOrder(createRequest(unpricedOrder), mockContext);
+
+      // Assert: Check validation error
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors).toEqual([{
+        path: 'price',
+        message: 'Price is required when the company has no price list for this bike model',
+        code: 'custom'
+      }]);
+    });
+  });
+
+  describe('Idempotency', () => {
+    const validOrderData = {
+      employeeId: 'emp-123',
+      bikeModel: 'Mountain Bike Pro',
+      startDate: '2024-01-01T10:00:00Z',
+      endDate: '2024-01-07T10:00:00Z',
+      price: 299.99,
+      currency: 'EUR',
+      companyId: 'company-123'
+    };
+
+    function createRequest(body: any, idempotencyKey: string): HttpRequest {
+      return {
+        headers: new Headers({ 'Idempotency-Key': idempotencyKey }),
+        json: jest.fn().mockResolvedValue(body)
+      } as any;
+    }
+
+    it('should remember the result of a first request', async () => {
+      // Act: Process order with an idempotency key
+      const result = await processOrder(createRequest(validOrderData, 'key-1'), mockContext);
+
+      // Assert: Check order was processed and its result recorded
+      expect(result.status).toBe(201);
+      expect(mockOrderRepository.getIdempotencyRecord).toHaveBeenCalledWith('company-123', 'key-1');
+      expect(mockOrderRepository.storeIdempotencyRecord).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'key-1',
+          companyId: 'company-123',
+          requestHash: expect.any(String),
+          statusCode: 201,
+          result: result.jsonBody
+        }),
+        mockContext
+      );
+    });
+
+    it('should replay the original result for the same key and body', async () => {
+      // Arrange: Record left by the first request, body re-serialized in a different order
+      await processOrder(createRequest(validOrderData, 'key-1'), mockContext);
+      const record = mockOrderRepository.storeIdempotencyRecord.mock.calls[0][0];
+      mockOrderRepository.getIdempotencyRecord.mockResolvedValue({
+        ...record,
+        result: { ...record.result, orderId: 'original-order-id' }
+      });
+      jest.clearAllMocks();
+      const reordered = Object.fromEntries(Object.entries(validOrderData).reverse());
+
+      // Act: Retry the request
+      const result = await processOrder(createRequest(reordered, 'key-1'), mockContext);
+
+      // Assert: Original result returned without creating anything
+      expect(result.status).toBe(201);
+      expect(result.headers).toEqual({ 'Idempotent-Replayed': 'true' });
+      expect(result.jsonBody.orderId).toBe('original-order-id');
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+      expect(mockEventPublisher.sendOrderMessage).not.toHaveBeenCalled();
+      expect(mockOrderRepository.storeIdempotencyRecord).not.toHaveBeenCalled();
+    });
+
+    it('should reject a reused key with a different body', async () => {
+      // Arrange: Record left by a request with another body
+      await processOrder(createRequest(validOrderData, 'key-1'), mockContext);
+      const record = mockOrderRepository.storeIdempotencyRecord.mock.calls[0][0];
+      mockOrderRepository.getIdempotencyRecord.mockResolvedValue(record);
+      jest.clearAllMocks();
+
+      // Act: Reuse the key for a different order
+      const result = await processOrder(
+        createRequest({ ...validOrderData, price: 10 }, 'key-1'),
+        mockContext
+      );
+
+      // Assert: Check unprocessable entity response
+      expect(result.status).toBe(422);
+      expect(result.jsonBody.code).toBe('IDEMPOTENCY_KEY_REUSED');
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed keys', async () => {
+      // Act: Process order with a key containing a path separator
+      const result = await processOrder(createRequest(validOrderData, '../other'), mockContext);
+
+      // Assert: Check validation error
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.detail).toBe('Invalid Idempotency-Key header');
+    });
+
+    it('should still succeed when the idempotency record cannot be saved', async () => {
+      // Arrange: Record write fails
+      mockOrderRepository.storeIdempotencyRecord.mockRejectedValue(new Error('Storage down'));
+
+      // Act: Process order
+      const result = await processOrder(createRequest(validOrderData, 'key-1'), mockContext);
+
+      // Assert: Order is reported as processed
+      expect(result.status).toBe(201);
+      expect(mockContext.warn).toHaveBeenCalled();
+    });
+  });
+  describe('Rate Limiting', () => {
+    const validOrderData = {
+      employeeId: 'emp-123',
+      bikeModel: 'Mountain Bike Pro',
+      startDate: '2024-01-01T10:00:00Z',
+      endDate: '2024-01-07T10:00:00Z',
+      price: 299.99,
+      currency: 'EUR',
+      companyId: 'company-rate-limited'
+    };
+
+    function createRequest(body: any): HttpRequest {
+      return {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue(body)
+      } as any;
+    }
+
+    afterEach(() => {
+      delete process.env.RATE_LIMITS;
+    });
+
+    it('should reject orders over the company limit with Retry-After', async () => {
+      // Arrange: One order per minute for the company
+      process.env.RATE_LIMITS = JSON.stringify({
+        companies: { 'company-rate-limited': { requestsPerMinute: 1 } }
+      });
+      await processOrder(createRequest(validOrderData), mockContext);
+      jest.clearAllMocks();
+
+      // Act: Second order right away
+      const result = await processOrder(createRequest(validOrderData), mockContext);
+
+      // Assert: Check too many requests response
+      expect(result.status).toBe(429);
+      expect(result.headers).toEqual({ 'Retry-After': '60', 'Content-Type': 'application/problem+json' });
+      expect(result.jsonBody.code).toBe('RATE_LIMITED');
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+      expect(mockEventPublisher.sendOrderMessage).not.toHaveBeenCalled();
+    });
+
+    it('should replay a retried order without charging the limit', async () => {
+      // Arrange: One order per minute, used up by the first request
+      process.env.RATE_LIMITS = JSON.stringify({
+        companies: { 'company-replayed': { requestsPerMinute: 1 } }
+      });
+      const request = () => ({
+        headers: new Headers({ 'Idempotency-Key': 'key-1' }),
+        json: jest.fn().mockResolvedValue({ ...validOrderData, companyId: 'company-replayed' })
+      } as any);
+      await processOrder(request(), mockContext);
+      mockOrderRepository.getIdempotencyRecord.mockResolvedValue(
+        mockOrderRepository.storeIdempotencyRecord.mock.calls[0][0]
+      );
+
+      // Act: Retry the same request twice
+      const first = await processOrder(request(), mockContext);
+      const second = await processOrder(request(), mockContext);
+
+      // Assert: Both replayed rather than limited
+      expect([first.status, second.status]).toEqual([201, 201]);
+      expect(second.headers).toEqual({ 'Idempotent-Replayed': 'true' });
+      expect(mockOrderRepository.storeOrder).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('API Versions', () => {
+    const v1OrderData = {
+      employeeId: 'emp-123',
+      bikeModel: 'Mountain Bike Pro',
+      startDate: '2024-01-01T10:00:00Z',
+      endDate: '2024-01-07T10:00:00Z',
+      price: 299.99,
+      currency: 'EUR',
+      companyId: 'company-123'
+    };
+
+    const v2Fields = {
+      accessories: [{ name: 'Helmet', quantity: 1 }, { name: 'Pannier', quantity: 2 }],
+      insurance: 'FULL',
+      deliveryAddress: { street: 'Hauptstr. 1', postalCode: '10115', city: 'Berlin', country: 'DE' }
+    };
+
+    function createRequest(body: any): HttpRequest {
+      return {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue(body)
+      } as any;
+    }
+
+    it('should store accessories, insurance and delivery from the v2 contract', async () => {
+      // Arrange: Price list selling the accessories and the insurance plan
+      mockOrderRepository.getCatalog.mockResolvedValue({
+        companyId: 'company-123',
+        models: [{ model: 'Mountain Bike Pro', stock: 5 }],
+        pricing: {
+          currency: 'EUR',
+          taxRate: 0,
+          discountTiers: [],
+          addOns: [
+            { sku: 'Helmet', billing: 'ONE_OFF', unitPrice: 30 },
+            { sku: 'Pannier', billing: 'ONE_OFF', unitPrice: 25 },
+            { sku: 'INSURANCE-FULL', billing: 'RECURRING', unitPrice: 9.5 }
+          ]
+        },
+        updatedAt: new Date()
+      });
+
+      // Act: Create through v2
+      const result = await processOrderV2(createRequest({ ...v1OrderData, ...v2Fields }), mockContext);
+
+      // Assert: Check stored document version, fields and the priced add-ons
+      expect(result.status).toBe(201);
+      expect(mockOrderRepository.storeOrder.mock.calls[0][0]).toMatchObject({
+        schemaVersion: 4,
+        ...v2Fields,
+        lineItems: [
+          { sku: 'Helmet', quantity: 1, unitPrice: 30, billing: 'ONE_OFF', total: 30 },
+          { sku: 'Pannier', quantity: 2, unitPrice: 25, billing: 'ONE_OFF', total: 50 },
+          { sku: 'INSURANCE-FULL', quantity: 1, unitPrice: 9.5, billing: 'RECURRING', total: 9.5 }
+        ],
+        totals: { oneOff: 379.99, recurring: 9.5 }
+      });
+    });
+
+    it('should not give accessories or insurance away without a price list', async () => {
+      // Act: Create through v2 for a company without a catalog
+      const result = await processOrderV2(createRequest({ ...v1OrderData, ...v2Fields }), mockContext);
+
+      // Assert: Every unpriced extra reported, nothing stored
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors.map((error: any) => error.path)).toEqual([
+        'accessories.0.name',
+        'accessories.1.name',
+        'insurance'
+      ]);
+      expect(result.jsonBody.errors[2].message).toBe('INSURANCE-FULL can only be ordered when the company has a price list');
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should keep v1 requests on the v1 contract with v2 defaults', async () => {
+      // Act: v2 fields sent to v1 are not part of its contract
+      const result = await processOrder(createRequest({ ...v1OrderData, ...v2Fields }), mockContext);
+
+      // Assert: Stored with the defaults
+      expect(result.status).toBe(201);
+      const storedOrder = mockOrderRepository.storeOrder.mock.calls[0][0];
+      expect(storedOrder).toMatchObject({ schemaVersion: 4, accessories: [], insurance: 'NONE', lineItems: [] });
+      expect(storedOrder.deliveryAddress).toBeUndefined();
+    });
+
+    it('should validate the v2 fields', async () => {
+      // Act: Unknown plan and a country name instead of a code
+      const result = await processOrderV2(createRequest({
+        ...v1OrderData,
+        insurance: 'GOLD',
+        deliveryAddress: { ...v2Fields.deliveryAddress, country: 'Germany' }
+      }), mockContext);
+
+      // Assert: Both fields reported
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors.map((error: any) => error.path)).toEqual([
+        'insurance',
+        'deliveryAddress.country'
+      ]);
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Line Items', () => {
+    const orderData = {
+      employeeId: 'emp-123',
+      bikeModel: 'Mountain Bike Pro',
+      startDate: '2024-01-01T10:00:00Z',
+      endDate: '2024-01-07T10:00:00Z',
+      price: 299.99,
+      currency: 'EUR',
+      companyId: 'company-123'
+    };
+
+    function createRequest(body: any): HttpRequest {
+      return {
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValue(body)
+      } as any;
+    }
+
+    it('should total line items server-side and announce them', async () => {
+      // Act: Bike with two locks and a servicing plan
+      const result = await processOrderV2(createRequest({
+        ...orderData,
+        lineItems: [
+          { sku: 'LOCK-U', quantity: 2, unitPrice: 19.99, billing: 'ONE_OFF' },
+          { sku: 'SERVICE-PLAN', quantity: 1, unitPrice: 4.5, billing: 'RECURRING' }
+        ]
+      }), mockContext);
+
+      // Assert: Check stored lines and totals
+      expect(result.status).toBe(201);
+      const storedOrder = mockOrderRepository.storeOrder.mock.calls[0][0];
+      expect(storedOrder.lineItems).toEqual([
+        { sku: 'LOCK-U', quantity: 2, unitPrice: 19.99, billing: 'ONE_OFF', total: 39.98 },
+        { sku: 'SERVICE-PLAN', quantity: 1, unitPrice: 4.5, billing: 'RECURRING', total: 4.5 }
+      ]);
+      expect(storedOrder.totals).toEqual({ oneOff: 339.97, recurring: 4.5 });
+
+      // Assert: The message body carries them too
+      expect(createOrderMessage(storedOrder).body).toMatchObject({
+        lineItems: storedOrder.lineItems,
+        totals: { oneOff: 339.97, recurring: 4.5 }
+      });
+    });
+
+    it('should reject repeated SKUs and prices finer than the currency', async () => {
+      // Act: Same lock twice, one priced in tenths of a cent
+      const result = await processOrderV2(createRequest({
+        ...orderData,
+        lineItems: [
+          { sku: 'LOCK-U', quantity: 1, unitPrice: 19.99, billing: 'ONE_OFF' },
+          { sku: 'LOCK-U', quantity: 1, unitPrice: 19.999, billing: 'ONE_OFF' }
+        ]
+      }), mockContext);
+
+      // Assert: Both problems reported against the second line
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors.map((error: any) => error.path)).toEqual([
+        'lineItems.1.unitPrice',
+        'lineItems.1.sku'
+      ]);
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should reject free line items', async () => {
+      // Act: A lock priced at zero
+      const result = await processOrderV2(createRequest({
+        ...orderData,
+        lineItems: [{ sku: 'LOCK-U', quantity: 1, unitPrice: 0, billing: 'ONE_OFF' }]
+      }), mockContext);
+
+      // Assert: Rejected before pricing
+      expect(result.status).toBe(400);
+      expect(result.jsonBody.errors).toEqual([
+        { path: 'lineItems.0.unitPrice', message: 'Unit price must be positive', code: 'too_small' }
+      ]);
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Authorization', () => {
+    const secret = 'test-secret-that-is-long-enough-for-hs256';
+    const validOrderData = {
+      employeeId: 'emp-123',
+      bikeModel: 'Mountain Bike Pro',
+      startDate: '2024-01-01T10:00:00Z',
+      endDate: '2024-01-07T10:00:00Z',
+      price: 299.99,
+      currency: 'EUR',
+      companyId: 'company-123'
+    };
+
+    function createRequest(body: any, token?: string): HttpRequest {
+      return {
+        headers: new Headers(token ? { Authorization: `Bearer ${token}` } : {}),
+        json: jest.fn().mockResolvedValue(body)
+      } as any;
+    }
+
+    function signToken(claims: Record<string, unknown>): Promise<string> {
+      return new SignJWT(claims)
+        .setProtectedHeader({ alg: 'HS256' })
+        .setExpirationTime('5m')
+        .sign(new TextEncoder().encode(secret));
+    }
+
+    beforeEach(() => {
+      process.env.AUTH_MODE = 'jwt';
+      process.env.AUTH_JWT_SECRET = secret;
+    });
+
+    afterEach(() => {
+      process.env.AUTH_MODE = 'none';
+      delete process.env.AUTH_JWT_SECRET;
+    });
+
+    it('should reject requests without a bearer token', async () => {
+      // Act: Process order anonymously
+      const result = await processOrder(createRequest(validOrderData), mockContext);
+
+      // Assert: Check unauthorized response
+      expect(result.status).toBe(401);
+      expect(result.headers).toEqual({ 'WWW-Authenticate': 'Bearer', 'Content-Type': 'application/problem+json' });
+      expect(result.jsonBody.code).toBe('UNAUTHENTICATED');
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should let employees order only for themselves', async () => {
+      // Arrange: Token for another employee of the company
+      const token = await signToken({ sub: 'emp-456', company_id: 'company-123' });
+
+      // Act: Order on behalf of emp-123
+      const result = await processOrder(createRequest(validOrderData, token), mockContext);
+
+      // Assert: Check forbidden response
+      expect(result.status).toBe(403);
+      expect(result.jsonBody.code).toBe('FORBIDDEN');
+      expect(mockOrderRepository.storeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should let company admins order for employees of their company only', async () => {
+      // Arrange: Admin token for company-123
+      const token = await signToken({ sub: 'admin-1', company_id: 'company-123', role: 'company_admin' });
+
+      // Act: Order within and outside the admin's company
+      const own = await processOrder(createRequest(validOrderData, token), mockContext);
+      const other = await processOrder(
+        createRequest({ ...validOrderData, companyId: 'company-456' }, token),
+        mockContext
+      );
+
+      // Assert: Check responses
+      expect(own.status).toBe(201);
+      expect(other.status).toBe(403);
     });
   });
-});
\ No newline at end of file
+});
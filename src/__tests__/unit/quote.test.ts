@@ -0,0 +1,108 @@
+import { quoteOrder } from '../../functions/quote';
+import { InvocationContext, HttpRequest } from '@azure/functions';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { authenticate } from '../../utils/auth';
+import { AuthenticationError } from '../../utils/errors';
+
+// Mock the repository
+jest.mock('../../services/orderRepository');
+
+// Keep the authorization rules, stub out token verification
+jest.mock('../../utils/auth', () => ({
+  ...jest.requireActual('../../utils/auth'),
+  authenticate: jest.fn()
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('quoteOrder Function', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  const quoteRequest = {
+    companyId: 'company-123',
+    bikeModel: 'E-Bike',
+    startDate: '2024-03-01T00:00:00Z',
+    endDate: '2024-03-04T00:00:00Z'
+  };
+
+  function createRequest(body: any): HttpRequest {
+    return {
+      json: jest.fn().mockResolvedValue(body)
+    } as any;
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      getCatalog: jest.fn().mockResolvedValue({
+        companyId: 'company-123',
+        models: [{ model: 'E-Bike', stock: 2, dailyRate: 40 }],
+        pricing: { currency: 'EUR', taxRate: 0.1, discountTiers: [] },
+        updatedAt: new Date()
+      })
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (authenticate as jest.Mock).mockResolvedValue({
+      subject: 'emp-1',
+      role: 'employee',
+      companyId: 'company-123',
+      employeeId: 'emp-1'
+    });
+  });
+
+  it('should return the itemised quote', async () => {
+    // Act: Request a quote
+    const result = await quoteOrder(createRequest(quoteRequest), mockContext);
+
+    // Assert: 3 days * 40 = 120, + 10% tax
+    expect(result.status).toBe(200);
+    expect(result.jsonBody).toMatchObject({ rentalDays: 3, subtotal: 120, tax: 12, total: 132, currency: 'EUR' });
+  });
+
+  it('should return 404 when the model has no price', async () => {
+    // Act: Quote a model missing from the catalog
+    const result = await quoteOrder(createRequest({ ...quoteRequest, bikeModel: 'Tandem' }), mockContext);
+
+    // Assert: Check not found response
+    expect(result.status).toBe(404);
+    expect(result.jsonBody.code).toBe('PRICING_NOT_CONFIGURED');
+  });
+
+  it('should validate the request', async () => {
+    // Act: Quote without company
+    const { companyId, ...withoutCompany } = quoteRequest;
+    const result = await quoteOrder(createRequest(withoutCompany), mockContext);
+
+    // Assert: Check validation error
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.errors).toEqual([{ path: 'companyId', message: 'Required', code: 'invalid_type' }]);
+  });
+
+  it('should reject callers without a token or from another company', async () => {
+    // Arrange: First call has no token, second comes from another company
+    (authenticate as jest.Mock)
+      .mockRejectedValueOnce(new AuthenticationError('Bearer token is required'))
+      .mockResolvedValueOnce({ subject: 'emp-9', role: 'employee', companyId: 'company-999', employeeId: 'emp-9' });
+
+    // Act: Request the same quote twice
+    const unauthenticated = await quoteOrder(createRequest(quoteRequest), mockContext);
+    const foreign = await quoteOrder(createRequest(quoteRequest), mockContext);
+
+    // Assert: Neither caller sees the price list
+    expect(unauthenticated.status).toBe(401);
+    expect(unauthenticated.jsonBody.code).toBe('UNAUTHENTICATED');
+    expect(foreign.status).toBe(403);
+    expect(foreign.jsonBody.code).toBe('FORBIDDEN');
+    expect(mockOrderRepository.getCatalog).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,200 @@
+import { Readable } from 'stream';
+import { BlobServiceClient } from '@azure/storage-blob';
+import { InvocationContext } from '@azure/functions';
+import { RateLimitService } from '../../services/rateLimitService';
+import { InMemoryRateLimitStore } from '../../services/inMemoryRateLimitStore';
+import { BlobRateLimitStore } from '../../services/blobRateLimitStore';
+import { RateLimitStore } from '../../services/rateLimitStore';
+import { loadRateLimitConfig, takeToken } from '../../utils/rateLimit';
+import { OrderProcessingError, RateLimitExceededError } from '../../utils/errors';
+import { logRecords } from '../helpers/logRecords';
+
+// Mock Azure Storage SDK
+jest.mock('@azure/storage-blob');
+
+describe('rate limiting', () => {
+  let mockContext: InvocationContext;
+  let now: number;
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+    now = Date.parse('2024-01-01T10:00:00Z');
+  });
+
+  describe('takeToken', () => {
+    const limit = { capacity: 2, refillPerSecond: 0.5 };
+
+    it('should start full and refill over time up to capacity', () => {
+      // Act: Drain a new bucket, then wait
+      const first = takeToken(undefined, limit, now);
+      const second = takeToken(first.state, limit, now);
+      const third = takeToken(second.state, limit, now);
+      const later = takeToken(third.state, limit, now + 60000);
+
+      // Assert: Two tokens, a 2s wait, then full again
+      expect([first.allowed, second.allowed, third.allowed]).toEqual([true, true, false]);
+      expect(third.retryAfterSeconds).toBe(2);
+      expect(later).toEqual({ allowed: true, retryAfterSeconds: 0, state: { tokens: 1, updatedAt: now + 60000 } });
+    });
+  });
+
+  describe('RateLimitService', () => {
+    const config = {
+      default: { requestsPerMinute: 60, burst: 2 },
+      companies: {
+        'company-123': { requestsPerMinute: 6, burst: 3, employee: { requestsPerMinute: 1 } },
+        'company-456': { requestsPerMinute: 60, burst: 2 }
+      }
+    };
+
+    function createService(store: RateLimitStore = new InMemoryRateLimitStore()): RateLimitService {
+      return new RateLimitService(store, config, () => now);
+    }
+
+    it('should reject a company over its limit with a retry delay', async () => {
+      // Arrange: Company burst of 2 used up
+      const service = createService();
+      await service.assertWithinLimit('company-456', 'emp-1', mockContext);
+      await service.assertWithinLimit('company-456', 'emp-2', mockContext);
+
+      // Act: Third order in the same instant
+      const error = await service.assertWithinLimit('company-456', 'emp-3', mockContext).catch((e) => e);
+
+      // Assert: Check error and that other companies are unaffected
+      expect(error).toBeInstanceOf(RateLimitExceededError);
+      expect(error).toMatchObject({ code: 'RATE_LIMITED', statusCode: 429, retryAfterSeconds: 1 });
+      await expect(service.assertWithinLimit('company-789', 'emp-1', mockContext)).resolves.toBeUndefined();
+    });
+
+    it('should limit each employee separately when the rule has an employee limit', async () => {
+      // Arrange: One order per minute per employee
+      const service = createService();
+      await service.assertWithinLimit('company-123', 'emp-1', mockContext);
+
+      // Act: Same employee again, then a colleague
+      const error = await service.assertWithinLimit('company-123', 'emp-1', mockContext).catch((e) => e);
+      await service.assertWithinLimit('company-123', 'emp-2', mockContext);
+
+      // Assert: Employee waits a minute, colleague goes through
+      expect(error.message).toBe('Too many orders for this employee of company company-123, retry in 60s');
+      expect(error.retryAfterSeconds).toBe(60);
+    });
+
+    it('should give the employee token back when the company is over its limit', async () => {
+      // Arrange: Company burst of 3 used up by colleagues
+      const service = createService();
+      await service.assertWithinLimit('company-123', 'emp-1', mockContext);
+      await service.assertWithinLimit('company-123', 'emp-2', mockContext);
+      await service.assertWithinLimit('company-123', 'emp-3', mockContext);
+
+      // Act: Refused by the company limit, then retried once it has refilled
+      const error = await service.assertWithinLimit('company-123', 'emp-4', mockContext).catch((e) => e);
+      now += 10000;
+      const retry = service.assertWithinLimit('company-123', 'emp-4', mockContext);
+
+      // Assert: The refusal did not use up the employee's order for the minute
+      expect(error.message).toBe('Too many orders for this company company-123, retry in 10s');
+      await expect(retry).resolves.toBeUndefined();
+    });
+
+    it('should not limit companies without a rule', async () => {
+      // Arrange: No default rule
+      const service = new RateLimitService(new InMemoryRateLimitStore(), { companies: {} }, () => now);
+
+      // Act & Assert: Many orders go through
+      for (let i = 0; i < 10; i++) {
+        await service.assertWithinLimit('company-123', 'emp-1', mockContext);
+      }
+    });
+
+    it('should let requests through when the store is unavailable', async () => {
+      // Arrange: Failing store
+      const store = { take: jest.fn().mockRejectedValue(new Error('Storage down')), giveBack: jest.fn() };
+
+      // Act: Check the limit
+      await createService(store).assertWithinLimit('company-456', 'emp-1', mockContext);
+
+      // Assert: Failure logged as a warning
+      expect(logRecords(mockContext.warn)[0]).toMatchObject({
+        message: 'Rate limit store unavailable, request not limited',
+        reason: 'Storage down'
+      });
+    });
+  });
+
+  describe('BlobRateLimitStore', () => {
+    let mockBlockBlobClient: any;
+    let mockContainerClient: any;
+
+    beforeEach(() => {
+      mockBlockBlobClient = {
+        download: jest.fn(),
+        upload: jest.fn().mockResolvedValue({})
+      };
+      mockContainerClient = {
+        getBlockBlobClient: jest.fn().mockReturnValue(mockBlockBlobClient)
+      };
+      (BlobServiceClient.fromConnectionString as jest.Mock).mockReturnValue({
+        getContainerClient: jest.fn().mockReturnValue(mockContainerClient)
+      });
+    });
+
+    it('should retry when another instance updated the bucket first', async () => {
+      // Arrange: New bucket, created concurrently by another instance
+      mockBlockBlobClient.download
+        .mockRejectedValueOnce(Object.assign(new Error('Not found'), { statusCode: 404 }))
+        .mockResolvedValueOnce({
+          readableStreamBody: Readable.from([Buffer.from(JSON.stringify({ tokens: 1, updatedAt: now }))]),
+          etag: '"v1"'
+        });
+      mockBlockBlobClient.upload
+        .mockRejectedValueOnce(Object.assign(new Error('Exists'), { statusCode: 409 }));
+      const store = new BlobRateLimitStore('test-connection-string');
+
+      // Act: Take a token
+      const result = await store.take('company-123', { capacity: 5, refillPerSecond: 1 }, now);
+
+      // Assert: Second write is conditional on the other instance's version
+      expect(result.state).toEqual({ tokens: 0, updatedAt: now });
+      expect(mockBlockBlobClient.upload.mock.calls[0][2].conditions).toEqual({ ifNoneMatch: '*' });
+      expect(mockBlockBlobClient.upload.mock.calls[1][2].conditions).toEqual({ ifMatch: '"v1"' });
+    });
+
+    it('should give tokens back under a blob name derived from the key', async () => {
+      // Arrange: Empty bucket last counted 2s ago
+      mockBlockBlobClient.download.mockResolvedValue({
+        readableStreamBody: Readable.from([Buffer.from(JSON.stringify({ tokens: 0, updatedAt: now - 2000 }))]),
+        etag: '"v1"'
+      });
+      const store = new BlobRateLimitStore('test-connection-string');
+
+      // Act: Give a token back for an employee ID with path characters
+      await store.giveBack('company-123/../emp-1', { capacity: 5, refillPerSecond: 1 }, now);
+
+      // Assert: Refill plus the returned token, stored under a hashed name
+      expect(mockContainerClient.getBlockBlobClient)
+        .toHaveBeenCalledWith(expect.stringMatching(/^_ratelimits\/[0-9a-f]{64}\.json$/));
+      expect(JSON.parse(mockBlockBlobClient.upload.mock.calls[0][0])).toEqual({ tokens: 3, updatedAt: now });
+      expect(mockBlockBlobClient.upload.mock.calls[0][2].conditions).toEqual({ ifMatch: '"v1"' });
+    });
+  });
+
+  describe('loadRateLimitConfig', () => {
+    afterEach(() => {
+      delete process.env.RATE_LIMITS;
+    });
+
+    it('should reject invalid limits', () => {
+      // Arrange: Negative rate
+      process.env.RATE_LIMITS = JSON.stringify({ default: { requestsPerMinute: -1 } });
+
+      // Act & Assert: Check configuration error
+      expect(() => loadRateLimitConfig()).toThrow(OrderProcessingError);
+      expect(() => loadRateLimitConfig()).toThrow('Invalid rate limits: default.requestsPerMinute: Requests per minute must be positive');
+    });
+  });
+});
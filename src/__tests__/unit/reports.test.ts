@@ -0,0 +1,213 @@
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { exportOrders, getOrderReport } from '../../functions/reports';
+import { createOrderRepository, OrderRepository } from '../../services/orderRepository';
+import { authenticate } from '../../utils/auth';
+import { OrderProcessingError } from '../../utils/errors';
+import { logRecords } from '../helpers/logRecords';
+
+// Mock the order repository
+jest.mock('../../services/orderRepository');
+
+// Keep the authorization rules, stub out token verification
+jest.mock('../../utils/auth', () => ({
+  ...jest.requireActual('../../utils/auth'),
+  authenticate: jest.fn()
+}));
+
+// Mock retry utility to avoid delays in tests
+jest.mock('../../utils/retry', () => ({
+  withRetry: jest.fn((operation) => operation())
+}));
+
+describe('reports', () => {
+  let mockContext: InvocationContext;
+  let mockOrderRepository: jest.Mocked<OrderRepository>;
+
+  function createSummary(id: string, overrides: Record<string, unknown> = {}) {
+    return {
+      id,
+      employeeId: 'emp-1',
+      status: 'APPROVED',
+      bikeModel: 'E-Bike',
+      currency: 'EUR',
+      createdAt: '2024-01-15T09:00:00.000Z',
+      totals: { oneOff: 100.1, recurring: 0 },
+      ...overrides
+    };
+  }
+
+  function createOrder(id: string, overrides: Record<string, unknown> = {}) {
+    return {
+      id,
+      employeeId: 'emp-1',
+      companyId: 'company-123',
+      bikeModel: 'E-Bike',
+      status: 'APPROVED',
+      startDate: '2024-02-01T00:00:00.000Z',
+      endDate: '2025-02-01T00:00:00.000Z',
+      price: 1200,
+      currency: 'EUR',
+      insurance: 'BASIC',
+      totals: { oneOff: 1230, recurring: 9.5 },
+      createdAt: '2024-01-15T09:00:00.000Z',
+      updatedAt: '2024-01-16T09:00:00.000Z',
+      ...overrides
+    } as any;
+  }
+
+  function createRequest(query: Record<string, string> = {}): HttpRequest {
+    return {
+      params: { companyId: 'company-123' },
+      query: new URLSearchParams(query),
+      headers: new Headers()
+    } as any;
+  }
+
+  async function readBody(body: AsyncIterable<Uint8Array>): Promise<string> {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of body) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+
+    mockOrderRepository = {
+      listOrderSummaries: jest.fn()
+        .mockResolvedValueOnce({
+          summaries: [
+            createSummary('order-1'),
+            createSummary('order-2', { status: 'PENDING', createdAt: '2024-02-01T00:00:00.000Z' })
+          ],
+          continuationToken: 'page-2'
+        })
+        .mockResolvedValueOnce({
+          summaries: [
+            createSummary('order-3', { bikeModel: 'City Bike', totals: { oneOff: 100.2, recurring: 5 } }),
+            createSummary('order-4', { currency: 'JPY', totals: { oneOff: 15000, recurring: 0 } })
+          ]
+        }),
+      listOrders: jest.fn()
+    } as any;
+
+    (createOrderRepository as jest.Mock).mockReturnValue(mockOrderRepository);
+    (authenticate as jest.Mock).mockResolvedValue({ subject: 'admin-1', role: 'company_admin', companyId: 'company-123' });
+  });
+
+  it('should aggregate every page of order summaries', async () => {
+    // Act: Report the first quarter
+    const result = await getOrderReport(
+      createRequest({ from: '2024-01-01T00:00:00Z', to: '2024-03-31T23:59:59Z' }),
+      mockContext
+    );
+
+    // Assert: Filters passed to each page, counts and per-currency sums
+    expect(result.status).toBe(200);
+    expect(mockOrderRepository.listOrderSummaries).toHaveBeenNthCalledWith(2, 'company-123', {
+      status: undefined,
+      from: new Date('2024-01-01T00:00:00Z'),
+      to: new Date('2024-03-31T23:59:59Z'),
+      pageSize: 1000,
+      continuationToken: 'page-2'
+    });
+    expect(result.jsonBody).toEqual({
+      companyId: 'company-123',
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2024-03-31T23:59:59.000Z',
+      orderCount: 4,
+      byStatus: { APPROVED: 3, PENDING: 1 },
+      byBikeModel: { 'E-Bike': 3, 'City Bike': 1 },
+      byMonth: { '2024-01': 3, '2024-02': 1 },
+      byCurrency: {
+        EUR: { orders: 3, oneOff: 300.4, recurring: 5 },
+        JPY: { orders: 1, oneOff: 15000, recurring: 0 }
+      }
+    });
+  });
+
+  it('should reject invalid filters and callers other than company admins', async () => {
+    // Act: Reversed range, then an employee caller
+    const invalid = await getOrderReport(
+      createRequest({ from: '2024-03-01T00:00:00Z', to: '2024-01-01T00:00:00Z' }),
+      mockContext
+    );
+    (authenticate as jest.Mock).mockResolvedValue({
+      subject: 'emp-1',
+      role: 'employee',
+      companyId: 'company-123',
+      employeeId: 'emp-1'
+    });
+    const forbidden = await exportOrders(createRequest(), mockContext);
+
+    // Assert: Nothing read
+    expect(invalid.status).toBe(400);
+    expect(invalid.jsonBody.errors[0].path).toBe('to');
+    expect(forbidden.status).toBe(403);
+    expect(mockOrderRepository.listOrderSummaries).not.toHaveBeenCalled();
+    expect(mockOrderRepository.listOrders).not.toHaveBeenCalled();
+  });
+
+  it('should stream every page of orders as Excel-readable CSV', async () => {
+    // Arrange: Two pages, one order named like a formula
+    mockOrderRepository.listOrders
+      .mockResolvedValueOnce({ orders: [createOrder('order-1')], continuationToken: 'page-2' })
+      .mockResolvedValueOnce({
+        orders: [createOrder('order-2', { bikeModel: '=HYPERLINK("x")', status: 'PENDING', insurance: 'NONE' })]
+      });
+
+    // Act: Export pending and approved orders
+    const result = await exportOrders(createRequest(), mockContext);
+    const csv = await readBody(result.body as AsyncIterable<Uint8Array>);
+
+    // Assert: Download headers, byte order mark, one row per order
+    expect(result.status).toBe(200);
+    expect(result.headers).toEqual({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="orders-company-123.csv"'
+    });
+    expect(csv).toBe(
+      '\uFEFForderId,employeeId,bikeModel,status,startDate,endDate,price,currency,oneOff,recurring,insurance,createdAt,updatedAt\r\n' +
+      'order-1,emp-1,E-Bike,APPROVED,2024-02-01T00:00:00.000Z,2025-02-01T00:00:00.000Z,1200,EUR,1230,9.5,BASIC,' +
+      '2024-01-15T09:00:00.000Z,2024-01-16T09:00:00.000Z\r\n' +
+      'order-2,emp-1,"\'=HYPERLINK(""x"")",PENDING,2024-02-01T00:00:00.000Z,2025-02-01T00:00:00.000Z,1200,EUR,1230,9.5,NONE,' +
+      '2024-01-15T09:00:00.000Z,2024-01-16T09:00:00.000Z\r\n'
+    );
+    expect(mockOrderRepository.listOrders).toHaveBeenNthCalledWith(2, 'company-123', {
+      status: undefined,
+      from: undefined,
+      to: undefined,
+      pageSize: 100,
+      continuationToken: 'page-2'
+    });
+  });
+
+  it('should answer with an error before streaming and abort the stream after', async () => {
+    // Arrange: First export cannot read at all, second fails on its second page
+    const storageError = new OrderProcessingError('Failed to list orders from storage', 'STORAGE_ERROR');
+    mockOrderRepository.listOrders
+      .mockRejectedValueOnce(storageError)
+      .mockResolvedValueOnce({ orders: [createOrder('order-1')], continuationToken: 'page-2' })
+      .mockRejectedValueOnce(storageError);
+
+    // Act: Export twice
+    const failed = await exportOrders(createRequest(), mockContext);
+    const aborted = await exportOrders(createRequest(), mockContext);
+
+    // Assert: A problem response, then a stream that errors
+    expect(failed.status).toBe(500);
+    expect(failed.jsonBody.code).toBe('STORAGE_ERROR');
+    expect(aborted.status).toBe(200);
+    await expect(readBody(aborted.body as AsyncIterable<Uint8Array>)).rejects.toBe(storageError);
+    expect(logRecords(mockContext.error)).toContainEqual(expect.objectContaining({
+      message: 'Order export for company company-123 failed after 1 orders',
+      companyId: 'company-123',
+      error: expect.objectContaining({ message: storageError.message })
+    }));
+  });
+});
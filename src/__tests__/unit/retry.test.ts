@@ -0,0 +1,140 @@
+import { InvocationContext } from '@azure/functions';
+import { isTransientError, retryAfterMs, withRetry } from '../../utils/retry';
+import { getCircuitBreaker, resetCircuitBreakers } from '../../utils/circuitBreaker';
+import {
+  NotFoundError,
+  OrderProcessingError,
+  ServiceUnavailableError,
+  ValidationError
+} from '../../utils/errors';
+
+function statusError(statusCode: number, retryAfter?: string): Error {
+  return Object.assign(new Error(`Status ${statusCode}`), {
+    statusCode,
+    response: { headers: { get: (name: string) => (name === 'retry-after' ? retryAfter : undefined) } }
+  });
+}
+
+describe('withRetry', () => {
+  let mockContext: InvocationContext;
+  const fastRetry = { baseDelay: 1, maxDelay: 5, jitter: 0 };
+
+  beforeEach(() => {
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    delete process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD;
+  });
+
+  it('should retry transient failures until the operation succeeds', async () => {
+    // Arrange: Two throttled attempts, then success
+    const operation = jest.fn()
+      .mockRejectedValueOnce(statusError(503))
+      .mockRejectedValueOnce(statusError(429))
+      .mockResolvedValue('done');
+
+    // Act: Run with retries
+    const result = await withRetry(operation, fastRetry, mockContext);
+
+    // Assert: Check result and attempts
+    expect(result).toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry failures that will not change', async () => {
+    // Arrange: Operation fails validation
+    const error = new ValidationError('Validation failed', ['price: Required']);
+    const operation = jest.fn().mockRejectedValue(error);
+
+    // Act & Assert: Fails on the first attempt
+    await expect(withRetry(operation, fastRetry, mockContext)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retrying when the deadline would be exceeded', async () => {
+    // Arrange: Dependency asks for a 60 second pause
+    const operation = jest.fn().mockRejectedValue(statusError(429, '60'));
+
+    // Act & Assert: Gives up instead of waiting past the deadline
+    await expect(withRetry(operation, { ...fastRetry, deadline: 1000 }, mockContext)).rejects.toThrow('Status 429');
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(mockContext.error).toHaveBeenCalledWith(
+      expect.stringContaining('retry deadline of 1000ms reached'),
+      expect.any(Error)
+    );
+  });
+
+  it('should fail fast once the dependency circuit is open', async () => {
+    // Arrange: Breaker opens after two transient failures
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = '2';
+    const operation = jest.fn().mockRejectedValue(statusError(503));
+
+    // Act: Exhaust the retries, then call again
+    await expect(
+      withRetry(operation, { ...fastRetry, maxAttempts: 5, dependency: 'test-storage' }, mockContext)
+    ).rejects.toThrow(ServiceUnavailableError);
+    await expect(
+      withRetry(operation, { ...fastRetry, dependency: 'test-storage' }, mockContext)
+    ).rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE', statusCode: 503 });
+
+    // Assert: Only the failures before the circuit opened reached the dependency
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(getCircuitBreaker('test-storage').getState()).toBe('OPEN');
+    expect(getCircuitBreaker('other-dependency').getState()).toBe('CLOSED');
+  });
+
+  it('should count definite answers as a healthy dependency', async () => {
+    // Arrange: Breaker one failure away from opening
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = '2';
+    const options = { ...fastRetry, maxAttempts: 1, dependency: 'test-storage' };
+    await expect(withRetry(jest.fn().mockRejectedValue(statusError(503)), options, mockContext)).rejects.toThrow();
+
+    // Act: Dependency answers "not found", then fails again
+    await expect(withRetry(jest.fn().mockRejectedValue(new NotFoundError('Order missing')), options, mockContext))
+      .rejects.toThrow(NotFoundError);
+    await expect(withRetry(jest.fn().mockRejectedValue(statusError(503)), options, mockContext)).rejects.toThrow();
+
+    // Assert: The failure count was reset in between
+    expect(getCircuitBreaker('test-storage').getState()).toBe('CLOSED');
+  });
+});
+
+describe('isTransientError', () => {
+  it('should classify Azure SDK and network failures', () => {
+    expect(isTransientError(statusError(503))).toBe(true);
+    expect(isTransientError(statusError(429))).toBe(true);
+    expect(isTransientError(statusError(408))).toBe(true);
+    expect(isTransientError(statusError(403))).toBe(false);
+    expect(isTransientError(statusError(404))).toBe(false);
+    expect(isTransientError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('send'), { code: 'REQUEST_SEND_ERROR' }))).toBe(true);
+    expect(isTransientError(new TypeError('x is undefined'))).toBe(false);
+  });
+
+  it('should trust the retryable flag of Service Bus errors', () => {
+    expect(isTransientError(Object.assign(new Error('busy'), { code: 'ServiceBusy', retryable: true }))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('denied'), { code: 'UnauthorizedAccess', retryable: false }))).toBe(false);
+  });
+
+  it('should judge wrapped errors by their cause', () => {
+    expect(isTransientError(new OrderProcessingError('Failed', 'STORAGE_ERROR', 500, statusError(500)))).toBe(true);
+    expect(isTransientError(new OrderProcessingError('Failed', 'STORAGE_ERROR', 500, statusError(403)))).toBe(false);
+    expect(isTransientError(new OrderProcessingError('Bad config', 'EXCHANGE_RATE_CONFIG_ERROR'))).toBe(false);
+    expect(isTransientError(new ServiceUnavailableError('Storage is down', 30))).toBe(false);
+  });
+});
+
+describe('retryAfterMs', () => {
+  it('should read Retry-After in seconds or as a date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(retryAfterMs(statusError(429, '2'), now)).toBe(2000);
+    expect(retryAfterMs(statusError(503, 'Mon, 01 Jan 2024 00:00:05 GMT'), now)).toBe(5000);
+    expect(retryAfterMs(statusError(503), now)).toBeUndefined();
+  });
+});
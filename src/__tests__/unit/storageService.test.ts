@@ -1,7 +1,8 @@
 import { StorageService } from '../../services/storageService';
 import { BlobServiceClient } from '@azure/storage-blob';
 import { Order } from '../../types/Order';
-import { OrderProcessingError } from '../../utils/errors';
+import { ConcurrencyConflictError, NotFoundError, OrderProcessingError } from '../../utils/errors';
+import { logRecords } from '../helpers/logRecords';
 
 // Mock Azure Storage SDK
 jest.mock('@azure/storage-blob');
@@ -19,12 +20,15 @@ describe('StorageService', () => {
       upload: jest.fn().mockResolvedValue({}),
       download: jest.fn().mockResolvedValue({
         readableStreamBody: 'mock-stream'
-      })
+      }),
+      exists: jest.fn().mockResolvedValue(true)
     };
 
     mockContainerClient = {
       createIfNotExists: jest.fn().mockResolvedValue({}),
-      getBlockBlobClient: jest.fn().mockReturnValue(mockBlockBlobClient)
+      getBlockBlobClient: jest.fn().mockReturnValue(mockBlockBlobClient),
+      listBlobsFlat: jest.fn(),
+      deleteBlob: jest.fn().mockResolvedValue({})
     };
 
     mockBlobServiceClient = {
@@ -72,6 +76,7 @@ describe('StorageService', () => {
     it('should store order successfully', async () => {
       // Arrange: Test order
       const testOrder: Order = {
+        schemaVersion: 2,
         id: 'test-id',
         employeeId: 'emp-123',
         bikeModel: 'Test Bike',
@@ -81,6 +86,11 @@ describe('StorageService', () => {
         price: 299.99,
         currency: 'USD',
         companyId: 'test-company',
+        accessories: [],
+        insurance: 'NONE',
+        lineItems: [],
+        totals: { oneOff: 299.99, recurring: 0 },
+        deductionSchedule: { currency: 'USD', total: 299.99, installments: [] },
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -106,16 +116,67 @@ describe('StorageService', () => {
       expect(uploadOptions.metadata).toEqual({
         companyId: 'test-company',
         employeeId: 'emp-123',
-        status: 'PENDING'
+        status: 'PENDING',
+        bikeModel: 'Test%20Bike',
+        currency: 'USD',
+        createdAt: testOrder.createdAt.toISOString(),
+        startDate: '2024-01-01T00:00:00.000Z',
+        endDate: '2024-01-07T00:00:00.000Z',
+        oneOff: '299.99',
+        recurring: '0'
       });
 
       // Assert: Check logging
-      expect(mockContext.log).toHaveBeenCalledWith('Order test-id stored successfully in blob storage');
+      expect(logRecords(mockContext.log)).toEqual([expect.objectContaining({
+        message: 'Order test-id stored successfully in blob storage',
+        orderId: 'test-id',
+        companyId: 'test-company'
+      })]);
+    });
+
+    it('should upload the length of non-ASCII documents in bytes', async () => {
+      // Arrange: Order for a model named with an umlaut
+      const testOrder = {
+        schemaVersion: 4,
+        id: 'test-id',
+        employeeId: 'emp-123',
+        bikeModel: 'Lastenrad Größe L',
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2024-01-07'),
+        status: 'PENDING',
+        price: 299.99,
+        currency: 'EUR',
+        companyId: 'test-company',
+        totals: { oneOff: 299.99, recurring: 0 },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      } as Order;
+
+      // Act: Store the order and its outbox entry
+      await storageService.storeOrder(testOrder, mockContext);
+      await storageService.storeOutboxEntry({
+        id: 'test-id',
+        orderId: 'test-id',
+        companyId: 'test-company',
+        messageType: 'OrderCreated',
+        status: 'PENDING',
+        order: testOrder,
+        attempts: 0,
+        createdAt: new Date()
+      }, mockContext);
+
+      // Assert: Content lengths count the two-byte characters
+      for (const [data, contentLength] of mockBlockBlobClient.upload.mock.calls) {
+        expect(contentLength).toBe(Buffer.byteLength(data));
+        expect(contentLength).toBeGreaterThan(data.length);
+      }
+      expect(mockBlockBlobClient.upload).toHaveBeenCalledTimes(2);
     });
 
     it('should handle storage failure', async () => {
       // Arrange: Test order and mock failure
       const testOrder: Order = {
+        schemaVersion: 2,
         id: 'test-id',
         employeeId: 'emp-123',
         bikeModel: 'Test Bike',
@@ -125,6 +186,11 @@ describe('StorageService', () => {
         price: 299.99,
         currency: 'USD',
         companyId: 'test-company',
+        accessories: [],
+        insurance: 'NONE',
+        lineItems: [],
+        totals: { oneOff: 299.99, recurring: 0 },
+        deductionSchedule: { currency: 'USD', total: 299.99, installments: [] },
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -133,7 +199,94 @@ describe('StorageService', () => {
 
       // Act & Assert: Check error handling
       await expect(storageService.storeOrder(testOrder, mockContext)).rejects.toThrow(OrderProcessingError);
-      expect(mockContext.error).toHaveBeenCalledWith('Failed to store order in blob storage:', expect.any(Error));
+      expect(logRecords(mockContext.error)[0]).toMatchObject({
+        level: 'error',
+        message: 'Failed to store order in blob storage',
+        orderId: 'test-id',
+        error: { message: 'Upload failed' }
+      });
+    });
+  });
+
+  describe('updateOrder', () => {
+    const testOrder: Order = {
+      schemaVersion: 2,
+      id: 'test-id',
+      employeeId: 'emp-123',
+      bikeModel: 'Test Bike',
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-01-07'),
+      status: 'APPROVED',
+      price: 299.99,
+      currency: 'USD',
+      companyId: 'test-company',
+      accessories: [],
+      insurance: 'NONE',
+      lineItems: [],
+      totals: { oneOff: 299.99, recurring: 0 },
+      deductionSchedule: { currency: 'USD', total: 299.99, installments: [] },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    it('should only overwrite the version that was read', async () => {
+      // Arrange: Upload returns the new version
+      mockBlockBlobClient.upload.mockResolvedValue({ etag: '"0x2"' });
+
+      // Act: Update order read at version 0x1
+      const etag = await storageService.updateOrder({ ...testOrder, etag: '"0x1"' }, mockContext);
+
+      // Assert: Upload is conditional on the version and refreshes metadata
+      const [orderData, , uploadOptions] = mockBlockBlobClient.upload.mock.calls[0];
+      expect(uploadOptions.conditions).toEqual({ ifMatch: '"0x1"' });
+      expect(uploadOptions.metadata.status).toBe('APPROVED');
+      expect(JSON.parse(orderData).etag).toBeUndefined();
+      expect(etag).toBe('"0x2"');
+    });
+
+    it('should refuse updates without a version', async () => {
+      // Act & Assert: Check error code and that nothing was written
+      await expect(storageService.updateOrder(testOrder, mockContext))
+        .rejects.toMatchObject({ code: 'PRECONDITION_REQUIRED', statusCode: 428 });
+      expect(mockBlockBlobClient.upload).not.toHaveBeenCalled();
+    });
+
+    it('should report a changed version as a concurrency conflict', async () => {
+      // Arrange: Condition fails although the blob exists
+      mockBlockBlobClient.upload.mockRejectedValue(Object.assign(new Error('Condition not met'), { statusCode: 412 }));
+
+      // Act & Assert: Check error type
+      await expect(storageService.updateOrder({ ...testOrder, etag: '"0x1"' }, mockContext))
+        .rejects.toThrow(ConcurrencyConflictError);
+    });
+
+    it('should report missing orders as not found', async () => {
+      // Arrange: Condition fails because the blob does not exist
+      mockBlockBlobClient.upload.mockRejectedValue(Object.assign(new Error('Condition not met'), { statusCode: 412 }));
+      mockBlockBlobClient.exists.mockResolvedValue(false);
+
+      // Act & Assert: Check error type
+      await expect(storageService.updateOrder({ ...testOrder, etag: '"0x1"' }, mockContext))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('deleteOrder', () => {
+    it('should delete the order blob', async () => {
+      // Act: Delete order
+      const deleted = await storageService.deleteOrder('test-id', 'test-company', mockContext);
+
+      // Assert: Check blob deletion
+      expect(deleted).toBe(true);
+      expect(mockContainerClient.deleteBlob).toHaveBeenCalledWith('test-company/test-id.json');
+    });
+
+    it('should return false for a missing order', async () => {
+      // Arrange: Blob does not exist
+      mockContainerClient.deleteBlob.mockRejectedValue(Object.assign(new Error('Not found'), { statusCode: 404 }));
+
+      // Act & Assert: Check result
+      expect(await storageService.deleteOrder('test-id', 'test-company', mockContext)).toBe(false);
     });
   });
 
@@ -143,24 +296,47 @@ describe('StorageService', () => {
       const orderData = {
         id: 'test-id',
         employeeId: 'emp-123',
-        companyId: 'test-company'
+        companyId: 'test-company',
+        startDate: '2024-01-01T00:00:00.000Z',
+        endDate: '2024-03-01T00:00:00.000Z',
+        price: 99,
+        currency: 'USD'
       };
 
-      // Mock stream conversion
+      // Mock stream conversion and blob version
       storageService['streamToString'] = jest.fn().mockResolvedValue(JSON.stringify(orderData));
+      mockBlockBlobClient.download.mockResolvedValue({ readableStreamBody: 'mock-stream', etag: '"0x1"' });
 
       // Act: Get order
       const result = await storageService.getOrder('test-id', 'test-company');
 
-      // Assert: Check result
-      expect(result).toEqual(orderData);
+      // Assert: Check result carries the version read, upcast from the unversioned layout
+      expect(result).toEqual({
+        ...orderData,
+        schemaVersion: 4,
+        accessories: [],
+        insurance: 'NONE',
+        lineItems: [],
+        totals: { oneOff: 99, recurring: 0 },
+        deductionSchedule: {
+          currency: 'USD',
+          total: 99,
+          installments: [
+            { number: 1, period: '2024-01', principal: 49.5, recurring: 0, amount: 49.5 },
+            { number: 2, period: '2024-02', principal: 49.5, recurring: 0, amount: 49.5 }
+          ]
+        },
+        etag: '"0x1"'
+      });
       expect(mockContainerClient.getBlockBlobClient).toHaveBeenCalledWith('test-company/test-id.json');
       expect(mockBlockBlobClient.download).toHaveBeenCalled();
     });
 
     it('should return null for non-existent order', async () => {
       // Arrange: Mock download failure
-      mockBlockBlobClient.download.mockRejectedValue(new Error('Blob not found'));
+      mockBlockBlobClient.download.mockRejectedValue(
+        Object.assign(new Error('Blob not found'), { statusCode: 404 })
+      );
 
       // Act: Get non-existent order
       const result = await storageService.getOrder('non-existent', 'test-company');
@@ -168,5 +344,259 @@ describe('StorageService', () => {
       // Assert: Check null return
       expect(result).toBeNull();
     });
+
+    it('should not mistake other failures for a missing order', async () => {
+      // Arrange: Mock transient download failure
+      mockBlockBlobClient.download.mockRejectedValue(
+        Object.assign(new Error('Server busy'), { statusCode: 503 })
+      );
+
+      // Act & Assert: Check error handling
+      await expect(storageService.getOrder('test-id', 'test-company')).rejects.toThrow(OrderProcessingError);
+    });
+  });
+
+  describe('listOrders', () => {
+    function mockBlobPage(blobItems: any[], continuationToken = '') {
+      const next = jest.fn().mockResolvedValue({
+        value: { segment: { blobItems }, continuationToken }
+      });
+      const byPage = jest.fn().mockReturnValue({ next });
+      mockContainerClient.listBlobsFlat.mockReturnValue({ byPage });
+      return byPage;
+    }
+
+    it('should list order blobs under the company prefix', async () => {
+      // Arrange: One page with an order blob and an unrelated blob
+      const byPage = mockBlobPage([
+        { name: 'test-company/order-1.json', metadata: { status: 'PENDING', employeeid: 'emp-1' } },
+        { name: 'test-company/nested/record.json', metadata: {} }
+      ], 'next-token');
+      storageService['streamToString'] = jest.fn().mockResolvedValue(
+        JSON.stringify({ schemaVersion: 4, id: 'order-1', createdAt: '2024-01-02T00:00:00.000Z' })
+      );
+
+      // Act: List orders
+      const result = await storageService.listOrders('test-company', { pageSize: 10 });
+
+      // Assert: Check listing and page
+      expect(mockContainerClient.listBlobsFlat).toHaveBeenCalledWith({
+        prefix: 'test-company/',
+        includeMetadata: true
+      });
+      expect(byPage).toHaveBeenCalledWith({ continuationToken: undefined, maxPageSize: 10 });
+      expect(mockContainerClient.getBlockBlobClient).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        orders: [{ schemaVersion: 4, id: 'order-1', createdAt: '2024-01-02T00:00:00.000Z' }],
+        continuationToken: 'next-token'
+      });
+    });
+
+    it('should filter by metadata before downloading and by creation date after', async () => {
+      // Arrange: Orders with different statuses and creation dates
+      mockBlobPage([
+        { name: 'test-company/order-1.json', metadata: { status: 'APPROVED', employeeid: 'emp-1' } },
+        { name: 'test-company/order-2.json', metadata: { status: 'PENDING', employeeid: 'emp-1' } },
+        { name: 'test-company/order-3.json', metadata: { status: 'APPROVED', employeeid: 'emp-1' } }
+      ]);
+      storageService['streamToString'] = jest.fn()
+        .mockResolvedValueOnce(JSON.stringify({ id: 'order-1', createdAt: '2024-01-02T00:00:00.000Z' }))
+        .mockResolvedValueOnce(JSON.stringify({ id: 'order-3', createdAt: '2023-06-01T00:00:00.000Z' }));
+
+      // Act: List approved orders created in 2024
+      const result = await storageService.listOrders('test-company', {
+        status: 'APPROVED',
+        employeeId: 'emp-1',
+        from: new Date('2024-01-01T00:00:00Z')
+      });
+
+      // Assert: Only the matching order is returned, the pending one is never downloaded
+      expect(mockContainerClient.getBlockBlobClient).toHaveBeenCalledTimes(2);
+      expect(result.orders.map((order) => order.id)).toEqual(['order-1']);
+      expect(result.continuationToken).toBeUndefined();
+    });
+
+    it('should read summaries from metadata and download only older blobs', async () => {
+      // Arrange: One blob with summary metadata, one written before it existed
+      mockBlobPage([
+        {
+          name: 'test-company/order-1.json',
+          metadata: {
+            employeeid: 'emp-1',
+            status: 'APPROVED',
+            bikemodel: 'E-Bike%20%C3%9Cber',
+            currency: 'EUR',
+            createdat: '2024-02-03T00:00:00.000Z',
+            startdate: '2024-03-01T00:00:00.000Z',
+            enddate: '2024-03-31T00:00:00.000Z',
+            oneoff: '1200.5',
+            recurring: '9.99'
+          }
+        },
+        { name: 'test-company/order-2.json', metadata: { status: 'PENDING', employeeid: 'emp-2' } }
+      ]);
+      storageService['streamToString'] = jest.fn().mockResolvedValue(JSON.stringify({
+        schemaVersion: 4,
+        id: 'order-2',
+        employeeId: 'emp-2',
+        status: 'PENDING',
+        bikeModel: 'City Bike',
+        currency: 'USD',
+        createdAt: '2024-01-05T00:00:00.000Z',
+        startDate: '2024-01-10T00:00:00.000Z',
+        endDate: '2024-01-12T00:00:00.000Z',
+        totals: { oneOff: 99, recurring: 0 }
+      }));
+
+      // Act: List summaries
+      const result = await storageService.listOrderSummaries('test-company');
+
+      // Assert: Only the older order is downloaded
+      expect(mockContainerClient.getBlockBlobClient).toHaveBeenCalledTimes(1);
+      expect(mockContainerClient.getBlockBlobClient).toHaveBeenCalledWith('test-company/order-2.json');
+      expect(result.summaries).toEqual([
+        {
+          id: 'order-1',
+          employeeId: 'emp-1',
+          status: 'APPROVED',
+          bikeModel: 'E-Bike Über',
+          currency: 'EUR',
+          createdAt: '2024-02-03T00:00:00.000Z',
+          startDate: '2024-03-01T00:00:00.000Z',
+          endDate: '2024-03-31T00:00:00.000Z',
+          totals: { oneOff: 1200.5, recurring: 9.99 }
+        },
+        {
+          id: 'order-2',
+          employeeId: 'emp-2',
+          status: 'PENDING',
+          bikeModel: 'City Bike',
+          currency: 'USD',
+          createdAt: '2024-01-05T00:00:00.000Z',
+          startDate: '2024-01-10T00:00:00.000Z',
+          endDate: '2024-01-12T00:00:00.000Z',
+          totals: { oneOff: 99, recurring: 0 }
+        }
+      ]);
+    });
+
+    it('should handle listing failure', async () => {
+      // Arrange: Mock listing failure
+      mockContainerClient.listBlobsFlat.mockImplementation(() => {
+        throw new Error('Listing failed');
+      });
+
+      // Act & Assert: Check error handling
+      await expect(storageService.listOrders('test-company')).rejects.toThrow('Failed to list orders from storage');
+    });
+  });
+
+  describe('updateReservations', () => {
+    const reservation = {
+      orderId: 'order-1',
+      startDate: '2024-01-01T00:00:00.000Z',
+      endDate: '2024-01-07T00:00:00.000Z',
+      reservedAt: '2023-12-31T12:00:00.000Z'
+    };
+
+    it('should create the reservation blob only if it does not exist yet', async () => {
+      // Arrange: No reservations stored
+      mockBlockBlobClient.download.mockRejectedValue(Object.assign(new Error('Not found'), { statusCode: 404 }));
+      const update = jest.fn().mockResolvedValue([reservation]);
+
+      // Act: Reserve a bike
+      await storageService.updateReservations('test-company', 'E-Bike/../x', update, mockContext);
+
+      // Assert: Model is hashed into the blob name and the write is conditional
+      expect(update).toHaveBeenCalledWith([]);
+      expect(mockContainerClient.getBlockBlobClient).toHaveBeenCalledWith(
+        expect.stringMatching(/^_reservations\/test-company\/[0-9a-f]{64}\.json$/)
+      );
+      const [reservationData, , uploadOptions] = mockBlockBlobClient.upload.mock.calls[0];
+      expect(JSON.parse(reservationData)).toEqual([reservation]);
+      expect(uploadOptions.conditions).toEqual({ ifNoneMatch: '*' });
+    });
+
+    it('should re-read and re-run the update when another writer got there first', async () => {
+      // Arrange: First write loses the race
+      mockBlockBlobClient.download
+        .mockResolvedValueOnce({ readableStreamBody: 'mock-stream', etag: '"0x1"' })
+        .mockResolvedValueOnce({ readableStreamBody: 'mock-stream', etag: '"0x2"' });
+      storageService['streamToString'] = jest.fn()
+        .mockResolvedValueOnce('[]')
+        .mockResolvedValueOnce(JSON.stringify([reservation]));
+      mockBlockBlobClient.upload
+        .mockRejectedValueOnce(Object.assign(new Error('Condition not met'), { statusCode: 412 }))
+        .mockResolvedValueOnce({});
+      const update = jest.fn(async (reservations) => reservations);
+
+      // Act: Update reservations
+      await storageService.updateReservations('test-company', 'E-Bike', update, mockContext);
+
+      // Assert: Second attempt sees the other writer's reservation and matches its version
+      expect(update).toHaveBeenLastCalledWith([reservation]);
+      expect(mockBlockBlobClient.upload.mock.calls[1][2].conditions).toEqual({ ifMatch: '"0x2"' });
+    });
+
+    it('should pass errors from the update through unchanged', async () => {
+      // Arrange: Update refuses the reservation
+      const refusal = new OrderProcessingError('Sold out', 'BIKE_UNAVAILABLE', 409);
+      storageService['streamToString'] = jest.fn().mockResolvedValue('[]');
+
+      // Act & Assert: Check the error and that nothing was written
+      await expect(storageService.updateReservations(
+        'test-company', 'E-Bike', jest.fn().mockRejectedValue(refusal), mockContext
+      )).rejects.toBe(refusal);
+      expect(mockBlockBlobClient.upload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('outbox', () => {
+    const entry = {
+      id: 'order-1',
+      orderId: 'order-1',
+      companyId: 'test-company',
+      messageType: 'OrderCreated' as const,
+      status: 'PENDING' as const,
+      order: { id: 'order-1' } as any,
+      attempts: 0,
+      createdAt: new Date('2024-01-01T00:00:00Z')
+    };
+
+    it('should store pending entries under the pending prefix', async () => {
+      // Act: Store entry
+      await storageService.storeOutboxEntry(entry, mockContext);
+
+      // Assert: Check blob name and metadata
+      expect(mockContainerClient.getBlockBlobClient).toHaveBeenCalledWith('_outbox/pending/order-1.json');
+      expect(mockBlockBlobClient.upload.mock.calls[0][2].metadata).toEqual({
+        companyId: 'test-company',
+        orderId: 'order-1',
+        status: 'PENDING'
+      });
+    });
+
+    it('should move dispatched entries out of the pending prefix', async () => {
+      // Act: Mark entry as dispatched
+      await storageService.markOutboxEntryDispatched(entry, mockContext);
+
+      // Assert: Dispatched copy written before the pending blob is deleted
+      expect(mockContainerClient.getBlockBlobClient).toHaveBeenCalledWith('_outbox/dispatched/order-1.json');
+      const dispatched = JSON.parse(mockBlockBlobClient.upload.mock.calls[0][0]);
+      expect(dispatched.status).toBe('DISPATCHED');
+      expect(dispatched.dispatchedAt).toBeDefined();
+      expect(mockContainerClient.deleteBlob).toHaveBeenCalledWith('_outbox/pending/order-1.json');
+      expect(mockBlockBlobClient.upload.mock.invocationCallOrder[0])
+        .toBeLessThan(mockContainerClient.deleteBlob.mock.invocationCallOrder[0]);
+    });
+
+    it('should keep the entry pending when the dispatched copy cannot be written', async () => {
+      // Arrange: Upload fails
+      mockBlockBlobClient.upload.mockRejectedValue(new Error('Upload failed'));
+
+      // Act & Assert: Check error handling
+      await expect(storageService.markOutboxEntryDispatched(entry, mockContext)).rejects.toThrow(OrderProcessingError);
+      expect(mockContainerClient.deleteBlob).not.toHaveBeenCalled();
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,214 @@
+import { InvocationContext } from '@azure/functions';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { DataPoint, MetricReader } from '@opentelemetry/sdk-metrics';
+import {
+  initializeTelemetry,
+  injectTraceContext,
+  recordFailure,
+  shutdownTelemetry,
+  traceInvocation,
+  traceMethods,
+  withSpan
+} from '../../utils/telemetry';
+import { withRetry } from '../../utils/retry';
+import { resetCircuitBreakers } from '../../utils/circuitBreaker';
+import { handleError, OrderProcessingError, setFailureRecorder } from '../../utils/errors';
+import { createOrderMessage } from '../../services/orderMessages';
+import { InMemoryOrderRepository } from '../../services/inMemoryOrderRepository';
+import { logRecords } from '../helpers/logRecords';
+
+// Collects on demand instead of on a timer
+class TestMetricReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+
+describe('telemetry', () => {
+  let spanExporter: InMemorySpanExporter;
+  let metricReader: TestMetricReader;
+  let mockContext: InvocationContext;
+
+  const order = {
+    schemaVersion: 2,
+    id: 'order-123',
+    employeeId: 'emp-123',
+    bikeModel: 'City Bike',
+    startDate: new Date('2024-01-01T10:00:00Z'),
+    endDate: new Date('2024-01-07T10:00:00Z'),
+    status: 'PENDING' as const,
+    price: 99.5,
+    currency: 'EUR',
+    companyId: 'company-123',
+    accessories: [],
+    insurance: 'NONE' as const,
+    lineItems: [],
+    totals: { oneOff: 99.5, recurring: 0 },
+    deductionSchedule: { currency: 'EUR', total: 99.5, installments: [] },
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  async function dataPoints(name: string): Promise<DataPoint<unknown>[]> {
+    const { resourceMetrics } = await metricReader.collect();
+    const metric = resourceMetrics.scopeMetrics
+      .flatMap((scope) => scope.metrics)
+      .find((candidate) => candidate.descriptor.name === name);
+    return (metric?.dataPoints ?? []) as DataPoint<unknown>[];
+  }
+
+  beforeEach(() => {
+    spanExporter = new InMemorySpanExporter();
+    metricReader = new TestMetricReader();
+    initializeTelemetry({ spanProcessor: new SimpleSpanProcessor(spanExporter), metricReader });
+
+    mockContext = {
+      functionName: 'processOrder',
+      invocationId: 'invocation-1',
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    } as any;
+    resetCircuitBreakers();
+  });
+
+  afterEach(async () => {
+    await shutdownTelemetry();
+    setFailureRecorder(undefined);
+    delete process.env.TELEMETRY_EXPORTER;
+  });
+
+  it('should nest step spans and record failures with their code', async () => {
+    // Act: A failing step inside an operation
+    await expect(withSpan('order.process', {}, () =>
+      withSpan('order.check_policy', {}, async () => {
+        throw new OrderProcessingError('Too long', 'POLICY_VIOLATION', 422);
+      })
+    )).rejects.toThrow('Too long');
+
+    // Assert: Check parent link and error details
+    const [step, operation] = spanExporter.getFinishedSpans();
+    expect(step.name).toBe('order.check_policy');
+    expect(step.parentSpanContext?.spanId).toBe(operation.spanContext().spanId);
+    expect(step.status.code).toBe(SpanStatusCode.ERROR);
+    expect(step.attributes['error.code']).toBe('POLICY_VIOLATION');
+    expect(step.events.map((event) => event.name)).toEqual(['exception']);
+  });
+
+  it('should trace every call on a dependency client', async () => {
+    // Arrange: Traced in-memory repository
+    const repository = new InMemoryOrderRepository();
+    const traced = traceMethods(repository, 'order-storage');
+
+    // Act: Store and read an order
+    await traced.storeOrder(order, mockContext);
+    await traced.getOrder('order-123', 'company-123');
+
+    // Assert: One client span per call, same proxy for the same client
+    expect(spanExporter.getFinishedSpans().map((span) => [span.name, span.kind])).toEqual([
+      ['order-storage storeOrder', SpanKind.CLIENT],
+      ['order-storage getOrder', SpanKind.CLIENT]
+    ]);
+    expect(traced).toBeInstanceOf(InMemoryOrderRepository);
+    expect(traceMethods(repository, 'order-storage')).toBe(traced);
+  });
+
+  it('should record retry attempts as span events', async () => {
+    // Arrange: Throttled once, then success
+    const operation = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Busy'), { statusCode: 503 }))
+      .mockResolvedValue('done');
+
+    // Act: Retry inside a span
+    await withSpan('order.store', {}, () =>
+      withRetry(operation, { baseDelay: 1, jitter: 0, dependency: 'order-storage' }, mockContext)
+    );
+
+    // Assert: Check the retry event
+    const [span] = spanExporter.getFinishedSpans();
+    expect(span.events).toHaveLength(1);
+    expect(span.events[0].name).toBe('retry');
+    expect(span.events[0].attributes).toMatchObject({
+      attempt: 1,
+      delay_ms: 1,
+      dependency: 'order-storage',
+      'exception.message': 'Busy'
+    });
+  });
+
+  it('should put the trace context into message application properties', () => {
+    // Act: Create messages inside and outside a span
+    const traced = withSpan('order-messaging sendOrderMessage', {}, (span) => ({
+      message: createOrderMessage(order),
+      traceId: span.spanContext().traceId
+    }));
+    const untraced = createOrderMessage(order);
+
+    // Assert: Only the traced message carries a traceparent
+    expect(traced.message.applicationProperties.traceparent).toMatch(
+      new RegExp(`^00-${traced.traceId}-[0-9a-f]{16}-01$`)
+    );
+    expect(untraced.applicationProperties).toBeUndefined();
+  });
+
+  it('should continue the trace of a consumed message and measure the invocation', async () => {
+    // Arrange: Message published from a traced request
+    const applicationProperties = withSpan('processOrder', {}, () => injectTraceContext());
+    const producer = spanExporter.getFinishedSpans()[0];
+    const consumerContext = {
+      ...mockContext,
+      functionName: 'orderProcessingConsumer',
+      options: { trigger: { type: 'serviceBusTrigger' } },
+      triggerMetadata: { applicationProperties }
+    } as any;
+
+    // Act: Consumer fails with a transient error
+    await expect(traceInvocation(consumerContext, {}, async () => {
+      throw Object.assign(new Error('Storage down'), { code: 'STORAGE_ERROR' });
+    })).rejects.toThrow('Storage down');
+
+    // Assert: Consumer span joins the producer's trace
+    const consumer = spanExporter.getFinishedSpans()[1];
+    expect(consumer.kind).toBe(SpanKind.CONSUMER);
+    expect(consumer.spanContext().traceId).toBe(producer.spanContext().traceId);
+    expect(consumer.parentSpanContext?.spanId).toBe(producer.spanContext().spanId);
+
+    // Assert: Check latency and failure metrics
+    const [duration] = await dataPoints('order.function.duration');
+    expect(duration.attributes).toEqual({ 'faas.name': 'orderProcessingConsumer', outcome: 'failure' });
+    const [failure] = await dataPoints('order.failures');
+    expect(failure.attributes).toEqual({ 'error.code': 'STORAGE_ERROR', 'faas.name': 'orderProcessingConsumer' });
+  });
+
+  it('should count error responses by error code', async () => {
+    // Arrange: Failure counter registered like at host startup
+    setFailureRecorder(recordFailure);
+
+    // Act: Two validation failures and an unexpected error
+    handleError(new OrderProcessingError('Invalid', 'VALIDATION_ERROR', 400), mockContext);
+    handleError(new OrderProcessingError('Invalid', 'VALIDATION_ERROR', 400), mockContext);
+    handleError(new TypeError('x is undefined'), mockContext);
+
+    // Assert: Check counts per code
+    const counts = (await dataPoints('order.failures')).map((point) => [point.attributes['error.code'], point.value]);
+    expect(counts).toEqual([['VALIDATION_ERROR', 2], ['INTERNAL_ERROR', 1]]);
+  });
+
+  it('should log an unknown exporter setting once and disable telemetry', async () => {
+    // Arrange: Uninitialized telemetry with a misspelled exporter
+    await shutdownTelemetry();
+    process.env.TELEMETRY_EXPORTER = 'azure-monitor';
+
+    // Act: Two invocations
+    await traceInvocation(mockContext, undefined, async () => 'done');
+    await traceInvocation(mockContext, undefined, async () => 'done');
+
+    // Assert: One structured warning, nothing traced
+    expect(logRecords(mockContext.warn)).toEqual([expect.objectContaining({
+      level: 'warn',
+      message: 'Unknown TELEMETRY_EXPORTER "azure-monitor", telemetry is disabled',
+      invocationId: 'invocation-1'
+    })]);
+    expect(spanExporter.getFinishedSpans()).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { BikeCatalog } from '../types/Order';
+import { AvailabilityQuerySchema, BikeCatalogSchema } from '../schema/catalog.schema';
+import { handleError, NotFoundError, ValidationError } from '../utils/errors';
+import { createOrderRepository } from '../services/orderRepository';
+import { InventoryService } from '../services/inventoryService';
+import { parseRequestBody } from '../utils/http';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { authenticate, authorizeAdmin, authorizeCompany } from '../utils/auth';
+
+export async function getCatalog(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+    authorizeCompany(caller, companyId);
+
+    const orderRepository = createOrderRepository();
+
+    const catalog = await orderRepository.getCatalog(companyId);
+    if (!catalog) {
+      throw new NotFoundError(`No bike catalog for company ${companyId}`, 'CATALOG_NOT_FOUND');
+    }
+
+    return {
+      status: 200,
+      jsonBody: catalog
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+export async function putCatalog(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+    authorizeAdmin(caller, companyId);
+
+    const requestBody = await parseRequestBody(request);
+    const validFields = BikeCatalogSchema.safeParse(requestBody);
+    if (!validFields.success) {
+      throw ValidationError.fromZodError('Validation failed', validFields.error);
+    }
+
+    const catalog: BikeCatalog = {
+      companyId,
+      models: validFields.data.models as BikeCatalog['models'],
+      pricing: validFields.data.pricing as BikeCatalog['pricing'],
+      baseCurrency: validFields.data.baseCurrency,
+      updatedAt: new Date()
+    };
+
+    const orderRepository = createOrderRepository();
+
+    await withRetry(
+      () => orderRepository.initializeContainer(),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+    await withRetry(
+      () => orderRepository.storeCatalog(catalog, context),
+      { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+
+    return {
+      status: 200,
+      jsonBody: catalog
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+export async function getAvailability(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+    authorizeCompany(caller, companyId);
+
+    const query: Record<string, string> = {};
+    request.query.forEach((value, key) => {
+      query[key] = value;
+    });
+
+    const validQuery = AvailabilityQuerySchema.safeParse(query);
+    if (!validQuery.success) {
+      throw ValidationError.fromZodError('Invalid query parameters', validQuery.error);
+    }
+
+    const { bikeModel, startDate, endDate } = validQuery.data;
+    const inventoryService = new InventoryService(createOrderRepository());
+
+    const availability = await inventoryService.getAvailability(
+      companyId,
+      bikeModel,
+      startDate,
+      endDate,
+      context
+    );
+
+    return {
+      status: 200,
+      jsonBody: availability
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+app.http('getCatalog', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'catalog/{companyId}',
+  handler: getCatalog
+});
+
+app.http('putCatalog', {
+  methods: ['PUT'],
+  authLevel: 'function',
+  route: 'catalog/{companyId}',
+  handler: putCatalog
+});
+
+app.http('getAvailability', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'catalog/{companyId}/availability',
+  handler: getAvailability
+});
@@ -0,0 +1,253 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { CreateOrderRequest, ImportOrdersResult, ImportRowResult, Order, OutboxEntry } from '../types/Order';
+import { CreateOrderSchema } from "../schema/order.schema";
+import { ForbiddenError, handleError, OrderProcessingError, ValidationError, toValidationErrors } from '../utils/errors';
+import { createOrderRepository, OrderRepository } from '../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../services/orderEventPublisher';
+import { withRetry } from '../utils/retry';
+import { MESSAGING_DEPENDENCY, STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { parseRequestBody } from '../utils/http';
+import { authenticate, authorizeEmployee, Caller } from '../utils/auth';
+import { parseCsv } from '../utils/csv';
+import { recordOrdersCreated, withSpan } from '../utils/telemetry';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { createOrder, createOutboxEntry } from '../utils/orderFactory';
+import { PricingService } from '../services/pricingService';
+import { PolicyService } from '../services/policyService';
+import { InventoryService } from '../services/inventoryService';
+import { RateLimitService } from '../services/rateLimitService';
+import { createRateLimitStore } from '../services/rateLimitStore';
+import { createLogger } from '../utils/logger';
+
+const MAX_ROWS = 500;
+const DEFAULT_CONCURRENCY = 5;
+
+interface StoredRow {
+  order: Order;
+  outboxEntry: OutboxEntry;
+}
+
+export async function importOrders(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const startTime = Date.now();
+  const logger = createLogger(context);
+  logger.info('Order import started');
+
+  try {
+    const caller = await authenticate(request);
+    const rows = await parseRows(request);
+    const results: ImportRowResult[] = new Array(rows.length);
+    const validRows: { index: number; input: CreateOrderRequest }[] = [];
+
+    withSpan('order.validate', { 'order.rows': rows.length }, () => {
+      rows.forEach((row, index) => {
+        const validFields = CreateOrderSchema.safeParse(row);
+        if (!validFields.success) {
+          results[index] = {
+            row: index + 1,
+            success: false,
+            errors: toValidationErrors(validFields.error)
+          };
+          return;
+        }
+        const input = validFields.data as CreateOrderRequest;
+        const forbidden = checkRowAccess(caller, input);
+        if (forbidden) {
+          results[index] = { row: index + 1, success: false, errors: [forbidden] };
+          return;
+        }
+        validRows.push({ index, input });
+      });
+    });
+
+    const orderRepository = createOrderRepository();
+    const pricingService = new PricingService(orderRepository);
+    const policyService = new PolicyService(orderRepository);
+    const inventoryService = new InventoryService(orderRepository);
+    const rateLimitService = new RateLimitService(createRateLimitStore());
+
+    const eventPublisher = createOrderEventPublisher();
+
+    try {
+      if (validRows.length > 0) {
+        await withRetry(
+          () => orderRepository.initializeContainer(),
+          { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+          context
+        );
+      }
+
+      const concurrency = Number(process.env.IMPORT_CONCURRENCY) || DEFAULT_CONCURRENCY;
+      const stored: (StoredRow | null)[] = new Array(rows.length).fill(null);
+      // Rows for the same bike model run one after another, so they do not
+      // keep retrying each other's reservations.
+      // Every row takes a token like a single order; rows over the limit fail
+      // with RATE_LIMITED.
+      await mapWithConcurrency(groupByBikeModel(validRows), concurrency, async (group) => {
+        for (const { index, input } of group) {
+          try {
+            await rateLimitService.assertWithinLimit(input.companyId, input.employeeId, context);
+            const pricedInput = await pricingService.priceOrder(input, context);
+            await policyService.assertCompliant(pricedInput, context);
+            const order = createOrder(pricedInput);
+            await inventoryService.reserve(
+              order.companyId,
+              order.id,
+              order.bikeModel,
+              pricedInput.startDate,
+              pricedInput.endDate,
+              context
+            );
+            const outboxEntry = createOutboxEntry(order);
+            await withRetry(
+              () => orderRepository.storeOutboxEntry(outboxEntry, context),
+              { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+              context
+            );
+            await withRetry(
+              () => orderRepository.storeOrder(order, context),
+              { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+              context
+            );
+            results[index] = { row: index + 1, success: true, orderId: order.id };
+            stored[index] = { order, outboxEntry };
+          } catch (error) {
+            results[index] = toFailedRow(index, error);
+          }
+        }
+      });
+
+      const storedRows = stored.filter((row): row is StoredRow => row !== null);
+      await dispatchOutboxEntries(orderRepository, eventPublisher, storedRows, concurrency, context);
+
+    } finally {
+      await eventPublisher.close();
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    recordOrdersCreated(succeeded, 'import');
+    const importResult: ImportOrdersResult = {
+      success: succeeded === rows.length,
+      total: rows.length,
+      succeeded,
+      failed: rows.length - succeeded,
+      results
+    };
+
+    const processingTime = Date.now() - startTime;
+    logger.info(`Order import stored ${succeeded} of ${rows.length} rows in ${processingTime}ms`, {
+      durationMs: processingTime
+    });
+
+    return {
+      status: importResult.success ? 201 : 207,
+      jsonBody: importResult
+    };
+
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    logger.error(`Order import failed after ${processingTime}ms`, error, { durationMs: processingTime });
+    return handleError(error, context, request);
+  }
+}
+
+async function parseRows(request: HttpRequest): Promise<any[]> {
+  const contentType = request.headers.get('content-type') || '';
+  const rows = contentType.includes('text/csv')
+    ? parseCsv(await request.text()).map(fromCsvRecord)
+    : await parseRequestBody(request);
+
+  if (!Array.isArray(rows)) {
+    throw new ValidationError('Invalid import payload', ['Request body must be a JSON array of orders or CSV']);
+  }
+  if (rows.length === 0) {
+    throw new ValidationError('Invalid import payload', ['At least one order is required']);
+  }
+  if (rows.length > MAX_ROWS) {
+    throw new ValidationError('Invalid import payload', [`At most ${MAX_ROWS} orders can be imported at once`]);
+  }
+
+  return rows;
+}
+
+// CSV has no types; turn the price column into a number so the schema can
+// validate it the same way as JSON input.
+function fromCsvRecord(record: Record<string, string>): Record<string, unknown> {
+  const { price, ...fields } = record;
+  return {
+    ...fields,
+    price: price === undefined || price.trim() === '' ? undefined : Number(price)
+  };
+}
+
+// A row the caller may not order for fails on its own, like an invalid row,
+// so one stray line doesn't reject the whole import.
+function checkRowAccess(caller: Caller, input: CreateOrderRequest): string | undefined {
+  try {
+    authorizeEmployee(caller, input.companyId, input.employeeId);
+    return undefined;
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+function groupByBikeModel<T extends { input: CreateOrderRequest }>(rows: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = JSON.stringify([row.input.companyId, row.input.bikeModel]);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return [...groups.values()];
+}
+
+// Business rejections such as BIKE_UNAVAILABLE keep their code, so clients
+// can tell them from invalid input
+function toFailedRow(index: number, error: unknown): ImportRowResult {
+  if (error instanceof ValidationError) {
+    return { row: index + 1, success: false, errors: error.validationErrors };
+  }
+  return {
+    row: index + 1,
+    success: false,
+    ...(error instanceof OrderProcessingError && { code: error.code }),
+    errors: [(error as Error).message]
+  };
+}
+
+async function dispatchOutboxEntries(
+  orderRepository: OrderRepository,
+  eventPublisher: OrderEventPublisher,
+  rows: StoredRow[],
+  concurrency: number,
+  context: InvocationContext
+): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+  try {
+    await withRetry(
+      () => eventPublisher.sendOrderMessages(rows.map((row) => row.order), context),
+      { maxAttempts: 2, dependency: MESSAGING_DEPENDENCY },
+      context
+    );
+    await mapWithConcurrency(rows, concurrency, (row) =>
+      orderRepository.markOutboxEntryDispatched(row.outboxEntry, context)
+    );
+  } catch (error) {
+    createLogger(context).warn('Imported order messages left in outbox for relay', {
+      reason: (error as Error).message
+    });
+  }
+}
+
+app.http('importOrders', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'orders/import',
+  handler: importOrders
+});
@@ -0,0 +1,75 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { ListOrdersOptions } from '../types/Order';
+import { ListOrdersQuerySchema } from '../schema/order.schema';
+import { handleError, ValidationError } from '../utils/errors';
+import { createOrderRepository } from '../services/orderRepository';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { authenticate, authorizeCompany, authorizeEmployee } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+
+export async function listOrders(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+
+    authorizeCompany(caller, companyId);
+
+    const options = parseQuery(request);
+    // Employees only see their own orders, whether or not they filter for them
+    if (caller.role === 'employee') {
+      authorizeEmployee(caller, companyId, options.employeeId ?? caller.employeeId);
+      options.employeeId = caller.employeeId;
+    }
+
+    const orderRepository = createOrderRepository();
+
+    const page = await withRetry(
+      () => orderRepository.listOrders(companyId, options),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+    createLogger(context, { companyId }).info(`Listed ${page.orders.length} orders for company ${companyId}`);
+
+    return {
+      status: 200,
+      jsonBody: page
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+function parseQuery(request: HttpRequest): ListOrdersOptions {
+  const query: Record<string, string> = {};
+  request.query.forEach((value, key) => {
+    query[key] = value;
+  });
+
+  const validQuery = ListOrdersQuerySchema.safeParse(query);
+  if (!validQuery.success) {
+    throw ValidationError.fromZodError('Invalid query parameters', validQuery.error);
+  }
+
+  const { from, to, ...filters } = validQuery.data;
+  return {
+    ...filters,
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined
+  };
+}
+
+app.http('listOrders', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'orders/{companyId}',
+  handler: listOrders
+});
@@ -0,0 +1,62 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { OrderModificationRequest } from '../types/Order';
+import { ModifyOrderSchema } from '../schema/order.schema';
+import { handleError, NotFoundError, ValidationError } from '../utils/errors';
+import { createOrderRepository } from '../services/orderRepository';
+import { applyOrderModification } from '../services/orderWorkflow';
+import { assertIfMatch, parseRequestBody, requireIfMatch } from '../utils/http';
+import { authenticate, authorizeCompany, authorizeEmployee } from '../utils/auth';
+
+export async function modifyOrder(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId, orderId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId || !orderId) {
+      throw new ValidationError('Invalid route parameters', ['companyId and orderId are required']);
+    }
+    authorizeCompany(caller, companyId);
+
+    const requestBody = await parseRequestBody(request);
+    const validFields = ModifyOrderSchema.safeParse(requestBody);
+    if (!validFields.success) {
+      throw ValidationError.fromZodError('Validation failed', validFields.error);
+    }
+    const ifMatch = requireIfMatch(request);
+
+    const orderRepository = createOrderRepository();
+
+    const order = await orderRepository.getOrder(orderId, companyId);
+    if (!order) {
+      throw new NotFoundError(`Order ${orderId} not found`);
+    }
+    authorizeEmployee(caller, companyId, order.employeeId);
+    assertIfMatch(ifMatch, order.etag, `Order ${orderId}`);
+
+    const updatedOrder = await applyOrderModification(
+      orderRepository,
+      order,
+      { ...validFields.data, modifiedBy: caller.subject } as OrderModificationRequest,
+      context
+    );
+
+    return {
+      status: 200,
+      headers: { ETag: updatedOrder.etag },
+      jsonBody: updatedOrder
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+app.http('modifyOrder', {
+  methods: ['PATCH'],
+  authLevel: 'function',
+  route: 'orders/{companyId}/{orderId}',
+  handler: modifyOrder
+});
@@ -0,0 +1,89 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { buildOpenApiDocument, OpenApiDocument } from '../schema/openapi';
+
+export async function getOpenApiDocument(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    jsonBody: buildOpenApiDocument()
+  };
+}
+
+export async function getApiDocs(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    body: renderDocs(buildOpenApiDocument())
+  };
+}
+
+// A single static page rendered from the document, so the docs need no
+// scripts or assets from elsewhere.
+function renderDocs(document: OpenApiDocument): string {
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => `
+    <section>
+      <h2><code>${method.toUpperCase()} ${escapeHtml(document.servers[0].url + path)}</code></h2>
+      <p>${escapeHtml(operation.summary)}</p>
+      <h3>Headers</h3>
+      <ul>${operation.parameters.map((parameter) =>
+        `<li><code>${escapeHtml(parameter.name)}</code>: ${escapeHtml(parameter.description)}</li>`).join('')}</ul>
+      <h3>Responses</h3>
+      <ul>${Object.entries(operation.responses).map(([status, response]) =>
+        `<li><strong>${status}</strong> ${escapeHtml(response.description)}</li>`).join('')}</ul>
+    </section>`)
+  );
+
+  const schemas = Object.entries(document.components.schemas).map(([name, schema]) => `
+    <section>
+      <h3 id="${escapeHtml(name)}">${escapeHtml(name)}</h3>
+      <pre>${escapeHtml(JSON.stringify(schema, null, 2))}</pre>
+    </section>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(document.info.title)}</title>
+  <style>
+    body { font-family: sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }
+    pre { background: #f4f4f4; padding: 1rem; overflow-x: auto; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(document.info.title)} <small>${escapeHtml(document.info.version)}</small></h1>
+  <p>${escapeHtml(document.info.description)} The machine-readable document is at <a href="openapi.json">openapi.json</a>.</p>
+  ${operations.join('')}
+  <h2>Schemas</h2>
+  ${schemas.join('')}
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+app.http('openApiDocument', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'openapi.json',
+  handler: getOpenApiDocument
+});
+
+app.http('apiDocs', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'docs',
+  handler: getApiDocs
+});
@@ -0,0 +1,125 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { ZodTypeAny } from 'zod';
+import { Order, OrderDecisionRequest, OrderStatus } from '../types/Order';
+import { ApproveOrderSchema, CancelOrderSchema, RejectOrderSchema } from '../schema/order.schema';
+import { handleError, NotFoundError, ValidationError } from '../utils/errors';
+import { createOrderRepository } from '../services/orderRepository';
+import { createOrderEventPublisher } from '../services/orderEventPublisher';
+import { ORDER_STATUS_CHANGED_QUEUE } from '../services/orderMessages';
+import { assertIfMatch, parseRequestBody, requireIfMatch } from '../utils/http';
+import { applyStatusTransition } from '../services/orderWorkflow';
+import { authenticate, authorizeAdmin, authorizeCompany, authorizeEmployee, Caller } from '../utils/auth';
+
+export async function approveOrder(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  return decideOrder(request, context, 'APPROVED', ApproveOrderSchema);
+}
+
+export async function rejectOrder(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  return decideOrder(request, context, 'REJECTED', RejectOrderSchema);
+}
+
+export async function cancelOrder(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  return decideOrder(request, context, 'CANCELLED', CancelOrderSchema);
+}
+
+async function decideOrder(
+  request: HttpRequest,
+  context: InvocationContext,
+  targetStatus: OrderStatus,
+  schema: ZodTypeAny
+): Promise<HttpResponseInit> {
+  const { companyId, orderId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    authorizeCompany(caller, companyId);
+
+    const requestBody = await parseRequestBody(request);
+    const decision = validateDecision(requestBody, schema, caller);
+    const ifMatch = requireIfMatch(request);
+
+    const orderRepository = createOrderRepository();
+
+    const order = await orderRepository.getOrder(orderId, companyId);
+    if (!order) {
+      throw new NotFoundError(`Order ${orderId} not found`);
+    }
+    // Employees may cancel their own orders; approving and rejecting is for admins
+    if (targetStatus === 'CANCELLED') {
+      authorizeEmployee(caller, companyId, order.employeeId);
+    } else {
+      authorizeAdmin(caller, companyId);
+    }
+    assertIfMatch(ifMatch, order.etag, `Order ${orderId}`);
+
+    const eventPublisher = createOrderEventPublisher(ORDER_STATUS_CHANGED_QUEUE);
+
+    let updatedOrder: Order;
+    try {
+      updatedOrder = await applyStatusTransition(
+        orderRepository,
+        eventPublisher,
+        order,
+        targetStatus,
+        decision,
+        context
+      );
+    } finally {
+      await eventPublisher.close();
+    }
+
+    return {
+      status: 200,
+      headers: { ETag: updatedOrder.etag },
+      jsonBody: updatedOrder
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+// The decision is recorded under the caller's token subject
+function validateDecision(
+  input: any,
+  schema: ZodTypeAny,
+  caller: Caller
+): OrderDecisionRequest {
+  const validFields = schema.safeParse(input);
+
+  if (!validFields.success) {
+    throw ValidationError.fromZodError('Validation failed', validFields.error);
+  }
+
+  return { ...validFields.data, decidedBy: caller.subject };
+}
+
+app.http('approveOrder', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'orders/{companyId}/{orderId}/approve',
+  handler: approveOrder
+});
+
+app.http('rejectOrder', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'orders/{companyId}/{orderId}/reject',
+  handler: rejectOrder
+});
+
+app.http('cancelOrder', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'orders/{companyId}/{orderId}/cancel',
+  handler: cancelOrder
+});
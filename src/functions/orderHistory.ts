@@ -0,0 +1,47 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { handleError, NotFoundError, ValidationError } from '../utils/errors';
+import { createOrderRepository } from '../services/orderRepository';
+import { authenticate, authorizeCompany, authorizeEmployee } from '../utils/auth';
+
+export async function getOrderHistory(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId, orderId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId || !orderId) {
+      throw new ValidationError('Invalid route parameters', ['companyId and orderId are required']);
+    }
+    authorizeCompany(caller, companyId);
+
+    const orderRepository = createOrderRepository();
+
+    const order = await orderRepository.getOrder(orderId, companyId);
+    if (!order) {
+      throw new NotFoundError(`Order ${orderId} not found`);
+    }
+    authorizeEmployee(caller, companyId, order.employeeId);
+
+    const entries = await orderRepository.getOrderHistory(orderId, companyId);
+
+    return {
+      status: 200,
+      jsonBody: {
+        orderId,
+        entries
+      }
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+app.http('getOrderHistory', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'orders/{companyId}/{orderId}/history',
+  handler: getOrderHistory
+});
@@ -0,0 +1,154 @@
+import { app, InvocationContext } from "@azure/functions";
+import { Order } from '../types/Order';
+import { OrderMessageSchema } from '../schema/autoApproval.schema';
+import {
+  ConcurrencyConflictError,
+  NotFoundError,
+  OrderProcessingError,
+  ValidationError
+} from '../utils/errors';
+import { evaluateAutoApproval, loadAutoApprovalConfig } from '../utils/autoApproval';
+import { createOrderRepository, OrderRepository } from '../services/orderRepository';
+import { createOrderEventPublisher } from '../services/orderEventPublisher';
+import { ORDER_DEAD_LETTER_QUEUE, ORDER_PROCESSING_QUEUE, ORDER_STATUS_CHANGED_QUEUE } from '../services/orderMessages';
+import { applyStatusTransition } from '../services/orderWorkflow';
+import { withRetry } from '../utils/retry';
+import { MESSAGING_DEPENDENCY, STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { recordFailure } from '../utils/telemetry';
+import { createLogger } from '../utils/logger';
+
+export const AUTO_APPROVER = 'system:auto-approval';
+
+/**
+ * Consumes OrderCreated messages and applies the configured auto-approval
+ * rules. Messages that can never succeed (malformed, unknown order) are
+ * forwarded to the dead-letter queue with a reason; any other failure is
+ * rethrown so Service Bus redelivers the message.
+ */
+export async function orderProcessingConsumer(
+  message: unknown,
+  context: InvocationContext
+): Promise<void> {
+  const messageId = context.triggerMetadata?.messageId as string | undefined;
+
+  try {
+    const { orderId, companyId } = parseOrderMessage(message);
+
+    const orderRepository = createOrderRepository();
+
+    const order = await withRetry(
+      () => orderRepository.getOrder(orderId, companyId),
+      { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+    if (!order) {
+      throw new NotFoundError(`Order ${orderId} not found`);
+    }
+
+    if (order.status !== 'PENDING') {
+      createLogger(context, { orderId: order.id, companyId: order.companyId })
+        .info(`Order ${order.id} is already ${order.status}, nothing to do`);
+      return;
+    }
+
+    await autoApprove(orderRepository, order, context);
+
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      await deadLetter(message, messageId, error, context);
+      return;
+    }
+    throw error;
+  }
+}
+
+async function autoApprove(
+  orderRepository: OrderRepository,
+  order: Order,
+  context: InvocationContext
+): Promise<void> {
+  const logger = createLogger(context, { orderId: order.id, companyId: order.companyId });
+  const result = evaluateAutoApproval(order, loadAutoApprovalConfig());
+  if (!result.approved) {
+    logger.info(`Order ${order.id} left for manual review`, { reasons: result.reasons });
+    return;
+  }
+
+  const eventPublisher = createOrderEventPublisher(ORDER_STATUS_CHANGED_QUEUE);
+  try {
+    await applyStatusTransition(
+      orderRepository,
+      eventPublisher,
+      order,
+      'APPROVED',
+      { decidedBy: AUTO_APPROVER, reason: result.reasons.join('; ') },
+      context
+    );
+  } catch (error) {
+    if (error instanceof OrderProcessingError && error.code === 'INVALID_STATUS_TRANSITION') {
+      logger.info(`Order ${order.id} was decided concurrently`, { reason: error.message });
+      return;
+    }
+    // Someone changed the order between our read and our update; the
+    // redelivered message re-reads it and decides on the current version
+    if (error instanceof ConcurrencyConflictError) {
+      logger.info(`Order ${order.id} changed concurrently, leaving it for redelivery`);
+    }
+    throw error;
+  } finally {
+    await eventPublisher.close();
+  }
+}
+
+function parseOrderMessage(message: unknown): { orderId: string; companyId: string } {
+  let payload = message;
+  if (typeof message === 'string') {
+    try {
+      payload = JSON.parse(message);
+    } catch (error) {
+      throw new ValidationError('Order message is not valid JSON', []);
+    }
+  }
+
+  const validFields = OrderMessageSchema.safeParse(payload);
+  if (!validFields.success) {
+    throw ValidationError.fromZodError('Order message is malformed', validFields.error);
+  }
+
+  return validFields.data as { orderId: string; companyId: string };
+}
+
+async function deadLetter(
+  message: unknown,
+  messageId: string | undefined,
+  error: ValidationError | NotFoundError,
+  context: InvocationContext
+): Promise<void> {
+  const details = error instanceof ValidationError && error.validationErrors.length > 0
+    ? `${error.message}: ${error.validationErrors.join('; ')}`
+    : error.message;
+
+  recordFailure(error.code, context.functionName);
+
+  const eventPublisher = createOrderEventPublisher(ORDER_DEAD_LETTER_QUEUE);
+  try {
+    await withRetry(
+      () => eventPublisher.sendDeadLetterMessage({
+        originalMessage: message,
+        originalMessageId: messageId,
+        reason: error.code,
+        description: details
+      }, context),
+      { maxAttempts: 3, dependency: MESSAGING_DEPENDENCY },
+      context
+    );
+  } finally {
+    await eventPublisher.close();
+  }
+}
+
+app.serviceBusQueue('orderProcessingConsumer', {
+  connection: 'ServiceBusConnectionString',
+  queueName: ORDER_PROCESSING_QUEUE,
+  handler: orderProcessingConsumer
+});
@@ -0,0 +1,92 @@
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { OutboxEntry } from '../types/Order';
+import { createOrderRepository, OrderRepository } from '../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../services/orderEventPublisher';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { runWithCorrelationId } from '../utils/correlation';
+import { createLogger } from '../utils/logger';
+
+const MAX_ENTRIES_PER_RUN = 50;
+
+// processOrder writes the outbox entry before the order. An entry whose order
+// is still missing after this long belongs to a request that failed midway.
+const ORPHAN_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+export async function outboxRelay(
+  timer: Timer,
+  context: InvocationContext
+): Promise<void> {
+  const orderRepository = createOrderRepository();
+
+  const eventPublisher = createOrderEventPublisher();
+
+  try {
+    const entries = await withRetry(
+      () => orderRepository.listPendingOutboxEntries(MAX_ENTRIES_PER_RUN),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+
+    let dispatched = 0;
+    for (const entry of entries) {
+      try {
+        // Relayed messages keep the correlation id of the request that created the order
+        const relayed = await runWithCorrelationId(entry.correlationId, () =>
+          relayEntry(orderRepository, eventPublisher, entry, context)
+        );
+        if (relayed) {
+          dispatched++;
+        }
+      } catch (error) {
+        createLogger(context, { orderId: entry.orderId, companyId: entry.companyId })
+          .error(`Outbox relay failed for order ${entry.orderId}`, error);
+      }
+    }
+
+    createLogger(context).info(`Outbox relay dispatched ${dispatched} of ${entries.length} pending entries`);
+  } finally {
+    await eventPublisher.close();
+  }
+}
+
+async function relayEntry(
+  orderRepository: OrderRepository,
+  eventPublisher: OrderEventPublisher,
+  entry: OutboxEntry,
+  context: InvocationContext
+): Promise<boolean> {
+  const logger = createLogger(context, { orderId: entry.orderId, companyId: entry.companyId });
+  const order = await orderRepository.getOrder(entry.orderId, entry.companyId);
+  if (!order) {
+    const age = Date.now() - new Date(entry.createdAt).getTime();
+    if (age > ORPHAN_GRACE_PERIOD_MS) {
+      logger.warn(`Discarding outbox entry for order ${entry.orderId}: order was never stored`);
+      await orderRepository.deleteOutboxEntry(entry);
+    }
+    return false;
+  }
+
+  try {
+    await eventPublisher.sendOrderMessage(entry.order, context);
+  } catch (error) {
+    logger.warn(`Outbox entry for order ${entry.orderId} failed to dispatch`, {
+      attempt: entry.attempts + 1,
+      reason: (error as Error).message
+    });
+    await orderRepository.storeOutboxEntry({
+      ...entry,
+      attempts: entry.attempts + 1,
+      lastError: (error as Error).message
+    }, context);
+    return false;
+  }
+
+  await orderRepository.markOutboxEntryDispatched(entry, context);
+  return true;
+}
+
+app.timer('outboxRelay', {
+  schedule: '0 */1 * * * *',
+  handler: outboxRelay
+});
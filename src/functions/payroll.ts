@@ -0,0 +1,172 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { PayrollDeduction } from '../types/Order';
+import { PayrollExportQuerySchema, PayrollExportQueryType } from '../schema/order.schema';
+import { handleError, NotFoundError, ValidationError } from '../utils/errors';
+import { createOrderRepository, OrderRepository } from '../services/orderRepository';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { authenticate, authorizeAdmin, authorizeCompany, authorizeEmployee } from '../utils/auth';
+import { formatCsv } from '../utils/csv';
+import { attachment } from '../utils/http';
+import { createLogger } from '../utils/logger';
+
+const EXPORT_PAGE_SIZE = 100;
+const EXPORT_COLUMNS = ['employeeId', 'orderId', 'period', 'installment', 'installments', 'amount', 'currency'];
+
+export async function getDeductionSchedule(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId, orderId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId || !orderId) {
+      throw new ValidationError('Invalid route parameters', ['companyId and orderId are required']);
+    }
+    authorizeCompany(caller, companyId);
+
+    const orderRepository = createOrderRepository();
+
+    const order = await orderRepository.getOrder(orderId, companyId);
+    if (!order) {
+      throw new NotFoundError(`Order ${orderId} not found`);
+    }
+    authorizeEmployee(caller, companyId, order.employeeId);
+
+    return {
+      status: 200,
+      jsonBody: {
+        orderId,
+        status: order.status,
+        ...order.deductionSchedule
+      }
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+/**
+ * Lists the deductions due in one payroll month across a company's approved
+ * orders, as CSV by default or as JSON. Orders that are pending, rejected or
+ * cancelled are not deducted.
+ */
+export async function exportPayrollDeductions(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+    authorizeAdmin(caller, companyId);
+
+    const { period, format } = parseQuery(request);
+    const deductions = await collectDeductions(createOrderRepository(), companyId, period, context);
+    createLogger(context, { companyId })
+      .info(`Exported ${deductions.length} payroll deductions for company ${companyId} in ${period}`);
+
+    if (format === 'json') {
+      return {
+        status: 200,
+        jsonBody: { companyId, period, deductions }
+      };
+    }
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': attachment(`deductions-${companyId}-${period}.csv`)
+      },
+      body: formatCsv(
+        EXPORT_COLUMNS,
+        deductions.map((deduction) => EXPORT_COLUMNS.map((column) => deduction[column as keyof PayrollDeduction]))
+      )
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+function parseQuery(request: HttpRequest): PayrollExportQueryType {
+  const query: Record<string, string> = {};
+  request.query.forEach((value, key) => {
+    query[key] = value;
+  });
+
+  const validQuery = PayrollExportQuerySchema.safeParse(query);
+  if (!validQuery.success) {
+    throw ValidationError.fromZodError('Invalid query parameters', validQuery.error);
+  }
+  return validQuery.data;
+}
+
+// Sorted by employee, then order, so repeated exports of a month are identical
+async function collectDeductions(
+  orderRepository: OrderRepository,
+  companyId: string,
+  period: string,
+  context: InvocationContext
+): Promise<PayrollDeduction[]> {
+  const deductions: PayrollDeduction[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await withRetry(
+      () => orderRepository.listOrders(companyId, {
+        status: 'APPROVED',
+        pageSize: EXPORT_PAGE_SIZE,
+        continuationToken
+      }),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+
+    for (const order of page.orders) {
+      const schedule = order.deductionSchedule;
+      const installment = schedule.installments.find((entry) => entry.period === period);
+      if (installment) {
+        deductions.push({
+          employeeId: order.employeeId,
+          orderId: order.id,
+          period,
+          installment: installment.number,
+          installments: schedule.installments.length,
+          amount: installment.amount,
+          currency: schedule.currency
+        });
+      }
+    }
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+
+  return deductions.sort((a, b) =>
+    compareOrdinal(a.employeeId, b.employeeId) || compareOrdinal(a.orderId, b.orderId)
+  );
+}
+
+// Not localeCompare: the order must not depend on the host's locale
+function compareOrdinal(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+app.http('getDeductionSchedule', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'orders/{companyId}/{orderId}/deductions',
+  handler: getDeductionSchedule
+});
+
+app.http('exportPayrollDeductions', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'payroll/{companyId}/deductions',
+  handler: exportPayrollDeductions
+});
@@ -0,0 +1,101 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { CompanyPolicy } from '../types/Order';
+import { CompanyPolicySchema } from '../schema/policy.schema';
+import { handleError, NotFoundError, ValidationError } from '../utils/errors';
+import { createOrderRepository } from '../services/orderRepository';
+import { parseRequestBody } from '../utils/http';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { authenticate, authorizeAdmin, authorizeCompany } from '../utils/auth';
+
+export async function getPolicy(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+    authorizeCompany(caller, companyId);
+
+    const orderRepository = createOrderRepository();
+
+    const policy = await orderRepository.getPolicy(companyId);
+    if (!policy) {
+      throw new NotFoundError(`No policy for company ${companyId}`, 'POLICY_NOT_FOUND');
+    }
+
+    return {
+      status: 200,
+      jsonBody: policy
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+export async function putPolicy(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+    authorizeAdmin(caller, companyId);
+
+    const requestBody = await parseRequestBody(request);
+    const validFields = CompanyPolicySchema.safeParse(requestBody);
+    if (!validFields.success) {
+      throw ValidationError.fromZodError('Validation failed', validFields.error);
+    }
+
+    const policy: CompanyPolicy = {
+      ...validFields.data,
+      companyId,
+      updatedAt: new Date()
+    };
+
+    const orderRepository = createOrderRepository();
+
+    await withRetry(
+      () => orderRepository.initializeContainer(),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+    await withRetry(
+      () => orderRepository.storePolicy(policy, context),
+      { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+
+    return {
+      status: 200,
+      jsonBody: policy
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+app.http('getPolicy', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'policies/{companyId}',
+  handler: getPolicy
+});
+
+app.http('putPolicy', {
+  methods: ['PUT'],
+  authLevel: 'function',
+  route: 'policies/{companyId}',
+  handler: putPolicy
+});
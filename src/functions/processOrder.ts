@@ -1,67 +1,147 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
-import { v4 as uuidv4 } from 'uuid';
-import { Order, CreateOrderRequest, OrderProcessingResult } from '../types/Order';
-import { CreateOrderSchema } from "../schema/order.schema";
+import { ZodTypeAny } from 'zod';
+import { CreateOrderRequest, OrderProcessingResult, IdempotencyRecord, OutboxEntry } from '../types/Order';
+import { CreateOrderSchema, CreateOrderV2Schema } from "../schema/order.schema";
 import { handleError, ValidationError, OrderProcessingError } from '../utils/errors';
-import { StorageService } from '../services/storageService';
-import { MessagingService } from '../services/messagingService';
+import { createOrderRepository, OrderRepository } from '../services/orderRepository';
+import { createOrderEventPublisher, OrderEventPublisher } from '../services/orderEventPublisher';
 import { withRetry } from '../utils/retry';
+import { MESSAGING_DEPENDENCY, STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { parseRequestBody } from '../utils/http';
+import { authenticate, authorizeEmployee } from '../utils/auth';
+import { recordOrdersCreated, withSpan } from '../utils/telemetry';
+import { createLogger } from '../utils/logger';
+import { hashRequestBody, readIdempotencyKey } from '../utils/idempotency';
+import { createOrder, createOutboxEntry } from '../utils/orderFactory';
+import { InventoryService } from '../services/inventoryService';
+import { PricingService } from '../services/pricingService';
+import { PolicyService } from '../services/policyService';
+import { RateLimitService } from '../services/rateLimitService';
+import { createRateLimitStore } from '../services/rateLimitStore';
 
+/** Creates an order from the v1 contract, served at `v1/orders` and `processOrder`. */
 export async function processOrder(
   request: HttpRequest, 
   context: InvocationContext
+): Promise<HttpResponseInit> {
+  return createOrderFromRequest(request, context, CreateOrderSchema);
+}
+
+/** Creates an order from the v2 contract, which adds accessories, insurance and delivery. */
+export async function processOrderV2(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  return createOrderFromRequest(request, context, CreateOrderV2Schema);
+}
+
+async function createOrderFromRequest(
+  request: HttpRequest,
+  context: InvocationContext,
+  schema: ZodTypeAny
 ): Promise<HttpResponseInit> {
   const startTime = Date.now();
-  context.log('Order processing started');
+  let logger = createLogger(context);
+  logger.info('Order processing started');
 
   try {
+    const caller = await authenticate(request);
+
     //  validation
+    const idempotencyKey = readIdempotencyKey(request);
     const requestBody = await parseRequestBody(request);
-    const validatedInput = validateInput(requestBody);
-    
-    // create order object
-    const order = createOrder(validatedInput);
-    context.log(`Created order ${order.id} for employee ${order.employeeId}`);
+    const validatedInput = withSpan('order.validate', {}, () => validateInput(requestBody, schema));
+    authorizeEmployee(caller, validatedInput.companyId, validatedInput.employeeId);
+    const requestHash = idempotencyKey ? hashRequestBody(requestBody) : undefined;
+    logger = logger.child({ companyId: validatedInput.companyId });
 
     // Initialize services
-    const storageService = new StorageService(
-      process.env.AzureWebJobsStorage || ''
-    );
+    const orderRepository = createOrderRepository();
     
-    const messagingService = new MessagingService(
-      process.env.ServiceBusConnectionString || ''
-    );
+    const eventPublisher = createOrderEventPublisher();
 
     try {
       // Initialize storage container
       await withRetry(
-        () => storageService.initializeContainer(),
-        { maxAttempts: 2 },
+        () => orderRepository.initializeContainer(),
+        { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+        context
+      );
+
+      // Replay the original result for a retried request
+      if (idempotencyKey) {
+        const previous = await withRetry(
+          () => orderRepository.getIdempotencyRecord(validatedInput.companyId, idempotencyKey),
+          { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+          context
+        );
+        if (previous) {
+          return replayResult(previous, requestHash!, context);
+        }
+      }
+
+      // Throttle new orders only, so a client retrying a created order gets
+      // its result back instead of a 429
+      await new RateLimitService(createRateLimitStore()).assertWithinLimit(
+        validatedInput.companyId,
+        validatedInput.employeeId,
+        context
+      );
+
+      const companyAttributes = { 'order.company_id': validatedInput.companyId };
+
+      // Fill in or verify the price against the company's price list
+      const pricedInput = await withSpan('order.price', companyAttributes, () =>
+        new PricingService(orderRepository).priceOrder(validatedInput, context)
+      );
+
+      // Apply the company's own lease rules
+      await withSpan('order.check_policy', companyAttributes, () =>
+        new PolicyService(orderRepository).assertCompliant(pricedInput, context)
+      );
+
+      // create order object
+      const order = createOrder(pricedInput);
+
+      // Hold a bike for the rental period, rejecting bookings beyond the
+      // company's stock
+      await withSpan('order.check_availability', companyAttributes, () =>
+        new InventoryService(orderRepository).reserve(
+          order.companyId,
+          order.id,
+          order.bikeModel,
+          validatedInput.startDate,
+          validatedInput.endDate,
+          context
+        )
+      );
+
+      logger = logger.child({ orderId: order.id });
+      logger.info(`Created order ${order.id}`, { employeeId: order.employeeId });
+
+      // Store the outbox entry before the order so an order never exists
+      // without the message announcing it
+      const outboxEntry = createOutboxEntry(order);
+      await withRetry(
+        () => orderRepository.storeOutboxEntry(outboxEntry, context),
+        { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
         context
       );
 
       // Store order with retry logic
       await withRetry(
-        () => storageService.storeOrder(order, context),
-        { maxAttempts: 3 },
+        () => orderRepository.storeOrder(order, context),
+        { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
         context
       );
 
-      // Send message to Service Bus with retry logic
-      // Send message to Service Bus with retry logic (skip if configured)
-      if (process.env.SKIP_SERVICE_BUS === 'true') {
-        context.log('Service Bus messaging skipped for testing');
-      } else {
-        await withRetry(
-          () => messagingService.sendOrderMessage(order, context),
-          { maxAttempts: 3 },
-          context
-        );
-      }
+      // Dispatch right away; whatever fails here is relayed by outboxRelay
+      await dispatchOutboxEntry(orderRepository, eventPublisher, outboxEntry, context);
 
       // Log success metrics
       const processingTime = Date.now() - startTime;
-      context.log(`Order ${order.id} processed successfully in ${processingTime}ms`);
+      recordOrdersCreated(1, 'api');
+      logger.info(`Order ${order.id} processed successfully in ${processingTime}ms`, { durationMs: processingTime });
 
       const result: OrderProcessingResult = {
         success: true,
@@ -69,6 +149,17 @@ export async function processOrder(
         message: 'Order processed successfully'
       };
 
+      if (idempotencyKey) {
+        await rememberResult(orderRepository, {
+          key: idempotencyKey,
+          companyId: order.companyId,
+          requestHash: requestHash!,
+          statusCode: 201,
+          result,
+          createdAt: new Date()
+        }, context);
+      }
+
       return {
         status: 201,
         jsonBody: result
@@ -76,63 +167,104 @@ export async function processOrder(
 
     } finally {
       // Clean up resources
-      await messagingService.close();
+      await eventPublisher.close();
     }
 
   } catch (error) {
     const processingTime = Date.now() - startTime;
-    context.error(`Order processing failed after ${processingTime}ms`);
-    return handleError(error, context);
+    logger.error(`Order processing failed after ${processingTime}ms`, error, { durationMs: processingTime });
+    return handleError(error, context, request);
   }
 }
 
-async function parseRequestBody(request: HttpRequest): Promise<any> {
+function validateInput(input: any, schema: ZodTypeAny): CreateOrderRequest {
+  const validFields = schema.safeParse(input);
+  
+  if (!validFields.success) {
+    throw ValidationError.fromZodError('Validation failed', validFields.error);
+  }
+  
+  return validFields.data as CreateOrderRequest;
+}
+
+async function dispatchOutboxEntry(
+  orderRepository: OrderRepository,
+  eventPublisher: OrderEventPublisher,
+  entry: OutboxEntry,
+  context: InvocationContext
+): Promise<void> {
   try {
-    const body = await request.json();
-    if (!body) {
-      throw new ValidationError('Request body is required', ['Request body cannot be empty']);
-    }
-    return body;
+    await withRetry(
+      () => eventPublisher.sendOrderMessage(entry.order, context),
+      { maxAttempts: 2, dependency: MESSAGING_DEPENDENCY },
+      context
+    );
+    await orderRepository.markOutboxEntryDispatched(entry, context);
   } catch (error) {
-    if (error instanceof ValidationError) {
-      throw error;
-    }
-    throw new ValidationError('Invalid JSON in request body', ['Request body must be valid JSON']);
+    createLogger(context, { orderId: entry.orderId, companyId: entry.companyId })
+      .warn(`Order ${entry.orderId} message left in outbox for relay: ${(error as Error).message}`);
   }
 }
 
-function validateInput(input: any): CreateOrderRequest {
-  const validFields = CreateOrderSchema.safeParse(input);
-  
-  if (!validFields.success) {
-    const validationErrors = validFields.error.errors.map((err: any) => 
-      `${err.path.join('.')}: ${err.message}`
+function replayResult(
+  record: IdempotencyRecord,
+  requestHash: string,
+  context: InvocationContext
+): HttpResponseInit {
+  if (record.requestHash !== requestHash) {
+    throw new OrderProcessingError(
+      'Idempotency-Key was already used with a different request body',
+      'IDEMPOTENCY_KEY_REUSED',
+      422
     );
-    throw new ValidationError('Validation failed', validationErrors);
   }
-  
-  return validFields.data as CreateOrderRequest;
-}
 
-function createOrder(input: CreateOrderRequest): Order {
+  createLogger(context, { orderId: record.result.orderId, companyId: record.companyId })
+    .info(`Replaying result of order ${record.result.orderId} for repeated Idempotency-Key`);
   return {
-    id: uuidv4(),
-    employeeId: input.employeeId,
-    bikeModel: input.bikeModel,
-    startDate: new Date(input.startDate),
-    endDate: new Date(input.endDate),
-    status: 'PENDING',
-    price: input.price,
-    currency: input.currency,
-    companyId: input.companyId,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    status: record.statusCode,
+    headers: { 'Idempotent-Replayed': 'true' },
+    jsonBody: record.result
   };
 }
 
-// Register the function
+// The order is already stored and published at this point, so failing the
+// request would only provoke the retry the key is meant to absorb.
+async function rememberResult(
+  orderRepository: OrderRepository,
+  record: IdempotencyRecord,
+  context: InvocationContext
+): Promise<void> {
+  try {
+    await withRetry(
+      () => orderRepository.storeIdempotencyRecord(record, context),
+      { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+  } catch (error) {
+    createLogger(context, { orderId: record.result.orderId, companyId: record.companyId })
+      .warn(`Idempotency record for order ${record.result.orderId} was not saved; retries will create a new order`);
+  }
+}
+
+// Register the function; the unversioned route predates v1/orders and
+// stays on the v1 contract for existing clients
 app.http('processOrder', {
   methods: ['POST'],
   authLevel: 'function',
   handler: processOrder
+});
+
+app.http('createOrderV1', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'v1/orders',
+  handler: processOrder
+});
+
+app.http('createOrderV2', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'v2/orders',
+  handler: processOrderV2
 });
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { QuoteRequestSchema } from '../schema/catalog.schema';
+import { handleError, ValidationError } from '../utils/errors';
+import { createOrderRepository } from '../services/orderRepository';
+import { PricingService, QuoteInput } from '../services/pricingService';
+import { parseRequestBody } from '../utils/http';
+import { authenticate, authorizeCompany } from '../utils/auth';
+
+export async function quoteOrder(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    const caller = await authenticate(request);
+
+    const requestBody = await parseRequestBody(request);
+    const validFields = QuoteRequestSchema.safeParse(requestBody);
+    if (!validFields.success) {
+      throw ValidationError.fromZodError('Validation failed', validFields.error);
+    }
+    authorizeCompany(caller, validFields.data.companyId);
+
+    const pricingService = new PricingService(createOrderRepository());
+
+    const quote = await pricingService.quote(validFields.data as QuoteInput, context);
+
+    return {
+      status: 200,
+      jsonBody: quote
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+app.http('quoteOrder', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'quote',
+  handler: quoteOrder
+});
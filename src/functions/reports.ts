@@ -0,0 +1,203 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { ListOrdersOptions, Order, OrderPage } from '../types/Order';
+import { OrderReportQuerySchema } from '../schema/order.schema';
+import { handleError, ValidationError } from '../utils/errors';
+import { createOrderRepository } from '../services/orderRepository';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { authenticate, authorizeAdmin } from '../utils/auth';
+import { addToReport, createOrderReport } from '../utils/orderReport';
+import { formatCsvRow } from '../utils/csv';
+import { attachment } from '../utils/http';
+import { createLogger } from '../utils/logger';
+
+// Summaries come from the blob listing, so report pages can be large
+const REPORT_PAGE_SIZE = 1000;
+const EXPORT_PAGE_SIZE = 100;
+const EXPORT_COLUMNS = [
+  'orderId', 'employeeId', 'bikeModel', 'status', 'startDate', 'endDate', 'price', 'currency',
+  'oneOff', 'recurring', 'insurance', 'createdAt', 'updatedAt'
+];
+// Lets Excel detect UTF-8 instead of assuming the system code page
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/**
+ * Aggregates all of a company's orders, optionally by status and creation
+ * date range, without downloading the order documents where blob metadata
+ * has what the report needs.
+ */
+export async function getOrderReport(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+    authorizeAdmin(caller, companyId);
+
+    const options = parseQuery(request);
+    const orderRepository = createOrderRepository();
+
+    const report = createOrderReport();
+    let continuationToken: string | undefined;
+    do {
+      const page = await withRetry(
+        () => orderRepository.listOrderSummaries(companyId, {
+          ...options,
+          pageSize: REPORT_PAGE_SIZE,
+          continuationToken
+        }),
+        { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+        context
+      );
+      page.summaries.forEach((summary) => addToReport(report, summary));
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+    createLogger(context, { companyId }).info(`Reported ${report.orderCount} orders for company ${companyId}`);
+
+    return {
+      status: 200,
+      jsonBody: {
+        companyId,
+        status: options.status,
+        from: options.from?.toISOString(),
+        to: options.to?.toISOString(),
+        ...report
+      }
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+/**
+ * Streams the orders matching the report filters as CSV, one page of
+ * documents at a time, so the export never holds a whole company in memory.
+ */
+export async function exportOrders(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const { companyId } = request.params;
+
+  try {
+    const caller = await authenticate(request);
+    if (!companyId) {
+      throw new ValidationError('Invalid route parameters', ['companyId is required']);
+    }
+    authorizeAdmin(caller, companyId);
+
+    const options = parseQuery(request);
+    const orderRepository = createOrderRepository();
+    const readPage = (continuationToken?: string) => withRetry(
+      () => orderRepository.listOrders(companyId, {
+        ...options,
+        pageSize: EXPORT_PAGE_SIZE,
+        continuationToken
+      }),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+
+    // Read before the headers go out, so a failing store still gets an error response
+    const firstPage = await readPage();
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': attachment(`orders-${companyId}.csv`)
+      },
+      body: streamOrders(firstPage, readPage, companyId, context)
+    };
+
+  } catch (error) {
+    return handleError(error, context, request);
+  }
+}
+
+// Once streaming has started the status is sent, so a later failure can only
+// abort the response; clients see a failed download rather than a file that
+// looks complete.
+async function* streamOrders(
+  firstPage: OrderPage,
+  readPage: (continuationToken: string) => Promise<OrderPage>,
+  companyId: string,
+  context: InvocationContext
+): AsyncGenerator<Uint8Array> {
+  yield Buffer.from(BYTE_ORDER_MARK + formatCsvRow(EXPORT_COLUMNS));
+
+  let page = firstPage;
+  let exported = 0;
+  try {
+    for (;;) {
+      yield Buffer.from(page.orders.map((order) => formatCsvRow(toExportRow(order))).join(''));
+      exported += page.orders.length;
+      if (!page.continuationToken) {
+        break;
+      }
+      page = await readPage(page.continuationToken);
+    }
+  } catch (error) {
+    createLogger(context, { companyId })
+      .error(`Order export for company ${companyId} failed after ${exported} orders`, error);
+    throw error;
+  }
+  createLogger(context, { companyId }).info(`Exported ${exported} orders for company ${companyId}`);
+}
+
+function toExportRow(order: Order): (string | number)[] {
+  return [
+    order.id,
+    order.employeeId,
+    order.bikeModel,
+    order.status,
+    new Date(order.startDate).toISOString(),
+    new Date(order.endDate).toISOString(),
+    order.price,
+    order.currency,
+    order.totals.oneOff,
+    order.totals.recurring,
+    order.insurance,
+    new Date(order.createdAt).toISOString(),
+    new Date(order.updatedAt).toISOString()
+  ];
+}
+
+function parseQuery(request: HttpRequest): ListOrdersOptions {
+  const query: Record<string, string> = {};
+  request.query.forEach((value, key) => {
+    query[key] = value;
+  });
+
+  const validQuery = OrderReportQuerySchema.safeParse(query);
+  if (!validQuery.success) {
+    throw ValidationError.fromZodError('Invalid query parameters', validQuery.error);
+  }
+
+  const { from, to, status } = validQuery.data;
+  return {
+    status,
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined
+  };
+}
+
+app.http('getOrderReport', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'reports/{companyId}/orders',
+  handler: getOrderReport
+});
+
+app.http('exportOrders', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'reports/{companyId}/orders/export',
+  handler: exportOrders
+});
@@ -1,5 +1,10 @@
 import { app } from '@azure/functions';
+import { registerTelemetryHooks } from './utils/telemetry';
+import { registerCorrelationHooks } from './utils/correlation';
 
 app.setup({
     enableHttpStream: true,
-});
\ No newline at end of file
+});
+
+registerTelemetryHooks();
+registerCorrelationHooks();
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './currency.schema';
+
+export const AutoApprovalRuleSchema = z.object({
+  enabled: z.boolean().default(true),
+  maxPrice: z.number().positive("Max price must be positive").optional(),
+  currency: CurrencyCodeSchema.optional(),
+  maxRentalDays: z.number().int().positive("Max rental days must be positive").optional(),
+  bikeModels: z.array(z.string().min(1)).optional()
+});
+
+export const AutoApprovalConfigSchema = z.object({
+  default: AutoApprovalRuleSchema.optional(),
+  companies: z.record(AutoApprovalRuleSchema).default({})
+});
+
+export const OrderMessageSchema = z.object({
+  orderId: z.string().min(1, "Order ID is required"),
+  companyId: z.string().min(1, "Company ID is required")
+}).passthrough();
+
+export type AutoApprovalRule = z.infer<typeof AutoApprovalRuleSchema>;
+export type AutoApprovalConfig = z.infer<typeof AutoApprovalConfigSchema>;
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './currency.schema';
+import { LineItemSchema } from './order.schema';
+
+export const CatalogBikeModelSchema = z.object({
+  model: z.string().min(1, "Bike model is required"),
+  stock: z.number().int("Stock must be a whole number").min(0, "Stock cannot be negative"),
+  description: z.string().max(500, "Description cannot exceed 500 characters").optional(),
+  dailyRate: z.number().positive("Daily rate must be positive").optional()
+});
+
+export const DiscountTierSchema = z.object({
+  minDays: z.number().int("Minimum days must be a whole number").min(1, "Minimum days must be at least 1"),
+  percent: z.number().min(0, "Discount cannot be negative").max(100, "Discount cannot exceed 100%")
+});
+
+export const CatalogAddOnSchema = z.object({
+  sku: LineItemSchema.shape.sku,
+  billing: LineItemSchema.shape.billing,
+  unitPrice: z.number().positive("Unit price must be positive")
+});
+
+export const CatalogPricingSchema = z.object({
+  currency: CurrencyCodeSchema,
+  taxRate: z.number().min(0, "Tax rate cannot be negative").max(1, "Tax rate must be a fraction, e.g. 0.19").default(0),
+  discountTiers: z.array(DiscountTierSchema).default([]),
+  addOns: z.array(CatalogAddOnSchema).optional()
+}).refine((data) => {
+  const keys = (data.addOns || []).map((addOn) => `${addOn.sku}:${addOn.billing}`);
+  return new Set(keys).size === keys.length;
+}, {
+  message: "Add-ons must be unique per SKU and billing",
+  path: ["addOns"]
+});
+
+export const BikeCatalogSchema = z.object({
+  models: z.array(CatalogBikeModelSchema).min(1, "At least one bike model is required"),
+  pricing: CatalogPricingSchema.optional(),
+  baseCurrency: CurrencyCodeSchema.optional()
+}).refine((data) => {
+  const names = data.models.map((entry) => entry.model);
+  return new Set(names).size === names.length;
+}, {
+  message: "Bike models must be unique",
+  path: ["models"]
+});
+
+export const AvailabilityQuerySchema = z.object({
+  bikeModel: z.string().min(1, "Bike model is required"),
+  startDate: z.string().datetime("Invalid start date format"),
+  endDate: z.string().datetime("Invalid end date format")
+}).refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+  message: "End date must be after start date",
+  path: ["endDate"]
+});
+
+export const QuoteRequestSchema = z.object({
+  companyId: z.string().min(1, "Company ID is required"),
+  bikeModel: z.string().min(1, "Bike model is required"),
+  startDate: z.string().datetime("Invalid start date format"),
+  endDate: z.string().datetime("Invalid end date format")
+}).refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+  message: "End date must be after start date",
+  path: ["endDate"]
+});
+
+export type BikeCatalogInputType = z.infer<typeof BikeCatalogSchema>;
+export type AvailabilityQueryType = z.infer<typeof AvailabilityQuerySchema>;
+export type QuoteRequestType = z.infer<typeof QuoteRequestSchema>;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { isCurrencyCode } from '../utils/currency';
+
+export const CurrencyCodeSchema = z.string()
+  .length(3, "Currency must be 3 characters")
+  .refine(isCurrencyCode, "Currency must be an ISO 4217 code, e.g. EUR");
+
+export const ExchangeRateTableSchema = z.object({
+  base: CurrencyCodeSchema,
+  asOf: z.string().datetime("Invalid asOf date format").optional(),
+  rates: z.record(CurrencyCodeSchema, z.number().positive("Exchange rates must be positive"))
+});
+
+export type ExchangeRateTableType = z.infer<typeof ExchangeRateTableSchema>;
@@ -0,0 +1,200 @@
+import { ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CreateOrderSchema, CreateOrderV2Schema } from './order.schema';
+import {
+  ErrorResponseSchema,
+  InternalErrorResponseSchema,
+  OrderProcessingResultSchema,
+  ProblemDetailsSchema,
+  ValidationErrorResponseSchema
+} from './response.schema';
+import { PROBLEM_CONTENT_TYPE } from '../utils/problemDetails';
+
+export const OPENAPI_VERSION = '3.0.3';
+
+/** A JSON schema in the OpenAPI 3.0 dialect, or a `$ref` to a component schema. */
+export type OpenApiSchema = Record<string, unknown>;
+
+export interface OpenApiMediaType {
+  schema: OpenApiSchema;
+}
+
+export interface OpenApiHeader {
+  description?: string;
+  schema: OpenApiSchema;
+}
+
+export interface OpenApiParameter extends OpenApiHeader {
+  name: string;
+  in: 'header' | 'query' | 'path';
+  required: boolean;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  headers?: Record<string, OpenApiHeader>;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  parameters: OpenApiParameter[];
+  requestBody: { required: boolean; content: Record<string, OpenApiMediaType> };
+  responses: Record<string, OpenApiResponse>;
+}
+
+/** The parts of an OpenAPI 3.0 document this service describes itself with. */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  security: Record<string, string[]>[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, OpenApiSchema>;
+    securitySchemes: Record<string, Record<string, string>>;
+  };
+}
+
+/** Component schemas, converted from the zod schemas the functions validate with. */
+export const OPENAPI_SCHEMAS: Record<string, ZodTypeAny> = {
+  CreateOrderRequest: CreateOrderSchema,
+  CreateOrderV2Request: CreateOrderV2Schema,
+  OrderProcessingResult: OrderProcessingResultSchema,
+  ProblemDetails: ProblemDetailsSchema,
+  ValidationErrorResponse: ValidationErrorResponseSchema,
+  ErrorResponse: ErrorResponseSchema,
+  InternalErrorResponse: InternalErrorResponseSchema
+};
+
+/**
+ * Builds the OpenAPI document for order creation: the v1 contract at
+ * `v1/orders` and the older `processOrder` route, the v2 contract at
+ * `v2/orders`. Bodies come from the zod schemas, so changing a schema changes
+ * the document; the error responses are the ones `handleError` produces, as
+ * problem details or in the legacy shape for clients that prefer
+ * `application/json`.
+ */
+export function buildOpenApiDocument(): OpenApiDocument {
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Bike Order Processing API',
+      version: '2.0.0',
+      description: 'Creates bike rental orders for company employees.'
+    },
+    servers: [{ url: '/api' }],
+    security: [{ functionKey: [], bearerAuth: [] }],
+    paths: {
+      '/processOrder': { post: createOrderOperation('processOrder', 'Create an order (v1 contract)', 'CreateOrderRequest') },
+      '/v1/orders': { post: createOrderOperation('createOrderV1', 'Create an order (v1 contract)', 'CreateOrderRequest') },
+      '/v2/orders': {
+        post: createOrderOperation(
+          'createOrderV2',
+          'Create an order with accessories, insurance and delivery (v2 contract)',
+          'CreateOrderV2Request'
+        )
+      }
+    },
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(OPENAPI_SCHEMAS).map(([name, schema]) => [name, toOpenApiSchema(schema)])
+      ),
+      securitySchemes: {
+        functionKey: { type: 'apiKey', in: 'header', name: 'x-functions-key' },
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+      }
+    }
+  };
+}
+
+// Both contracts answer the same way; only the request body differs
+function createOrderOperation(operationId: string, summary: string, requestSchema: string): OpenApiOperation {
+  return {
+    operationId,
+    summary,
+    parameters: [
+      header('Idempotency-Key', 'Makes retries safe; 1-128 characters of letters, digits, "-", "_", "." or ":"'),
+      header('x-correlation-id', 'Ties the request to the caller\'s logs; echoed in the response')
+    ],
+    requestBody: {
+      required: true,
+      content: json(requestSchema)
+    },
+    responses: {
+      '201': {
+        description: 'Order created, or the original result replayed for a repeated Idempotency-Key',
+        headers: {
+          'Idempotent-Replayed': { description: 'true when the result is a replay', schema: { type: 'string' } }
+        },
+        content: json('OrderProcessingResult')
+      },
+      '400': {
+        description: 'Invalid body or headers, or the order breaks the company policy (VALIDATION_ERROR)',
+        content: problem('ValidationErrorResponse')
+      },
+      '401': {
+        description: 'Missing, invalid or expired bearer token (UNAUTHENTICATED)',
+        headers: { 'WWW-Authenticate': { schema: { type: 'string' } } },
+        content: problem('ErrorResponse')
+      },
+      '403': {
+        description: 'The caller may not order for this company or employee (FORBIDDEN)',
+        content: problem('ErrorResponse')
+      },
+      '409': {
+        description: 'The bike model is not available for the period (BIKE_UNAVAILABLE)',
+        content: problem('ErrorResponse')
+      },
+      '422': {
+        description: 'Price or a unit price does not match the quote (PRICE_MISMATCH), no exchange rate into the base currency ' +
+          '(EXCHANGE_RATE_UNAVAILABLE), or Idempotency-Key reused (IDEMPOTENCY_KEY_REUSED)',
+        content: problem('ErrorResponse')
+      },
+      '429': retryable('Too many orders for the company or employee (RATE_LIMITED)'),
+      '500': {
+        description: 'Storage failure (STORAGE_ERROR), invalid configuration (*_CONFIG_ERROR) or an unexpected error (INTERNAL_ERROR)',
+        content: {
+          [PROBLEM_CONTENT_TYPE]: { schema: ref('ProblemDetails') },
+          'application/json': {
+            schema: { oneOf: [ref('ErrorResponse'), ref('InternalErrorResponse')] }
+          }
+        }
+      },
+      '503': retryable('A dependency keeps failing and calls to it are refused (SERVICE_UNAVAILABLE)')
+    }
+  };
+}
+
+function toOpenApiSchema(schema: ZodTypeAny): OpenApiSchema {
+  return zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' }) as OpenApiSchema;
+}
+
+function ref(name: string): { $ref: string } {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function json(name: string): Record<string, OpenApiMediaType> {
+  return { 'application/json': { schema: ref(name) } };
+}
+
+// Problem details by default, `legacy` for clients preferring application/json
+function problem(legacy: string): Record<string, OpenApiMediaType> {
+  return {
+    [PROBLEM_CONTENT_TYPE]: { schema: ref('ProblemDetails') },
+    'application/json': { schema: ref(legacy) }
+  };
+}
+
+function header(name: string, description: string): OpenApiParameter {
+  return { name, in: 'header', required: false, description, schema: { type: 'string' } };
+}
+
+function retryable(description: string): OpenApiResponse {
+  return {
+    description,
+    headers: { 'Retry-After': { description: 'Seconds to wait before retrying', schema: { type: 'integer' } } },
+    content: problem('ErrorResponse')
+  };
+}
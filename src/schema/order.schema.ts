@@ -1,20 +1,170 @@
 import { z } from 'zod';
+import { CurrencyCodeSchema } from './currency.schema';
+import { hasValidPrecision } from '../utils/currency';
 
-export const CreateOrderSchema = z.object({
+export const OrderStatusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']);
+
+/** Shared by create and modify so both enforce the same rental period rule. */
+export function endsAfterStart(data: { startDate: string; endDate: string }): boolean {
+  return new Date(data.endDate) > new Date(data.startDate);
+}
+
+export const END_DATE_REFINEMENT = {
+  message: "End date must be after start date",
+  path: ["endDate"]
+};
+
+const CreateOrderFieldsSchema = z.object({
   employeeId: z.string().min(1, "Employee ID is required"),
   bikeModel: z.string().min(1, "Bike model is required"),
   startDate: z.string().datetime("Invalid start date format"),
   endDate: z.string().datetime("Invalid end date format"),
-  price: z.number().positive("Price must be positive"),
-  currency: z.string().length(3, "Currency must be 3 characters"),
+  price: z.number().positive("Price must be positive").optional(),
+  currency: CurrencyCodeSchema,
   companyId: z.string().min(1, "Company ID is required")
-}).refine((data) => {
-  const start = new Date(data.startDate);
-  const end = new Date(data.endDate);
-  return end > start;
+});
+
+// Rules every create contract enforces on the fields they share
+function withCreateOrderRules<T extends z.ZodType<z.infer<typeof CreateOrderFieldsSchema>>>(schema: T) {
+  return schema.refine(endsAfterStart, END_DATE_REFINEMENT).refine((data) => {
+    return data.price === undefined || hasValidPrecision(data.price, data.currency);
+  }, (data) => ({
+    message: `Price has more decimal places than ${data.currency} allows`,
+    path: ["price"]
+  }));
+}
+
+/** The v1 create contract, also served at the unversioned `processOrder` route. */
+export const CreateOrderSchema = withCreateOrderRules(CreateOrderFieldsSchema);
+
+export const InsurancePlanSchema = z.enum(['NONE', 'BASIC', 'FULL']);
+
+export const OrderAccessorySchema = z.object({
+  name: z.string().min(1, "Accessory name is required").max(100, "Accessory name cannot exceed 100 characters"),
+  quantity: z.number().int("Quantity must be a whole number").min(1, "Quantity must be at least 1").max(10, "Quantity cannot exceed 10")
+});
+
+export const DeliveryAddressSchema = z.object({
+  street: z.string().min(1, "Street is required").max(200, "Street cannot exceed 200 characters"),
+  postalCode: z.string().min(1, "Postal code is required").max(20, "Postal code cannot exceed 20 characters"),
+  city: z.string().min(1, "City is required").max(100, "City cannot exceed 100 characters"),
+  country: z.string().regex(/^[A-Z]{2}$/, "Country must be an ISO 3166-1 alpha-2 code, e.g. DE")
+});
+
+export const LineItemSchema = z.object({
+  sku: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/, "SKU must be 1-64 letters, digits, '.', '_' or '-'"),
+  quantity: z.number().int("Quantity must be a whole number").min(1, "Quantity must be at least 1").max(100, "Quantity cannot exceed 100"),
+  unitPrice: z.number().positive("Unit price must be positive").optional(),
+  billing: z.enum(['ONE_OFF', 'RECURRING'])
+});
+
+// One line per SKU and billing, so a repeated item cannot hide in the totals
+function checkLineItems(
+  data: { currency: string; lineItems?: z.infer<typeof LineItemSchema>[] },
+  ctx: z.RefinementCtx
+): void {
+  const seen = new Set<string>();
+  (data.lineItems || []).forEach((item, index) => {
+    if (item.unitPrice !== undefined && !hasValidPrecision(item.unitPrice, data.currency)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unit price has more decimal places than ${data.currency} allows`,
+        path: ["lineItems", index, "unitPrice"]
+      });
+    }
+    const key = `${item.sku}:${item.billing}`;
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `SKU ${item.sku} is already on the order; raise its quantity instead`,
+        path: ["lineItems", index, "sku"]
+      });
+    }
+    seen.add(key);
+  });
+}
+
+/**
+ * The v2 create contract: v1 plus accessories, insurance, delivery and line
+ * items. Accessories and insurance are priced as add-ons of the price list.
+ */
+export const CreateOrderV2Schema = withCreateOrderRules(CreateOrderFieldsSchema.extend({
+  accessories: z.array(OrderAccessorySchema).max(20, "At most 20 accessories can be ordered").optional()
+    .describe("Deprecated, use lineItems. Each accessory is priced as the ONE_OFF add-on whose SKU is its name."),
+  insurance: InsurancePlanSchema.optional()
+    .describe("Deprecated, use lineItems. BASIC and FULL are priced as the RECURRING add-on INSURANCE-BASIC or INSURANCE-FULL."),
+  deliveryAddress: DeliveryAddressSchema.optional(),
+  lineItems: z.array(LineItemSchema).max(50, "At most 50 line items can be ordered").optional()
+}).superRefine(checkLineItems));
+
+// Creation date range shared by listing, reports and exports
+const CreatedRangeFields = {
+  from: z.string().datetime("Invalid from date format").optional(),
+  to: z.string().datetime("Invalid to date format").optional()
+};
+
+function isOrderedRange(data: { from?: string; to?: string }): boolean {
+  if (!data.from || !data.to) {
+    return true;
+  }
+  return new Date(data.to) >= new Date(data.from);
+}
+
+const RANGE_REFINEMENT = {
+  message: "To date must not be before from date",
+  path: ["to"]
+};
+
+export const ListOrdersQuerySchema = z.object({
+  status: OrderStatusSchema.optional(),
+  employeeId: z.string().min(1, "Employee ID cannot be empty").optional(),
+  ...CreatedRangeFields,
+  continuationToken: z.string().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100, "Page size cannot exceed 100").optional()
+}).refine(isOrderedRange, RANGE_REFINEMENT);
+
+/** Filters of the company report and the order export; both cover every page. */
+export const OrderReportQuerySchema = z.object({
+  status: OrderStatusSchema.optional(),
+  ...CreatedRangeFields
+}).refine(isOrderedRange, RANGE_REFINEMENT);
+
+export const PayrollExportQuerySchema = z.object({
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be a payroll month, e.g. 2024-03"),
+  format: z.enum(['csv', 'json']).default('csv')
+});
+
+// Who decided, cancelled or modified an order is taken from the caller's
+// token, never from the request body
+export const ApproveOrderSchema = z.object({
+  reason: z.string().max(500, "Reason cannot exceed 500 characters").optional()
+});
+
+export const RejectOrderSchema = ApproveOrderSchema.extend({
+  reason: z.string()
+    .min(1, "Reason is required when rejecting an order")
+    .max(500, "Reason cannot exceed 500 characters")
+});
+
+export const CancelOrderSchema = z.object({
+  reason: z.string().max(500, "Reason cannot exceed 500 characters").optional()
+});
+
+export const ModifyOrderSchema = z.object({
+  bikeModel: z.string().min(1, "Bike model is required").optional(),
+  startDate: z.string().datetime("Invalid start date format").optional(),
+  endDate: z.string().datetime("Invalid end date format").optional(),
+  price: z.number().positive("Price must be positive").optional(),
+  currency: CurrencyCodeSchema.optional()
+}).strict().refine((data) => {
+  return Object.keys(data).length > 0;
 }, {
-  message: "End date must be after start date",
-  path: ["endDate"]
+  message: "At least one field to change is required"
 });
 
-export type CreateOrderInputType = z.infer<typeof CreateOrderSchema>;
\ No newline at end of file
+export type CreateOrderInputType = z.infer<typeof CreateOrderSchema>;
+export type CreateOrderV2InputType = z.infer<typeof CreateOrderV2Schema>;
+export type ListOrdersQueryType = z.infer<typeof ListOrdersQuerySchema>;
+export type OrderReportQueryType = z.infer<typeof OrderReportQuerySchema>;
+export type ModifyOrderInputType = z.infer<typeof ModifyOrderSchema>;
+export type PayrollExportQueryType = z.infer<typeof PayrollExportQuerySchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const CompanyPolicySchema = z.object({
+  maxPrice: z.number().positive("Max price must be positive").optional(),
+  allowedBikeModels: z.array(z.string().min(1, "Bike model is required"))
+    .min(1, "At least one bike model must be allowed")
+    .optional(),
+  maxRentalDays: z.number().int("Max rental days must be a whole number").positive("Max rental days must be positive").optional(),
+  minLeadTimeHours: z.number().min(0, "Min lead time cannot be negative").optional(),
+  maxConcurrentOrdersPerEmployee: z.number()
+    .int("Max concurrent orders must be a whole number")
+    .positive("Max concurrent orders must be positive")
+    .optional()
+});
+
+export type CompanyPolicyInputType = z.infer<typeof CompanyPolicySchema>;
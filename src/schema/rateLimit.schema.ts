@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+export const RateLimitSchema = z.object({
+  requestsPerMinute: z.number().positive("Requests per minute must be positive"),
+  burst: z.number().int().positive("Burst must be a positive integer").optional()
+});
+
+export const RateLimitRuleSchema = RateLimitSchema.extend({
+  employee: RateLimitSchema.optional()
+});
+
+export const RateLimitConfigSchema = z.object({
+  default: RateLimitRuleSchema.optional(),
+  companies: z.record(RateLimitRuleSchema).default({})
+});
+
+export type RateLimit = z.infer<typeof RateLimitSchema>;
+export type RateLimitRule = z.infer<typeof RateLimitRuleSchema>;
+export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>;
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+// Response bodies as the functions and handleError build them. They are
+// strict so the drift test fails when a handler adds a field the OpenAPI
+// document does not describe.
+
+export const OrderProcessingResultSchema = z.object({
+  success: z.boolean(),
+  orderId: z.string(),
+  message: z.string(),
+  errors: z.array(z.string()).optional()
+}).strict();
+
+export const ValidationErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  errors: z.array(z.string())
+}).strict();
+
+export const ErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  code: z.string()
+}).strict();
+
+export const InternalErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.literal('Internal server error')
+}).strict();
+
+export const FieldErrorSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+  code: z.string()
+}).strict();
+
+/** RFC 7807 body `handleError` sends as `application/problem+json`. */
+export const ProblemDetailsSchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  status: z.number().int(),
+  detail: z.string(),
+  instance: z.string().optional(),
+  code: z.string(),
+  errors: z.array(FieldErrorSchema).optional()
+}).strict();
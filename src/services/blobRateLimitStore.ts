@@ -0,0 +1,112 @@
+import { BlobServiceClient, BlockBlobClient, ContainerClient } from "@azure/storage-blob";
+import { OrderProcessingError } from "../utils/errors";
+import { toBlobNameSegment } from "../utils/blobName";
+import { BucketLimit, BucketState, returnToken, takeToken, TakeTokenResult } from "../utils/rateLimit";
+import { RateLimitStore } from "./rateLimitStore";
+
+const RATE_LIMIT_PREFIX = "_ratelimits/";
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Buckets shared by every instance, one blob per key in the `orders`
+ * container, named by the key's hash. Each take or give-back is a read
+ * followed by an ETag-conditional write, so instances racing for the same
+ * bucket retry instead of both taking a token.
+ */
+export class BlobRateLimitStore implements RateLimitStore {
+  private containerClient: ContainerClient;
+
+  constructor(connectionString: string) {
+    this.containerClient = BlobServiceClient
+      .fromConnectionString(connectionString)
+      .getContainerClient("orders");
+  }
+
+  async take(key: string, limit: BucketLimit, now: number): Promise<TakeTokenResult> {
+    // Nothing was taken from an empty bucket, so there is nothing to write back
+    return this.updateBucket(key, (state) => takeToken(state, limit, now), (result) => result.allowed);
+  }
+
+  async giveBack(key: string, limit: BucketLimit, now: number): Promise<void> {
+    await this.updateBucket(key, (state) => ({ state: returnToken(state, limit, now) }), () => true);
+  }
+
+  /**
+   * Applies `change` to the stored bucket and writes the new state if
+   * `shouldWrite` says so, re-reading and re-applying when another instance
+   * wrote in between.
+   */
+  private async updateBucket<T extends { state: BucketState }>(
+    key: string,
+    change: (state: BucketState | undefined) => T,
+    shouldWrite: (result: T) => boolean
+  ): Promise<T> {
+    // Keys contain caller-supplied identifiers
+    const blockBlobClient = this.containerClient.getBlockBlobClient(
+      `${RATE_LIMIT_PREFIX}${toBlobNameSegment(key)}.json`
+    );
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const { state, etag } = await this.downloadBucket(blockBlobClient);
+        const result = change(state);
+        if (!shouldWrite(result)) {
+          return result;
+        }
+
+        const data = JSON.stringify(result.state);
+        try {
+          await blockBlobClient.upload(data, Buffer.byteLength(data), {
+            blobHTTPHeaders: {
+              blobContentType: "application/json",
+            },
+            conditions: etag ? { ifMatch: etag } : { ifNoneMatch: "*" },
+          });
+          return result;
+        } catch (error) {
+          const conflict = error.statusCode === 409 || error.statusCode === 412;
+          if (!conflict || attempt >= MAX_UPDATE_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to update rate limit bucket",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  private async downloadBucket(
+    blockBlobClient: BlockBlobClient
+  ): Promise<{ state?: BucketState; etag?: string }> {
+    try {
+      const response = await blockBlobClient.download();
+      const data = await this.streamToString(response.readableStreamBody!);
+      return { state: JSON.parse(data), etag: response.etag };
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async streamToString(
+    readableStream: NodeJS.ReadableStream
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      readableStream.on("data", (data) => {
+        chunks.push(data instanceof Buffer ? data : Buffer.from(data));
+      });
+      readableStream.on("end", () => {
+        resolve(Buffer.concat(chunks).toString());
+      });
+      readableStream.on("error", reject);
+    });
+  }
+}
@@ -0,0 +1,415 @@
+import { createHash } from "crypto";
+import { InvocationContext } from "@azure/functions";
+import {
+  BikeCatalog,
+  BikeReservation,
+  CompanyPolicy,
+  IdempotencyRecord,
+  ListOrdersOptions,
+  Order,
+  OrderHistoryEntry,
+  OrderPage,
+  OrderSummaryPage,
+  OutboxEntry,
+} from "../types/Order";
+import { ConcurrencyConflictError, NotFoundError, OrderProcessingError } from "../utils/errors";
+import { requireEtag, withoutEtag } from "../utils/orderVersion";
+import { upcastOrder, upcastOutboxEntry } from "../utils/orderUpcaster";
+import { toOrderSummary } from "../utils/orderReport";
+import { createLogger } from "../utils/logger";
+import { toBlobNameSegment } from "../utils/blobName";
+import { OrderRepository } from "./orderRepository";
+
+const DEFAULT_PAGE_SIZE = 50;
+const OUTBOX_PENDING_PREFIX = "_outbox/pending/";
+const OUTBOX_DISPATCHED_PREFIX = "_outbox/dispatched/";
+const CATALOG_PREFIX = "_catalog/";
+const POLICY_PREFIX = "_policies/";
+const RESERVATION_PREFIX = "_reservations/";
+const MAX_RESERVATION_ATTEMPTS = 5;
+
+/**
+ * Shared logic for repositories that keep each record as a JSON document
+ * under the same names the blob implementation uses, e.g.
+ * `{companyId}/{orderId}.json`. Subclasses only provide document I/O.
+ *
+ * Order etags are a hash of the stored document. Conditional updates check
+ * the hash and then write, which is not atomic across processes sharing a
+ * filesystem root; only the blob implementation guarantees that.
+ */
+export abstract class DocumentOrderRepository implements OrderRepository {
+  private pendingUpdates = new Map<string, Promise<void>>();
+
+  protected abstract readDocument<T>(name: string): Promise<T | null>;
+  protected abstract writeDocument(name: string, document: unknown): Promise<void>;
+  /** Returns false when the document did not exist. */
+  protected abstract deleteDocument(name: string): Promise<boolean>;
+  /** Returns the names of all documents under the prefix, sorted. */
+  protected abstract listDocumentNames(prefix: string): Promise<string[]>;
+
+  async initializeContainer(): Promise<void> {
+    // Nothing to provision by default
+  }
+
+  async storeOrder(order: Order, context: InvocationContext): Promise<void> {
+    await this.write(
+      orderName(order.companyId, order.id),
+      withoutEtag(order),
+      "Failed to store order in storage"
+    );
+    createLogger(context, { orderId: order.id, companyId: order.companyId }).info(`Order ${order.id} stored successfully`);
+  }
+
+  async getOrder(orderId: string, companyId: string): Promise<Order | null> {
+    const order = await this.read<Order>(orderName(companyId, orderId), "Failed to read order from storage");
+    return order && toOrder(order);
+  }
+
+  /**
+   * The continuation token is the name of the last document examined, so
+   * pages stay stable while orders are added behind the cursor.
+   */
+  async listOrders(
+    companyId: string,
+    options: ListOrdersOptions = {}
+  ): Promise<OrderPage> {
+    try {
+      const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+      const after = options.continuationToken
+        ? Buffer.from(options.continuationToken, "base64url").toString()
+        : "";
+
+      const names = (await this.listDocumentNames(`${companyId}/`))
+        .filter((name) => isOrderName(name, companyId) && name > after);
+      const pageNames = names.slice(0, pageSize);
+
+      const orders: Order[] = [];
+      for (const name of pageNames) {
+        const order = await this.readDocument<Order>(name);
+        if (order && matchesFilters(order, options)) {
+          orders.push(toOrder(order));
+        }
+      }
+
+      return {
+        orders,
+        continuationToken: names.length > pageSize
+          ? Buffer.from(pageNames[pageNames.length - 1]).toString("base64url")
+          : undefined,
+      };
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to list orders from storage",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  // Documents are local, so summaries are simply taken from the full orders
+  async listOrderSummaries(
+    companyId: string,
+    options: ListOrdersOptions = {}
+  ): Promise<OrderSummaryPage> {
+    const page = await this.listOrders(companyId, options);
+    return {
+      summaries: page.orders.map(toOrderSummary),
+      continuationToken: page.continuationToken,
+    };
+  }
+
+  async updateOrder(order: Order, context: InvocationContext): Promise<string> {
+    const ifMatch = requireEtag(order);
+    const name = orderName(order.companyId, order.id);
+    const stored = await this.read<Order>(name, "Failed to update order in storage");
+    if (!stored) {
+      throw new NotFoundError(`Order ${order.id} not found`);
+    }
+    if (etagOf(stored) !== ifMatch) {
+      throw new ConcurrencyConflictError(`Order ${order.id} was changed by another request`);
+    }
+
+    const document = withoutEtag(order);
+    await this.write(name, document, "Failed to update order in storage");
+    createLogger(context, { orderId: order.id, companyId: order.companyId }).info(`Order ${order.id} updated`);
+    return etagOf(document);
+  }
+
+  async deleteOrder(
+    orderId: string,
+    companyId: string,
+    context: InvocationContext
+  ): Promise<boolean> {
+    try {
+      const deleted = await this.deleteDocument(orderName(companyId, orderId));
+      createLogger(context, { orderId, companyId }).info(`Order ${orderId} deleted`);
+      return deleted;
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to delete order from storage",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async getOrderHistory(orderId: string, companyId: string): Promise<OrderHistoryEntry[]> {
+    const history = await this.read<OrderHistoryEntry[]>(
+      historyName(companyId, orderId),
+      "Failed to read order history"
+    );
+    return history || [];
+  }
+
+  async appendOrderHistory(
+    orderId: string,
+    companyId: string,
+    entry: OrderHistoryEntry,
+    context: InvocationContext
+  ): Promise<void> {
+    const history = await this.getOrderHistory(orderId, companyId);
+    await this.write(
+      historyName(companyId, orderId),
+      [...history, entry],
+      "Failed to append order history"
+    );
+    createLogger(context, { orderId, companyId }).info(`History entry ${entry.action} recorded for order ${orderId}`);
+  }
+
+  async getIdempotencyRecord(
+    companyId: string,
+    key: string
+  ): Promise<IdempotencyRecord | null> {
+    return this.read<IdempotencyRecord>(
+      `${companyId}/idempotency/${key}.json`,
+      "Failed to read idempotency record"
+    );
+  }
+
+  async storeIdempotencyRecord(
+    record: IdempotencyRecord,
+    context: InvocationContext
+  ): Promise<void> {
+    await this.write(
+      `${record.companyId}/idempotency/${record.key}.json`,
+      record,
+      "Failed to store idempotency record"
+    );
+    createLogger(context, { orderId: record.result.orderId, companyId: record.companyId })
+      .info(`Idempotency record stored for order ${record.result.orderId}`);
+  }
+
+  async storeOutboxEntry(
+    entry: OutboxEntry,
+    context: InvocationContext
+  ): Promise<void> {
+    await this.write(
+      `${OUTBOX_PENDING_PREFIX}${entry.id}.json`,
+      entry,
+      "Failed to store outbox entry"
+    );
+    createLogger(context, { orderId: entry.orderId, companyId: entry.companyId })
+      .info(`Outbox entry stored for order ${entry.orderId}`);
+  }
+
+  async listPendingOutboxEntries(maxEntries: number): Promise<OutboxEntry[]> {
+    try {
+      const names = await this.listDocumentNames(OUTBOX_PENDING_PREFIX);
+      const entries: OutboxEntry[] = [];
+      for (const name of names.slice(0, maxEntries)) {
+        const entry = await this.readDocument<OutboxEntry>(name);
+        if (entry) {
+          entries.push(upcastOutboxEntry(entry));
+        }
+      }
+      return entries;
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to list pending outbox entries",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async markOutboxEntryDispatched(
+    entry: OutboxEntry,
+    context: InvocationContext
+  ): Promise<void> {
+    const dispatched: OutboxEntry = {
+      ...entry,
+      status: "DISPATCHED",
+      dispatchedAt: new Date(),
+    };
+    await this.write(
+      `${OUTBOX_DISPATCHED_PREFIX}${entry.id}.json`,
+      dispatched,
+      "Failed to mark outbox entry as dispatched"
+    );
+    await this.remove(
+      `${OUTBOX_PENDING_PREFIX}${entry.id}.json`,
+      "Failed to mark outbox entry as dispatched"
+    );
+    createLogger(context, { orderId: entry.orderId, companyId: entry.companyId })
+      .info(`Outbox entry for order ${entry.orderId} marked as dispatched`);
+  }
+
+  async deleteOutboxEntry(entry: OutboxEntry): Promise<void> {
+    await this.remove(
+      `${OUTBOX_PENDING_PREFIX}${entry.id}.json`,
+      "Failed to delete outbox entry"
+    );
+  }
+
+  async getCatalog(companyId: string): Promise<BikeCatalog | null> {
+    return this.read<BikeCatalog>(
+      `${CATALOG_PREFIX}${companyId}.json`,
+      "Failed to read bike catalog"
+    );
+  }
+
+  async storeCatalog(catalog: BikeCatalog, context: InvocationContext): Promise<void> {
+    await this.write(
+      `${CATALOG_PREFIX}${catalog.companyId}.json`,
+      catalog,
+      "Failed to store bike catalog"
+    );
+    createLogger(context, { companyId: catalog.companyId }).info(`Bike catalog stored for company ${catalog.companyId}`);
+  }
+
+  async getReservations(companyId: string, bikeModel: string): Promise<BikeReservation[]> {
+    const reservations = await this.read<BikeReservation[]>(
+      reservationName(companyId, bikeModel),
+      "Failed to read bike reservations"
+    );
+    return reservations || [];
+  }
+
+  // Updates within this process take turns; across processes the stored
+  // list is compared before writing, like updateOrder.
+  async updateReservations(
+    companyId: string,
+    bikeModel: string,
+    update: (reservations: BikeReservation[]) => Promise<BikeReservation[]>,
+    context: InvocationContext
+  ): Promise<void> {
+    const name = reservationName(companyId, bikeModel);
+    await this.exclusively(name, async () => {
+      for (let attempt = 1; ; attempt++) {
+        const stored = await this.getReservations(companyId, bikeModel);
+        const reservations = await update(stored);
+        const current = await this.getReservations(companyId, bikeModel);
+        if (etagOf(current) === etagOf(stored)) {
+          await this.write(name, reservations, "Failed to update bike reservations");
+          return;
+        }
+        if (attempt >= MAX_RESERVATION_ATTEMPTS) {
+          throw new OrderProcessingError("Failed to update bike reservations", "STORAGE_ERROR", 500);
+        }
+      }
+    });
+    createLogger(context, { companyId }).info(`Reservations for ${bikeModel} updated`);
+  }
+
+  async getPolicy(companyId: string): Promise<CompanyPolicy | null> {
+    return this.read<CompanyPolicy>(
+      `${POLICY_PREFIX}${companyId}.json`,
+      "Failed to read company policy"
+    );
+  }
+
+  async storePolicy(policy: CompanyPolicy, context: InvocationContext): Promise<void> {
+    await this.write(
+      `${POLICY_PREFIX}${policy.companyId}.json`,
+      policy,
+      "Failed to store company policy"
+    );
+    createLogger(context, { companyId: policy.companyId }).info(`Policy stored for company ${policy.companyId}`);
+  }
+
+  // Runs one operation at a time per document name, in call order
+  private async exclusively<T>(name: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.pendingUpdates.get(name) || Promise.resolve();
+    const result = previous.then(operation);
+    const settled = result.then(() => undefined, () => undefined);
+    this.pendingUpdates.set(name, settled);
+    try {
+      return await result;
+    } finally {
+      if (this.pendingUpdates.get(name) === settled) {
+        this.pendingUpdates.delete(name);
+      }
+    }
+  }
+
+  protected async read<T>(name: string, failureMessage: string): Promise<T | null> {
+    try {
+      return await this.readDocument<T>(name);
+    } catch (error) {
+      throw new OrderProcessingError(failureMessage, "STORAGE_ERROR", 500, error);
+    }
+  }
+
+  protected async write(
+    name: string,
+    document: unknown,
+    failureMessage: string
+  ): Promise<void> {
+    try {
+      await this.writeDocument(name, document);
+    } catch (error) {
+      throw new OrderProcessingError(failureMessage, "STORAGE_ERROR", 500, error);
+    }
+  }
+
+  protected async remove(name: string, failureMessage: string): Promise<boolean> {
+    try {
+      return await this.deleteDocument(name);
+    } catch (error) {
+      throw new OrderProcessingError(failureMessage, "STORAGE_ERROR", 500, error);
+    }
+  }
+}
+
+function orderName(companyId: string, orderId: string): string {
+  return `${companyId}/${orderId}.json`;
+}
+
+// Hashes the JSON form, so a freshly written document and the same document
+// read back (dates as ISO strings) have the same etag.
+function etagOf(document: unknown): string {
+  const hash = createHash("sha256").update(JSON.stringify(document)).digest("hex");
+  return `"${hash.slice(0, 32)}"`;
+}
+
+// The etag is taken from the document as stored, before upcasting, so it
+// matches what updateOrder compares against.
+function toOrder(document: Order): Order {
+  return { ...upcastOrder(document), etag: etagOf(document) };
+}
+
+// Model names are free text, so they are hashed into the document name
+function reservationName(companyId: string, bikeModel: string): string {
+  return `${RESERVATION_PREFIX}${companyId}/${toBlobNameSegment(bikeModel)}.json`;
+}
+
+function historyName(companyId: string, orderId: string): string {
+  return `${companyId}/${orderId}.history.json`;
+}
+
+function isOrderName(name: string, companyId: string): boolean {
+  return /^[^/.]+\.json$/.test(name.slice(companyId.length + 1));
+}
+
+function matchesFilters(order: Order, options: ListOrdersOptions): boolean {
+  const createdAt = new Date(order.createdAt);
+  return (
+    (!options.status || order.status === options.status) &&
+    (!options.employeeId || order.employeeId === options.employeeId) &&
+    (!options.from || createdAt >= options.from) &&
+    (!options.to || createdAt <= options.to)
+  );
+}
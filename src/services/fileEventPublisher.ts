@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { LocalEventPublisher } from './localEventPublisher';
+import { OrderEventMessage } from './orderMessages';
+
+/**
+ * Appends each message as one JSON line to `{directory}/{queueName}.jsonl`,
+ * giving local runs a durable, greppable record of published events.
+ */
+export class FileEventPublisher extends LocalEventPublisher {
+  private filePath: string;
+
+  constructor(directory: string, queueName: string) {
+    super(queueName, 'event file');
+    this.filePath = path.resolve(directory, `${queueName}.jsonl`);
+  }
+
+  protected async publish(messages: OrderEventMessage[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const enqueuedAt = new Date().toISOString();
+    const lines = messages
+      .map((message) => JSON.stringify({ queueName: this.queueName, enqueuedAt, ...message }))
+      .join('\n');
+    await fs.appendFile(this.filePath, `${lines}\n`, 'utf8');
+  }
+}
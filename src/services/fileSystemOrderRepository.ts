@@ -0,0 +1,94 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { DocumentOrderRepository } from "./documentOrderRepository";
+
+/**
+ * Stores each document as a JSON file below a root directory, mirroring the
+ * blob layout (`{root}/{companyId}/{orderId}.json`).
+ */
+export class FileSystemOrderRepository extends DocumentOrderRepository {
+  private rootDirectory: string;
+
+  constructor(rootDirectory: string) {
+    super();
+    this.rootDirectory = path.resolve(rootDirectory);
+  }
+
+  async initializeContainer(): Promise<void> {
+    await fs.mkdir(this.rootDirectory, { recursive: true });
+  }
+
+  protected async readDocument<T>(name: string): Promise<T | null> {
+    try {
+      const data = await fs.readFile(this.resolve(name), "utf8");
+      return JSON.parse(data) as T;
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Write to a temporary file and rename so readers never see partial JSON
+  protected async writeDocument(name: string, document: unknown): Promise<void> {
+    const filePath = this.resolve(name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const temporaryPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(document, null, 2), "utf8");
+    await fs.rename(temporaryPath, filePath);
+  }
+
+  protected async deleteDocument(name: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.resolve(name));
+      return true;
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  protected async listDocumentNames(prefix: string): Promise<string[]> {
+    // Prefixes end at a directory boundary, so only that subtree is walked
+    const names = await this.walk(this.resolve(prefix));
+    return names
+      .filter((name) => name.startsWith(prefix) && name.endsWith(".json"))
+      .sort();
+  }
+
+  private async walk(directory: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const names: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        names.push(...(await this.walk(entryPath)));
+      } else {
+        names.push(path.relative(this.rootDirectory, entryPath).split(path.sep).join("/"));
+      }
+    }
+    return names;
+  }
+
+  // Names come from route parameters; never let them escape the root
+  private resolve(name: string): string {
+    const filePath = path.resolve(this.rootDirectory, name);
+    if (!filePath.startsWith(this.rootDirectory + path.sep)) {
+      throw new Error(`Document name "${name}" is outside the repository root`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,32 @@
+import { DocumentOrderRepository } from "./documentOrderRepository";
+
+/**
+ * Keeps documents in process memory. Documents are stored serialized so reads
+ * return the same shape (ISO date strings) as the blob implementation.
+ */
+export class InMemoryOrderRepository extends DocumentOrderRepository {
+  private documents = new Map<string, string>();
+
+  protected async readDocument<T>(name: string): Promise<T | null> {
+    const data = this.documents.get(name);
+    return data === undefined ? null : (JSON.parse(data) as T);
+  }
+
+  protected async writeDocument(name: string, document: unknown): Promise<void> {
+    this.documents.set(name, JSON.stringify(document));
+  }
+
+  protected async deleteDocument(name: string): Promise<boolean> {
+    return this.documents.delete(name);
+  }
+
+  protected async listDocumentNames(prefix: string): Promise<string[]> {
+    return Array.from(this.documents.keys())
+      .filter((name) => name.startsWith(prefix))
+      .sort();
+  }
+
+  clear(): void {
+    this.documents.clear();
+  }
+}
@@ -0,0 +1,17 @@
+import { BucketLimit, BucketState, returnToken, takeToken, TakeTokenResult } from "../utils/rateLimit";
+import { RateLimitStore } from "./rateLimitStore";
+
+/** Buckets of this process only; each function instance limits on its own. */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>();
+
+  async take(key: string, limit: BucketLimit, now: number): Promise<TakeTokenResult> {
+    const result = takeToken(this.buckets.get(key), limit, now);
+    this.buckets.set(key, result.state);
+    return result;
+  }
+
+  async giveBack(key: string, limit: BucketLimit, now: number): Promise<void> {
+    this.buckets.set(key, returnToken(this.buckets.get(key), limit, now));
+  }
+}
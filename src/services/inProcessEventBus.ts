@@ -0,0 +1,71 @@
+import { EventEmitter } from 'events';
+import { LocalEventPublisher } from './localEventPublisher';
+import { OrderEventMessage } from './orderMessages';
+
+export type OrderEventHandler = (message: OrderEventMessage) => void;
+
+const DEFAULT_MAX_RETAINED_MESSAGES = 100;
+
+export interface InProcessEventBusOptions {
+  /** Messages kept per queue for `messages`; the oldest are dropped first. */
+  maxRetainedMessages?: number;
+  /** Keeps every message. For tests only: a long-running host would grow without bound. */
+  retainAll?: boolean;
+}
+
+/**
+ * Process-wide event bus standing in for Service Bus in local runs and tests.
+ * Published messages are delivered to subscribers synchronously, and the most
+ * recent ones are kept per queue so callers can inspect what was sent.
+ */
+export class InProcessEventBus {
+  private emitter = new EventEmitter();
+  private published = new Map<string, OrderEventMessage[]>();
+  private maxRetainedMessages: number;
+
+  constructor(options: InProcessEventBusOptions = {}) {
+    this.maxRetainedMessages = options.retainAll
+      ? Infinity
+      : options.maxRetainedMessages ?? DEFAULT_MAX_RETAINED_MESSAGES;
+  }
+
+  publish(queueName: string, message: OrderEventMessage): void {
+    const messages = this.published.get(queueName) || [];
+    messages.push(message);
+    if (messages.length > this.maxRetainedMessages) {
+      messages.splice(0, messages.length - this.maxRetainedMessages);
+    }
+    this.published.set(queueName, messages);
+    this.emitter.emit(queueName, message);
+  }
+
+  subscribe(queueName: string, handler: OrderEventHandler): () => void {
+    this.emitter.on(queueName, handler);
+    return () => {
+      this.emitter.off(queueName, handler);
+    };
+  }
+
+  messages(queueName: string): OrderEventMessage[] {
+    return [...(this.published.get(queueName) || [])];
+  }
+
+  clear(): void {
+    this.published.clear();
+    this.emitter.removeAllListeners();
+  }
+}
+
+export const inProcessEventBus = new InProcessEventBus();
+
+export class InProcessEventPublisher extends LocalEventPublisher {
+  constructor(queueName: string, private bus: InProcessEventBus = inProcessEventBus) {
+    super(queueName, 'in-process event bus');
+  }
+
+  protected async publish(messages: OrderEventMessage[]): Promise<void> {
+    for (const message of messages) {
+      this.bus.publish(this.queueName, message);
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { InvocationContext } from '@azure/functions';
+import {
+  BikeAvailability,
+  BikeCatalog,
+  BikeReservation,
+  CatalogBikeModel,
+  OrderStatus,
+  OrderSummary
+} from '../types/Order';
+import { NotFoundError, OrderProcessingError, ValidationError } from '../utils/errors';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { createLogger } from '../utils/logger';
+import { OrderRepository } from './orderRepository';
+
+// Orders in these states hold a bike for their whole rental period
+const RESERVING_STATUSES: OrderStatus[] = ['PENDING', 'APPROVED'];
+// Summaries come from the blob listing, so pages can be large
+const LIST_PAGE_SIZE = 1000;
+// Long enough for the reserving request to store its order, which from then
+// on holds the bike itself
+const RESERVATION_HOLD_MS = 5 * 60 * 1000;
+
+/**
+ * Answers whether a company still has a bike model in stock for a rental
+ * period, based on its catalog, the orders already booked and the
+ * reservations of orders still being stored.
+ */
+export class InventoryService {
+  constructor(private orderRepository: OrderRepository) {}
+
+  async getAvailability(
+    companyId: string,
+    bikeModel: string,
+    startDate: string,
+    endDate: string,
+    context: InvocationContext
+  ): Promise<BikeAvailability> {
+    const catalog = await this.loadCatalog(companyId, context);
+    if (!catalog) {
+      throw new NotFoundError(`No bike catalog for company ${companyId}`, 'CATALOG_NOT_FOUND');
+    }
+    const entry = findModel(catalog, bikeModel);
+    const reservations = await withRetry(
+      () => this.orderRepository.getReservations(companyId, entry.model),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+    return this.calculate(catalog, entry, startDate, endDate, heldReservations(reservations, Date.now()), context);
+  }
+
+  /**
+   * Holds a bike for an order, or rejects a booking the company cannot
+   * serve. Companies without a catalog are not checked, so they keep
+   * working until one is uploaded.
+   *
+   * The check and the reservation are one conditional write to the model's
+   * reservations, so concurrent requests cannot both take the last bike. An
+   * order being modified replaces its own booking instead of competing with
+   * it.
+   */
+  async reserve(
+    companyId: string,
+    orderId: string,
+    bikeModel: string,
+    startDate: string,
+    endDate: string,
+    context: InvocationContext
+  ): Promise<void> {
+    const catalog = await this.loadCatalog(companyId, context);
+    if (!catalog) {
+      createLogger(context, { companyId }).info(`No bike catalog for company ${companyId}, skipping availability check`);
+      return;
+    }
+    const entry = findModel(catalog, bikeModel);
+
+    await withRetry(
+      () => this.orderRepository.updateReservations(companyId, entry.model, async (reservations) => {
+        const now = Date.now();
+        const held = heldReservations(reservations, now).filter((reservation) => reservation.orderId !== orderId);
+
+        const availability = await this.calculate(catalog, entry, startDate, endDate, held, context, orderId);
+        if (availability.available < 1) {
+          throw new OrderProcessingError(
+            `${bikeModel} is not available between ${startDate} and ${endDate}`,
+            'BIKE_UNAVAILABLE',
+            409
+          );
+        }
+        return [...held, { orderId, startDate, endDate, reservedAt: new Date(now).toISOString() }];
+      }, context),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+  }
+
+  private async loadCatalog(companyId: string, context: InvocationContext): Promise<BikeCatalog | null> {
+    return withRetry(
+      () => this.orderRepository.getCatalog(companyId),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+  }
+
+  // A reservation stands in for its order while it is held, so an order
+  // that was stored meanwhile is not counted twice.
+  private async calculate(
+    catalog: BikeCatalog,
+    entry: CatalogBikeModel,
+    startDate: string,
+    endDate: string,
+    reservations: BikeReservation[],
+    context: InvocationContext,
+    excludeOrderId?: string
+  ): Promise<BikeAvailability> {
+    const start = new Date(startDate).getTime();
+    const end = new Date(endDate).getTime();
+    const reservedOrderIds = new Set(reservations.map((reservation) => reservation.orderId));
+
+    const orders = (await this.listReservingSummaries(catalog.companyId, entry.model, context))
+      .filter((summary) => !reservedOrderIds.has(summary.id) && summary.id !== excludeOrderId);
+    const bookings = [...orders, ...reservations]
+      .map((booking) => ({
+        start: Math.max(start, new Date(booking.startDate).getTime()),
+        end: Math.min(end, new Date(booking.endDate).getTime())
+      }))
+      .filter((booking) => booking.start < booking.end);
+
+    const booked = peakConcurrentBookings(bookings);
+    return {
+      companyId: catalog.companyId,
+      bikeModel: entry.model,
+      startDate,
+      endDate,
+      stock: entry.stock,
+      booked,
+      available: Math.max(entry.stock - booked, 0)
+    };
+  }
+
+  // Filtering by status in the listing means orders that hold no bike are
+  // never read, and summaries come from blob metadata where it is present.
+  private async listReservingSummaries(
+    companyId: string,
+    bikeModel: string,
+    context: InvocationContext
+  ): Promise<OrderSummary[]> {
+    const summaries: OrderSummary[] = [];
+    for (const status of RESERVING_STATUSES) {
+      let continuationToken: string | undefined;
+      do {
+        const page = await withRetry(
+          () => this.orderRepository.listOrderSummaries(companyId, {
+            status,
+            continuationToken,
+            pageSize: LIST_PAGE_SIZE
+          }),
+          { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+          context
+        );
+        summaries.push(...page.summaries.filter((summary) => summary.bikeModel === bikeModel));
+        continuationToken = page.continuationToken;
+      } while (continuationToken);
+    }
+    return summaries;
+  }
+}
+
+function heldReservations(reservations: BikeReservation[], now: number): BikeReservation[] {
+  return reservations.filter((reservation) => now - new Date(reservation.reservedAt).getTime() < RESERVATION_HOLD_MS);
+}
+
+function findModel(catalog: BikeCatalog, bikeModel: string): CatalogBikeModel {
+  const entry = catalog.models.find((candidate) => candidate.model === bikeModel);
+  if (!entry) {
+    throw new ValidationError('Validation failed', [
+      `bikeModel: Unknown bike model "${bikeModel}"`
+    ]);
+  }
+  return entry;
+}
+
+// Two bookings only compete for a bike while they overlap, so the number of
+// bikes in use is the highest count of bookings active at the same instant.
+// Periods are half-open: a rental ending when another starts frees the bike.
+function peakConcurrentBookings(bookings: { start: number; end: number }[]): number {
+  const events = bookings
+    .flatMap((booking) => [
+      { at: booking.start, delta: 1 },
+      { at: booking.end, delta: -1 }
+    ])
+    .sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+  let active = 0;
+  let peak = 0;
+  for (const event of events) {
+    active += event.delta;
+    peak = Math.max(peak, active);
+  }
+  return peak;
+}
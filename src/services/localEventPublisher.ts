@@ -0,0 +1,74 @@
+import { InvocationContext } from '@azure/functions';
+import { Order, OrderStatus } from '../types/Order';
+import { OrderProcessingError } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import { OrderEventPublisher } from './orderEventPublisher';
+import {
+  createDeadLetterMessage,
+  createOrderMessage,
+  createStatusChangedMessage,
+  DeadLetter,
+  OrderEventMessage
+} from './orderMessages';
+
+/**
+ * Base for publishers that deliver message envelopes somewhere local instead
+ * of Service Bus. Subclasses only implement `publish`.
+ */
+export abstract class LocalEventPublisher implements OrderEventPublisher {
+  constructor(protected queueName: string, private transportName: string) {}
+
+  protected abstract publish(messages: OrderEventMessage[]): Promise<void>;
+
+  async sendOrderMessage(order: Order, context: InvocationContext): Promise<void> {
+    await this.publishOrFail([createOrderMessage(order)], 'Failed to send order message', context);
+    createLogger(context, { orderId: order.id, companyId: order.companyId })
+      .info(`Order message published to ${this.transportName} for order ${order.id}`);
+  }
+
+  async sendOrderMessages(orders: Order[], context: InvocationContext): Promise<void> {
+    await this.publishOrFail(orders.map(createOrderMessage), 'Failed to send order messages', context);
+    createLogger(context).info(`${orders.length} order messages published to ${this.transportName}`);
+  }
+
+  async sendStatusChangedMessage(
+    order: Order,
+    previousStatus: OrderStatus,
+    context: InvocationContext
+  ): Promise<void> {
+    await this.publishOrFail(
+      [createStatusChangedMessage(order, previousStatus)],
+      'Failed to send order status change message',
+      context
+    );
+    createLogger(context, { orderId: order.id, companyId: order.companyId })
+      .info(`Status change ${previousStatus} -> ${order.status} published to ${this.transportName} for order ${order.id}`);
+  }
+
+  async sendDeadLetterMessage(deadLetter: DeadLetter, context: InvocationContext): Promise<void> {
+    await this.publishOrFail(
+      [createDeadLetterMessage(deadLetter)],
+      'Failed to dead-letter order message',
+      context
+    );
+    createLogger(context, { messageId: deadLetter.originalMessageId })
+      .warn(`Message ${deadLetter.originalMessageId} dead-lettered to ${this.transportName}: ${deadLetter.reason}`);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release by default
+  }
+
+  private async publishOrFail(
+    messages: OrderEventMessage[],
+    failureMessage: string,
+    context: InvocationContext
+  ): Promise<void> {
+    try {
+      await this.publish(messages);
+    } catch (error) {
+      createLogger(context).error(`Failed to publish to ${this.transportName}`, error);
+      throw new OrderProcessingError(failureMessage, 'MESSAGING_ERROR', 500, error);
+    }
+  }
+}
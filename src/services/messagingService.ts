@@ -1,40 +1,125 @@
 import { ServiceBusClient, ServiceBusSender } from '@azure/service-bus';
-import { Order } from '../types/Order';
+import { Order, OrderStatus } from '../types/Order';
 import { OrderProcessingError } from '../utils/errors';
+import { createLogger } from '../utils/logger';
 import { InvocationContext } from '@azure/functions';
+import { OrderEventPublisher } from './orderEventPublisher';
+import {
+  createDeadLetterMessage,
+  createOrderMessage,
+  createStatusChangedMessage,
+  DeadLetter,
+  ORDER_PROCESSING_QUEUE
+} from './orderMessages';
 
-export class MessagingService {
+export class MessagingService implements OrderEventPublisher {
   private serviceBusClient: ServiceBusClient;
   private sender: ServiceBusSender;
 
-  constructor(connectionString: string, queueName: string = 'order-processing') {
+  constructor(connectionString: string, queueName: string = ORDER_PROCESSING_QUEUE) {
     this.serviceBusClient = new  ServiceBusClient(connectionString);
     this.sender = this.serviceBusClient.createSender(queueName);
   }
 
   async sendOrderMessage(order: Order, context: InvocationContext): Promise<void> {
+    const logger = createLogger(context, { orderId: order.id, companyId: order.companyId });
     try {
-      const message = {
-        body: {
-          orderId: order.id,
-          companyId: order.companyId,
-          employeeId: order.employeeId,
-          status: order.status,
-          price: order.price,
-          currency: order.currency
-        },
-        messageId: order.id,
-        correlationId: `${order.companyId}-${order.id}`,
-        contentType: 'application/json'
-      };
+      const message = createOrderMessage(order);
 
       await this.sender.sendMessages(message);
-      context.log(`Order message sent to Service Bus for order ${order.id}`);
+      logger.info(`Order message sent to Service Bus for order ${order.id}`);
     } catch (error) {
-      context.error('Failed to send message to Service Bus:', error);
+      logger.error('Failed to send message to Service Bus', error);
       throw new OrderProcessingError(
         'Failed to send order message',
-        'MESSAGING_ERROR'
+        'MESSAGING_ERROR',
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * Sends order messages in as few Service Bus batches as their size allows.
+   * A failure part-way leaves earlier batches sent; callers relying on the
+   * outbox simply re-send, and duplicates share the order id as messageId.
+   */
+  async sendOrderMessages(orders: Order[], context: InvocationContext): Promise<void> {
+    const logger = createLogger(context);
+    try {
+      let batch = await this.sender.createMessageBatch();
+      let batches = 0;
+
+      for (const order of orders) {
+        const message = createOrderMessage(order);
+        if (batch.tryAddMessage(message)) {
+          continue;
+        }
+        if (batch.count === 0) {
+          throw new Error(`Message for order ${order.id} exceeds the maximum batch size`);
+        }
+
+        await this.sender.sendMessages(batch);
+        batches++;
+        batch = await this.sender.createMessageBatch();
+        if (!batch.tryAddMessage(message)) {
+          throw new Error(`Message for order ${order.id} exceeds the maximum batch size`);
+        }
+      }
+
+      if (batch.count > 0) {
+        await this.sender.sendMessages(batch);
+        batches++;
+      }
+
+      logger.info(`${orders.length} order messages sent to Service Bus in ${batches} batches`);
+    } catch (error) {
+      logger.error('Failed to send message batch to Service Bus', error);
+      throw new OrderProcessingError(
+        'Failed to send order messages',
+        'MESSAGING_ERROR',
+        500,
+        error
+      );
+    }
+  }
+
+  async sendStatusChangedMessage(
+    order: Order,
+    previousStatus: OrderStatus,
+    context: InvocationContext
+  ): Promise<void> {
+    const logger = createLogger(context, { orderId: order.id, companyId: order.companyId });
+    try {
+      const message = createStatusChangedMessage(order, previousStatus);
+
+      await this.sender.sendMessages(message);
+      logger.info(`Status change ${previousStatus} -> ${order.status} sent to Service Bus for order ${order.id}`);
+    } catch (error) {
+      logger.error('Failed to send status change message to Service Bus', error);
+      throw new OrderProcessingError(
+        'Failed to send order status change message',
+        'MESSAGING_ERROR',
+        500,
+        error
+      );
+    }
+  }
+
+  async sendDeadLetterMessage(deadLetter: DeadLetter, context: InvocationContext): Promise<void> {
+    const logger = createLogger(context, { messageId: deadLetter.originalMessageId });
+    try {
+      const message = createDeadLetterMessage(deadLetter);
+
+      await this.sender.sendMessages(message);
+      logger.warn(`Message ${deadLetter.originalMessageId} dead-lettered: ${deadLetter.reason}`);
+    } catch (error) {
+      logger.error('Failed to send dead-letter message to Service Bus', error);
+      throw new OrderProcessingError(
+        'Failed to dead-letter order message',
+        'MESSAGING_ERROR',
+        500,
+        error
       );
     }
   }
@@ -0,0 +1,63 @@
+import { InvocationContext } from '@azure/functions';
+import { SpanKind } from '@opentelemetry/api';
+import { Order, OrderStatus } from '../types/Order';
+import { OrderProcessingError } from '../utils/errors';
+import { MESSAGING_DEPENDENCY } from '../utils/circuitBreaker';
+import { traceMethods } from '../utils/telemetry';
+import { MessagingService } from './messagingService';
+import { InProcessEventPublisher } from './inProcessEventBus';
+import { FileEventPublisher } from './fileEventPublisher';
+import { DeadLetter, ORDER_PROCESSING_QUEUE } from './orderMessages';
+
+/**
+ * Publishes order events to one queue. Implementations throw
+ * `OrderProcessingError` with code `MESSAGING_ERROR` when publishing fails.
+ */
+export interface OrderEventPublisher {
+  sendOrderMessage(order: Order, context: InvocationContext): Promise<void>;
+  sendOrderMessages(orders: Order[], context: InvocationContext): Promise<void>;
+  sendStatusChangedMessage(
+    order: Order,
+    previousStatus: OrderStatus,
+    context: InvocationContext
+  ): Promise<void>;
+  sendDeadLetterMessage(deadLetter: DeadLetter, context: InvocationContext): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type MessagingTransport = 'servicebus' | 'inprocess' | 'file';
+
+/**
+ * Creates the publisher selected by `MESSAGING_TRANSPORT`: `servicebus`
+ * (default, uses `ServiceBusConnectionString`), `inprocess`, or `file`
+ * (JSONL files in `MESSAGING_FILE_PATH`, default `.data/events`). The legacy
+ * `SKIP_SERVICE_BUS=true` selects `inprocess`. Every call on the publisher is
+ * traced as an `order-messaging` span.
+ */
+export function createOrderEventPublisher(
+  queueName: string = ORDER_PROCESSING_QUEUE
+): OrderEventPublisher {
+  return traceMethods(selectOrderEventPublisher(queueName), MESSAGING_DEPENDENCY, SpanKind.PRODUCER);
+}
+
+function selectOrderEventPublisher(queueName: string): OrderEventPublisher {
+  const transport = (process.env.MESSAGING_TRANSPORT ||
+    (process.env.SKIP_SERVICE_BUS === 'true' ? 'inprocess' : 'servicebus')) as MessagingTransport;
+
+  switch (transport) {
+    case 'servicebus':
+      return new MessagingService(process.env.ServiceBusConnectionString || '', queueName);
+    case 'inprocess':
+      return new InProcessEventPublisher(queueName);
+    case 'file':
+      return new FileEventPublisher(
+        process.env.MESSAGING_FILE_PATH || '.data/events',
+        queueName
+      );
+    default:
+      throw new OrderProcessingError(
+        `Unknown MESSAGING_TRANSPORT "${transport}"`,
+        'MESSAGING_CONFIG_ERROR'
+      );
+  }
+}
@@ -0,0 +1,106 @@
+import { Order, OrderStatus } from '../types/Order';
+import { injectTraceContext } from '../utils/telemetry';
+import { getCorrelationId } from '../utils/correlation';
+
+export const ORDER_PROCESSING_QUEUE = 'order-processing';
+export const ORDER_STATUS_CHANGED_QUEUE = 'order-status-changed';
+export const ORDER_DEAD_LETTER_QUEUE = 'order-processing-deadletter';
+
+/**
+ * Transport-neutral message envelope. It matches the fields of a Service Bus
+ * message so every publisher emits the same shape. `correlationId` is the
+ * correlation id of the request that caused the message, falling back to
+ * `{companyId}-{orderId}` outside one. Application properties
+ * carry the W3C trace context of the span that created the message.
+ */
+export interface OrderEventMessage {
+  body: Record<string, unknown>;
+  messageId: string;
+  correlationId: string;
+  subject?: string;
+  contentType: string;
+  applicationProperties?: Record<string, string | number | boolean>;
+}
+
+/** A consumed message that can never be processed, and why. */
+export interface DeadLetter {
+  originalMessage: unknown;
+  originalMessageId?: string;
+  reason: string;
+  description: string;
+}
+
+export function createOrderMessage(order: Order): OrderEventMessage {
+  return withTraceContext({
+    body: {
+      orderId: order.id,
+      companyId: order.companyId,
+      employeeId: order.employeeId,
+      status: order.status,
+      price: order.price,
+      currency: order.currency,
+      lineItems: order.lineItems,
+      totals: order.totals
+    },
+    messageId: order.id,
+    correlationId: getCorrelationId() ?? `${order.companyId}-${order.id}`,
+    contentType: 'application/json'
+  });
+}
+
+// A cancellation is reported in the same fields as a decision, so consumers
+// read who changed the status and why from one place.
+export function createStatusChangedMessage(
+  order: Order,
+  previousStatus: OrderStatus
+): OrderEventMessage {
+  const cancelled = order.status === 'CANCELLED';
+  return withTraceContext({
+    body: {
+      orderId: order.id,
+      companyId: order.companyId,
+      employeeId: order.employeeId,
+      previousStatus,
+      status: order.status,
+      decidedBy: cancelled ? order.cancelledBy : order.decidedBy,
+      reason: cancelled ? order.cancellationReason : order.decisionReason,
+      decidedAt: cancelled ? order.cancelledAt : order.decidedAt
+    },
+    messageId: `${order.id}-${order.status}`,
+    correlationId: getCorrelationId() ?? `${order.companyId}-${order.id}`,
+    subject: 'OrderStatusChanged',
+    contentType: 'application/json'
+  });
+}
+
+export function createDeadLetterMessage(deadLetter: DeadLetter): OrderEventMessage {
+  const deadLetteredAt = new Date();
+  return withTraceContext({
+    body: {
+      originalMessage: deadLetter.originalMessage,
+      reason: deadLetter.reason,
+      description: deadLetter.description,
+      deadLetteredAt
+    },
+    messageId: `${deadLetter.originalMessageId || deadLetteredAt.getTime()}-deadletter`,
+    correlationId: deadLetter.originalMessageId || '',
+    subject: 'DeadLetteredOrderMessage',
+    contentType: 'application/json',
+    applicationProperties: {
+      DeadLetterReason: deadLetter.reason,
+      DeadLetterErrorDescription: deadLetter.description
+    }
+  });
+}
+
+// Messages created outside a traced operation carry no trace properties
+function withTraceContext(message: OrderEventMessage): OrderEventMessage {
+  const traceContext = injectTraceContext();
+  if (Object.keys(traceContext).length === 0) {
+    return message;
+  }
+  return {
+    ...message,
+    applicationProperties: { ...message.applicationProperties, ...traceContext }
+  };
+}
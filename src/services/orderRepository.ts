@@ -0,0 +1,120 @@
+import { InvocationContext } from "@azure/functions";
+import {
+  BikeCatalog,
+  BikeReservation,
+  CompanyPolicy,
+  IdempotencyRecord,
+  ListOrdersOptions,
+  Order,
+  OrderHistoryEntry,
+  OrderPage,
+  OrderSummaryPage,
+  OutboxEntry,
+} from "../types/Order";
+import { OrderProcessingError } from "../utils/errors";
+import { STORAGE_DEPENDENCY } from "../utils/circuitBreaker";
+import { traceMethods } from "../utils/telemetry";
+import { StorageService } from "./storageService";
+import { InMemoryOrderRepository } from "./inMemoryOrderRepository";
+import { FileSystemOrderRepository } from "./fileSystemOrderRepository";
+
+/**
+ * Persistence for orders and the records kept alongside them. Implementations
+ * throw `OrderProcessingError` with code `STORAGE_ERROR` on backend failures.
+ */
+export interface OrderRepository {
+  initializeContainer(): Promise<void>;
+
+  storeOrder(order: Order, context: InvocationContext): Promise<void>;
+  /**
+   * Resolves null only when the order does not exist. The order carries the
+   * `etag` of the version read.
+   */
+  getOrder(orderId: string, companyId: string): Promise<Order | null>;
+  listOrders(companyId: string, options?: ListOrdersOptions): Promise<OrderPage>;
+  /** Pages like `listOrders`, without reading whole documents where the backend can avoid it. */
+  listOrderSummaries(companyId: string, options?: ListOrdersOptions): Promise<OrderSummaryPage>;
+  /**
+   * Rewrites an existing order if it is still at `order.etag` and resolves
+   * the new etag. Throws `NotFoundError` if the order does not exist and
+   * `ConcurrencyConflictError` if it changed since it was read.
+   */
+  updateOrder(order: Order, context: InvocationContext): Promise<string>;
+  /** Returns false when there was no such order. */
+  deleteOrder(orderId: string, companyId: string, context: InvocationContext): Promise<boolean>;
+
+  /** Oldest entry first; empty when the order was never changed. */
+  getOrderHistory(orderId: string, companyId: string): Promise<OrderHistoryEntry[]>;
+  appendOrderHistory(
+    orderId: string,
+    companyId: string,
+    entry: OrderHistoryEntry,
+    context: InvocationContext
+  ): Promise<void>;
+
+  getIdempotencyRecord(companyId: string, key: string): Promise<IdempotencyRecord | null>;
+  storeIdempotencyRecord(record: IdempotencyRecord, context: InvocationContext): Promise<void>;
+
+  storeOutboxEntry(entry: OutboxEntry, context: InvocationContext): Promise<void>;
+  listPendingOutboxEntries(maxEntries: number): Promise<OutboxEntry[]>;
+  markOutboxEntryDispatched(entry: OutboxEntry, context: InvocationContext): Promise<void>;
+  deleteOutboxEntry(entry: OutboxEntry): Promise<void>;
+
+  getCatalog(companyId: string): Promise<BikeCatalog | null>;
+  storeCatalog(catalog: BikeCatalog, context: InvocationContext): Promise<void>;
+
+  /** Empty when nothing was ever reserved on the bike model. */
+  getReservations(companyId: string, bikeModel: string): Promise<BikeReservation[]>;
+  /**
+   * Replaces a bike model's reservations with what `update` returns for the
+   * current ones. The write is conditional on the version read; when another
+   * writer got there first, `update` runs again on the fresh list. Errors
+   * thrown by `update` are passed through unchanged.
+   */
+  updateReservations(
+    companyId: string,
+    bikeModel: string,
+    update: (reservations: BikeReservation[]) => Promise<BikeReservation[]>,
+    context: InvocationContext
+  ): Promise<void>;
+
+  getPolicy(companyId: string): Promise<CompanyPolicy | null>;
+  storePolicy(policy: CompanyPolicy, context: InvocationContext): Promise<void>;
+}
+
+export type OrderRepositoryKind = "blob" | "memory" | "filesystem";
+
+// The in-memory store only makes sense if every invocation in the process
+// shares it.
+let inMemoryRepository: InMemoryOrderRepository | undefined;
+
+/**
+ * Creates the repository selected by `ORDER_REPOSITORY`: `blob` (default,
+ * uses `AzureWebJobsStorage`), `memory`, or `filesystem` (rooted at
+ * `ORDER_REPOSITORY_PATH`, default `.data/orders`). Every call on the
+ * repository is traced as an `order-storage` span.
+ */
+export function createOrderRepository(): OrderRepository {
+  return traceMethods(selectOrderRepository(), STORAGE_DEPENDENCY);
+}
+
+function selectOrderRepository(): OrderRepository {
+  const kind = (process.env.ORDER_REPOSITORY || "blob") as OrderRepositoryKind;
+
+  switch (kind) {
+    case "blob":
+      return new StorageService(process.env.AzureWebJobsStorage || "");
+    case "memory":
+      inMemoryRepository = inMemoryRepository || new InMemoryOrderRepository();
+      return inMemoryRepository;
+    case "filesystem":
+      return new FileSystemOrderRepository(
+        process.env.ORDER_REPOSITORY_PATH || ".data/orders"
+      );
+    default:
+      throw new OrderProcessingError(
+        `Unknown ORDER_REPOSITORY "${kind}"`,
+        "STORAGE_CONFIG_ERROR"
+      );
+  }
+}
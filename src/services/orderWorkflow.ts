@@ -0,0 +1,185 @@
+import { InvocationContext } from '@azure/functions';
+import {
+  CreateOrderRequest,
+  Order,
+  OrderDecisionRequest,
+  OrderHistoryEntry,
+  OrderModificationRequest,
+  OrderStatus
+} from '../types/Order';
+import { CreateOrderSchema } from '../schema/order.schema';
+import { OrderProcessingError, ValidationError } from '../utils/errors';
+import { transitionOrder } from '../utils/orderStatus';
+import { createHistoryEntry } from '../utils/orderHistory';
+import { createDeductionSchedule } from '../utils/deductionSchedule';
+import { withRetry } from '../utils/retry';
+import { MESSAGING_DEPENDENCY, STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { createLogger } from '../utils/logger';
+import { OrderRepository } from './orderRepository';
+import { OrderEventPublisher } from './orderEventPublisher';
+import { PricingService } from './pricingService';
+import { PolicyService } from './policyService';
+import { InventoryService } from './inventoryService';
+
+/**
+ * Moves an order to a new status, persists it and announces the change.
+ * Shared by the HTTP approval endpoints and the order event consumer so both
+ * obey the same state machine. The update is conditional on the order's
+ * `etag`; the returned order carries the new one.
+ */
+export async function applyStatusTransition(
+  orderRepository: OrderRepository,
+  eventPublisher: OrderEventPublisher,
+  order: Order,
+  targetStatus: OrderStatus,
+  decision: OrderDecisionRequest,
+  context: InvocationContext
+): Promise<Order> {
+  const previousStatus = order.status;
+  const transitionedOrder = transitionOrder(order, targetStatus, decision);
+
+  const etag = await withRetry(
+    () => orderRepository.updateOrder(transitionedOrder, context),
+    { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+    context
+  );
+  const updatedOrder: Order = { ...transitionedOrder, etag };
+
+  await recordHistory(
+    orderRepository,
+    updatedOrder,
+    createHistoryEntry('STATUS_CHANGED', order, updatedOrder, decision.decidedBy, decision.reason),
+    context
+  );
+
+  await withRetry(
+    () => eventPublisher.sendStatusChangedMessage(updatedOrder, previousStatus, context),
+    { maxAttempts: 3, dependency: MESSAGING_DEPENDENCY },
+    context
+  );
+
+  createLogger(context, { orderId: order.id, companyId: order.companyId })
+    .info(`Order ${order.id} moved from ${previousStatus} to ${targetStatus}`, { decidedBy: decision.decidedBy });
+  return updatedOrder;
+}
+
+/**
+ * Changes the rental details of a `PENDING` order. The merged order goes
+ * through the same validation, pricing, policy and availability checks as a
+ * new one; the order itself is left out of the policy and stock counts.
+ */
+export async function applyOrderModification(
+  orderRepository: OrderRepository,
+  order: Order,
+  modification: OrderModificationRequest,
+  context: InvocationContext
+): Promise<Order> {
+  if (order.status !== 'PENDING') {
+    throw new OrderProcessingError(
+      `Order ${order.id} is ${order.status} and can no longer be modified`,
+      'ORDER_NOT_MODIFIABLE',
+      409
+    );
+  }
+
+  const { modifiedBy, ...changes } = modification;
+  const validFields = CreateOrderSchema.safeParse({
+    employeeId: order.employeeId,
+    companyId: order.companyId,
+    bikeModel: order.bikeModel,
+    startDate: new Date(order.startDate).toISOString(),
+    endDate: new Date(order.endDate).toISOString(),
+    currency: order.currency,
+    ...changes
+  });
+  if (!validFields.success) {
+    throw ValidationError.fromZodError('Validation failed', validFields.error);
+  }
+  const input = validFields.data as CreateOrderRequest;
+  // Line item prices are in the order currency and are not converted
+  if (input.currency !== order.currency && order.lineItems.length > 0) {
+    throw new ValidationError('Validation failed', [
+      'currency: Currency cannot change on an order with line items'
+    ]);
+  }
+
+  // Without a price list the old prices stay valid for the same currency;
+  // with one the order is re-quoted unless a price was submitted, and its
+  // line items always are
+  const pricingService = new PricingService(orderRepository);
+  const quote = await pricingService.findQuote(input, context);
+  if (input.price === undefined && input.currency === order.currency && !quote) {
+    input.price = order.price;
+  }
+  input.lineItems = order.lineItems.map(({ sku, quantity, unitPrice, billing }) => ({
+    sku,
+    quantity,
+    unitPrice: quote ? undefined : unitPrice,
+    billing
+  }));
+  const pricedInput = await pricingService.priceOrder(input, context);
+
+  await new PolicyService(orderRepository).assertCompliant(pricedInput, context, {
+    excludeOrderId: order.id
+  });
+  await new InventoryService(orderRepository).reserve(
+    input.companyId,
+    order.id,
+    input.bikeModel,
+    input.startDate,
+    input.endDate,
+    context
+  );
+
+  const modifiedOrder: Order = {
+    ...order,
+    bikeModel: pricedInput.bikeModel,
+    startDate: new Date(pricedInput.startDate),
+    endDate: new Date(pricedInput.endDate),
+    price: pricedInput.price,
+    currency: pricedInput.currency,
+    normalizedPrice: pricedInput.normalizedPrice,
+    lineItems: pricedInput.lineItems,
+    totals: pricedInput.totals,
+    deductionSchedule: createDeductionSchedule(pricedInput),
+    updatedAt: new Date()
+  };
+
+  const etag = await withRetry(
+    () => orderRepository.updateOrder(modifiedOrder, context),
+    { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+    context
+  );
+  const updatedOrder: Order = { ...modifiedOrder, etag };
+
+  await recordHistory(
+    orderRepository,
+    updatedOrder,
+    createHistoryEntry('MODIFIED', order, updatedOrder, modifiedBy),
+    context
+  );
+
+  createLogger(context, { orderId: order.id, companyId: order.companyId })
+    .info(`Order ${order.id} modified`, { modifiedBy });
+  return updatedOrder;
+}
+
+// The change itself is already stored, so a lost history entry is logged
+// loudly rather than failing a request the caller would then retry.
+async function recordHistory(
+  orderRepository: OrderRepository,
+  order: Order,
+  entry: OrderHistoryEntry,
+  context: InvocationContext
+): Promise<void> {
+  try {
+    await withRetry(
+      () => orderRepository.appendOrderHistory(order.id, order.companyId, entry, context),
+      { maxAttempts: 3, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+  } catch (error) {
+    createLogger(context, { orderId: order.id, companyId: order.companyId })
+      .error(`History entry ${entry.action} for order ${order.id} was not recorded`, error);
+  }
+}
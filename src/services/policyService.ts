@@ -0,0 +1,121 @@
+import { InvocationContext } from '@azure/functions';
+import { CompanyPolicy, Order, OrderStatus, PricedOrderRequest } from '../types/Order';
+import { ValidationError } from '../utils/errors';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { countRentalDays } from '../utils/rentalPeriod';
+import { OrderRepository } from './orderRepository';
+
+const HOUR_MS = 60 * 60 * 1000;
+const ACTIVE_STATUSES: OrderStatus[] = ['PENDING', 'APPROVED'];
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * Enforces the company's policy document on new and modified orders.
+ * Violations are reported like schema errors, one `field: message` entry per
+ * rule broken.
+ */
+export class PolicyService {
+  constructor(private orderRepository: OrderRepository) {}
+
+  /**
+   * `excludeOrderId` leaves an order being modified out of its own
+   * concurrent-order count.
+   */
+  async assertCompliant(
+    order: PricedOrderRequest,
+    context: InvocationContext,
+    options: { now?: Date; excludeOrderId?: string } = {}
+  ): Promise<void> {
+    const now = options.now || new Date();
+    const policy = await withRetry(
+      () => this.orderRepository.getPolicy(order.companyId),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+    if (!policy) {
+      return;
+    }
+
+    const activeOrders = policy.maxConcurrentOrdersPerEmployee !== undefined
+      ? await this.countActiveOrders(order.companyId, order.employeeId, now, options.excludeOrderId, context)
+      : 0;
+
+    const violations = evaluatePolicy(policy, order, activeOrders, now);
+    if (violations.length > 0) {
+      throw new ValidationError('Order violates company policy', violations);
+    }
+  }
+
+  private async countActiveOrders(
+    companyId: string,
+    employeeId: string,
+    now: Date,
+    excludeOrderId: string | undefined,
+    context: InvocationContext
+  ): Promise<number> {
+    let count = 0;
+    let continuationToken: string | undefined;
+    do {
+      const page = await withRetry(
+        () => this.orderRepository.listOrders(companyId, { employeeId, continuationToken, pageSize: LIST_PAGE_SIZE }),
+        { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+        context
+      );
+      count += page.orders
+        .filter((existing) => !(excludeOrderId && existing.id === excludeOrderId) && isActive(existing, now))
+        .length;
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+    return count;
+  }
+}
+
+/**
+ * Returns one `field: message` entry per policy rule the order breaks.
+ * Messages end up in logs and dead letters, so they never name the employee.
+ */
+export function evaluatePolicy(
+  policy: CompanyPolicy,
+  order: PricedOrderRequest,
+  activeOrders: number,
+  now: Date
+): string[] {
+  const violations: string[] = [];
+
+  const { amount, currency } = order.normalizedTotal;
+  if (policy.maxPrice !== undefined && amount > policy.maxPrice) {
+    violations.push(`price: Order total of ${amount} ${currency} exceeds the company limit of ${policy.maxPrice} ${currency}`);
+  }
+
+  if (policy.allowedBikeModels && !policy.allowedBikeModels.includes(order.bikeModel)) {
+    violations.push(`bikeModel: Bike model "${order.bikeModel}" is not allowed by company policy`);
+  }
+
+  const rentalDays = countRentalDays(order.startDate, order.endDate);
+  if (policy.maxRentalDays !== undefined && rentalDays > policy.maxRentalDays) {
+    violations.push(`endDate: Rental of ${rentalDays} days exceeds the company maximum of ${policy.maxRentalDays} days`);
+  }
+
+  const leadTimeHours = (new Date(order.startDate).getTime() - now.getTime()) / HOUR_MS;
+  if (policy.minLeadTimeHours !== undefined && leadTimeHours < policy.minLeadTimeHours) {
+    violations.push(`startDate: Orders must be placed at least ${policy.minLeadTimeHours} hours before the start date`);
+  }
+
+  if (
+    policy.maxConcurrentOrdersPerEmployee !== undefined &&
+    activeOrders >= policy.maxConcurrentOrdersPerEmployee
+  ) {
+    violations.push(
+      `employeeId: The employee already has ${activeOrders} active orders, ` +
+      `the company maximum is ${policy.maxConcurrentOrdersPerEmployee}`
+    );
+  }
+
+  return violations;
+}
+
+// Pending or approved orders whose rental has not ended yet
+function isActive(order: Order, now: Date): boolean {
+  return ACTIVE_STATUSES.includes(order.status) && new Date(order.endDate) > now;
+}
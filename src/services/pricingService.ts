@@ -0,0 +1,288 @@
+import { InvocationContext } from '@azure/functions';
+import {
+  BikeCatalog,
+  CatalogAddOn,
+  CatalogPricing,
+  CreateOrderRequest,
+  ExchangeRateTable,
+  LineItemRequest,
+  PriceQuote,
+  PricedOrderRequest
+} from '../types/Order';
+import { NotFoundError, OrderProcessingError, ValidationError } from '../utils/errors';
+import { withRetry } from '../utils/retry';
+import { STORAGE_DEPENDENCY } from '../utils/circuitBreaker';
+import { createLogger } from '../utils/logger';
+import { roundToMinorUnits } from '../utils/currency';
+import { countRentalDays } from '../utils/rentalPeriod';
+import { convertAmount, hasExchangeRate, loadExchangeRates } from '../utils/exchangeRates';
+import { calculateTotals, priceLineItems } from '../utils/lineItems';
+import { createDeductionSchedule } from '../utils/deductionSchedule';
+import { OrderRepository } from './orderRepository';
+
+export interface QuoteInput {
+  companyId: string;
+  bikeModel: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Prices rentals from the company's catalog: daily rate times rental days,
+ * less the best matching discount tier, plus tax.
+ */
+export class PricingService {
+  constructor(private orderRepository: OrderRepository) {}
+
+  async quote(input: QuoteInput, context: InvocationContext): Promise<PriceQuote> {
+    const quote = await this.findQuote(input, context);
+    if (!quote) {
+      throw new NotFoundError(
+        `No price list for ${input.bikeModel} at company ${input.companyId}`,
+        'PRICING_NOT_CONFIGURED'
+      );
+    }
+    return quote;
+  }
+
+  /**
+   * Returns the order with its price set from the quote, converted into the
+   * order currency if needed, and normalized into the company's base
+   * currency. A submitted price must match the quote; without a price for
+   * the bike model the submitted price is kept and becomes mandatory, but a
+   * catalog still only accepts its own models. Line items are priced
+   * the same way from the price list's add-ons, and the whole lease is
+   * normalized as well for the policy limit.
+   */
+  async priceOrder(
+    input: CreateOrderRequest,
+    context: InvocationContext
+  ): Promise<PricedOrderRequest> {
+    const catalog = await this.loadCatalog(input.companyId, context);
+    const rates = loadExchangeRates();
+
+    const price = this.resolvePrice(input, catalog, rates, context);
+    const lineItems = priceLineItems(resolveLineItems(input, catalog, rates), input.currency);
+    const totals = calculateTotals(price, lineItems, input.currency);
+    const { total } = createDeductionSchedule({ ...input, totals });
+    const baseCurrency = catalog?.baseCurrency
+      || catalog?.pricing?.currency
+      || process.env.DEFAULT_BASE_CURRENCY
+      || input.currency;
+
+    return {
+      ...input,
+      price,
+      normalizedPrice: convertAmount(price, input.currency, baseCurrency, rates),
+      lineItems,
+      totals,
+      normalizedTotal: convertAmount(total, input.currency, baseCurrency, rates)
+    };
+  }
+
+  private resolvePrice(
+    input: CreateOrderRequest,
+    catalog: BikeCatalog | null,
+    rates: ExchangeRateTable | null,
+    context: InvocationContext
+  ): number {
+    if (catalog && !catalog.models.some((entry) => entry.model === input.bikeModel)) {
+      throw new ValidationError('Validation failed', [
+        `bikeModel: Unknown bike model "${input.bikeModel}"`
+      ]);
+    }
+
+    const quote = catalog ? calculateQuote(catalog, input) : null;
+    if (!quote) {
+      if (input.price === undefined) {
+        throw new ValidationError('Validation failed', [
+          'price: Price is required when the company has no price list for this bike model'
+        ]);
+      }
+      return input.price;
+    }
+
+    if (!hasExchangeRate(quote.currency, input.currency, rates)) {
+      throw new ValidationError('Validation failed', [
+        `currency: Prices for this company are quoted in ${quote.currency} and there is no exchange rate to ${input.currency}`
+      ]);
+    }
+
+    const quotedPrice = convertAmount(quote.total, quote.currency, input.currency, rates).amount;
+    if (input.price !== undefined && roundToMinorUnits(input.price, input.currency) !== quotedPrice) {
+      throw new OrderProcessingError(
+        `Submitted price ${input.price} does not match the quoted price ${quotedPrice} ${input.currency}`,
+        'PRICE_MISMATCH',
+        422
+      );
+    }
+
+    createLogger(context, { companyId: input.companyId })
+      .info(`Priced ${input.bikeModel} for ${quote.rentalDays} days at ${quotedPrice} ${input.currency}`);
+    return quotedPrice;
+  }
+
+  private async loadCatalog(companyId: string, context: InvocationContext): Promise<BikeCatalog | null> {
+    return withRetry(
+      () => this.orderRepository.getCatalog(companyId),
+      { maxAttempts: 2, dependency: STORAGE_DEPENDENCY },
+      context
+    );
+  }
+
+  /** Resolves null when the company has no price for the bike model. */
+  async findQuote(input: QuoteInput, context: InvocationContext): Promise<PriceQuote | null> {
+    const catalog = await this.loadCatalog(input.companyId, context);
+    return catalog ? calculateQuote(catalog, input) : null;
+  }
+}
+
+// A line to price, with the request fields to report problems against
+interface RequestedLine {
+  item: LineItemRequest;
+  skuPath: string;
+  /** Unset for accessories and insurance, which have no price of their own. */
+  unitPricePath?: string;
+}
+
+/**
+ * The lines an order asks for: its line items, then each v2 accessory as a
+ * one-off add-on under its name and a paid insurance plan as the recurring
+ * add-on `INSURANCE-{plan}`. Accessories and insurance are priced like any
+ * other add-on, so they cannot be ordered for free.
+ */
+function requestedLines(input: CreateOrderRequest): RequestedLine[] {
+  const lines: RequestedLine[] = (input.lineItems || []).map((item, index) => ({
+    item,
+    skuPath: `lineItems.${index}.sku`,
+    unitPricePath: `lineItems.${index}.unitPrice`
+  }));
+  (input.accessories || []).forEach((accessory, index) => lines.push({
+    item: { sku: accessory.name, quantity: accessory.quantity, billing: 'ONE_OFF' },
+    skuPath: `accessories.${index}.name`
+  }));
+  if (input.insurance && input.insurance !== 'NONE') {
+    lines.push({
+      item: { sku: `INSURANCE-${input.insurance}`, quantity: 1, billing: 'RECURRING' },
+      skuPath: 'insurance'
+    });
+  }
+
+  // Line items are checked for repeats by the schema; an accessory may
+  // still repeat one of them or another accessory
+  const seen = new Set<string>();
+  const repeated = lines
+    .map(({ item, skuPath }) => {
+      const key = `${item.sku}:${item.billing}`;
+      const repeat = seen.has(key);
+      seen.add(key);
+      return repeat ? `${skuPath}: ${item.sku} is already on the order; raise its quantity instead` : undefined;
+    })
+    .filter((violation) => violation !== undefined);
+  if (repeated.length > 0) {
+    throw new ValidationError('Validation failed', repeated);
+  }
+  return lines;
+}
+
+/**
+ * Sets each line's unit price from the price list's add-ons, taxed like the
+ * bike and converted into the order currency. With a price list only listed
+ * add-ons can be ordered and a submitted unit price must match; without one
+ * the submitted unit price is kept and becomes mandatory, and accessories
+ * and insurance cannot be ordered.
+ */
+function resolveLineItems(
+  input: CreateOrderRequest,
+  catalog: BikeCatalog | null,
+  rates: ExchangeRateTable | null
+): LineItemRequest[] {
+  const lines = requestedLines(input);
+  const pricing = catalog?.pricing;
+
+  if (!pricing) {
+    const unpriced = lines
+      .map(({ item, skuPath, unitPricePath }) => {
+        if (item.unitPrice !== undefined) {
+          return undefined;
+        }
+        return unitPricePath
+          ? `${unitPricePath}: Unit price is required when the company has no price list`
+          : `${skuPath}: ${item.sku} can only be ordered when the company has a price list`;
+      })
+      .filter((violation) => violation !== undefined);
+    if (unpriced.length > 0) {
+      throw new ValidationError('Validation failed', unpriced);
+    }
+    return lines.map(({ item }) => item);
+  }
+
+  const unlisted = lines
+    .map(({ item, skuPath }) => findAddOn(pricing, item) === undefined
+      ? `${skuPath}: ${item.sku} (${item.billing}) is not on the company's price list`
+      : undefined)
+    .filter((violation) => violation !== undefined);
+  if (unlisted.length > 0) {
+    throw new ValidationError('Validation failed', unlisted);
+  }
+  if (lines.length > 0 && !hasExchangeRate(pricing.currency, input.currency, rates)) {
+    throw new ValidationError('Validation failed', [
+      `currency: Prices for this company are quoted in ${pricing.currency} and there is no exchange rate to ${input.currency}`
+    ]);
+  }
+
+  return lines.map(({ item }) => {
+    const taxed = roundToMinorUnits(findAddOn(pricing, item).unitPrice * (1 + pricing.taxRate), pricing.currency);
+    const quotedPrice = convertAmount(taxed, pricing.currency, input.currency, rates).amount;
+    if (item.unitPrice !== undefined && roundToMinorUnits(item.unitPrice, input.currency) !== quotedPrice) {
+      throw new OrderProcessingError(
+        `Submitted unit price ${item.unitPrice} for ${item.sku} does not match the quoted price ${quotedPrice} ${input.currency}`,
+        'PRICE_MISMATCH',
+        422
+      );
+    }
+    return { ...item, unitPrice: quotedPrice };
+  });
+}
+
+function findAddOn(pricing: CatalogPricing, item: LineItemRequest): CatalogAddOn | undefined {
+  return (pricing.addOns || []).find((addOn) => addOn.sku === item.sku && addOn.billing === item.billing);
+}
+
+/** Returns null when the catalog has no price for the bike model. */
+export function calculateQuote(catalog: BikeCatalog, input: QuoteInput): PriceQuote | null {
+  const entry = catalog.models.find((candidate) => candidate.model === input.bikeModel);
+  if (!catalog.pricing || !entry || entry.dailyRate === undefined) {
+    return null;
+  }
+
+  const rentalDays = countRentalDays(input.startDate, input.endDate);
+  const discountPercent = findDiscountPercent(catalog.pricing, rentalDays);
+
+  const { currency, taxRate } = catalog.pricing;
+  const subtotal = roundToMinorUnits(entry.dailyRate * rentalDays, currency);
+  const discount = roundToMinorUnits(subtotal * discountPercent / 100, currency);
+  const tax = roundToMinorUnits((subtotal - discount) * taxRate, currency);
+
+  return {
+    companyId: catalog.companyId,
+    bikeModel: entry.model,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    currency,
+    rentalDays,
+    dailyRate: entry.dailyRate,
+    subtotal,
+    discountPercent,
+    discount,
+    taxRate,
+    tax,
+    total: roundToMinorUnits(subtotal - discount + tax, currency)
+  };
+}
+
+function findDiscountPercent(pricing: CatalogPricing, rentalDays: number): number {
+  return pricing.discountTiers
+    .filter((tier) => rentalDays >= tier.minDays)
+    .reduce((best, tier) => Math.max(best, tier.percent), 0);
+}
@@ -0,0 +1,82 @@
+import { InvocationContext } from '@azure/functions';
+import { RateLimit, RateLimitConfig } from '../schema/rateLimit.schema';
+import { RateLimitExceededError } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import { loadRateLimitConfig, toBucketLimit } from '../utils/rateLimit';
+import { RateLimitStore } from './rateLimitStore';
+
+/**
+ * Limits how fast a company, and optionally each of its employees, can create
+ * orders. Each limit is a token bucket; the company's rule applies, falling
+ * back to the default rule, and companies without either are not limited.
+ */
+export class RateLimitService {
+  constructor(
+    private store: RateLimitStore,
+    private config: RateLimitConfig = loadRateLimitConfig(),
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Takes a token from the employee's and the company's bucket and throws
+   * `RateLimitExceededError` when either is empty, giving back the tokens
+   * already taken so a refused request costs nothing. An unreachable store
+   * lets the request through: losing the limit briefly is better than losing
+   * orders.
+   */
+  async assertWithinLimit(
+    companyId: string,
+    employeeId: string,
+    context: InvocationContext
+  ): Promise<void> {
+    const rule = this.config.companies[companyId] || this.config.default;
+    if (!rule) {
+      return;
+    }
+
+    const buckets: { key: string; limit: RateLimit; scope: string }[] = [];
+    if (rule.employee) {
+      buckets.push({ key: `${companyId}/${employeeId}`, limit: rule.employee, scope: `employee of company ${companyId}` });
+    }
+    buckets.push({ key: companyId, limit: rule, scope: `company ${companyId}` });
+
+    const taken: typeof buckets = [];
+    for (const bucket of buckets) {
+      const { key, limit, scope } = bucket;
+      let result;
+      try {
+        result = await this.store.take(key, toBucketLimit(limit), this.now());
+      } catch (error) {
+        createLogger(context, { companyId }).warn('Rate limit store unavailable, request not limited', {
+          reason: (error as Error).message
+        });
+        return;
+      }
+      if (!result.allowed) {
+        await this.giveBack(taken, companyId, context);
+        throw new RateLimitExceededError(
+          `Too many orders for this ${scope}, retry in ${result.retryAfterSeconds}s`,
+          result.retryAfterSeconds
+        );
+      }
+      taken.push(bucket);
+    }
+  }
+
+  // A token that cannot be given back only delays the caller's next order
+  private async giveBack(
+    buckets: { key: string; limit: RateLimit }[],
+    companyId: string,
+    context: InvocationContext
+  ): Promise<void> {
+    for (const { key, limit } of buckets) {
+      try {
+        await this.store.giveBack(key, toBucketLimit(limit), this.now());
+      } catch (error) {
+        createLogger(context, { companyId }).warn('Rate limit store unavailable, token not given back', {
+          reason: (error as Error).message
+        });
+      }
+    }
+  }
+}
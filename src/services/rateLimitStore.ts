@@ -0,0 +1,48 @@
+import { OrderProcessingError } from "../utils/errors";
+import { BucketLimit, TakeTokenResult } from "../utils/rateLimit";
+import { traceMethods } from "../utils/telemetry";
+import { InMemoryRateLimitStore } from "./inMemoryRateLimitStore";
+import { BlobRateLimitStore } from "./blobRateLimitStore";
+
+export const RATE_LIMIT_DEPENDENCY = "rate-limit-store";
+
+/**
+ * Keeps token buckets. `take` refills the bucket at `key` and takes one
+ * token from it in a single step, so concurrent callers never share a token;
+ * `giveBack` returns a token the same way.
+ */
+export interface RateLimitStore {
+  take(key: string, limit: BucketLimit, now: number): Promise<TakeTokenResult>;
+  giveBack(key: string, limit: BucketLimit, now: number): Promise<void>;
+}
+
+export type RateLimitStoreKind = "memory" | "blob";
+
+// Buckets held in memory only limit anything if every invocation in the
+// process shares them.
+let inMemoryStore: InMemoryRateLimitStore | undefined;
+
+/**
+ * Creates the store selected by `RATE_LIMIT_STORE`: `memory` (default, per
+ * instance) or `blob` (shared by every instance through `AzureWebJobsStorage`).
+ */
+export function createRateLimitStore(): RateLimitStore {
+  return traceMethods(selectRateLimitStore(), RATE_LIMIT_DEPENDENCY);
+}
+
+function selectRateLimitStore(): RateLimitStore {
+  const kind = (process.env.RATE_LIMIT_STORE || "memory") as RateLimitStoreKind;
+
+  switch (kind) {
+    case "memory":
+      inMemoryStore = inMemoryStore || new InMemoryRateLimitStore();
+      return inMemoryStore;
+    case "blob":
+      return new BlobRateLimitStore(process.env.AzureWebJobsStorage || "");
+    default:
+      throw new OrderProcessingError(
+        `Unknown RATE_LIMIT_STORE "${kind}"`,
+        "RATE_LIMIT_CONFIG_ERROR"
+      );
+  }
+}
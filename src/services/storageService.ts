@@ -1,9 +1,48 @@
-import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
-import { Order } from "../types/Order";
-import { OrderProcessingError } from "../utils/errors";
+import { BlobItem, BlobServiceClient, BlockBlobClient, ContainerClient } from "@azure/storage-blob";
+import {
+  BikeCatalog,
+  BikeReservation,
+  CompanyPolicy,
+  IdempotencyRecord,
+  ListOrdersOptions,
+  Order,
+  OrderHistoryEntry,
+  OrderPage,
+  OrderStatus,
+  OrderSummary,
+  OrderSummaryPage,
+  OutboxEntry,
+} from "../types/Order";
+import { ConcurrencyConflictError, NotFoundError, OrderProcessingError } from "../utils/errors";
+import { requireEtag, withoutEtag } from "../utils/orderVersion";
+import { upcastOrder, upcastOutboxEntry } from "../utils/orderUpcaster";
+import { toOrderSummary } from "../utils/orderReport";
+import { createLogger } from "../utils/logger";
+import { toBlobNameSegment } from "../utils/blobName";
 import { InvocationContext } from "@azure/functions";
+import { OrderRepository } from "./orderRepository";
 
-export class StorageService {
+const DEFAULT_PAGE_SIZE = 50;
+const OUTBOX_PENDING_PREFIX = "_outbox/pending/";
+const OUTBOX_DISPATCHED_PREFIX = "_outbox/dispatched/";
+const CATALOG_PREFIX = "_catalog/";
+const POLICY_PREFIX = "_policies/";
+const RESERVATION_PREFIX = "_reservations/";
+const MAX_HISTORY_APPEND_ATTEMPTS = 5;
+const MAX_RESERVATION_ATTEMPTS = 5;
+const SUMMARY_METADATA_KEYS = [
+  "employeeId",
+  "status",
+  "bikeModel",
+  "currency",
+  "createdAt",
+  "startDate",
+  "endDate",
+  "oneOff",
+  "recurring",
+];
+
+export class StorageService implements OrderRepository {
   private blobServiceClient: BlobServiceClient;
   private containerClient: ContainerClient;
 
@@ -19,50 +58,686 @@ export class StorageService {
     } catch (error) {
       throw new OrderProcessingError(
         "Failed to initialize storage container",
-        "STORAGE_INIT_ERROR"
+        "STORAGE_INIT_ERROR",
+        500,
+        error
       );
     }
   }
   async storeOrder(order: Order, context: InvocationContext): Promise<void> {
+    const logger = createLogger(context, { orderId: order.id, companyId: order.companyId });
     try {
-      const blobName = `${order.companyId}/${order.id}.json`;
-      const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+      await this.uploadOrder(order);
+
+      logger.info(`Order ${order.id} stored successfully in blob storage`);
+    } catch (error) {
+      logger.error("Failed to store order in blob storage", error);
+      throw new OrderProcessingError(
+        "Failed to store order in storage",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async updateOrder(order: Order, context: InvocationContext): Promise<string> {
+    const ifMatch = requireEtag(order);
+    const logger = createLogger(context, { orderId: order.id, companyId: order.companyId });
+    try {
+      const etag = await this.uploadOrder(order, ifMatch);
+
+      logger.info(`Order ${order.id} updated in blob storage`);
+      return etag;
+    } catch (error) {
+      if (error.statusCode === 404) {
+        throw new NotFoundError(`Order ${order.id} not found`);
+      }
+      if (error.statusCode === 412) {
+        // A failed condition means either another writer won or the order is gone
+        if (!(await this.orderExists(order))) {
+          throw new NotFoundError(`Order ${order.id} not found`);
+        }
+        throw new ConcurrencyConflictError(`Order ${order.id} was changed by another request`);
+      }
+      logger.error("Failed to update order in blob storage", error);
+      throw new OrderProcessingError(
+        "Failed to update order in storage",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async deleteOrder(
+    orderId: string,
+    companyId: string,
+    context: InvocationContext
+  ): Promise<boolean> {
+    const logger = createLogger(context, { orderId, companyId });
+    try {
+      await this.containerClient.deleteBlob(`${companyId}/${orderId}.json`);
+      logger.info(`Order ${orderId} deleted from blob storage`);
+      return true;
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return false;
+      }
+      logger.error("Failed to delete order from blob storage", error);
+      throw new OrderProcessingError(
+        "Failed to delete order from storage",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async getOrder(orderId: string, companyId: string): Promise<Order | null> {
+    try {
+      const blobName = `${companyId}/${orderId}.json`;
+      return await this.downloadOrder(blobName);
+    } catch (error) {
+      // Only a missing blob means "no such order"; anything else may be
+      // transient and must not be mistaken for it
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw new OrderProcessingError(
+        "Failed to read order from storage",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * Lists one page of a company's orders. Status and employee filters are
+   * applied against blob metadata so non-matching orders are never downloaded;
+   * the creation date range is applied to the downloaded documents. A page can
+   * therefore hold fewer than `pageSize` orders while more remain.
+   */
+  async listOrders(
+    companyId: string,
+    options: ListOrdersOptions = {}
+  ): Promise<OrderPage> {
+    try {
+      const page = await this.listOrderBlobs(companyId, options);
+
+      const orders: Order[] = [];
+      for (const blob of page.blobs) {
+        const order = await this.downloadOrder(blob.name);
+        if (isCreatedWithin(order.createdAt, options)) {
+          orders.push(order);
+        }
+      }
+
+      return { orders, continuationToken: page.continuationToken };
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to list orders from storage",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * Like `listOrders`, but orders whose blob metadata carries the summary
+   * fields are read from the listing alone. Orders stored before those fields
+   * were written are downloaded until their next update adds them.
+   */
+  async listOrderSummaries(
+    companyId: string,
+    options: ListOrdersOptions = {}
+  ): Promise<OrderSummaryPage> {
+    try {
+      const page = await this.listOrderBlobs(companyId, options);
+
+      const summaries: OrderSummary[] = [];
+      for (const blob of page.blobs) {
+        const orderId = blob.name.slice(companyId.length + 1, -".json".length);
+        const summary =
+          summaryFromMetadata(orderId, blob.metadata || {}) ??
+          toOrderSummary(await this.downloadOrder(blob.name));
+        if (isCreatedWithin(summary.createdAt, options)) {
+          summaries.push(summary);
+        }
+      }
+
+      return { summaries, continuationToken: page.continuationToken };
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to list orders from storage",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async getOrderHistory(orderId: string, companyId: string): Promise<OrderHistoryEntry[]> {
+    try {
+      const blockBlobClient = this.containerClient.getBlockBlobClient(
+        this.historyBlobName(companyId, orderId)
+      );
+      return (await this.downloadHistory(blockBlobClient)).history;
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to read order history",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  // The history blob is rewritten on every append; the ETag condition makes
+  // concurrent appends retry instead of dropping each other's entries.
+  async appendOrderHistory(
+    orderId: string,
+    companyId: string,
+    entry: OrderHistoryEntry,
+    context: InvocationContext
+  ): Promise<void> {
+    const blockBlobClient = this.containerClient.getBlockBlobClient(
+      this.historyBlobName(companyId, orderId)
+    );
+    const logger = createLogger(context, { orderId, companyId });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const { history, etag } = await this.downloadHistory(blockBlobClient);
+        const historyData = JSON.stringify([...history, entry], null, 2);
+        try {
+          await blockBlobClient.upload(historyData, Buffer.byteLength(historyData), {
+            blobHTTPHeaders: {
+              blobContentType: "application/json",
+            },
+            metadata: {
+              companyId,
+              orderId,
+            },
+            conditions: etag ? { ifMatch: etag } : { ifNoneMatch: "*" },
+          });
+          break;
+        } catch (error) {
+          const conflict = error.statusCode === 409 || error.statusCode === 412;
+          if (!conflict || attempt >= MAX_HISTORY_APPEND_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+      logger.info(`History entry ${entry.action} recorded for order ${orderId}`);
+    } catch (error) {
+      logger.error("Failed to append order history", error);
+      throw new OrderProcessingError(
+        "Failed to append order history",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async getIdempotencyRecord(
+    companyId: string,
+    key: string
+  ): Promise<IdempotencyRecord | null> {
+    try {
+      const blockBlobClient = this.containerClient.getBlockBlobClient(
+        this.idempotencyBlobName(companyId, key)
+      );
+
+      const response = await blockBlobClient.download();
+      const recordData = await this.streamToString(response.readableStreamBody!);
+
+      return JSON.parse(recordData) as IdempotencyRecord;
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw new OrderProcessingError(
+        "Failed to read idempotency record",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
 
-      const orderData = JSON.stringify(order, null, 2);
+  async storeIdempotencyRecord(
+    record: IdempotencyRecord,
+    context: InvocationContext
+  ): Promise<void> {
+    const logger = createLogger(context, { orderId: record.result.orderId, companyId: record.companyId });
+    try {
+      const blockBlobClient = this.containerClient.getBlockBlobClient(
+        this.idempotencyBlobName(record.companyId, record.key)
+      );
 
-      await blockBlobClient.upload(orderData, orderData.length, {
+      const recordData = JSON.stringify(record, null, 2);
+
+      await blockBlobClient.upload(recordData, Buffer.byteLength(recordData), {
         blobHTTPHeaders: {
           blobContentType: "application/json",
         },
         metadata: {
-          companyId: order.companyId,
-          employeeId: order.employeeId,
-          status: order.status,
+          companyId: record.companyId,
+          orderId: record.result.orderId,
         },
       });
 
-      context.log(`Order ${order.id} stored successfully in blob storage`);
+      logger.info(`Idempotency record stored for order ${record.result.orderId}`);
     } catch (error) {
-      context.error("Failed to store order in blob storage:", error);
+      logger.error("Failed to store idempotency record", error);
       throw new OrderProcessingError(
-        "Failed to store order in storage",
-        "STORAGE_ERROR"
+        "Failed to store idempotency record",
+        "STORAGE_ERROR",
+        500,
+        error
       );
     }
   }
-  async getOrder(orderId: string, companyId: string): Promise<Order | null> {
+
+  async storeOutboxEntry(
+    entry: OutboxEntry,
+    context: InvocationContext
+  ): Promise<void> {
+    const logger = createLogger(context, { orderId: entry.orderId, companyId: entry.companyId });
+    try {
+      await this.uploadOutboxEntry(`${OUTBOX_PENDING_PREFIX}${entry.id}.json`, entry);
+      logger.info(`Outbox entry stored for order ${entry.orderId}`);
+    } catch (error) {
+      logger.error("Failed to store outbox entry", error);
+      throw new OrderProcessingError(
+        "Failed to store outbox entry",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async listPendingOutboxEntries(maxEntries: number): Promise<OutboxEntry[]> {
+    try {
+      const entries: OutboxEntry[] = [];
+      for await (const blob of this.containerClient.listBlobsFlat({
+        prefix: OUTBOX_PENDING_PREFIX,
+      })) {
+        if (entries.length >= maxEntries) {
+          break;
+        }
+        const blockBlobClient = this.containerClient.getBlockBlobClient(blob.name);
+        const response = await blockBlobClient.download();
+        const entryData = await this.streamToString(response.readableStreamBody!);
+        entries.push(upcastOutboxEntry(JSON.parse(entryData)));
+      }
+      return entries;
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to list pending outbox entries",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * Moves an entry from the pending to the dispatched prefix. The copy is
+   * written before the pending blob is removed, so a crash in between leads to
+   * a duplicate send (deduplicated downstream by messageId), never a lost one.
+   */
+  async markOutboxEntryDispatched(
+    entry: OutboxEntry,
+    context: InvocationContext
+  ): Promise<void> {
+    const logger = createLogger(context, { orderId: entry.orderId, companyId: entry.companyId });
+    try {
+      const dispatched: OutboxEntry = {
+        ...entry,
+        status: "DISPATCHED",
+        dispatchedAt: new Date(),
+      };
+      await this.uploadOutboxEntry(
+        `${OUTBOX_DISPATCHED_PREFIX}${entry.id}.json`,
+        dispatched
+      );
+      await this.containerClient.deleteBlob(
+        `${OUTBOX_PENDING_PREFIX}${entry.id}.json`
+      );
+      logger.info(`Outbox entry for order ${entry.orderId} marked as dispatched`);
+    } catch (error) {
+      logger.error("Failed to mark outbox entry as dispatched", error);
+      throw new OrderProcessingError(
+        "Failed to mark outbox entry as dispatched",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async deleteOutboxEntry(entry: OutboxEntry): Promise<void> {
+    try {
+      await this.containerClient.deleteBlob(
+        `${OUTBOX_PENDING_PREFIX}${entry.id}.json`
+      );
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to delete outbox entry",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async getCatalog(companyId: string): Promise<BikeCatalog | null> {
+    try {
+      return await this.downloadDocument<BikeCatalog>(`${CATALOG_PREFIX}${companyId}.json`);
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to read bike catalog",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async storeCatalog(catalog: BikeCatalog, context: InvocationContext): Promise<void> {
+    const logger = createLogger(context, { companyId: catalog.companyId });
+    try {
+      await this.uploadDocument(`${CATALOG_PREFIX}${catalog.companyId}.json`, catalog, {
+        companyId: catalog.companyId,
+      });
+      logger.info(`Bike catalog stored for company ${catalog.companyId}`);
+    } catch (error) {
+      logger.error("Failed to store bike catalog", error);
+      throw new OrderProcessingError(
+        "Failed to store bike catalog",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async getReservations(companyId: string, bikeModel: string): Promise<BikeReservation[]> {
+    try {
+      const blockBlobClient = this.containerClient.getBlockBlobClient(
+        this.reservationBlobName(companyId, bikeModel)
+      );
+      return (await this.downloadReservations(blockBlobClient)).reservations;
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to read bike reservations",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  // Rewritten like the order history: the ETag condition makes instances
+  // reserving the same model at once re-run `update` instead of both winning.
+  async updateReservations(
+    companyId: string,
+    bikeModel: string,
+    update: (reservations: BikeReservation[]) => Promise<BikeReservation[]>,
+    context: InvocationContext
+  ): Promise<void> {
+    const blockBlobClient = this.containerClient.getBlockBlobClient(
+      this.reservationBlobName(companyId, bikeModel)
+    );
+    const logger = createLogger(context, { companyId });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const { reservations, etag } = await this.downloadReservations(blockBlobClient);
+        const reservationData = JSON.stringify(await update(reservations), null, 2);
+        try {
+          await blockBlobClient.upload(reservationData, Buffer.byteLength(reservationData), {
+            blobHTTPHeaders: {
+              blobContentType: "application/json",
+            },
+            metadata: {
+              companyId,
+            },
+            conditions: etag ? { ifMatch: etag } : { ifNoneMatch: "*" },
+          });
+          break;
+        } catch (error) {
+          const conflict = error.statusCode === 409 || error.statusCode === 412;
+          if (!conflict || attempt >= MAX_RESERVATION_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+      logger.info(`Reservations for ${bikeModel} updated`);
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      logger.error("Failed to update bike reservations", error);
+      throw new OrderProcessingError(
+        "Failed to update bike reservations",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async getPolicy(companyId: string): Promise<CompanyPolicy | null> {
+    try {
+      return await this.downloadDocument<CompanyPolicy>(`${POLICY_PREFIX}${companyId}.json`);
+    } catch (error) {
+      throw new OrderProcessingError(
+        "Failed to read company policy",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  async storePolicy(policy: CompanyPolicy, context: InvocationContext): Promise<void> {
+    const logger = createLogger(context, { companyId: policy.companyId });
+    try {
+      await this.uploadDocument(`${POLICY_PREFIX}${policy.companyId}.json`, policy, {
+        companyId: policy.companyId,
+      });
+      logger.info(`Policy stored for company ${policy.companyId}`);
+    } catch (error) {
+      logger.error("Failed to store company policy", error);
+      throw new OrderProcessingError(
+        "Failed to store company policy",
+        "STORAGE_ERROR",
+        500,
+        error
+      );
+    }
+  }
+
+  /** Downloads and parses a JSON blob; resolves null if it does not exist. */
+  private async downloadDocument<T>(blobName: string): Promise<T | null> {
     try {
-      const blobName = `${companyId}/${orderId}.json`;
       const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+      const response = await blockBlobClient.download();
+      return JSON.parse(await this.streamToString(response.readableStreamBody!)) as T;
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async uploadDocument(
+    blobName: string,
+    document: unknown,
+    metadata: Record<string, string>
+  ): Promise<void> {
+    const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+    const data = JSON.stringify(document, null, 2);
+
+    await blockBlobClient.upload(data, Buffer.byteLength(data), {
+      blobHTTPHeaders: {
+        blobContentType: "application/json",
+      },
+      metadata,
+    });
+  }
+
+  private async uploadOutboxEntry(
+    blobName: string,
+    entry: OutboxEntry
+  ): Promise<void> {
+    const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+    const entryData = JSON.stringify(entry, null, 2);
+
+    await blockBlobClient.upload(entryData, Buffer.byteLength(entryData), {
+      blobHTTPHeaders: {
+        blobContentType: "application/json",
+      },
+      metadata: {
+        companyId: entry.companyId,
+        orderId: entry.orderId,
+        status: entry.status,
+      },
+    });
+  }
+
+  private historyBlobName(companyId: string, orderId: string): string {
+    return `${companyId}/${orderId}.history.json`;
+  }
 
+  private async downloadHistory(
+    blockBlobClient: BlockBlobClient
+  ): Promise<{ history: OrderHistoryEntry[]; etag?: string }> {
+    try {
       const response = await blockBlobClient.download();
-      const orderData = await this.streamToString(response.readableStreamBody!);
+      const historyData = await this.streamToString(response.readableStreamBody!);
+      return { history: JSON.parse(historyData), etag: response.etag };
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return { history: [] };
+      }
+      throw error;
+    }
+  }
+
+  // Model names are free text, so they are hashed into the blob name
+  private reservationBlobName(companyId: string, bikeModel: string): string {
+    return `${RESERVATION_PREFIX}${companyId}/${toBlobNameSegment(bikeModel)}.json`;
+  }
+
+  private async downloadReservations(
+    blockBlobClient: BlockBlobClient
+  ): Promise<{ reservations: BikeReservation[]; etag?: string }> {
+    try {
+      const response = await blockBlobClient.download();
+      const reservationData = await this.streamToString(response.readableStreamBody!);
+      return { reservations: JSON.parse(reservationData), etag: response.etag };
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return { reservations: [] };
+      }
+      throw error;
+    }
+  }
+
+  private idempotencyBlobName(companyId: string, key: string): string {
+    return `${companyId}/idempotency/${key}.json`;
+  }
+
+  private isOrderBlob(blobName: string, companyId: string): boolean {
+    const orderId = blobName.slice(companyId.length + 1);
+    return /^[^/.]+\.json$/.test(orderId);
+  }
 
-      return JSON.parse(orderData) as Order;
+  // One page of the company's order blobs that pass the metadata filters
+  private async listOrderBlobs(
+    companyId: string,
+    options: ListOrdersOptions
+  ): Promise<{ blobs: BlobItem[]; continuationToken?: string }> {
+    const pages = this.containerClient
+      .listBlobsFlat({ prefix: `${companyId}/`, includeMetadata: true })
+      .byPage({
+        continuationToken: options.continuationToken,
+        maxPageSize: options.pageSize || DEFAULT_PAGE_SIZE,
+      });
+
+    const { value: page } = await pages.next();
+    if (!page) {
+      return { blobs: [] };
+    }
+
+    const blobs = page.segment.blobItems.filter((blob) => {
+      const metadata = blob.metadata || {};
+      return (
+        this.isOrderBlob(blob.name, companyId) &&
+        (!options.status || metadataValue(metadata, "status") === options.status) &&
+        (!options.employeeId || metadataValue(metadata, "employeeId") === options.employeeId)
+      );
+    });
+    return { blobs, continuationToken: page.continuationToken || undefined };
+  }
+
+  private async uploadOrder(order: Order, ifMatch?: string): Promise<string> {
+    const blobName = `${order.companyId}/${order.id}.json`;
+    const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+
+    const orderData = JSON.stringify(withoutEtag(order), null, 2);
+
+    const response = await blockBlobClient.upload(orderData, Buffer.byteLength(orderData), {
+      blobHTTPHeaders: {
+        blobContentType: "application/json",
+      },
+      metadata: {
+        companyId: order.companyId,
+        employeeId: order.employeeId,
+        status: order.status,
+        // Summary fields for reports; metadata values must be ASCII
+        bikeModel: encodeURIComponent(order.bikeModel),
+        currency: order.currency,
+        createdAt: new Date(order.createdAt).toISOString(),
+        startDate: new Date(order.startDate).toISOString(),
+        endDate: new Date(order.endDate).toISOString(),
+        oneOff: String(order.totals.oneOff),
+        recurring: String(order.totals.recurring),
+      },
+      conditions: ifMatch ? { ifMatch } : undefined,
+    });
+    return response.etag;
+  }
+
+  private async downloadOrder(blobName: string): Promise<Order> {
+    const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+
+    const response = await blockBlobClient.download();
+    const orderData = await this.streamToString(response.readableStreamBody!);
+
+    return { ...upcastOrder(JSON.parse(orderData)), etag: response.etag };
+  }
+
+  private async orderExists(order: Order): Promise<boolean> {
+    try {
+      return await this.containerClient
+        .getBlockBlobClient(`${order.companyId}/${order.id}.json`)
+        .exists();
     } catch (error) {
-      return null;
+      // Assume it exists: a conflict is the safer answer to retry on
+      return true;
     }
   }
+
   private async streamToString(
     readableStream: NodeJS.ReadableStream
   ): Promise<string> {
@@ -78,3 +753,40 @@ export class StorageService {
     });
   }
 }
+
+// Blob metadata keys come back lower-cased from the service.
+function metadataValue(
+  metadata: Record<string, string>,
+  key: string
+): string | undefined {
+  return metadata[key] ?? metadata[key.toLowerCase()];
+}
+
+/** Null when the blob was written before the summary fields were added. */
+function summaryFromMetadata(
+  orderId: string,
+  metadata: Record<string, string>
+): OrderSummary | null {
+  const values = SUMMARY_METADATA_KEYS.map((key) => metadataValue(metadata, key));
+  if (values.some((value) => value === undefined)) {
+    return null;
+  }
+
+  const [employeeId, status, bikeModel, currency, createdAt, startDate, endDate, oneOff, recurring] = values;
+  return {
+    id: orderId,
+    employeeId,
+    status: status as OrderStatus,
+    bikeModel: decodeURIComponent(bikeModel),
+    currency,
+    createdAt,
+    startDate,
+    endDate,
+    totals: { oneOff: Number(oneOff), recurring: Number(recurring) },
+  };
+}
+
+function isCreatedWithin(createdAt: Date | string, options: ListOrdersOptions): boolean {
+  const created = new Date(createdAt);
+  return (!options.from || created >= options.from) && (!options.to || created <= options.to);
+}
@@ -1,15 +1,120 @@
+export type OrderStatus = "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED";
+
+export type InsurancePlan = "NONE" | "BASIC" | "FULL";
+
+export interface OrderAccessory {
+  name: string;
+  quantity: number;
+}
+
+export type LineItemBilling = "ONE_OFF" | "RECURRING";
+
+/** An add-on ordered with the bike, e.g. a lock or a servicing plan. */
+export interface LineItemRequest {
+  sku: string;
+  quantity: number;
+  /**
+   * In the order currency; per month of the lease for recurring items.
+   * Filled in from the company's price list when omitted.
+   */
+  unitPrice?: number;
+  billing: LineItemBilling;
+}
+
+export interface OrderLineItem extends LineItemRequest {
+  unitPrice: number;
+  /** `quantity` times `unitPrice`, rounded to the order currency. */
+  total: number;
+}
+
+/** Amounts in the order currency, computed server-side. */
+export interface OrderTotals {
+  /** The bike price plus all one-off line items. */
+  oneOff: number;
+  /** Recurring line items, charged per month of the lease. */
+  recurring: number;
+}
+
+/** One month's salary deduction, in the order currency. */
+export interface DeductionInstallment {
+  /** 1-based position in the schedule. */
+  number: number;
+  /** Payroll month the deduction is taken in, `YYYY-MM`. */
+  period: string;
+  /** This month's share of the one-off total. */
+  principal: number;
+  /** Recurring line items for the month. */
+  recurring: number;
+  amount: number;
+}
+
+export interface DeductionSchedule {
+  currency: string;
+  /** Sum of all installments: the one-off total plus every month's recurring charges. */
+  total: number;
+  installments: DeductionInstallment[];
+}
+
+/** A deduction due in one payroll month, as exported to payroll systems. */
+export interface PayrollDeduction {
+  employeeId: string;
+  orderId: string;
+  period: string;
+  /** Position of the installment and the length of its schedule. */
+  installment: number;
+  installments: number;
+  amount: number;
+  currency: string;
+}
+
+export interface DeliveryAddress {
+  street: string;
+  postalCode: string;
+  city: string;
+  /** ISO 3166-1 alpha-2 code, e.g. DE. */
+  country: string;
+}
+
 export interface Order {
+  /** Version of the stored document layout; older documents are upcast on read. */
+  schemaVersion: number;
   id: string;
   employeeId: string;
   bikeModel: string;
   startDate: Date;
   endDate: Date;
-  status: "PENDING" | "APPROVED" | "REJECTED";
+  status: OrderStatus;
   price: number;
   currency: string;
   companyId: string;
   createdAt: Date;
   updatedAt: Date;
+  decidedBy?: string;
+  decisionReason?: string;
+  decidedAt?: Date;
+  cancelledBy?: string;
+  cancellationReason?: string;
+  cancelledAt?: Date;
+  /** The price converted into the company's base currency when ordered. */
+  normalizedPrice?: NormalizedAmount;
+  accessories: OrderAccessory[];
+  insurance: InsurancePlan;
+  /** Where the bike is delivered; picked up on site when absent. */
+  deliveryAddress?: DeliveryAddress;
+  lineItems: OrderLineItem[];
+  totals: OrderTotals;
+  /** Salary-sacrifice installments, regenerated whenever the amounts or dates change. */
+  deductionSchedule: DeductionSchedule;
+  /** Storage version the order was read at; never part of the stored document. */
+  etag?: string;
+}
+
+export interface NormalizedAmount {
+  amount: number;
+  currency: string;
+  /** Units of `currency` per unit of the order currency. */
+  exchangeRate: number;
+  ratesAsOf?: string;
 }
 
 export interface CreateOrderRequest {
@@ -17,9 +122,66 @@ export interface CreateOrderRequest {
   bikeModel: string;
   startDate: string;
   endDate: string;
-  price: number;
+  /** Filled in from the company's price list when omitted. */
+  price?: number;
   currency: string;
   companyId: string;
+  /**
+   * v2 contract only, like `insurance` and `deliveryAddress`. Each accessory
+   * is priced as the one-off add-on with its name as SKU; deprecated in
+   * favour of `lineItems`.
+   */
+  accessories?: OrderAccessory[];
+  /**
+   * Defaults to `NONE`. A paid plan is priced as the recurring add-on
+   * `INSURANCE-{plan}`; deprecated in favour of `lineItems`.
+   */
+  insurance?: InsurancePlan;
+  deliveryAddress?: DeliveryAddress;
+  /** v2 contract only; priced and totalled server-side. */
+  lineItems?: LineItemRequest[];
+}
+
+/** A create request after server-side pricing. */
+export interface PricedOrderRequest extends CreateOrderRequest {
+  price: number;
+  normalizedPrice: NormalizedAmount;
+  lineItems: OrderLineItem[];
+  totals: OrderTotals;
+  /** The whole lease, one-off and every month's recurring amounts, in the base currency. */
+  normalizedTotal: NormalizedAmount;
+}
+
+export interface OrderDecisionRequest {
+  /** Token subject of the caller, or the automated approver. */
+  decidedBy: string;
+  reason?: string;
+}
+
+/** Fields of a `PENDING` order that can still be changed. */
+export interface OrderModificationRequest {
+  /** Token subject of the caller. */
+  modifiedBy: string;
+  bikeModel?: string;
+  startDate?: string;
+  endDate?: string;
+  price?: number;
+  currency?: string;
+}
+
+export interface OrderFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export type OrderHistoryAction = "MODIFIED" | "STATUS_CHANGED";
+
+export interface OrderHistoryEntry {
+  action: OrderHistoryAction;
+  changedBy: string;
+  changedAt: Date;
+  reason?: string;
+  changes: Record<string, OrderFieldChange>;
 }
 
 export interface OrderProcessingResult {
@@ -28,3 +190,194 @@ export interface OrderProcessingResult {
   message: string;
   errors?: string[];
 }
+
+export interface ImportRowResult {
+  row: number;
+  success: boolean;
+  orderId?: string;
+  /** Error code of a row rejected for a business rule, e.g. `BIKE_UNAVAILABLE`. */
+  code?: string;
+  errors?: string[];
+}
+
+export interface ImportOrdersResult {
+  success: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: ImportRowResult[];
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  companyId: string;
+  requestHash: string;
+  statusCode: number;
+  result: OrderProcessingResult;
+  createdAt: Date;
+}
+
+export type OutboxStatus = "PENDING" | "DISPATCHED";
+
+export interface OutboxEntry {
+  id: string;
+  orderId: string;
+  companyId: string;
+  messageType: "OrderCreated";
+  status: OutboxStatus;
+  order: Order;
+  attempts: number;
+  lastError?: string;
+  /** Correlation id of the request that created the order, reused when relaying. */
+  correlationId?: string;
+  createdAt: Date;
+  dispatchedAt?: Date;
+}
+
+export interface ListOrdersOptions {
+  status?: OrderStatus;
+  employeeId?: string;
+  from?: Date;
+  to?: Date;
+  continuationToken?: string;
+  pageSize?: number;
+}
+
+export interface OrderPage {
+  orders: Order[];
+  continuationToken?: string;
+}
+
+/** The fields reports group orders by, readable without the full document. */
+export interface OrderSummary {
+  id: string;
+  employeeId: string;
+  status: OrderStatus;
+  bikeModel: string;
+  currency: string;
+  /** ISO 8601, UTC. */
+  createdAt: string;
+  /** Rental period, ISO 8601, UTC. */
+  startDate: string;
+  endDate: string;
+  totals: OrderTotals;
+}
+
+export interface OrderSummaryPage {
+  summaries: OrderSummary[];
+  continuationToken?: string;
+}
+
+export interface CurrencyTotals {
+  orders: number;
+  oneOff: number;
+  recurring: number;
+}
+
+/** Order counts of a company by status, bike model and creation month (`YYYY-MM`, UTC). */
+export interface OrderReport {
+  orderCount: number;
+  byStatus: Partial<Record<OrderStatus, number>>;
+  byBikeModel: Record<string, number>;
+  byMonth: Record<string, number>;
+  /** Amounts are only summed within a currency. */
+  byCurrency: Record<string, CurrencyTotals>;
+}
+
+export interface CatalogBikeModel {
+  model: string;
+  stock: number;
+  description?: string;
+  dailyRate?: number;
+}
+
+export interface DiscountTier {
+  minDays: number;
+  percent: number;
+}
+
+/** A line item the company sells, priced before tax like a daily rate. */
+export interface CatalogAddOn {
+  sku: string;
+  billing: LineItemBilling;
+  unitPrice: number;
+}
+
+export interface CatalogPricing {
+  currency: string;
+  /** Fraction applied after discounts, e.g. 0.19 for 19% VAT. */
+  taxRate: number;
+  discountTiers: DiscountTier[];
+  /** Line items not listed here cannot be ordered. */
+  addOns?: CatalogAddOn[];
+}
+
+export interface BikeCatalog {
+  companyId: string;
+  models: CatalogBikeModel[];
+  pricing?: CatalogPricing;
+  /** Currency order amounts are normalized to; defaults to the pricing currency. */
+  baseCurrency?: string;
+  updatedAt: Date;
+}
+
+export interface ExchangeRateTable {
+  /** Rates are units of each currency per one unit of `base`. */
+  base: string;
+  asOf?: string;
+  rates: Record<string, number>;
+}
+
+export interface BikeAvailability {
+  companyId: string;
+  bikeModel: string;
+  startDate: string;
+  endDate: string;
+  stock: number;
+  booked: number;
+  available: number;
+}
+
+/**
+ * A bike held for an order from its availability check until the stored
+ * order is listed, so concurrent bookings cannot both take the last bike.
+ */
+export interface BikeReservation {
+  orderId: string;
+  /** Rental period, ISO 8601. */
+  startDate: string;
+  endDate: string;
+  /** ISO 8601; the reservation lapses a few minutes later. */
+  reservedAt: string;
+}
+
+export interface PriceQuote {
+  companyId: string;
+  bikeModel: string;
+  startDate: string;
+  endDate: string;
+  currency: string;
+  rentalDays: number;
+  dailyRate: number;
+  subtotal: number;
+  discountPercent: number;
+  discount: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+/** Lease rules a company applies on top of the global order schema. */
+export interface CompanyPolicy {
+  companyId: string;
+  /**
+   * Upper bound on the order total in the company's base currency: the bike,
+   * one-off line items and every month of recurring line items.
+   */
+  maxPrice?: number;
+  allowedBikeModels?: string[];
+  maxRentalDays?: number;
+  minLeadTimeHours?: number;
+  maxConcurrentOrdersPerEmployee?: number;
+  updatedAt: Date;
+}
@@ -0,0 +1,173 @@
+import { HttpRequest } from '@azure/functions';
+import { readFileSync } from 'fs';
+import { createLocalJWKSet, errors as joseErrors, JSONWebKeySet, JWTPayload, jwtVerify, JWTVerifyOptions } from 'jose';
+import { AuthenticationError, ForbiddenError, OrderProcessingError } from './errors';
+
+export type CallerRole = 'employee' | 'company_admin' | 'platform_admin';
+
+/** Who is calling, as established from their bearer token. */
+export interface Caller {
+  subject: string;
+  role: CallerRole;
+  /** Company the caller belongs to; absent only for platform admins. */
+  companyId?: string;
+  /** Employee the caller acts as; required for the employee role. */
+  employeeId?: string;
+}
+
+export type AuthMode = 'jwt' | 'none';
+
+// Most privileged first, so a token listing several roles gets the highest
+const ROLES: CallerRole[] = ['platform_admin', 'company_admin', 'employee'];
+
+const HMAC_ALGORITHMS = ['HS256', 'HS384', 'HS512'];
+const ASYMMETRIC_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'];
+
+/**
+ * Local development without tokens (`AUTH_MODE=none`) acts as a platform
+ * admin, so every authorization check passes.
+ */
+const UNAUTHENTICATED_CALLER: Caller = { subject: 'anonymous', role: 'platform_admin' };
+
+/**
+ * Verifies the request's `Authorization: Bearer` token and maps its claims to
+ * a caller. Tokens are checked against `AUTH_JWKS` / `AUTH_JWKS_PATH` (public
+ * keys) or `AUTH_JWT_SECRET` (HMAC), plus `AUTH_ISSUER` and `AUTH_AUDIENCE`
+ * when set. Throws `AuthenticationError` for missing or invalid tokens.
+ */
+export async function authenticate(request: HttpRequest): Promise<Caller> {
+  if (loadAuthMode() === 'none') {
+    return UNAUTHENTICATED_CALLER;
+  }
+
+  const header = request.headers?.get('authorization') || '';
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  if (!match) {
+    throw new AuthenticationError('Bearer token is required');
+  }
+
+  let payload: JWTPayload;
+  try {
+    payload = await verifyToken(match[1]);
+  } catch (error) {
+    if (error instanceof OrderProcessingError) {
+      throw error;
+    }
+    throw new AuthenticationError(
+      error instanceof joseErrors.JWTExpired ? 'Bearer token has expired' : 'Bearer token is invalid'
+    );
+  }
+
+  return toCaller(payload);
+}
+
+/** Rejects callers outside `companyId`; platform admins may act on any company. */
+export function authorizeCompany(caller: Caller, companyId: string): void {
+  if (caller.role !== 'platform_admin' && caller.companyId !== companyId) {
+    throw new ForbiddenError(`Not allowed to access company ${companyId}`);
+  }
+}
+
+/**
+ * Rejects callers who may not act for this employee: employees only act for
+ * themselves, admins for anyone in their company.
+ */
+export function authorizeEmployee(caller: Caller, companyId: string, employeeId: string): void {
+  authorizeCompany(caller, companyId);
+  if (caller.role === 'employee' && caller.employeeId !== employeeId) {
+    throw new ForbiddenError('Employees can only act on their own orders');
+  }
+}
+
+/** Rejects callers that are not company or platform admins of `companyId`. */
+export function authorizeAdmin(caller: Caller, companyId: string): void {
+  authorizeCompany(caller, companyId);
+  if (caller.role === 'employee') {
+    throw new ForbiddenError('Only company admins can do this');
+  }
+}
+
+export function loadAuthMode(): AuthMode {
+  return process.env.AUTH_MODE === 'none' ? 'none' : 'jwt';
+}
+
+async function verifyToken(token: string): Promise<JWTPayload> {
+  const options: JWTVerifyOptions = {
+    issuer: process.env.AUTH_ISSUER || undefined,
+    audience: process.env.AUTH_AUDIENCE || undefined
+  };
+
+  const jwks = loadJwks();
+  if (jwks) {
+    const { payload } = await jwtVerify(token, createLocalJWKSet(jwks), {
+      ...options,
+      algorithms: ASYMMETRIC_ALGORITHMS
+    });
+    return payload;
+  }
+
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (secret) {
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(secret), {
+      ...options,
+      algorithms: HMAC_ALGORITHMS
+    });
+    return payload;
+  }
+
+  throw new OrderProcessingError(
+    'No token verification key is configured (AUTH_JWKS, AUTH_JWKS_PATH or AUTH_JWT_SECRET)',
+    'AUTH_CONFIG_ERROR'
+  );
+}
+
+function loadJwks(): JSONWebKeySet | undefined {
+  const inline = process.env.AUTH_JWKS;
+  const filePath = process.env.AUTH_JWKS_PATH;
+  if (!inline && !filePath) {
+    return undefined;
+  }
+
+  let jwks: JSONWebKeySet;
+  try {
+    jwks = JSON.parse(inline || readFileSync(filePath!, 'utf8'));
+  } catch (error) {
+    throw new OrderProcessingError('JWKS could not be read', 'AUTH_CONFIG_ERROR');
+  }
+  if (!Array.isArray(jwks?.keys)) {
+    throw new OrderProcessingError('JWKS must have a "keys" array', 'AUTH_CONFIG_ERROR');
+  }
+  return jwks;
+}
+
+/**
+ * Maps claims to a caller. Claim names come from `AUTH_ROLE_CLAIM` (default
+ * `role`, a string or array), `AUTH_COMPANY_CLAIM` (default `company_id`) and
+ * `AUTH_EMPLOYEE_CLAIM` (default `sub`). Tokens without a known role are
+ * treated as employees.
+ */
+function toCaller(payload: JWTPayload): Caller {
+  const roleClaim = payload[process.env.AUTH_ROLE_CLAIM || 'role'];
+  const claimedRoles = Array.isArray(roleClaim) ? roleClaim : [roleClaim];
+  const role = ROLES.find((candidate) => claimedRoles.includes(candidate)) ?? 'employee';
+
+  const caller: Caller = {
+    subject: payload.sub ?? '',
+    role,
+    companyId: stringClaim(payload, process.env.AUTH_COMPANY_CLAIM || 'company_id'),
+    employeeId: stringClaim(payload, process.env.AUTH_EMPLOYEE_CLAIM || 'sub')
+  };
+
+  if (role !== 'platform_admin' && !caller.companyId) {
+    throw new ForbiddenError('Token is not bound to a company');
+  }
+  if (role === 'employee' && !caller.employeeId) {
+    throw new ForbiddenError('Token does not identify an employee');
+  }
+  return caller;
+}
+
+function stringClaim(payload: JWTPayload, name: string): string | undefined {
+  const value = payload[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs';
+import { Order } from '../types/Order';
+import { AutoApprovalConfig, AutoApprovalConfigSchema, AutoApprovalRule } from '../schema/autoApproval.schema';
+import { OrderProcessingError, toValidationErrors } from './errors';
+import { countRentalDays } from './rentalPeriod';
+
+export interface AutoApprovalResult {
+  approved: boolean;
+  reasons: string[];
+}
+
+/**
+ * Reads the rules from `AUTO_APPROVAL_RULES` (inline JSON) or the file named
+ * by `AUTO_APPROVAL_RULES_PATH`. Without either, nothing is auto-approved.
+ */
+export function loadAutoApprovalConfig(): AutoApprovalConfig {
+  const inline = process.env.AUTO_APPROVAL_RULES;
+  const filePath = process.env.AUTO_APPROVAL_RULES_PATH;
+  if (!inline && !filePath) {
+    return { companies: {} };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(inline || readFileSync(filePath!, 'utf8'));
+  } catch (error) {
+    throw new OrderProcessingError(
+      'Auto-approval rules could not be read',
+      'AUTO_APPROVAL_CONFIG_ERROR'
+    );
+  }
+
+  const parsed = AutoApprovalConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new OrderProcessingError(
+      `Invalid auto-approval rules: ${toValidationErrors(parsed.error).join('; ')}`,
+      'AUTO_APPROVAL_CONFIG_ERROR'
+    );
+  }
+  return parsed.data as AutoApprovalConfig;
+}
+
+/**
+ * Evaluates the company's rule (falling back to the default rule) against an
+ * order. Every constraint in the rule must hold; the reasons list the ones
+ * that did not, or describe why the order qualified.
+ */
+export function evaluateAutoApproval(
+  order: Order,
+  config: AutoApprovalConfig
+): AutoApprovalResult {
+  const rule: AutoApprovalRule | undefined = config.companies[order.companyId] || config.default;
+  if (!rule || !rule.enabled) {
+    return { approved: false, reasons: ['No auto-approval rule applies to this company'] };
+  }
+
+  const failures: string[] = [];
+  if (rule.currency && rule.currency !== order.currency) {
+    failures.push(`Currency ${order.currency} is not ${rule.currency}`);
+  }
+  // The whole lease counts, like the company policy's limit: the bike, one-off
+  // line items and every month of recurring ones
+  const { total } = order.deductionSchedule;
+  if (rule.maxPrice !== undefined && total > rule.maxPrice) {
+    failures.push(`Order total ${total} exceeds limit ${rule.maxPrice}`);
+  }
+  if (rule.maxRentalDays !== undefined) {
+    const days = countRentalDays(order.startDate, order.endDate);
+    if (days > rule.maxRentalDays) {
+      failures.push(`Rental of ${days} days exceeds ${rule.maxRentalDays} days`);
+    }
+  }
+  if (rule.bikeModels && !rule.bikeModels.includes(order.bikeModel)) {
+    failures.push(`Bike model ${order.bikeModel} is not eligible`);
+  }
+
+  if (failures.length > 0) {
+    return { approved: false, reasons: failures };
+  }
+  return { approved: true, reasons: ['Order satisfies the company auto-approval rule'] };
+}
@@ -0,0 +1,9 @@
+import { createHash } from 'crypto';
+
+/**
+ * Turns a caller-supplied identifier into a fixed-length blob name segment,
+ * so slashes, dots or other characters in it cannot change the blob path.
+ */
+export function toBlobNameSegment(identifier: string): string {
+  return createHash('sha256').update(identifier).digest('hex');
+}
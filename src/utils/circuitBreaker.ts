@@ -0,0 +1,117 @@
+import { ServiceUnavailableError } from './errors';
+
+export const STORAGE_DEPENDENCY = 'order-storage';
+export const MESSAGING_DEPENDENCY = 'order-messaging';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive transient failures that open the circuit. */
+  failureThreshold: number;
+  /** Milliseconds the circuit stays open before a trial call is let through. */
+  resetTimeout: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeout: 30000
+};
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/**
+ * Stops calling a dependency once it keeps failing. While the circuit is
+ * open every call fails fast with `ServiceUnavailableError`; after
+ * `resetTimeout` a single trial call decides whether it closes again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    public readonly dependency: string,
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    private now: () => number = Date.now
+  ) {}
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /** Throws `ServiceUnavailableError` unless a call may go through now. */
+  assertCallAllowed(): void {
+    if (this.state === 'OPEN' && this.now() - this.openedAt >= this.options.resetTimeout) {
+      this.state = 'HALF_OPEN';
+    }
+
+    if (this.state === 'OPEN' || (this.state === 'HALF_OPEN' && this.trialInFlight)) {
+      throw new ServiceUnavailableError(
+        `${this.dependency} is unavailable, failing fast`,
+        this.retryAfterSeconds()
+      );
+    }
+
+    if (this.state === 'HALF_OPEN') {
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'CLOSED';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'HALF_OPEN' || this.failures >= this.options.failureThreshold) {
+      this.state = 'OPEN';
+      this.openedAt = this.now();
+    }
+  }
+
+  private retryAfterSeconds(): number {
+    const remaining = this.options.resetTimeout - (this.now() - this.openedAt);
+    return Math.max(Math.ceil(remaining / 1000), 1);
+  }
+}
+
+// Function hosts keep modules loaded between invocations, so one breaker per
+// dependency is shared by every invocation in the process.
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Returns the process-wide breaker for a dependency, created on first use
+ * from `CIRCUIT_BREAKER_FAILURE_THRESHOLD` and `CIRCUIT_BREAKER_RESET_MS`.
+ */
+export function getCircuitBreaker(dependency: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(dependency);
+  if (!breaker) {
+    breaker = new CircuitBreaker(dependency, loadCircuitBreakerOptions());
+    circuitBreakers.set(dependency, breaker);
+  }
+  return breaker;
+}
+
+export function resetCircuitBreakers(): void {
+  circuitBreakers.clear();
+}
+
+function loadCircuitBreakerOptions(): CircuitBreakerOptions {
+  return {
+    failureThreshold: positiveNumber(
+      process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+      DEFAULT_CIRCUIT_BREAKER_OPTIONS.failureThreshold
+    ),
+    resetTimeout: positiveNumber(
+      process.env.CIRCUIT_BREAKER_RESET_MS,
+      DEFAULT_CIRCUIT_BREAKER_OPTIONS.resetTimeout
+    )
+  };
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && parsed > 0 ? parsed : fallback;
+}
@@ -0,0 +1,27 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight.
+ * Results keep the order of the input.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    () => worker()
+  );
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,60 @@
+import { app, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+// Caller-supplied ids end up in logs and messages, so anything beyond a
+// plain token is replaced rather than trusted
+const VALID_CORRELATION_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const correlationStore = new AsyncLocalStorage<string>();
+
+/** Correlation id of the request or message being handled, if any. */
+export function getCorrelationId(): string | undefined {
+  return correlationStore.getStore();
+}
+
+/** Runs `operation` with `correlationId` as the current id, when given. */
+export function runWithCorrelationId<T>(correlationId: string | undefined, operation: () => T): T {
+  return correlationId ? correlationStore.run(correlationId, operation) : operation();
+}
+
+/**
+ * Gives every invocation a correlation id: the `x-correlation-id` header of
+ * an HTTP request, the `correlationId` of a Service Bus message, or a new one.
+ * HTTP responses echo it in the same header.
+ */
+export function registerCorrelationHooks(): void {
+  app.hook.preInvocation((hookContext) => {
+    const handler = hookContext.functionHandler;
+    hookContext.functionHandler = (triggerInput, invocationContext) =>
+      correlateInvocation(invocationContext, triggerInput, () => handler(triggerInput, invocationContext));
+  });
+}
+
+export async function correlateInvocation<T>(
+  invocationContext: InvocationContext,
+  triggerInput: unknown,
+  handler: () => T | Promise<T>
+): Promise<T> {
+  const correlationId = incomingCorrelationId(invocationContext, triggerInput) ?? uuidv4();
+  const result = await correlationStore.run(correlationId, async () => handler());
+
+  if (invocationContext.options?.trigger?.type !== 'httpTrigger' || !result || typeof result !== 'object') {
+    return result;
+  }
+  const response = result as HttpResponseInit;
+  const headers = new Headers(response.headers);
+  headers.set(CORRELATION_ID_HEADER, correlationId);
+  return { ...response, headers } as T;
+}
+
+function incomingCorrelationId(invocationContext: InvocationContext, triggerInput: unknown): string | undefined {
+  const headers = (triggerInput as { headers?: unknown } | undefined)?.headers;
+  const candidate = headers instanceof Headers
+    ? headers.get(CORRELATION_ID_HEADER)
+    : invocationContext.triggerMetadata?.correlationId;
+
+  return typeof candidate === 'string' && VALID_CORRELATION_ID.test(candidate) ? candidate : undefined;
+}
@@ -0,0 +1,92 @@
+/**
+ * Parses RFC 4180 CSV text into one record per data row, keyed by the header
+ * row. Quoted fields may contain commas, line breaks and doubled quotes.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows = parseRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const headers = rows[0].map((header) => header.trim());
+  return rows.slice(1).map((fields) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = fields[index] ?? '';
+    });
+    return record;
+  });
+}
+
+function parseRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines (typically a trailing newline) carry no data
+  return rows.filter((fields) => fields.some((value) => value !== ''));
+}
+
+/**
+ * Formats rows as RFC 4180 CSV with a header row. Fields holding commas,
+ * quotes or line breaks are quoted; lines end in CRLF.
+ */
+export function formatCsv(headers: string[], rows: (string | number)[][]): string {
+  return [headers, ...rows].map(formatCsvRow).join('');
+}
+
+/**
+ * Formats one CSV line, CRLF included. Text starting like a formula (`=`,
+ * `+`, `-`, `@`) is prefixed with `'` so spreadsheets show it instead of
+ * evaluating it; numbers are written as they are.
+ */
+export function formatCsvRow(fields: (string | number | undefined)[]): string {
+  return fields.map(formatField).join(',') + '\r\n';
+}
+
+function formatField(field: string | number | undefined): string {
+  if (field === undefined) {
+    return '';
+  }
+  const value = typeof field === 'number' ? String(field) : field.replace(/^[=+\-@\t\r]/, "'$&");
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,57 @@
+/**
+ * Active ISO 4217 currency codes and the number of digits after the decimal
+ * separator each allows. Precious metals and testing codes are omitted since
+ * no rental is priced in them.
+ */
+const MINOR_UNITS: Record<string, number> = {
+  ...withMinorUnits(0, [
+    'BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF',
+    'UGX', 'UYI', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'
+  ]),
+  ...withMinorUnits(2, [
+    'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN',
+    'BAM', 'BBD', 'BDT', 'BGN', 'BMD', 'BND', 'BOB', 'BOV', 'BRL', 'BSD',
+    'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHE', 'CHF', 'CHW', 'CNY',
+    'COP', 'COU', 'CRC', 'CUP', 'CVE', 'CZK', 'DKK', 'DOP', 'DZD', 'EGP',
+    'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP', 'GMD',
+    'GTQ', 'GYD', 'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR', 'IRR',
+    'JMD', 'KES', 'KGS', 'KHR', 'KPW', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR',
+    'LRD', 'LSL', 'MAD', 'MDL', 'MGA', 'MKD', 'MMK', 'MNT', 'MOP', 'MRU',
+    'MUR', 'MVR', 'MWK', 'MXN', 'MXV', 'MYR', 'MZN', 'NAD', 'NGN', 'NIO',
+    'NOK', 'NPR', 'NZD', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'QAR',
+    'RON', 'RSD', 'RUB', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD', 'SHP',
+    'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP', 'SZL', 'THB', 'TJS',
+    'TMT', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'USD', 'USN', 'UYU',
+    'UZS', 'VED', 'VES', 'WST', 'XCD', 'XCG', 'YER', 'ZAR', 'ZMW', 'ZWG'
+  ]),
+  ...withMinorUnits(3, ['BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND']),
+  ...withMinorUnits(4, ['CLF', 'UYW'])
+};
+
+function withMinorUnits(digits: number, codes: string[]): Record<string, number> {
+  const table: Record<string, number> = {};
+  for (const code of codes) {
+    table[code] = digits;
+  }
+  return table;
+}
+
+export function isCurrencyCode(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(MINOR_UNITS, code);
+}
+
+export function minorUnits(currency: string): number {
+  return isCurrencyCode(currency) ? MINOR_UNITS[currency] : 2;
+}
+
+export function roundToMinorUnits(amount: number, currency: string): number {
+  const factor = Math.pow(10, minorUnits(currency));
+  return Math.round((amount + Number.EPSILON) * factor) / factor;
+}
+
+/** True when the amount has no more decimals than the currency allows. */
+export function hasValidPrecision(amount: number, currency: string): boolean {
+  const factor = Math.pow(10, minorUnits(currency));
+  const scaled = amount * factor;
+  return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+}
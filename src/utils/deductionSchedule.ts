@@ -0,0 +1,53 @@
+import { DeductionInstallment, DeductionSchedule, OrderTotals } from '../types/Order';
+import { minorUnits } from './currency';
+import { addMonths, countLeaseMonths } from './rentalPeriod';
+
+interface ScheduledOrder {
+  startDate: string | Date;
+  endDate: string | Date;
+  currency: string;
+  totals: OrderTotals;
+}
+
+/**
+ * Spreads an order's one-off total evenly over its lease months and adds the
+ * recurring line items to every month. Amounts are split in the currency's
+ * minor units; the remainder goes one unit at a time to the first
+ * installments, so the schedule always adds up to the total exactly. The
+ * schedule depends only on the order's amounts and dates, so generating it
+ * again gives the same result.
+ */
+export function createDeductionSchedule(order: ScheduledOrder): DeductionSchedule {
+  const factor = Math.pow(10, minorUnits(order.currency));
+  const toMinor = (amount: number) => Math.round(amount * factor);
+  const fromMinor = (amount: number) => amount / factor;
+
+  const start = new Date(order.startDate);
+  const months = countLeaseMonths(start, order.endDate);
+  const oneOff = toMinor(order.totals.oneOff);
+  const recurring = toMinor(order.totals.recurring);
+  const share = Math.floor(oneOff / months);
+  const remainder = oneOff - share * months;
+
+  const installments: DeductionInstallment[] = [];
+  for (let index = 0; index < months; index++) {
+    const principal = share + (index < remainder ? 1 : 0);
+    installments.push({
+      number: index + 1,
+      period: toPeriod(addMonths(start, index)),
+      principal: fromMinor(principal),
+      recurring: fromMinor(recurring),
+      amount: fromMinor(principal + recurring)
+    });
+  }
+
+  return {
+    currency: order.currency,
+    total: fromMinor(oneOff + recurring * months),
+    installments
+  };
+}
+
+function toPeriod(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
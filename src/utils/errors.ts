@@ -1,10 +1,15 @@
-import {InvocationContext   } from "@azure/functions"
+import {HttpRequest, HttpResponseInit, InvocationContext   } from "@azure/functions"
+import { ZodError } from 'zod';
+import { createLogger } from './logger';
+import { FieldError, PROBLEM_CONTENT_TYPE, prefersLegacyErrors, toProblemDetails } from './problemDetails';
 
 export class OrderProcessingError extends Error {
     constructor(
     message: string,
     public code: string,
-    public statusCode: number = 500
+    public statusCode: number = 500,
+    /** The failure this error wraps, kept so retries can classify it. */
+    public cause?: unknown
   ) {
     super(message);
     this.name = 'OrderProcessingError';
@@ -12,43 +17,191 @@ export class OrderProcessingError extends Error {
 }
 
 export class ValidationError extends OrderProcessingError {
-  constructor(message: string, public validationErrors: string[]) {
+  /**
+   * `fieldErrors` default to `validationErrors` split at their `path: `
+   * prefix; errors built from zod issues should pass them via
+   * `fromZodError` to keep the issue codes.
+   */
+  constructor(
+    message: string,
+    public validationErrors: string[],
+    public fieldErrors: FieldError[] = validationErrors.map(toFieldError)
+  ) {
     super(message, 'VALIDATION_ERROR', 400);
     this.name = 'ValidationError';
   }
+
+  static fromZodError(message: string, error: ZodError): ValidationError {
+    return new ValidationError(message, toValidationErrors(error), toFieldErrors(error));
+  }
+}
+
+export class NotFoundError extends OrderProcessingError {
+  constructor(message: string, code: string = 'ORDER_NOT_FOUND') {
+    super(message, code, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** The stored order changed since the version the caller read. */
+export class ConcurrencyConflictError extends OrderProcessingError {
+  constructor(message: string) {
+    super(message, 'CONCURRENCY_CONFLICT', 412);
+    this.name = 'ConcurrencyConflictError';
+  }
+}
+
+/** A dependency keeps failing, so calls to it are refused for a while. */
+export class ServiceUnavailableError extends OrderProcessingError {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message, 'SERVICE_UNAVAILABLE', 503);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/** A company or employee sent more orders than its rate limit allows. */
+export class RateLimitExceededError extends OrderProcessingError {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message, 'RATE_LIMITED', 429);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/** The request carries no valid bearer token. */
+export class AuthenticationError extends OrderProcessingError {
+  constructor(message: string) {
+    super(message, 'UNAUTHENTICATED', 401);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** The caller is known but may not act on this company or employee. */
+export class ForbiddenError extends OrderProcessingError {
+  constructor(message: string) {
+    super(message, 'FORBIDDEN', 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export function toValidationErrors(error: ZodError): string[] {
+  return error.errors.map((err) => `${err.path.join('.')}: ${err.message}`);
+}
+
+export function toFieldErrors(error: ZodError): FieldError[] {
+  return error.errors.map((err) => ({ path: err.path.join('.'), message: err.message, code: err.code }));
+}
+
+function toFieldError(validationError: string): FieldError {
+  const match = /^([\w.-]*): ([\s\S]*)$/.exec(validationError);
+  return match
+    ? { path: match[1], message: match[2], code: 'custom' }
+    : { path: '', message: validationError, code: 'custom' };
+}
+
+/** Counts an error response by its code, e.g. as a metric. */
+export type FailureRecorder = (code: string, functionName: string) => void;
+
+let failureRecorder: FailureRecorder | undefined;
+
+/**
+ * Sets what `handleError` reports each error response to. Telemetry
+ * registers its failure counter at host startup, so code that only handles
+ * errors does not load OpenTelemetry.
+ */
+export function setFailureRecorder(recorder: FailureRecorder | undefined): void {
+  failureRecorder = recorder;
 }
 
-export function handleError(error: unknown, context: InvocationContext) {
+export function handleError(
+  error: unknown,
+  context: InvocationContext,
+  request?: HttpRequest
+): HttpResponseInit {
+  failureRecorder?.(error instanceof OrderProcessingError ? error.code : 'INTERNAL_ERROR', context.functionName);
+  const logger = createLogger(context);
+  const legacy = prefersLegacyErrors(request);
+
   if (error instanceof ValidationError) {
-    context.error('Validation error:', error.message, error.validationErrors);
-    return {
-      status: error.statusCode,
-      jsonBody: {
-        success: false,
-        message: error.message,
-        errors: error.validationErrors
-      }
-    };
+    logger.error('Validation error', error, { validationErrors: error.validationErrors });
+    return legacy
+      ? {
+          status: error.statusCode,
+          jsonBody: {
+            success: false,
+            message: error.message,
+            errors: error.validationErrors
+          }
+        }
+      : problemResponse(error, context, {}, error.fieldErrors);
+  }
+
+  if (error instanceof AuthenticationError) {
+    logger.warn('Authentication failed', { reason: error.message });
+    return errorResponse(error, context, legacy, { 'WWW-Authenticate': 'Bearer' });
+  }
+
+  if (error instanceof RateLimitExceededError) {
+    logger.warn('Rate limit exceeded', { reason: error.message, retryAfterSeconds: error.retryAfterSeconds });
+    return errorResponse(error, context, legacy, { 'Retry-After': String(error.retryAfterSeconds) });
+  }
+
+  if (error instanceof ServiceUnavailableError) {
+    logger.error('Service unavailable', error);
+    return errorResponse(error, context, legacy, { 'Retry-After': String(error.retryAfterSeconds) });
   }
 
   if (error instanceof OrderProcessingError) {
-    context.error('Order processing error:', error.message);
-    return {
-      status: error.statusCode,
-      jsonBody: {
-        success: false,
-        message: error.message,
-        code: error.code
-      }
-    };
+    logger.error('Order processing error', error);
+    return errorResponse(error, context, legacy);
   }
 
-  context.error('Unexpected error:', error);
+  logger.error('Unexpected error', error);
+  const internalError = new OrderProcessingError('Internal server error', 'INTERNAL_ERROR');
+  return legacy
+    ? {
+        status: 500,
+        jsonBody: {
+          success: false,
+          message: 'Internal server error'
+        }
+      }
+    : problemResponse(internalError, context);
+}
+
+// The legacy body carries the code next to the message; headers are the
+// same in both formats
+function errorResponse(
+  error: OrderProcessingError,
+  context: InvocationContext,
+  legacy: boolean,
+  headers: Record<string, string> = {}
+): HttpResponseInit {
+  if (!legacy) {
+    return problemResponse(error, context, headers);
+  }
   return {
-    status: 500,
+    status: error.statusCode,
+    ...(Object.keys(headers).length > 0 ? { headers } : {}),
     jsonBody: {
       success: false,
-      message: 'Internal server error'
+      message: error.message,
+      code: error.code
     }
   };
-}
\ No newline at end of file
+}
+
+function problemResponse(
+  error: OrderProcessingError,
+  context: InvocationContext,
+  headers: Record<string, string> = {},
+  errors?: FieldError[]
+): HttpResponseInit {
+  return {
+    status: error.statusCode,
+    headers: { ...headers, 'Content-Type': PROBLEM_CONTENT_TYPE },
+    jsonBody: toProblemDetails(
+      { status: error.statusCode, code: error.code, detail: error.message, errors },
+      context
+    )
+  };
+}
@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs';
+import { ExchangeRateTable, NormalizedAmount } from '../types/Order';
+import { ExchangeRateTableSchema } from '../schema/currency.schema';
+import { OrderProcessingError, toValidationErrors } from './errors';
+import { roundToMinorUnits } from './currency';
+
+/**
+ * Reads the exchange-rate table from the JSON file named by
+ * `EXCHANGE_RATES_PATH`. Without it only same-currency conversions work.
+ */
+export function loadExchangeRates(): ExchangeRateTable | null {
+  const filePath = process.env.EXCHANGE_RATES_PATH;
+  if (!filePath) {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new OrderProcessingError(
+      'Exchange rates could not be read',
+      'EXCHANGE_RATE_CONFIG_ERROR'
+    );
+  }
+
+  const parsed = ExchangeRateTableSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new OrderProcessingError(
+      `Invalid exchange rates: ${toValidationErrors(parsed.error).join('; ')}`,
+      'EXCHANGE_RATE_CONFIG_ERROR'
+    );
+  }
+  return parsed.data as ExchangeRateTable;
+}
+
+export function hasExchangeRate(from: string, to: string, table: ExchangeRateTable | null): boolean {
+  return from === to || (!!table && rateOf(from, table) !== undefined && rateOf(to, table) !== undefined);
+}
+
+/**
+ * Converts through the table's base currency and rounds to the minor units
+ * of the target currency.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  table: ExchangeRateTable | null
+): NormalizedAmount {
+  if (from === to) {
+    return { amount, currency: to, exchangeRate: 1 };
+  }
+  if (!hasExchangeRate(from, to, table)) {
+    throw new OrderProcessingError(
+      `No exchange rate from ${from} to ${to}`,
+      'EXCHANGE_RATE_UNAVAILABLE',
+      422
+    );
+  }
+
+  const exchangeRate = Number((rateOf(to, table!) / rateOf(from, table!)).toPrecision(10));
+  return {
+    amount: roundToMinorUnits(amount * exchangeRate, to),
+    currency: to,
+    exchangeRate,
+    ratesAsOf: table!.asOf
+  };
+}
+
+function rateOf(currency: string, table: ExchangeRateTable): number | undefined {
+  return currency === table.base ? 1 : table.rates[currency];
+}
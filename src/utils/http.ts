@@ -0,0 +1,53 @@
+import { HttpRequest } from "@azure/functions";
+import { ConcurrencyConflictError, OrderProcessingError, ValidationError } from './errors';
+
+export async function parseRequestBody(request: HttpRequest): Promise<any> {
+  try {
+    const body = await request.json();
+    if (!body) {
+      throw new ValidationError('Request body is required', ['Request body cannot be empty']);
+    }
+    return body;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    throw new ValidationError('Invalid JSON in request body', ['Request body must be valid JSON']);
+  }
+}
+
+/**
+ * Returns the `If-Match` header that order updates must send with the ETag
+ * of the version they are based on.
+ */
+export function requireIfMatch(request: HttpRequest): string {
+  const ifMatch = request.headers?.get('if-match');
+  if (!ifMatch) {
+    throw new OrderProcessingError(
+      'If-Match header with the ETag of the order is required',
+      'PRECONDITION_REQUIRED',
+      428
+    );
+  }
+  return ifMatch;
+}
+
+/**
+ * Rejects the request unless `If-Match` lists the current ETag or is `*`.
+ * Quotes and weak prefixes are ignored, so `abc`, `"abc"` and `W/"abc"` match.
+ */
+export function assertIfMatch(ifMatch: string, etag: string | undefined, resource: string): void {
+  const candidates = ifMatch.split(',').map(normalizeEtag);
+  if (!candidates.includes('*') && !candidates.includes(normalizeEtag(etag || ''))) {
+    throw new ConcurrencyConflictError(`${resource} has changed since it was read`);
+  }
+}
+
+function normalizeEtag(etag: string): string {
+  return etag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+}
+
+/** `Content-Disposition` of a download; characters unsafe in a file name become `_`. */
+export function attachment(fileName: string): string {
+  return `attachment; filename="${fileName.replace(/[^\w.-]/g, '_')}"`;
+}
@@ -0,0 +1,43 @@
+import { HttpRequest } from "@azure/functions";
+import { createHash } from 'crypto';
+import { ValidationError } from './errors';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+// Keys end up in blob names, so keep them to a URL- and path-safe alphabet.
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_\-.:]{1,128}$/;
+
+export function readIdempotencyKey(request: HttpRequest): string | undefined {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === null) {
+    return undefined;
+  }
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    throw new ValidationError('Invalid Idempotency-Key header', [
+      'Idempotency-Key must be 1-128 characters of letters, digits, "-", "_", "." or ":"'
+    ]);
+  }
+  return key;
+}
+
+/**
+ * Hashes a request body independently of property order, so a client that
+ * re-serializes the same payload still matches its original request.
+ */
+export function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(canonicalJson(body)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,28 @@
+import { LineItemRequest, OrderLineItem, OrderTotals } from '../types/Order';
+import { roundToMinorUnits } from './currency';
+
+/** Adds each line's total, rounded to the order currency. */
+export function priceLineItems(items: LineItemRequest[], currency: string): OrderLineItem[] {
+  return items.map((item) => ({
+    sku: item.sku,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    billing: item.billing,
+    total: roundToMinorUnits(item.quantity * item.unitPrice, currency)
+  }));
+}
+
+/**
+ * Totals an order from its bike price and priced line items. Client-sent
+ * totals are never trusted; these are the amounts stored and announced.
+ */
+export function calculateTotals(price: number, lineItems: OrderLineItem[], currency: string): OrderTotals {
+  const sum = (billing: OrderLineItem['billing']) => lineItems
+    .filter((item) => item.billing === billing)
+    .reduce((total, item) => total + item.total, 0);
+
+  return {
+    oneOff: roundToMinorUnits(price + sum('ONE_OFF'), currency),
+    recurring: roundToMinorUnits(sum('RECURRING'), currency)
+  };
+}
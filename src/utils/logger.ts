@@ -0,0 +1,118 @@
+import { InvocationContext } from '@azure/functions';
+import { createHash } from 'crypto';
+import { getCorrelationId } from './correlation';
+
+export type LogFields = Record<string, unknown>;
+
+export type EmployeeIdRedaction = 'hash' | 'mask' | 'none';
+
+// Fields that identify an employee and are redacted wherever they appear;
+// the actor fields hold the caller's token subject, an employee id for
+// employees
+const EMPLOYEE_ID_FIELDS = new Set(['employeeId', 'decidedBy', 'cancelledBy', 'modifiedBy', 'changedBy']);
+
+/**
+ * Writes one JSON record per line through the invocation's log methods, so
+ * the host keeps routing by level. Every record carries the invocation id and
+ * the correlation id of the request, plus the fields bound with `child`
+ * (typically `orderId` and `companyId`).
+ */
+export class Logger {
+  constructor(
+    private context: InvocationContext,
+    private fields: LogFields = {}
+  ) {}
+
+  /** A logger that adds `fields` to every record. */
+  child(fields: LogFields): Logger {
+    return new Logger(this.context, { ...this.fields, ...fields });
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.context.log(this.format('info', message, fields));
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.context.warn(this.format('warn', message, fields));
+  }
+
+  error(message: string, error?: unknown, fields?: LogFields): void {
+    this.context.error(this.format('error', message, { ...fields, error: serializeError(error) }));
+  }
+
+  private format(level: string, message: string, fields: LogFields = {}): string {
+    return JSON.stringify(redact({
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      invocationId: this.context.invocationId,
+      functionName: this.context.functionName,
+      correlationId: getCorrelationId(),
+      ...this.fields,
+      ...fields
+    }));
+  }
+}
+
+export function createLogger(context: InvocationContext, fields: LogFields = {}): Logger {
+  return new Logger(context, fields);
+}
+
+/**
+ * How employee identifiers are written, from `LOG_EMPLOYEE_ID_REDACTION`:
+ * `hash` (default, a stable pseudonym so one employee's records can still be
+ * grouped), `mask`, or `none`.
+ */
+export function loadEmployeeIdRedaction(): EmployeeIdRedaction {
+  const mode = process.env.LOG_EMPLOYEE_ID_REDACTION;
+  return mode === 'mask' || mode === 'none' ? mode : 'hash';
+}
+
+export function redactEmployeeId(employeeId: string, mode: EmployeeIdRedaction = loadEmployeeIdRedaction()): string {
+  switch (mode) {
+    case 'none':
+      return employeeId;
+    case 'mask':
+      return '[REDACTED]';
+    case 'hash':
+      return `sha256:${createHash('sha256').update(employeeId).digest('hex').slice(0, 16)}`;
+  }
+}
+
+function redact(record: LogFields): LogFields {
+  const mode = loadEmployeeIdRedaction();
+  return mode === 'none' ? record : redactValue(record, mode) as LogFields;
+}
+
+// Walks nested fields and arrays, e.g. an order or a list of results, so an
+// employee id is redacted however deep it is logged
+function redactValue(value: unknown, mode: EmployeeIdRedaction): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, mode));
+  }
+  if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+    return value;
+  }
+  const redacted: LogFields = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    redacted[field] = EMPLOYEE_ID_FIELDS.has(field) && typeof fieldValue === 'string'
+      ? redactEmployeeId(fieldValue, mode)
+      : redactValue(fieldValue, mode);
+  }
+  return redacted;
+}
+
+function serializeError(error: unknown): LogFields | undefined {
+  if (error === undefined) {
+    return undefined;
+  }
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+  return {
+    name: error.name,
+    message: error.message,
+    code: (error as { code?: unknown }).code,
+    stack: error.stack
+  };
+}
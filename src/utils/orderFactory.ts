@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Order, OutboxEntry, PricedOrderRequest } from '../types/Order';
+import { getCorrelationId } from './correlation';
+import { ORDER_SCHEMA_VERSION } from './orderUpcaster';
+import { createDeductionSchedule } from './deductionSchedule';
+
+export function createOrder(input: PricedOrderRequest): Order {
+  return {
+    schemaVersion: ORDER_SCHEMA_VERSION,
+    id: uuidv4(),
+    employeeId: input.employeeId,
+    bikeModel: input.bikeModel,
+    startDate: new Date(input.startDate),
+    endDate: new Date(input.endDate),
+    status: 'PENDING',
+    price: input.price,
+    currency: input.currency,
+    companyId: input.companyId,
+    normalizedPrice: input.normalizedPrice,
+    accessories: input.accessories || [],
+    insurance: input.insurance || 'NONE',
+    deliveryAddress: input.deliveryAddress,
+    lineItems: input.lineItems,
+    totals: input.totals,
+    deductionSchedule: createDeductionSchedule(input),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+export function createOutboxEntry(order: Order): OutboxEntry {
+  return {
+    id: order.id,
+    orderId: order.id,
+    companyId: order.companyId,
+    messageType: 'OrderCreated',
+    status: 'PENDING',
+    order,
+    attempts: 0,
+    correlationId: getCorrelationId(),
+    createdAt: new Date()
+  };
+}
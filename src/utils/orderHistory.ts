@@ -0,0 +1,47 @@
+import { Order, OrderFieldChange, OrderHistoryAction, OrderHistoryEntry } from '../types/Order';
+
+// Bookkeeping fields that change on every write and say nothing on their own,
+// and the deduction schedule, which follows from fields recorded themselves
+const IGNORED_FIELDS = new Set(['updatedAt', 'etag', 'deductionSchedule']);
+
+/**
+ * Lists the fields that differ between two versions of an order. Values are
+ * compared in their stored JSON form, so a `Date` equals its ISO string.
+ */
+export function diffOrders(before: Order, after: Order): Record<string, OrderFieldChange> {
+  const changes: Record<string, OrderFieldChange> = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) {
+      return;
+    }
+    const previous = toJsonValue(before[field]);
+    const next = toJsonValue(after[field]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  });
+
+  return changes;
+}
+
+export function createHistoryEntry(
+  action: OrderHistoryAction,
+  before: Order,
+  after: Order,
+  changedBy: string,
+  reason?: string
+): OrderHistoryEntry {
+  return {
+    action,
+    changedBy,
+    changedAt: new Date(after.updatedAt),
+    reason,
+    changes: diffOrders(before, after)
+  };
+}
+
+function toJsonValue(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
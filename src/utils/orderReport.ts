@@ -0,0 +1,40 @@
+import { Order, OrderReport, OrderSummary } from '../types/Order';
+import { roundToMinorUnits } from './currency';
+
+export function toOrderSummary(order: Order): OrderSummary {
+  return {
+    id: order.id,
+    employeeId: order.employeeId,
+    status: order.status,
+    bikeModel: order.bikeModel,
+    currency: order.currency,
+    createdAt: new Date(order.createdAt).toISOString(),
+    startDate: new Date(order.startDate).toISOString(),
+    endDate: new Date(order.endDate).toISOString(),
+    totals: order.totals
+  };
+}
+
+export function createOrderReport(): OrderReport {
+  return { orderCount: 0, byStatus: {}, byBikeModel: {}, byMonth: {}, byCurrency: {} };
+}
+
+/**
+ * Counts one order into the report. Amounts are rounded to the currency
+ * after every addition, so the sums do not drift over many orders.
+ */
+export function addToReport(report: OrderReport, summary: OrderSummary): OrderReport {
+  const month = summary.createdAt.slice(0, 7);
+  const currency = report.byCurrency[summary.currency] || { orders: 0, oneOff: 0, recurring: 0 };
+
+  report.orderCount += 1;
+  report.byStatus[summary.status] = (report.byStatus[summary.status] || 0) + 1;
+  report.byBikeModel[summary.bikeModel] = (report.byBikeModel[summary.bikeModel] || 0) + 1;
+  report.byMonth[month] = (report.byMonth[month] || 0) + 1;
+  report.byCurrency[summary.currency] = {
+    orders: currency.orders + 1,
+    oneOff: roundToMinorUnits(currency.oneOff + summary.totals.oneOff, summary.currency),
+    recurring: roundToMinorUnits(currency.recurring + summary.totals.recurring, summary.currency)
+  };
+  return report;
+}
@@ -0,0 +1,50 @@
+import { Order, OrderDecisionRequest, OrderStatus } from '../types/Order';
+import { OrderProcessingError } from './errors';
+
+// Terminal statuses map to an empty list: a decided order is never re-decided,
+// and only an undecided one can be cancelled.
+const ALLOWED_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['APPROVED', 'REJECTED', 'CANCELLED'],
+  APPROVED: [],
+  REJECTED: [],
+  CANCELLED: []
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return (ALLOWED_TRANSITIONS[from] || []).includes(to);
+}
+
+export function transitionOrder(
+  order: Order,
+  to: OrderStatus,
+  decision: OrderDecisionRequest,
+  now: Date = new Date()
+): Order {
+  if (!canTransition(order.status, to)) {
+    throw new OrderProcessingError(
+      `Order ${order.id} cannot move from ${order.status} to ${to}`,
+      'INVALID_STATUS_TRANSITION',
+      409
+    );
+  }
+
+  if (to === 'CANCELLED') {
+    return {
+      ...order,
+      status: to,
+      cancelledBy: decision.decidedBy,
+      cancellationReason: decision.reason,
+      cancelledAt: now,
+      updatedAt: now
+    };
+  }
+
+  return {
+    ...order,
+    status: to,
+    decidedBy: decision.decidedBy,
+    decisionReason: decision.reason,
+    decidedAt: now,
+    updatedAt: now
+  };
+}
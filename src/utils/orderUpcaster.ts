@@ -0,0 +1,68 @@
+import { Order, OrderTotals, OutboxEntry } from '../types/Order';
+import { OrderProcessingError } from './errors';
+import { createDeductionSchedule } from './deductionSchedule';
+
+/** Layout version new order documents are written in. */
+export const ORDER_SCHEMA_VERSION = 4;
+
+/** A stored order document of any layout, as parsed from JSON. */
+type OrderDocument = Record<string, unknown>;
+
+// The fields each step reads from the layout it lifts
+interface OrderDocumentV2 extends OrderDocument {
+  price: number;
+}
+
+interface OrderDocumentV3 extends OrderDocument {
+  startDate: string;
+  endDate: string;
+  currency: string;
+  totals: OrderTotals;
+}
+
+// Each step lifts a document from its version to the next one. Documents
+// written before versioning have no schemaVersion and count as version 1.
+const UPCASTERS: Record<number, (document: OrderDocument) => OrderDocument> = {
+  1: (document) => ({ ...document, schemaVersion: 2, accessories: [], insurance: 'NONE' }),
+  // Before line items the bike price was the whole order
+  2: (document) => ({
+    ...document,
+    schemaVersion: 3,
+    lineItems: [],
+    totals: { oneOff: (document as OrderDocumentV2).price, recurring: 0 }
+  }),
+  // The schedule is derived from the order, so older orders get the one they
+  // would have been created with
+  3: (document) => ({
+    ...document,
+    schemaVersion: 4,
+    deductionSchedule: createDeductionSchedule(document as OrderDocumentV3)
+  })
+};
+
+/**
+ * Reads a stored order document as the current `Order` type. Older layouts
+ * are lifted step by step; they are rewritten in the current layout the next
+ * time the order is updated.
+ */
+export function upcastOrder(document: object): Order {
+  let current = document as OrderDocument;
+  let version = current.schemaVersion ?? 1;
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > ORDER_SCHEMA_VERSION) {
+    throw new OrderProcessingError(
+      `Order ${current.id} has schema version ${version}, this deployment reads up to ${ORDER_SCHEMA_VERSION}`,
+      'UNSUPPORTED_ORDER_SCHEMA'
+    );
+  }
+
+  for (; version < ORDER_SCHEMA_VERSION; version++) {
+    current = UPCASTERS[version](current);
+  }
+  return current as unknown as Order;
+}
+
+/** Outbox entries embed the order as it was created, so it is upcast too. */
+export function upcastOutboxEntry(entry: OutboxEntry): OutboxEntry {
+  return { ...entry, order: upcastOrder(entry.order) };
+}
@@ -0,0 +1,23 @@
+import { Order } from '../types/Order';
+import { OrderProcessingError } from './errors';
+
+/**
+ * Returns the version an update is conditional on. Updates without one would
+ * silently overwrite whatever another writer stored in the meantime.
+ */
+export function requireEtag(order: Order): string {
+  if (!order.etag) {
+    throw new OrderProcessingError(
+      `Order ${order.id} cannot be updated without the ETag it was read at`,
+      'PRECONDITION_REQUIRED',
+      428
+    );
+  }
+  return order.etag;
+}
+
+/** The order as it is stored: the etag describes the document, it is not in it. */
+export function withoutEtag(order: Order): Order {
+  const { etag, ...document } = order;
+  return document;
+}
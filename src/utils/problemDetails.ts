@@ -0,0 +1,102 @@
+import { STATUS_CODES } from 'http';
+import { HttpRequest, InvocationContext } from '@azure/functions';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+const LEGACY_CONTENT_TYPE = 'application/json';
+
+// Problem types are identifiers, not pages; set PROBLEM_TYPE_BASE_URI to
+// point them at published documentation instead
+const DEFAULT_PROBLEM_TYPE_BASE_URI = 'urn:bike-orders:problem:';
+
+/** One invalid field, as reported in a problem's `errors`. */
+export interface FieldError {
+  /** Dotted path of the field; empty when the whole input is at fault. */
+  path: string;
+  message: string;
+  /** Zod issue code (`invalid_type`, `too_small`, `custom`, ...). */
+  code: string;
+}
+
+/** RFC 7807 problem details, plus the error `code` and any field errors. */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  code: string;
+  errors?: FieldError[];
+}
+
+/**
+ * Builds the problem for an error `code`. The type URI is derived from the
+ * code, and the instance names the invocation, whose id is also in the logs.
+ */
+export function toProblemDetails(
+  problem: { status: number; code: string; detail: string; errors?: FieldError[] },
+  context: InvocationContext
+): ProblemDetails {
+  return {
+    type: problemTypeUri(problem.code),
+    title: STATUS_CODES[problem.status] || 'Error',
+    status: problem.status,
+    detail: problem.detail,
+    instance: context.invocationId ? `urn:uuid:${context.invocationId}` : undefined,
+    code: problem.code,
+    ...(problem.errors ? { errors: problem.errors } : {})
+  };
+}
+
+export function problemTypeUri(code: string): string {
+  const base = process.env.PROBLEM_TYPE_BASE_URI || DEFAULT_PROBLEM_TYPE_BASE_URI;
+  return `${base}${code.toLowerCase().replace(/_/g, '-')}`;
+}
+
+/**
+ * Whether the client asked for the pre-problem-details error bodies: its
+ * `Accept` header rates `application/json` above `application/problem+json`,
+ * or names it more specifically at the same quality. Clients that send no
+ * `Accept` header, or only wildcards, get problem details.
+ */
+export function prefersLegacyErrors(request?: HttpRequest): boolean {
+  const accept = request?.headers?.get('accept');
+  if (!accept) {
+    return false;
+  }
+
+  const ranges = parseAccept(accept);
+  const problem = bestMatch(ranges, PROBLEM_CONTENT_TYPE);
+  const legacy = bestMatch(ranges, LEGACY_CONTENT_TYPE);
+  return legacy.quality > problem.quality
+    || (legacy.quality === problem.quality && legacy.quality > 0 && legacy.specificity > problem.specificity);
+}
+
+interface MediaRange {
+  type: string;
+  quality: number;
+}
+
+function parseAccept(accept: string): MediaRange[] {
+  return accept.split(',').map((entry) => {
+    const [type, ...parameters] = entry.split(';').map((part) => part.trim().toLowerCase());
+    const q = parameters.find((parameter) => parameter.startsWith('q='));
+    const quality = q === undefined ? 1 : Number(q.slice(2));
+    return { type, quality: Number.isFinite(quality) ? quality : 0 };
+  });
+}
+
+// The most specific range that matches wins, as in RFC 9110 section 12.5.1
+function bestMatch(ranges: MediaRange[], contentType: string): { quality: number; specificity: number } {
+  const [mainType] = contentType.split('/');
+  let best = { quality: 0, specificity: 0 };
+  for (const range of ranges) {
+    const specificity = range.type === contentType ? 3
+      : range.type === `${mainType}/*` ? 2
+      : range.type === '*/*' ? 1
+      : 0;
+    if (specificity > best.specificity) {
+      best = { quality: range.quality, specificity };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs';
+import { RateLimit, RateLimitConfig, RateLimitConfigSchema } from '../schema/rateLimit.schema';
+import { OrderProcessingError, toValidationErrors } from './errors';
+
+/** Size and refill rate of a token bucket. */
+export interface BucketLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/** What a store keeps per bucket. */
+export interface BucketState {
+  tokens: number;
+  /** Epoch milliseconds the tokens were last counted at. */
+  updatedAt: number;
+}
+
+export interface TakeTokenResult {
+  allowed: boolean;
+  /** Seconds until a token is available again; 0 when allowed. */
+  retryAfterSeconds: number;
+  state: BucketState;
+}
+
+/**
+ * Reads the limits from `RATE_LIMITS` (inline JSON) or the file named by
+ * `RATE_LIMITS_PATH`. Without either, nothing is rate limited.
+ */
+export function loadRateLimitConfig(): RateLimitConfig {
+  const inline = process.env.RATE_LIMITS;
+  const filePath = process.env.RATE_LIMITS_PATH;
+  if (!inline && !filePath) {
+    return { companies: {} };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(inline || readFileSync(filePath!, 'utf8'));
+  } catch (error) {
+    throw new OrderProcessingError(
+      'Rate limits could not be read',
+      'RATE_LIMIT_CONFIG_ERROR'
+    );
+  }
+
+  const parsed = RateLimitConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new OrderProcessingError(
+      `Invalid rate limits: ${toValidationErrors(parsed.error).join('; ')}`,
+      'RATE_LIMIT_CONFIG_ERROR'
+    );
+  }
+  return parsed.data as RateLimitConfig;
+}
+
+/** A burst defaults to one minute's worth of requests, at least one. */
+export function toBucketLimit(limit: RateLimit): BucketLimit {
+  return {
+    capacity: limit.burst ?? Math.max(Math.floor(limit.requestsPerMinute), 1),
+    refillPerSecond: limit.requestsPerMinute / 60
+  };
+}
+
+/**
+ * Refills the bucket for the time since it was last counted and takes one
+ * token if there is one. A bucket seen for the first time starts full.
+ */
+export function takeToken(
+  state: BucketState | undefined,
+  limit: BucketLimit,
+  now: number
+): TakeTokenResult {
+  const elapsedSeconds = state ? Math.max(now - state.updatedAt, 0) / 1000 : 0;
+  const tokens = state
+    ? Math.min(state.tokens + elapsedSeconds * limit.refillPerSecond, limit.capacity)
+    : limit.capacity;
+
+  if (tokens >= 1) {
+    return { allowed: true, retryAfterSeconds: 0, state: { tokens: tokens - 1, updatedAt: now } };
+  }
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.max(Math.ceil((1 - tokens) / limit.refillPerSecond), 1),
+    state: { tokens, updatedAt: now }
+  };
+}
+
+/**
+ * Refills the bucket like `takeToken` and puts back one token taken for a
+ * request that was refused anyway, never beyond capacity.
+ */
+export function returnToken(
+  state: BucketState | undefined,
+  limit: BucketLimit,
+  now: number
+): BucketState {
+  const elapsedSeconds = state ? Math.max(now - state.updatedAt, 0) / 1000 : 0;
+  const tokens = state
+    ? state.tokens + elapsedSeconds * limit.refillPerSecond + 1
+    : limit.capacity;
+  return { tokens: Math.min(tokens, limit.capacity), updatedAt: now };
+}
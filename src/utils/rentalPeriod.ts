@@ -0,0 +1,36 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Every started day counts, so a rental always lasts at least one day. */
+export function countRentalDays(startDate: string | Date, endDate: string | Date): number {
+  const duration = new Date(endDate).getTime() - new Date(startDate).getTime();
+  return Math.max(Math.ceil(duration / DAY_MS), 1);
+}
+
+/**
+ * Months a lease is billed for: every started month counts, measured from the
+ * start date, so a lease always lasts at least one month.
+ */
+export function countLeaseMonths(startDate: string | Date, endDate: string | Date): number {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12
+    + end.getUTCMonth() - start.getUTCMonth();
+
+  while (addMonths(start, months) < end) {
+    months++;
+  }
+  while (months > 1 && addMonths(start, months - 1) >= end) {
+    months--;
+  }
+  return Math.max(months, 1);
+}
+
+/** Same day and time `months` later, clamped to the end of shorter months. */
+export function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const result = new Date(date.getTime());
+  result.setUTCFullYear(year, month, Math.min(date.getUTCDate(), lastDay));
+  return result;
+}
@@ -1,47 +1,166 @@
 import { InvocationContext } from '@azure/functions';
+import { OrderProcessingError } from './errors';
+import { getCircuitBreaker } from './circuitBreaker';
+import { addSpanEvent } from './telemetry';
 
 export interface RetryOptions {
   maxAttempts: number;
   baseDelay: number;
   maxDelay: number;
   backoffMultiplier: number;
+  /** Share of each delay that is randomized so failed callers spread out. */
+  jitter: number;
+  /** Milliseconds from the first attempt after which no retry is started. */
+  deadline: number;
+  /** Whether a failure is worth another attempt. */
+  isRetryable: (error: unknown) => boolean;
+  /** Dependency whose circuit breaker guards the operation, if any. */
+  dependency?: string;
 }
 
 export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   maxAttempts: 3,
   baseDelay: 1000,
   maxDelay: 10000,
-  backoffMultiplier: 2
+  backoffMultiplier: 2,
+  jitter: 0.5,
+  deadline: 30000,
+  isRetryable: isTransientError
 };
 
+// Timeouts, throttling and server-side failures; other 4xx answers will not
+// change on a second attempt
+const TRANSIENT_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Network failures from Node and the Azure SDK's transport, which carry no
+// status code because no response arrived
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'EBUSY',
+  'EAGAIN',
+  'REQUEST_SEND_ERROR'
+]);
+
 export async function withRetry<T>(
   operation: () => Promise<T>,
   options: Partial<RetryOptions> = {},
   context: InvocationContext
 ): Promise<T> {
   const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
-  let lastError: Error;
-  
-  for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
+  const breaker = config.dependency ? getCircuitBreaker(config.dependency) : undefined;
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      breaker?.assertCallAllowed();
+    } catch (error) {
+      addSpanEvent('circuit_open', { dependency: config.dependency, attempt });
+      throw error;
+    }
+
     try {
-      return await operation();
+      const result = await operation();
+      breaker?.recordSuccess();
+      return result;
     } catch (error) {
-      lastError = error as Error;
-      
-      if (attempt === config.maxAttempts) {
-        context.error(`Operation failed after ${config.maxAttempts} attempts:`, lastError);
-        throw lastError;
+      const retryable = config.isRetryable(error);
+
+      // A definite answer such as "not found" still proves the dependency is up
+      if (retryable) {
+        breaker?.recordFailure();
+      } else {
+        breaker?.recordSuccess();
+        throw error;
       }
-      
-      const delay = Math.min(
-        config.baseDelay * Math.pow(config.backoffMultiplier, attempt - 1),
-        config.maxDelay
-      );
-      
-      context.warn(`Attempt ${attempt} failed, retrying in ${delay}ms:`, lastError.message);
+
+      if (attempt >= config.maxAttempts) {
+        context.error(`Operation failed after ${attempt} attempts:`, error);
+        throw error;
+      }
+
+      const delay = retryDelay(error, attempt, config);
+      if (Date.now() - startedAt + delay > config.deadline) {
+        context.error(`Operation failed after ${attempt} attempts, retry deadline of ${config.deadline}ms reached:`, error);
+        throw error;
+      }
+
+      addSpanEvent('retry', {
+        attempt,
+        delay_ms: delay,
+        dependency: config.dependency,
+        'exception.message': (error as Error).message
+      });
+      context.warn(`Attempt ${attempt} failed, retrying in ${delay}ms:`, (error as Error).message);
       await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
-  
-  throw lastError!;
-}
\ No newline at end of file
+}
+
+/**
+ * Default retry classification. Errors this service raises describe an
+ * outcome and are final, unless they wrap a failure (`cause`) that is itself
+ * transient. Service Bus errors say whether they are retryable; Azure SDK
+ * and Node errors are judged by HTTP status or network error code.
+ */
+export function isTransientError(error: unknown): boolean {
+  const failure = underlyingError(error);
+  if (!failure || typeof failure !== 'object' || failure instanceof OrderProcessingError) {
+    return false;
+  }
+
+  const { retryable, statusCode, code } = failure as {
+    retryable?: unknown;
+    statusCode?: unknown;
+    code?: unknown;
+  };
+  if (typeof retryable === 'boolean') {
+    return retryable;
+  }
+  if (typeof statusCode === 'number') {
+    return TRANSIENT_STATUS_CODES.has(statusCode);
+  }
+  return typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code);
+}
+
+/**
+ * Milliseconds a throttled dependency asked us to wait, from a `Retry-After`
+ * header in seconds or as an HTTP date. Undefined when there is none.
+ */
+export function retryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const response = (underlyingError(error) as { response?: { headers?: { get?: (name: string) => string | undefined } } })?.response;
+  const header = response?.headers?.get?.('retry-after');
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+// Exponential backoff with jitter, but never sooner than the dependency asked
+function retryDelay(error: unknown, attempt: number, config: RetryOptions): number {
+  const backoff = Math.min(
+    config.baseDelay * Math.pow(config.backoffMultiplier, attempt - 1),
+    config.maxDelay
+  );
+  const jittered = Math.round(backoff * (1 - config.jitter * Math.random()));
+  return Math.max(jittered, retryAfterMs(error) ?? 0);
+}
+
+function underlyingError(error: unknown): unknown {
+  let current = error;
+  while (current instanceof OrderProcessingError && current.cause !== undefined) {
+    current = current.cause;
+  }
+  return current;
+}
@@ -0,0 +1,448 @@
+import { app, InvocationContext } from '@azure/functions';
+import {
+  Attributes,
+  context as otelContext,
+  Counter,
+  Histogram,
+  metrics,
+  propagation,
+  ROOT_CONTEXT,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  TextMapGetter,
+  trace,
+  Tracer
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { ExportResult, ExportResultCode, W3CTraceContextPropagator } from '@opentelemetry/core';
+import { JsonMetricsSerializer, JsonTraceSerializer } from '@opentelemetry/otlp-transformer';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  ConsoleMetricExporter,
+  MeterProvider,
+  MetricReader,
+  PeriodicExportingMetricReader,
+  PushMetricExporter,
+  ResourceMetrics
+} from '@opentelemetry/sdk-metrics';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanExporter,
+  SpanProcessor
+} from '@opentelemetry/sdk-trace-base';
+import { AzureMonitorMetricExporter, AzureMonitorTraceExporter } from '@azure/monitor-opentelemetry-exporter';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { setFailureRecorder } from './errors';
+import { createLogger } from './logger';
+
+export const SERVICE_NAME = 'order-processing';
+
+export type TelemetryExporter = 'azuremonitor' | 'console' | 'file' | 'none';
+
+/** Exporters to use instead of the ones `TELEMETRY_EXPORTER` selects. */
+export interface TelemetryOptions {
+  spanProcessor?: SpanProcessor;
+  metricReader?: MetricReader;
+}
+
+const METRIC_EXPORT_INTERVAL_MS = 60000;
+
+interface Instruments {
+  ordersCreated: Counter;
+  failures: Counter;
+  duration: Histogram;
+}
+
+let initialized = false;
+let tracerProvider: BasicTracerProvider | undefined;
+let meterProvider: MeterProvider | undefined;
+let instruments: Instruments | undefined;
+// A bad setting found while initializing, logged with the next invocation
+let configurationWarning: string | undefined;
+
+/**
+ * Sets up tracing and metrics once per process. The exporter is selected by
+ * `TELEMETRY_EXPORTER`: `azuremonitor` (default when
+ * `APPLICATIONINSIGHTS_CONNECTION_STRING` is set), `console`, `file` (OTLP
+ * JSON lines in `TELEMETRY_FILE_PATH`, default `.data/telemetry`), or `none`
+ * (default otherwise).
+ */
+export function initializeTelemetry(options: TelemetryOptions = {}): void {
+  if (initialized) {
+    return;
+  }
+  initialized = true;
+
+  const exporter = options.spanProcessor || options.metricReader ? undefined : selectExporter();
+  if (exporter === 'none') {
+    return;
+  }
+
+  const spanProcessor = exporter ? createSpanProcessor(exporter) : options.spanProcessor;
+  const metricReader = exporter ? createMetricReader(exporter) : options.metricReader;
+  const resource = resourceFromAttributes({ 'service.name': SERVICE_NAME });
+
+  otelContext.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+
+  if (spanProcessor) {
+    tracerProvider = new BasicTracerProvider({ resource, spanProcessors: [spanProcessor] });
+    trace.setGlobalTracerProvider(tracerProvider);
+  }
+  if (metricReader) {
+    meterProvider = new MeterProvider({ resource, readers: [metricReader] });
+    metrics.setGlobalMeterProvider(meterProvider);
+  }
+}
+
+/** Flushes pending telemetry and returns to the uninitialized state. */
+export async function shutdownTelemetry(): Promise<void> {
+  await Promise.all([tracerProvider?.shutdown(), meterProvider?.shutdown()]);
+
+  trace.disable();
+  metrics.disable();
+  propagation.disable();
+  otelContext.disable();
+
+  initialized = false;
+  tracerProvider = undefined;
+  meterProvider = undefined;
+  instruments = undefined;
+  configurationWarning = undefined;
+}
+
+/**
+ * Traces every function invocation, continuing the caller's trace from HTTP
+ * headers or Service Bus application properties, and counts error responses
+ * built by `handleError`.
+ */
+export function registerTelemetryHooks(): void {
+  setFailureRecorder(recordFailure);
+
+  app.hook.preInvocation((hookContext) => {
+    const handler = hookContext.functionHandler;
+    hookContext.functionHandler = (triggerInput, invocationContext) =>
+      traceInvocation(invocationContext, triggerInput, () => handler(triggerInput, invocationContext));
+  });
+
+  app.hook.appTerminate(() => shutdownTelemetry());
+}
+
+/**
+ * Runs a function invocation in a span and records its duration. Thrown
+ * errors count as failures; returned error responses are counted where they
+ * are built, by `handleError`.
+ */
+export async function traceInvocation<T>(
+  invocationContext: InvocationContext,
+  triggerInput: unknown,
+  handler: () => T | Promise<T>
+): Promise<T> {
+  const trigger = invocationContext.options?.trigger?.type ?? 'unknown';
+  const parent = extractTraceContext(invocationContext, triggerInput);
+  const attributes: Attributes = { 'faas.name': invocationContext.functionName };
+  const startedAt = Date.now();
+  let outcome = 'success';
+
+  return getTracer().startActiveSpan(
+    invocationContext.functionName,
+    {
+      kind: spanKindOf(trigger),
+      attributes: { ...attributes, 'faas.trigger': trigger, 'faas.invocation_id': invocationContext.invocationId }
+    },
+    parent,
+    async (span) => {
+      reportConfigurationWarning(invocationContext);
+      try {
+        const result = await handler();
+        const status = (result as { status?: unknown } | undefined)?.status;
+        if (typeof status === 'number') {
+          span.setAttribute('http.response.status_code', status);
+          if (status >= 500) {
+            span.setStatus({ code: SpanStatusCode.ERROR });
+            outcome = 'failure';
+          }
+        }
+        return result;
+      } catch (error) {
+        markFailed(span, error);
+        recordFailure(errorCode(error), invocationContext.functionName);
+        outcome = 'failure';
+        throw error;
+      } finally {
+        span.end();
+        getInstruments().duration.record(Date.now() - startedAt, { ...attributes, outcome });
+      }
+    }
+  );
+}
+
+/**
+ * Runs `operation` in a child span of the active one. Failures are recorded
+ * on the span, with the error's `code` when it has one, and rethrown.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  operation: (span: Span) => T,
+  kind: SpanKind = SpanKind.INTERNAL
+): T {
+  return getTracer().startActiveSpan(name, { kind, attributes }, (span) => {
+    try {
+      const result = operation(span);
+      if (result instanceof Promise) {
+        return result.then(
+          (value) => {
+            span.end();
+            return value;
+          },
+          (error) => {
+            markFailed(span, error);
+            span.end();
+            throw error;
+          }
+        ) as unknown as T;
+      }
+      span.end();
+      return result;
+    } catch (error) {
+      markFailed(span, error);
+      span.end();
+      throw error;
+    }
+  });
+}
+
+// Repositories are shared (the in-memory one is a singleton), so one proxy
+// per instance keeps identity stable for callers comparing them.
+const tracedTargets = new WeakMap<object, object>();
+
+/**
+ * Wraps a dependency client so every method call gets its own span named
+ * `{dependency} {method}`. Calls between the client's own methods are not
+ * traced again.
+ */
+export function traceMethods<T extends object>(
+  target: T,
+  dependency: string,
+  kind: SpanKind = SpanKind.CLIENT
+): T {
+  const existing = tracedTargets.get(target);
+  if (existing) {
+    return existing as T;
+  }
+
+  const traced = new Proxy(target, {
+    get(object, property, receiver) {
+      const value = Reflect.get(object, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string' || property === 'constructor') {
+        return value;
+      }
+      return (...args: unknown[]) =>
+        withSpan(`${dependency} ${property}`, { 'peer.service': dependency }, () => value.apply(object, args), kind);
+    }
+  });
+  tracedTargets.set(target, traced);
+  return traced;
+}
+
+/** Adds an event to the active span, if there is one. */
+export function addSpanEvent(name: string, attributes: Attributes): void {
+  trace.getActiveSpan()?.addEvent(name, attributes);
+}
+
+/**
+ * W3C trace context (`traceparent`, `tracestate`) of the active span, for
+ * message application properties. Empty when nothing is being traced.
+ */
+export function injectTraceContext(): Record<string, string> {
+  const carrier: Record<string, string> = {};
+  propagation.inject(otelContext.active(), carrier);
+  return carrier;
+}
+
+export function recordOrdersCreated(count: number, source: 'api' | 'import'): void {
+  if (count > 0) {
+    getInstruments().ordersCreated.add(count, { 'order.source': source });
+  }
+}
+
+/** Counts a failed operation by error code and marks the active span. */
+export function recordFailure(code: string, functionName: string): void {
+  trace.getActiveSpan()?.setAttribute('error.code', code);
+  getInstruments().failures.add(1, { 'error.code': code, 'faas.name': functionName });
+}
+
+function getTracer(): Tracer {
+  initializeTelemetry();
+  return trace.getTracer(SERVICE_NAME);
+}
+
+// Meters handed out before a provider is registered stay no-ops, so the
+// instruments are created on first use, after initialization.
+function getInstruments(): Instruments {
+  initializeTelemetry();
+  if (!instruments) {
+    const meter = metrics.getMeter(SERVICE_NAME);
+    instruments = {
+      ordersCreated: meter.createCounter('orders.created', {
+        description: 'Orders stored, by source',
+        unit: '{order}'
+      }),
+      failures: meter.createCounter('order.failures', {
+        description: 'Failed operations, by error code',
+        unit: '{failure}'
+      }),
+      duration: meter.createHistogram('order.function.duration', {
+        description: 'Function invocation latency',
+        unit: 'ms'
+      })
+    };
+  }
+  return instruments;
+}
+
+function markFailed(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error)?.message });
+  const code = (error as { code?: unknown })?.code;
+  if (typeof code === 'string') {
+    span.setAttribute('error.code', code);
+  }
+}
+
+function errorCode(error: unknown): string {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === 'string' ? code : 'INTERNAL_ERROR';
+}
+
+function spanKindOf(trigger: string): SpanKind {
+  if (trigger === 'httpTrigger') {
+    return SpanKind.SERVER;
+  }
+  if (trigger === 'serviceBusTrigger') {
+    return SpanKind.CONSUMER;
+  }
+  return SpanKind.INTERNAL;
+}
+
+const headersGetter: TextMapGetter<Headers> = {
+  get: (headers, key) => headers.get(key) ?? undefined,
+  keys: (headers) => Array.from(headers.keys())
+};
+
+function extractTraceContext(invocationContext: InvocationContext, triggerInput: unknown) {
+  const headers = (triggerInput as { headers?: unknown } | undefined)?.headers;
+  if (headers instanceof Headers) {
+    return propagation.extract(ROOT_CONTEXT, headers, headersGetter);
+  }
+
+  const properties = invocationContext.triggerMetadata?.applicationProperties;
+  if (properties && typeof properties === 'object' && !Array.isArray(properties)) {
+    return propagation.extract(ROOT_CONTEXT, properties as Record<string, unknown>);
+  }
+  return ROOT_CONTEXT;
+}
+
+// Telemetry must never stop orders from being processed, so a bad setting
+// only disables it.
+function selectExporter(): TelemetryExporter {
+  const exporter = process.env.TELEMETRY_EXPORTER ||
+    (process.env.APPLICATIONINSIGHTS_CONNECTION_STRING ? 'azuremonitor' : 'none');
+
+  if (!['azuremonitor', 'console', 'file', 'none'].includes(exporter)) {
+    configurationWarning = `Unknown TELEMETRY_EXPORTER "${exporter}", telemetry is disabled`;
+    return 'none';
+  }
+  return exporter as TelemetryExporter;
+}
+
+// Telemetry is set up before any invocation has a context to log through
+function reportConfigurationWarning(invocationContext: InvocationContext): void {
+  if (configurationWarning) {
+    createLogger(invocationContext).warn(configurationWarning);
+    configurationWarning = undefined;
+  }
+}
+
+function telemetryFile(name: string): string {
+  return path.resolve(process.env.TELEMETRY_FILE_PATH || '.data/telemetry', name);
+}
+
+// Azure Monitor batches; the local exporters write each span as it ends so
+// nothing is lost when a local host is stopped.
+function createSpanProcessor(exporter: TelemetryExporter): SpanProcessor {
+  switch (exporter) {
+    case 'azuremonitor':
+      return new BatchSpanProcessor(new AzureMonitorTraceExporter({
+        connectionString: process.env.APPLICATIONINSIGHTS_CONNECTION_STRING
+      }));
+    case 'console':
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'file':
+      return new SimpleSpanProcessor(new JsonLinesSpanExporter(telemetryFile('traces.jsonl')));
+  }
+}
+
+function createMetricReader(exporter: TelemetryExporter): MetricReader {
+  let metricExporter: PushMetricExporter;
+  switch (exporter) {
+    case 'azuremonitor':
+      metricExporter = new AzureMonitorMetricExporter({
+        connectionString: process.env.APPLICATIONINSIGHTS_CONNECTION_STRING
+      });
+      break;
+    case 'console':
+      metricExporter = new ConsoleMetricExporter();
+      break;
+    case 'file':
+      metricExporter = new JsonLinesMetricExporter(telemetryFile('metrics.jsonl'));
+      break;
+  }
+  return new PeriodicExportingMetricReader({
+    exporter: metricExporter,
+    exportIntervalMillis: METRIC_EXPORT_INTERVAL_MS
+  });
+}
+
+/** Appends each export as one OTLP/JSON request per line. */
+class JsonLinesSpanExporter implements SpanExporter {
+  constructor(private filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    appendLine(this.filePath, JsonTraceSerializer.serializeRequest(spans), resultCallback);
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+class JsonLinesMetricExporter implements PushMetricExporter {
+  constructor(private filePath: string) {}
+
+  export(resourceMetrics: ResourceMetrics, resultCallback: (result: ExportResult) => void): void {
+    appendLine(this.filePath, JsonMetricsSerializer.serializeRequest(resourceMetrics), resultCallback);
+  }
+
+  async forceFlush(): Promise<void> {}
+
+  async shutdown(): Promise<void> {}
+}
+
+function appendLine(
+  filePath: string,
+  payload: Uint8Array | undefined,
+  resultCallback: (result: ExportResult) => void
+): void {
+  fs.mkdir(path.dirname(filePath), { recursive: true })
+    .then(() => fs.appendFile(filePath, `${Buffer.from(payload ?? []).toString('utf8')}\n`, 'utf8'))
+    .then(
+      () => resultCallback({ code: ExportResultCode.SUCCESS }),
+      (error) => resultCallback({ code: ExportResultCode.FAILED, error })
+    );
+}